@@ -79,6 +79,12 @@ const App: React.FC = () => {
                             <ChatView />
                         </ProtectedRoute>
                     } />
+
+                    <Route path="/group/:groupId" element={
+                        <ProtectedRoute>
+                            <ChatView />
+                        </ProtectedRoute>
+                    } />
                     
                     {/* Default redirect */}
                     <Route path="*" element={<Navigate to="/" replace />} />
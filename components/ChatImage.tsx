@@ -0,0 +1,59 @@
+
+import React, { useEffect, useState } from 'react';
+import { ChatService } from '../services/chatService';
+import { Message } from '../types';
+
+interface ChatImageProps {
+    message: Message;
+    onOpen: (src: string) => void;
+}
+
+/*
+ * ChatImage Component
+ *
+ * Abstraction Function:
+ * The thumbnail of an image message. Shows the local copy while it uploads (with
+ * progress), otherwise resolves the attachment path to a URL. Clicking opens it full size.
+ */
+export const ChatImage: React.FC<ChatImageProps> = ({ message, onOpen }) => {
+    const [resolvedUrl, setResolvedUrl] = useState<string | null>(null);
+    const [hasFailed, setHasFailed] = useState(false);
+    const src = message.imageUrl || resolvedUrl;
+
+    useEffect(() => {
+        if (message.imageUrl || !message.imagePath) return;
+        let isCurrent = true;
+        setHasFailed(false);
+        ChatService.getInstance().getAttachmentUrl(message.imagePath)
+            .then(url => { if (isCurrent) setResolvedUrl(url); })
+            .catch(() => { if (isCurrent) setHasFailed(true); });
+        return () => { isCurrent = false; };
+    }, [message.imageUrl, message.imagePath]);
+
+    if (!src) {
+        return (
+            <div className="w-48 h-36 rounded-2xl bg-gray-200 border border-gray-200 flex items-center justify-center text-gray-400">
+                <i className={`fas ${hasFailed ? 'fa-image' : 'fa-spinner fa-spin'}`}></i>
+            </div>
+        );
+    }
+
+    const isUploading = message.uploadProgress !== undefined;
+    return (
+        <button onClick={() => onOpen(src)} className="relative block rounded-2xl overflow-hidden">
+            <img
+                src={src}
+                alt="Shared"
+                className={`rounded-2xl max-w-full max-h-60 object-cover border border-gray-200 shadow-sm ${isUploading ? 'opacity-60' : ''}`}
+            />
+            {isUploading && (
+                <div className="absolute inset-x-3 bottom-3 h-1.5 rounded-full bg-white/60 overflow-hidden">
+                    <div
+                        className="h-full bg-ubc-blue transition-all"
+                        style={{ width: `${Math.round(message.uploadProgress! * 100)}%` }}
+                    />
+                </div>
+            )}
+        </button>
+    );
+};
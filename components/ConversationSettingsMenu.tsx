@@ -0,0 +1,113 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { ConversationSettings } from '../types';
+import { MUTE_DURATIONS, MuteDuration, isMuted, muteUntil } from '../utils/conversationSettings';
+
+interface ConversationSettingsMenuProps {
+    conversationId: string; // The other user's id, or the group's id
+    settings: ConversationSettings;
+    isArchived: boolean; // Whether the chat is in the archive right now
+}
+
+/*
+ * ConversationSettingsMenu Component
+ *
+ * Abstraction Function:
+ * A "more" button on a chats list row with Pin, Mute and Archive for that chat or group.
+ * Muting asks how long for inside the menu. Only I see these settings.
+ */
+export const ConversationSettingsMenu: React.FC<ConversationSettingsMenuProps> = ({ conversationId, settings, isArchived }) => {
+    const { updateConversationSettings, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [isChoosingMuteDuration, setIsChoosingMuteDuration] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+    const isMutedNow = isMuted(settings);
+
+    const muteLabels: Record<MuteDuration, string> = {
+        hour: t.conn_mute_hour,
+        eightHours: t.conn_mute_eightHours,
+        week: t.conn_mute_week,
+        forever: t.conn_mute_forever
+    };
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+                setIsChoosingMuteDuration(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const apply = (changes: Partial<ConversationSettings>) => {
+        setIsOpen(false);
+        setIsChoosingMuteDuration(false);
+        updateConversationSettings(conversationId, changes);
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title={t.conn_chat_options}
+                className="w-8 h-8 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center transition"
+            >
+                <i className="fas fa-ellipsis-v text-sm"></i>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-1 w-56 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-30 animate-fade-in-up">
+                    {isChoosingMuteDuration ? (
+                        <>
+                            <p className="px-4 py-2 text-xs font-bold text-gray-400 uppercase tracking-wider">{t.conn_mute}</p>
+                            {MUTE_DURATIONS.map(duration => (
+                                <button
+                                    key={duration}
+                                    onClick={() => apply({ mutedUntil: muteUntil(duration) })}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                                >
+                                    {muteLabels[duration]}
+                                </button>
+                            ))}
+                        </>
+                    ) : (
+                        <>
+                            {!isArchived && (
+                                <button
+                                    onClick={() => apply({ pinnedAt: settings.pinnedAt === null ? Date.now() : null })}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                                >
+                                    <i className="fas fa-thumbtack text-gray-400 w-4"></i>
+                                    {settings.pinnedAt === null ? t.conn_pin : t.conn_unpin}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => isMutedNow ? apply({ mutedUntil: null }) : setIsChoosingMuteDuration(true)}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                            >
+                                <i className={`fas ${isMutedNow ? 'fa-bell' : 'fa-bell-slash'} text-gray-400 w-4`}></i>
+                                {isMutedNow ? t.conn_unmute : t.conn_mute}
+                            </button>
+                            {/* Archived chats are not pinned; unarchiving leaves the pin off */}
+                            <button
+                                onClick={() => apply(isArchived ? { archivedAt: null } : { archivedAt: Date.now(), pinnedAt: null })}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                            >
+                                <i className="fas fa-archive text-gray-400 w-4"></i>
+                                {isArchived ? t.conn_unarchive : t.conn_archive}
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
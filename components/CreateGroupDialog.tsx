@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { Interest } from '../types';
+import { INTEREST_ICONS } from './GroupAvatar';
+import { GroupMemberPicker } from './GroupMemberPicker';
+
+interface CreateGroupDialogProps {
+    onClose: () => void;
+    onCreated: (groupId: string) => void;
+}
+
+/*
+ * CreateGroupDialog Component
+ *
+ * Abstraction Function:
+ * Starts a group chat: a name, an optional topic (one of the interests, used as
+ * the group's avatar) and the connections to invite.
+ */
+export const CreateGroupDialog: React.FC<CreateGroupDialogProps> = ({ onClose, onCreated }) => {
+    const { connections, createGroup, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [name, setName] = useState('');
+    const [interest, setInterest] = useState<Interest | undefined>(undefined);
+    const [memberIds, setMemberIds] = useState<string[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const canSubmit = !!name.trim() && memberIds.length > 0 && !isSubmitting;
+
+    const handleCreate = async () => {
+        if (!canSubmit) return;
+        setIsSubmitting(true);
+        const groupId = await createGroup(name, memberIds, interest);
+        setIsSubmitting(false);
+        if (groupId) onCreated(groupId);
+    };
+
+    return createPortal(
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-fade-in backdrop-blur-sm">
+            <div className="bg-white rounded-2xl w-full max-w-md p-6 shadow-2xl animate-scale-in max-h-[90vh] flex flex-col">
+                <h3 className="text-xl font-bold text-gray-800">{t.group_new}</h3>
+
+                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mt-5 mb-1">{t.group_name}</label>
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={t.group_name_placeholder}
+                    maxLength={60}
+                    className="w-full bg-gray-100 rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-ubc-blue/50"
+                />
+
+                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mt-5 mb-2">{t.group_topic}</label>
+                <div className="flex flex-wrap gap-2">
+                    {Object.values(Interest).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setInterest(interest === option ? undefined : option)}
+                            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition flex items-center gap-1.5
+                                ${interest === option ? 'bg-ubc-blue text-white border-ubc-blue' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'}
+                            `}
+                        >
+                            <i className={`fas ${INTEREST_ICONS[option]}`}></i>
+                            {option}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mt-5 mb-2">{t.group_members}</label>
+                <GroupMemberPicker candidates={connections} selectedIds={memberIds} onChange={setMemberIds} />
+
+                <div className="flex gap-3 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 py-3 text-gray-600 font-bold bg-gray-100 rounded-xl hover:bg-gray-200 transition"
+                    >
+                        {t.safety_cancel}
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={!canSubmit}
+                        className="flex-1 py-3 text-white font-bold bg-ubc-blue rounded-xl hover:bg-ubc-blue/90 transition disabled:opacity-50"
+                    >
+                        {t.group_create}
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
@@ -0,0 +1,174 @@
+
+import React, { useState } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { DEFAULT_DISCOVERY_FILTERS } from '../utils/discoveryFilters';
+import { DiscoveryFilters, Major, Interest, Language } from '../types';
+
+interface DiscoveryFilterPanelProps {
+    onClose: () => void;
+}
+
+type MajorState = 'neutral' | 'include' | 'exclude';
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+/*
+ * DiscoveryFilterPanel Component
+ *
+ * Abstraction Function:
+ * Modal editor for the discovery filters. Edits a local draft and only saves
+ * (which also reloads the queue) when the user applies it.
+ * Major chips cycle neutral -> include -> exclude.
+ */
+export const DiscoveryFilterPanel: React.FC<DiscoveryFilterPanelProps> = ({ onClose }) => {
+    const { discoveryFilters, setDiscoveryFilters, currentUser, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [draft, setDraft] = useState<DiscoveryFilters>(discoveryFilters);
+
+    const majorState = (major: Major): MajorState =>
+        draft.includeMajors.includes(major) ? 'include' :
+        draft.excludeMajors.includes(major) ? 'exclude' : 'neutral';
+
+    const cycleMajor = (major: Major) => {
+        const state = majorState(major);
+        setDraft(prev => ({
+            ...prev,
+            includeMajors: state === 'neutral'
+                ? [...prev.includeMajors, major]
+                : prev.includeMajors.filter(m => m !== major),
+            excludeMajors: state === 'include'
+                ? [...prev.excludeMajors, major]
+                : prev.excludeMajors.filter(m => m !== major)
+        }));
+    };
+
+    const handleApply = () => {
+        setDiscoveryFilters({ ...draft, homeCountry: draft.homeCountry.trim() });
+        onClose();
+    };
+
+    const chipClass = (isSelected: boolean) => `px-3 py-1.5 rounded-full text-sm font-medium transition border
+        ${isSelected
+            ? 'bg-ubc-gold border-ubc-gold text-white shadow-sm'
+            : 'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'
+        }
+    `;
+
+    return (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-fade-in backdrop-blur-sm">
+            <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 shadow-2xl animate-scale-in">
+                <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-xl font-bold text-gray-800">{t.filter_title}</h3>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100"
+                    >
+                        <i className="fas fa-times"></i>
+                    </button>
+                </div>
+
+                <div className="space-y-6">
+                    {/* Majors */}
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-2">{t.filter_majors}</label>
+                        <p className="text-xs text-gray-400 mb-2">{t.filter_majors_hint}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {Object.values(Major).map(major => {
+                                const state = majorState(major);
+                                return (
+                                    <button
+                                        key={major}
+                                        onClick={() => cycleMajor(major)}
+                                        className={`px-3 py-1.5 rounded-full text-sm font-medium transition border
+                                            ${state === 'include' ? 'bg-green-500 border-green-500 text-white shadow-sm' :
+                                              state === 'exclude' ? 'bg-red-500 border-red-500 text-white shadow-sm line-through' :
+                                              'bg-white border-gray-300 text-gray-600 hover:bg-gray-50'}
+                                        `}
+                                    >
+                                        {state === 'include' && <i className="fas fa-check mr-1 text-xs"></i>}
+                                        {state === 'exclude' && <i className="fas fa-ban mr-1 text-xs"></i>}
+                                        {major}
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {currentUser?.major && (
+                            <label className="flex items-center gap-2 mt-3 text-sm text-gray-600 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.includeOwnMajor}
+                                    onChange={(e) => setDraft(prev => ({ ...prev, includeOwnMajor: e.target.checked }))}
+                                    className="w-4 h-4 accent-ubc-blue"
+                                />
+                                {t.filter_own_major} ({currentUser.major})
+                            </label>
+                        )}
+                    </div>
+
+                    {/* Interests */}
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-2">{t.filter_interests}</label>
+                        <div className="flex flex-wrap gap-2">
+                            {Object.values(Interest).map(interest => (
+                                <button
+                                    key={interest}
+                                    onClick={() => setDraft(prev => ({ ...prev, requiredInterests: toggle(prev.requiredInterests, interest) }))}
+                                    className={chipClass(draft.requiredInterests.includes(interest))}
+                                >
+                                    {interest}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Languages */}
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-2">{t.filter_languages}</label>
+                        <div className="flex flex-wrap gap-2">
+                            {Object.values(Language).map(lang => (
+                                <button
+                                    key={lang}
+                                    onClick={() => setDraft(prev => ({ ...prev, requiredLanguages: toggle(prev.requiredLanguages, lang) }))}
+                                    className={chipClass(draft.requiredLanguages.includes(lang))}
+                                >
+                                    {lang}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Home Country */}
+                    <div>
+                        <label className="block text-xs font-bold text-gray-500 uppercase mb-2">{t.filter_country}</label>
+                        <input
+                            type="text"
+                            value={draft.homeCountry}
+                            placeholder={t.filter_country_hint}
+                            onChange={(e) => setDraft(prev => ({ ...prev, homeCountry: e.target.value }))}
+                            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-ubc-blue focus:border-transparent outline-none"
+                        />
+                    </div>
+                </div>
+
+                <div className="flex gap-3 mt-8">
+                    <button
+                        onClick={() => setDraft({ ...DEFAULT_DISCOVERY_FILTERS })}
+                        className="flex-1 py-3 text-gray-600 font-bold bg-gray-100 rounded-xl hover:bg-gray-200 transition"
+                    >
+                        {t.filter_reset}
+                    </button>
+                    <button
+                        onClick={handleApply}
+                        className="flex-1 py-3 text-white font-bold bg-ubc-blue rounded-xl hover:bg-ubc-blue/90 transition"
+                    >
+                        {t.filter_apply}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,46 @@
+
+import React from 'react';
+import { GroupConversation, Interest } from '../types';
+
+// Font Awesome icon shown for a group's topic
+export const INTEREST_ICONS: Record<Interest, string> = {
+    [Interest.HIKING]: 'fa-hiking',
+    [Interest.VIDEO_GAMES]: 'fa-gamepad',
+    [Interest.PAINTING]: 'fa-palette',
+    [Interest.STARTUPS]: 'fa-rocket',
+    [Interest.READING]: 'fa-book-open',
+    [Interest.SKIING]: 'fa-skiing',
+    [Interest.CODING]: 'fa-code',
+    [Interest.MUSIC]: 'fa-music'
+};
+
+interface GroupAvatarProps {
+    group: Pick<GroupConversation, 'name' | 'photoUrl' | 'interest'>;
+    className?: string; // Size and border classes
+}
+
+/*
+ * GroupAvatar Component
+ *
+ * Abstraction Function:
+ * A group's photo, else the icon of its topic, else its initials.
+ */
+export const GroupAvatar: React.FC<GroupAvatarProps> = ({ group, className = 'w-10 h-10' }) => {
+    if (group.photoUrl) {
+        return <img src={group.photoUrl} alt={group.name} className={`${className} rounded-full object-cover`} />;
+    }
+    if (group.interest) {
+        return (
+            <div className={`${className} rounded-full bg-ubc-gold/20 text-ubc-blue flex items-center justify-center`}>
+                <i className={`fas ${INTEREST_ICONS[group.interest]}`}></i>
+            </div>
+        );
+    }
+    return (
+        <img
+            src={`https://ui-avatars.com/api/?name=${encodeURIComponent(group.name)}&background=E2A829&color=002145&size=128`}
+            alt={group.name}
+            className={`${className} rounded-full object-cover`}
+        />
+    );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { GroupConversation, Interest } from '../types';
+import { GroupAvatar, INTEREST_ICONS } from './GroupAvatar';
+import { GroupMemberPicker } from './GroupMemberPicker';
+
+interface GroupInfoPanelProps {
+    group: GroupConversation;
+    onClose: () => void;
+    onLeft: () => void;
+}
+
+/*
+ * GroupInfoPanel Component
+ *
+ * Abstraction Function:
+ * Settings of one group chat: rename it, change its topic (and so its avatar),
+ * see and add members, or leave it. Leaving asks for confirmation.
+ */
+export const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({ group, onClose, onLeft }) => {
+    const { currentUser, connections, updateGroup, addGroupMembers, leaveGroup, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [name, setName] = useState(group.name);
+    const [isAddingMembers, setIsAddingMembers] = useState(false);
+    const [newMemberIds, setNewMemberIds] = useState<string[]>([]);
+    const [isConfirmingLeave, setIsConfirmingLeave] = useState(false);
+
+    const candidates = connections.filter(c => !group.members.some(m => m.uid === c.uid));
+
+    const saveName = () => {
+        if (name.trim() && name.trim() !== group.name) updateGroup(group.id, { name });
+        else setName(group.name);
+    };
+
+    const handleAddMembers = () => {
+        if (newMemberIds.length > 0) addGroupMembers(group.id, newMemberIds);
+        setNewMemberIds([]);
+        setIsAddingMembers(false);
+    };
+
+    const handleLeave = () => {
+        leaveGroup(group.id);
+        onClose();
+        onLeft();
+    };
+
+    return createPortal(
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-fade-in backdrop-blur-sm">
+            <div className="bg-white rounded-2xl w-full max-w-md p-6 shadow-2xl animate-scale-in max-h-[90vh] overflow-y-auto">
+                <div className="flex items-start justify-between">
+                    <GroupAvatar group={group} className="w-16 h-16 text-2xl" />
+                    <button
+                        onClick={onClose}
+                        title={t.safety_cancel}
+                        className="w-8 h-8 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center"
+                    >
+                        <i className="fas fa-times"></i>
+                    </button>
+                </div>
+
+                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mt-4 mb-1">{t.group_name}</label>
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onBlur={saveName}
+                    onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                    maxLength={60}
+                    className="w-full bg-gray-100 rounded-xl px-4 py-2.5 text-sm font-bold text-gray-800 focus:outline-none focus:ring-2 focus:ring-ubc-blue/50"
+                />
+
+                <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider mt-5 mb-2">{t.group_topic}</label>
+                <div className="flex flex-wrap gap-2">
+                    {Object.values(Interest).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => updateGroup(group.id, { interest: group.interest === option ? null : option })}
+                            title={option}
+                            className={`w-9 h-9 rounded-full border transition flex items-center justify-center
+                                ${group.interest === option ? 'bg-ubc-blue text-white border-ubc-blue' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'}
+                            `}
+                        >
+                            <i className={`fas ${INTEREST_ICONS[option]}`}></i>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between mt-5 mb-2">
+                    <span className="text-xs font-bold text-gray-500 uppercase tracking-wider">
+                        {t.group_members} · {group.members.length}
+                    </span>
+                    {!isAddingMembers && (
+                        <button onClick={() => setIsAddingMembers(true)} className="text-xs font-bold text-ubc-blue hover:underline">
+                            <i className="fas fa-user-plus mr-1"></i>
+                            {t.group_add_members}
+                        </button>
+                    )}
+                </div>
+
+                {isAddingMembers ? (
+                    <div className="border border-gray-200 rounded-xl p-3">
+                        <GroupMemberPicker candidates={candidates} selectedIds={newMemberIds} onChange={setNewMemberIds} />
+                        <div className="flex gap-2 mt-3">
+                            <button
+                                onClick={() => { setIsAddingMembers(false); setNewMemberIds([]); }}
+                                className="flex-1 py-2 text-xs font-bold text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+                            >
+                                {t.safety_cancel}
+                            </button>
+                            <button
+                                onClick={handleAddMembers}
+                                disabled={newMemberIds.length === 0}
+                                className="flex-1 py-2 text-xs font-bold text-white bg-ubc-blue rounded-lg hover:bg-ubc-blue/90 transition disabled:opacity-50"
+                            >
+                                {t.group_add_members}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <ul className="divide-y divide-gray-100">
+                        {group.members.map(member => (
+                            <li key={member.uid} className="flex items-center gap-3 py-2">
+                                <img
+                                    src={member.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(member.displayName)}&background=0032A0&color=fff&size=128`}
+                                    alt={member.displayName}
+                                    className="w-8 h-8 rounded-full object-cover bg-gray-200"
+                                />
+                                <span className="text-sm font-medium text-gray-800 truncate">
+                                    {member.uid === currentUser?.uid ? t.chat_you : member.displayName}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {isConfirmingLeave ? (
+                    <div className="mt-6 bg-red-50 rounded-xl p-4">
+                        <p className="text-sm text-gray-600">{t.group_leave_desc}</p>
+                        <div className="flex gap-2 mt-3">
+                            <button
+                                onClick={() => setIsConfirmingLeave(false)}
+                                className="flex-1 py-2 text-sm font-bold text-gray-600 bg-white rounded-lg hover:bg-gray-100 transition"
+                            >
+                                {t.safety_cancel}
+                            </button>
+                            <button
+                                onClick={handleLeave}
+                                className="flex-1 py-2 text-sm font-bold text-white bg-red-500 rounded-lg hover:bg-red-600 transition"
+                            >
+                                {t.group_leave}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <button
+                        onClick={() => setIsConfirmingLeave(true)}
+                        className="w-full mt-6 py-3 text-red-600 font-bold bg-red-50 rounded-xl hover:bg-red-100 transition flex items-center justify-center gap-2"
+                    >
+                        <i className="fas fa-sign-out-alt"></i>
+                        {t.group_leave}
+                    </button>
+                )}
+            </div>
+        </div>,
+        document.body
+    );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { ConnectionModel } from '../types';
+
+interface GroupMemberPickerProps {
+    candidates: ConnectionModel[];
+    selectedIds: string[];
+    onChange: (selectedIds: string[]) => void;
+}
+
+/*
+ * GroupMemberPicker Component
+ *
+ * Abstraction Function:
+ * A scrollable checklist of connections to put in a group.
+ */
+export const GroupMemberPicker: React.FC<GroupMemberPickerProps> = ({ candidates, selectedIds, onChange }) => {
+    const { uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const toggle = (uid: string) => {
+        onChange(selectedIds.includes(uid) ? selectedIds.filter(id => id !== uid) : [...selectedIds, uid]);
+    };
+
+    if (candidates.length === 0) {
+        return <p className="text-sm text-gray-400 italic py-2">{t.group_no_connections}</p>;
+    }
+
+    return (
+        <div className="overflow-y-auto max-h-56 -mx-2">
+            {candidates.map(conn => (
+                <label key={conn.uid} className="flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={selectedIds.includes(conn.uid)}
+                        onChange={() => toggle(conn.uid)}
+                        className="w-4 h-4 accent-ubc-blue"
+                    />
+                    <img
+                        src={conn.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(conn.displayName)}&background=0032A0&color=fff&size=128`}
+                        alt={conn.displayName}
+                        className="w-8 h-8 rounded-full object-cover bg-gray-200"
+                    />
+                    <span className="text-sm font-medium text-gray-800 truncate">{conn.displayName}</span>
+                </label>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { highlightText } from '../utils/userSearch';
+
+interface HighlightedTextProps {
+    text: string;
+    needles?: string[]; // Case-insensitive substrings to mark
+}
+
+/*
+ * HighlightedText Component
+ *
+ * Abstraction Function:
+ * Renders text with the given substrings marked, e.g. search terms in a result.
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, needles }) => (
+    <>
+        {highlightText(text, needles).map((segment, i) => segment.match
+            ? <mark key={i} className="bg-ubc-gold/30 text-inherit rounded px-0.5">{segment.text}</mark>
+            : <React.Fragment key={i}>{segment.text}</React.Fragment>
+        )}
+    </>
+);
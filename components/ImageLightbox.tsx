@@ -0,0 +1,49 @@
+
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+
+interface ImageLightboxProps {
+    src: string;
+    onClose: () => void;
+}
+
+/*
+ * ImageLightbox Component
+ *
+ * Abstraction Function:
+ * Full-screen view of one image. Closes on the backdrop, the close button or Escape.
+ */
+export const ImageLightbox: React.FC<ImageLightboxProps> = ({ src, onClose }) => {
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [onClose]);
+
+    return createPortal(
+        <div
+            role="dialog"
+            aria-modal="true"
+            onClick={onClose}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 p-4 animate-fade-in"
+        >
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 w-10 h-10 rounded-full text-white/80 hover:text-white hover:bg-white/10 flex items-center justify-center transition"
+            >
+                <i className="fas fa-times text-xl"></i>
+            </button>
+            <img
+                src={src}
+                alt="Shared"
+                onClick={(e) => e.stopPropagation()}
+                className="max-w-full max-h-full object-contain rounded-lg shadow-2xl animate-scale-in"
+            />
+        </div>,
+        document.body
+    );
+};
@@ -30,6 +30,17 @@ const ToastContainer: React.FC = () => {
                         note.type === 'error' ? 'fa-exclamation-circle' : 'fa-info-circle'
                     }`}></i>
                     <p className="text-sm font-medium flex-1">{note.message}</p>
+                    {note.action && (
+                        <button
+                            onClick={() => {
+                                note.action!.onClick();
+                                removeNotification(note.id);
+                            }}
+                            className="text-sm font-bold underline underline-offset-2 hover:opacity-80"
+                        >
+                            {note.action.label}
+                        </button>
+                    )}
                     <button onClick={() => removeNotification(note.id)} className="opacity-70 hover:opacity-100">
                         <i className="fas fa-times"></i>
                     </button>
@@ -46,7 +57,7 @@ const ToastContainer: React.FC = () => {
  * Desktop: Sidebar Navigation, fills screen with dashboard layout.
  */
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const { isAuthenticated, logout, uiLanguage, incomingRequests } = useAppStore();
+    const { isAuthenticated, logout, uiLanguage, incomingRequests, unreadCount } = useAppStore();
     const location = useLocation();
     const t = TRANSLATIONS[uiLanguage];
 
@@ -54,7 +65,9 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
     const isActive = (path: string) => location.pathname === path ? 'text-ubc-blue' : 'text-gray-400';
     const isActiveDesktop = (path: string) => location.pathname === path ? 'bg-blue-800/50 border-l-4 border-ubc-gold' : 'hover:bg-blue-800/30';
 
-    const hasRequests = incomingRequests.length > 0;
+    // Friend requests and unread messages both badge the Chats tab
+    const chatsBadgeCount = incomingRequests.length + unreadCount;
+    const hasChatsBadge = chatsBadgeCount > 0;
 
     return (
         <div className="min-h-screen bg-gray-50 flex flex-col md:flex-row h-screen overflow-hidden">
@@ -78,10 +91,10 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                         <Link to="/connections" className={`relative flex items-center gap-4 px-4 py-3 rounded-lg transition-all ${isActiveDesktop('/connections')}`}>
                             <div className="relative">
                                 <i className="fas fa-comments w-6 text-center"></i>
-                                {hasRequests && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-ubc-blue"></span>}
+                                {hasChatsBadge && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-ubc-blue"></span>}
                             </div>
                             <span className="font-medium">{t.nav_chats}</span>
-                            {hasRequests && <span className="ml-auto bg-red-500 text-white text-xs font-bold px-2 py-0.5 rounded-full">{incomingRequests.length}</span>}
+                            {hasChatsBadge && <span className="ml-auto bg-red-500 text-white text-xs font-bold px-2 py-0.5 rounded-full">{chatsBadgeCount > 99 ? '99+' : chatsBadgeCount}</span>}
                         </Link>
                         <Link to="/profile" className={`flex items-center gap-4 px-4 py-3 rounded-lg transition-all ${isActiveDesktop('/profile')}`}>
                             <i className="fas fa-user w-6 text-center"></i>
@@ -135,7 +148,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
                         <Link to="/connections" className={`relative flex flex-col items-center ${isActive('/connections')}`}>
                             <div className="relative">
                                 <i className="fas fa-comments text-xl mb-1"></i>
-                                {hasRequests && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-white"></span>}
+                                {hasChatsBadge && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-red-500 rounded-full border-2 border-white"></span>}
                             </div>
                             <span className="text-xs">{t.nav_chats}</span>
                         </Link>
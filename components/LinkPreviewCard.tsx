@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { ChatService } from '../services/chatService';
+import { LinkPreview } from '../types';
+
+interface LinkPreviewCardProps {
+    url: string;
+    isMine: boolean;
+}
+
+/*
+ * LinkPreviewCard Component
+ *
+ * Abstraction Function:
+ * The unfurled preview of a link under a chat bubble: image, site, title and
+ * description of the page. Renders nothing until (and unless) there is a preview.
+ */
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url, isMine }) => {
+    const [preview, setPreview] = useState<LinkPreview | null>(null);
+    const [hasImageFailed, setHasImageFailed] = useState(false);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setPreview(null);
+        setHasImageFailed(false);
+        ChatService.getInstance().getLinkPreview(url)
+            .then(result => { if (isCurrent) setPreview(result); });
+        return () => { isCurrent = false; };
+    }, [url]);
+
+    if (!preview) return null;
+
+    return (
+        <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={`block mt-2 rounded-xl overflow-hidden border max-w-xs
+                ${isMine ? 'border-white/30 bg-white/10 hover:bg-white/20' : 'border-gray-200 bg-gray-50 hover:bg-gray-100'}
+            `}
+        >
+            {preview.imageUrl && !hasImageFailed && (
+                <img
+                    src={preview.imageUrl}
+                    alt=""
+                    onError={() => setHasImageFailed(true)}
+                    className="w-full h-32 object-cover bg-gray-200"
+                />
+            )}
+            <div className="px-3 py-2">
+                {preview.siteName && (
+                    <p className={`text-[11px] uppercase tracking-wide truncate ${isMine ? 'text-white/70' : 'text-gray-400'}`}>
+                        <i className="fas fa-link mr-1"></i>
+                        {preview.siteName}
+                    </p>
+                )}
+                {preview.title && <p className="text-sm font-bold leading-snug line-clamp-2">{preview.title}</p>}
+                {preview.description && (
+                    <p className={`text-xs line-clamp-2 mt-0.5 ${isMine ? 'text-white/80' : 'text-gray-500'}`}>{preview.description}</p>
+                )}
+            </div>
+        </a>
+    );
+};
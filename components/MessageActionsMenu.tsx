@@ -0,0 +1,134 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { Message } from '../types';
+
+interface MessageActionsMenuProps {
+    message: Message;
+    isMine: boolean;
+    onEdit: () => void; // Puts the message into the input bar
+    onReply: () => void; // Quotes the message above the input bar
+    align: 'left' | 'right';
+}
+
+/*
+ * MessageActionsMenu Component
+ *
+ * Abstraction Function:
+ * A small "..." button beside a chat bubble with Reply and Delete for me, plus
+ * Edit (text only) and Unsend for my own messages.
+ * Unsending asks for confirmation inside the menu.
+ */
+export const MessageActionsMenu: React.FC<MessageActionsMenuProps> = ({ message, isMine, onEdit, onReply, align }) => {
+    const { deleteMessageForMe, unsendMessage, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [isConfirmingUnsend, setIsConfirmingUnsend] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+                setIsConfirmingUnsend(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const close = () => {
+        setIsOpen(false);
+        setIsConfirmingUnsend(false);
+    };
+
+    return (
+        <div className="relative self-center" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title={t.chat_message_options}
+                className={`w-7 h-7 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center transition
+                    ${isOpen ? 'opacity-100' : 'opacity-0 group-hover/row:opacity-100 focus:opacity-100'}
+                `}
+            >
+                <i className="fas fa-ellipsis-h text-xs"></i>
+            </button>
+
+            {isOpen && (
+                <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} bottom-full mb-1 w-48 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-30 animate-fade-in-up`}>
+                    {isConfirmingUnsend ? (
+                        <div className="px-4 py-2">
+                            <p className="text-xs text-gray-500">{t.chat_unsend_desc}</p>
+                            <div className="flex gap-2 mt-3">
+                                <button
+                                    onClick={() => setIsConfirmingUnsend(false)}
+                                    className="flex-1 py-1.5 text-xs font-bold text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+                                >
+                                    {t.safety_cancel}
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        close();
+                                        unsendMessage(message.id);
+                                    }}
+                                    className="flex-1 py-1.5 text-xs font-bold text-white bg-red-500 rounded-lg hover:bg-red-600 transition"
+                                >
+                                    {t.chat_unsend}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => {
+                                    close();
+                                    onReply();
+                                }}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                            >
+                                <i className="fas fa-reply text-gray-400 w-4"></i>
+                                {t.chat_reply}
+                            </button>
+                            {isMine && message.type === 'text' && (
+                                <button
+                                    onClick={() => {
+                                        close();
+                                        onEdit();
+                                    }}
+                                    className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                                >
+                                    <i className="fas fa-pen text-gray-400 w-4"></i>
+                                    {t.chat_edit}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => {
+                                    close();
+                                    deleteMessageForMe(message.id);
+                                }}
+                                className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                            >
+                                <i className="fas fa-trash-alt text-gray-400 w-4"></i>
+                                {t.chat_delete_for_me}
+                            </button>
+                            {isMine && (
+                                <button
+                                    onClick={() => setIsConfirmingUnsend(true)}
+                                    className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 flex items-center gap-3"
+                                >
+                                    <i className="fas fa-undo w-4"></i>
+                                    {t.chat_unsend}
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
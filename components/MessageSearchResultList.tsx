@@ -0,0 +1,79 @@
+import React from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { MessageSearchResult } from '../types';
+import { formatRecentTime } from '../utils/timeFormat';
+import { GroupAvatar } from './GroupAvatar';
+import { HighlightedText } from './HighlightedText';
+
+interface MessageSearchResultListProps {
+    results: MessageSearchResult[];
+    showConversation: boolean; // Name the chat each result is in (when searching every chat)
+    onSelect: (result: MessageSearchResult) => void;
+}
+
+/*
+ * MessageSearchResultList Component
+ *
+ * Abstraction Function:
+ * Chat search results, best match first: who wrote each message, when, and a
+ * snippet with the search terms marked. Results in chats that are no longer in
+ * the chats list are left out.
+ */
+export const MessageSearchResultList: React.FC<MessageSearchResultListProps> = ({ results, showConversation, onSelect }) => {
+    const { conversations, connections, groups, currentUser, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const rows = results.flatMap(result => {
+        const { message } = result;
+        const group = result.isGroup ? groups.find(g => g.id === result.conversationId) : undefined;
+        const connection = result.isGroup ? undefined
+            : conversations.find(c => c.connection.uid === result.conversationId)?.connection
+            || connections.find(c => c.uid === result.conversationId);
+        if (!group && !connection) return [];
+
+        const isMine = message.senderId === currentUser?.uid;
+        const senderName = isMine ? t.chat_you
+            : group ? group.members.find(m => m.uid === message.senderId)?.displayName || ''
+            : connection!.displayName;
+        // Like the chats list previews: "You: " on mine, the sender's first name in groups
+        const prefix = isMine ? t.conn_you_prefix : group && senderName ? `${senderName.split(' ')[0]}: ` : '';
+        return [{ result, group, connection: connection!, senderName, prefix }];
+    });
+
+    return (
+        <ul className="divide-y divide-gray-100">
+            {rows.map(({ result, group, connection, senderName, prefix }) => (
+                <li key={result.message.id}>
+                    <button
+                        onClick={() => onSelect(result)}
+                        className="w-full text-left p-3 flex items-start gap-3 hover:bg-gray-50 transition"
+                    >
+                        {showConversation && (group
+                            ? <GroupAvatar group={group} className="w-10 h-10 flex-shrink-0" />
+                            : <img
+                                src={connection.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(connection.displayName)}&background=0032A0&color=fff&size=128`}
+                                alt={connection.displayName}
+                                className="w-10 h-10 rounded-full object-cover bg-gray-200 flex-shrink-0"
+                            />
+                        )}
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-baseline justify-between gap-2">
+                                <span className="text-sm font-bold text-gray-800 truncate">
+                                    {showConversation ? (group ? group.name : connection.displayName) : senderName}
+                                </span>
+                                <span className="text-xs text-gray-400 flex-shrink-0">
+                                    {formatRecentTime(result.message.timestamp, t.conn_yesterday)}
+                                </span>
+                            </div>
+                            <p className="text-sm text-gray-600 line-clamp-2 break-words">
+                                {showConversation && prefix && <span className="text-gray-400">{prefix}</span>}
+                                <HighlightedText text={result.snippet} needles={result.terms} />
+                            </p>
+                        </div>
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+};
@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { MessageNode, parseMessageText } from '../utils/messageFormat';
+
+interface MessageTextProps {
+    text: string;
+    isMine: boolean; // Mine sit on blue, so links and code need lighter colors
+}
+
+const renderNodes = (nodes: MessageNode[], isMine: boolean): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.type) {
+        case 'text':
+            return <React.Fragment key={i}>{node.text}</React.Fragment>;
+        case 'link':
+            return (
+                <a
+                    key={i}
+                    href={node.href}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`underline break-all ${isMine ? 'text-white' : 'text-ubc-blue'}`}
+                >
+                    {node.text}
+                </a>
+            );
+        case 'code':
+            return <code key={i} className={`font-mono text-[0.85em] rounded px-1 ${isMine ? 'bg-white/20' : 'bg-gray-100'}`}>{node.text}</code>;
+        case 'codeBlock':
+            return <pre key={i} className={`font-mono text-xs rounded-lg p-2 my-1 overflow-x-auto ${isMine ? 'bg-white/15' : 'bg-gray-100'}`}>{node.text}</pre>;
+        case 'bold':
+            return <strong key={i}>{renderNodes(node.children, isMine)}</strong>;
+        case 'italic':
+            return <em key={i}>{renderNodes(node.children, isMine)}</em>;
+    }
+});
+
+/*
+ * MessageText Component
+ *
+ * Abstraction Function:
+ * The text of a chat bubble with clickable links, line breaks and light markdown
+ * (see utils/messageFormat). Everything is rendered as React text, never as HTML.
+ */
+export const MessageText: React.FC<MessageTextProps> = ({ text, isMine }) => {
+    const nodes = useMemo(() => parseMessageText(text), [text]);
+    return <span className="whitespace-pre-wrap break-words">{renderNodes(nodes, isMine)}</span>;
+};
@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { MessageReaction } from '../types';
+
+interface ReactionChipsProps {
+    reactions: MessageReaction[];
+    currentUserId?: string;
+    onToggle: (emoji: string) => void;
+}
+
+/*
+ * ReactionChips Component
+ *
+ * Abstraction Function:
+ * One chip per emoji under a chat bubble, with its count. Chips I contributed to
+ * are highlighted; clicking a chip adds or takes back my reaction.
+ */
+export const ReactionChips: React.FC<ReactionChipsProps> = ({ reactions, currentUserId, onToggle }) => {
+    if (reactions.length === 0) return null;
+
+    return (
+        <div className="flex flex-wrap gap-1 mt-1">
+            {reactions.map(reaction => {
+                const isMine = !!currentUserId && reaction.userIds.includes(currentUserId);
+                return (
+                    <button
+                        key={reaction.emoji}
+                        onClick={() => onToggle(reaction.emoji)}
+                        className={`h-6 px-2 rounded-full text-xs flex items-center gap-1 border transition
+                            ${isMine
+                                ? 'bg-ubc-blue/10 border-ubc-blue/40 text-ubc-blue font-bold'
+                                : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                            }
+                        `}
+                    >
+                        <span>{reaction.emoji}</span>
+                        <span>{reaction.userIds.length}</span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,58 @@
+
+import React, { useEffect, useRef } from 'react';
+import { QUICK_REACTIONS } from '../utils/messageReactions';
+
+interface ReactionPickerProps {
+    selected: string[]; // Emoji I already reacted with
+    onSelect: (emoji: string) => void;
+    onClose: () => void;
+    align: 'left' | 'right';
+}
+
+/*
+ * ReactionPicker Component
+ *
+ * Abstraction Function:
+ * A row of quick emoji floating above a chat bubble. Picking one toggles my
+ * reaction and closes the picker; clicking anywhere else just closes it.
+ */
+export const ReactionPicker: React.FC<ReactionPickerProps> = ({ selected, onSelect, onClose, align }) => {
+    const pickerRef = useRef<HTMLDivElement>(null);
+
+    // Close when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+            if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+                onClose();
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        document.addEventListener('touchstart', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+            document.removeEventListener('touchstart', handleClickOutside);
+        };
+    }, [onClose]);
+
+    return (
+        <div
+            ref={pickerRef}
+            className={`absolute bottom-full mb-1 ${align === 'right' ? 'right-0' : 'left-0'} bg-white rounded-full shadow-xl border border-gray-100 px-2 py-1 flex gap-1 z-30 animate-fade-in-up`}
+        >
+            {QUICK_REACTIONS.map(emoji => (
+                <button
+                    key={emoji}
+                    onClick={() => {
+                        onSelect(emoji);
+                        onClose();
+                    }}
+                    className={`w-9 h-9 rounded-full text-xl flex items-center justify-center transition hover:scale-125
+                        ${selected.includes(emoji) ? 'bg-ubc-blue/10' : 'hover:bg-gray-100'}
+                    `}
+                >
+                    {emoji}
+                </button>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,68 @@
+
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+
+interface RemoveConnectionDialogProps {
+    targetUid: string;
+    displayName?: string;
+    onClose: () => void;
+    onRemoved?: () => void;
+}
+
+/*
+ * RemoveConnectionDialog Component
+ *
+ * Abstraction Function:
+ * Confirmation step before removing a mutual connection,
+ * with an option to hide the chat history as well.
+ */
+export const RemoveConnectionDialog: React.FC<RemoveConnectionDialogProps> = ({ targetUid, displayName, onClose, onRemoved }) => {
+    const { removeConnection, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [hideHistory, setHideHistory] = useState(false);
+
+    const handleConfirm = () => {
+        removeConnection(targetUid, hideHistory);
+        onClose();
+        onRemoved?.();
+    };
+
+    return createPortal(
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-fade-in backdrop-blur-sm">
+            <div className="bg-white rounded-2xl w-full max-w-sm p-6 shadow-2xl animate-scale-in">
+                <h3 className="text-xl font-bold text-gray-800">{t.conn_remove_title}</h3>
+                {displayName && <p className="text-sm font-medium text-gray-600 mt-1">{displayName}</p>}
+                <p className="text-sm text-gray-500 mt-3">{t.conn_remove_desc}</p>
+
+                <label className="flex items-center gap-2 mt-5 text-sm text-gray-600 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={hideHistory}
+                        onChange={(e) => setHideHistory(e.target.checked)}
+                        className="w-4 h-4 accent-red-500"
+                    />
+                    {t.conn_remove_hide_history}
+                </label>
+
+                <div className="flex gap-3 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 py-3 text-gray-600 font-bold bg-gray-100 rounded-xl hover:bg-gray-200 transition"
+                    >
+                        {t.safety_cancel}
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        className="flex-1 py-3 text-white font-bold bg-red-500 rounded-xl hover:bg-red-600 transition"
+                    >
+                        {t.conn_remove_confirm}
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
@@ -0,0 +1,110 @@
+
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { Language, ReportReason } from '../types';
+
+const REASON_LABELS: Record<ReportReason, keyof typeof TRANSLATIONS[Language.ENGLISH]> = {
+    [ReportReason.SPAM]: 'report_reason_spam',
+    [ReportReason.HARASSMENT]: 'report_reason_harassment',
+    [ReportReason.INAPPROPRIATE]: 'report_reason_inappropriate',
+    [ReportReason.FAKE_PROFILE]: 'report_reason_fake_profile',
+    [ReportReason.UNDERAGE]: 'report_reason_underage',
+    [ReportReason.OTHER]: 'report_reason_other'
+};
+
+interface ReportUserDialogProps {
+    targetUid: string;
+    displayName?: string;
+    onClose: () => void;
+    onBlocked?: () => void; // Called if the reporter also chose to block
+}
+
+/*
+ * ReportUserDialog Component
+ *
+ * Abstraction Function:
+ * Modal for reporting a user: a reason category, optional details,
+ * and an option to block them in the same step.
+ * Rendered into document.body so transformed parents (e.g. a swipe card) cannot clip it.
+ */
+export const ReportUserDialog: React.FC<ReportUserDialogProps> = ({ targetUid, displayName, onClose, onBlocked }) => {
+    const { reportUser, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [reason, setReason] = useState<ReportReason | null>(null);
+    const [details, setDetails] = useState('');
+    const [alsoBlock, setAlsoBlock] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async () => {
+        if (!reason) return;
+        setIsSubmitting(true);
+        await reportUser(targetUid, reason, details, alsoBlock);
+        setIsSubmitting(false);
+        onClose();
+        if (alsoBlock) onBlocked?.();
+    };
+
+    return createPortal(
+        <div role="dialog" aria-modal="true" className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-fade-in backdrop-blur-sm">
+            <div className="bg-white rounded-2xl w-full max-w-md max-h-[90vh] overflow-y-auto p-6 shadow-2xl animate-scale-in">
+                <div className="flex justify-between items-center mb-1">
+                    <h3 className="text-xl font-bold text-gray-800">{t.report_title}</h3>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-400 hover:text-gray-600 w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100"
+                    >
+                        <i className="fas fa-times"></i>
+                    </button>
+                </div>
+                {displayName && <p className="text-sm text-gray-500 mb-5">{displayName}</p>}
+
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2">{t.report_reason}</label>
+                <div className="space-y-2 mb-5">
+                    {Object.values(ReportReason).map(r => (
+                        <button
+                            key={r}
+                            onClick={() => setReason(r)}
+                            className={`w-full text-left px-4 py-3 rounded-xl border text-sm font-medium transition flex items-center justify-between
+                                ${reason === r ? 'border-red-400 bg-red-50 text-red-700' : 'border-gray-200 text-gray-700 hover:bg-gray-50'}
+                            `}
+                        >
+                            {t[REASON_LABELS[r]]}
+                            {reason === r && <i className="fas fa-check text-xs"></i>}
+                        </button>
+                    ))}
+                </div>
+
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2">{t.report_details}</label>
+                <textarea
+                    value={details}
+                    onChange={(e) => setDetails(e.target.value)}
+                    rows={3}
+                    maxLength={1000}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-ubc-blue focus:border-transparent outline-none resize-none"
+                />
+
+                <label className="flex items-center gap-2 mt-4 text-sm text-gray-600 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={alsoBlock}
+                        onChange={(e) => setAlsoBlock(e.target.checked)}
+                        className="w-4 h-4 accent-red-500"
+                    />
+                    {t.report_also_block}
+                </label>
+
+                <button
+                    onClick={handleSubmit}
+                    disabled={!reason || isSubmitting}
+                    className="w-full mt-6 py-3 text-white font-bold bg-red-500 rounded-xl hover:bg-red-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isSubmitting ? <i className="fas fa-spinner fa-spin"></i> : t.report_submit}
+                </button>
+            </div>
+        </div>,
+        document.body
+    );
+};
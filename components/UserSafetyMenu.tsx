@@ -0,0 +1,142 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { TRANSLATIONS } from '../utils/translations';
+import { ReportUserDialog } from './ReportUserDialog';
+import { RemoveConnectionDialog } from './RemoveConnectionDialog';
+
+interface UserSafetyMenuProps {
+    targetUid: string;
+    displayName?: string;
+    onBlocked?: () => void; // e.g. navigate away from a view about this user
+    onRemoved?: () => void; // After the connection is removed
+    canRemoveConnection?: boolean; // Only for existing connections
+    buttonClassName?: string;
+}
+
+/*
+ * UserSafetyMenu Component
+ *
+ * Abstraction Function:
+ * A "..." button with Report and Block actions for another user, plus
+ * Remove Connection when canRemoveConnection is set.
+ * Blocking asks for confirmation inside the menu; the other actions open a dialog.
+ */
+export const UserSafetyMenu: React.FC<UserSafetyMenuProps> = ({ targetUid, displayName, onBlocked, onRemoved, canRemoveConnection, buttonClassName }) => {
+    const { blockUser, uiLanguage } = useAppStore();
+    const t = TRANSLATIONS[uiLanguage];
+
+    const [isOpen, setIsOpen] = useState(false);
+    const [isConfirmingBlock, setIsConfirmingBlock] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [isRemoveOpen, setIsRemoveOpen] = useState(false);
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close dropdown when clicking outside
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+                setIsConfirmingBlock(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => {
+            document.removeEventListener('mousedown', handleClickOutside);
+        };
+    }, []);
+
+    const handleBlock = async () => {
+        setIsOpen(false);
+        setIsConfirmingBlock(false);
+        await blockUser(targetUid);
+        onBlocked?.();
+    };
+
+    return (
+        <div className="relative" ref={menuRef}>
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                title={t.safety_options}
+                className={buttonClassName || 'w-9 h-9 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center transition'}
+            >
+                <i className="fas fa-ellipsis-h"></i>
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-xl shadow-xl border border-gray-100 py-2 z-30 animate-fade-in-up">
+                    {isConfirmingBlock ? (
+                        <div className="px-4 py-2">
+                            <h4 className="font-bold text-gray-800">{t.safety_block_title}</h4>
+                            <p className="text-xs text-gray-500 mt-1">{t.safety_block_desc}</p>
+                            <div className="flex gap-2 mt-3">
+                                <button
+                                    onClick={() => setIsConfirmingBlock(false)}
+                                    className="flex-1 py-2 text-sm font-bold text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 transition"
+                                >
+                                    {t.safety_cancel}
+                                </button>
+                                <button
+                                    onClick={handleBlock}
+                                    className="flex-1 py-2 text-sm font-bold text-white bg-red-500 rounded-lg hover:bg-red-600 transition"
+                                >
+                                    {t.safety_block}
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            {canRemoveConnection && (
+                                <button
+                                    onClick={() => {
+                                        setIsOpen(false);
+                                        setIsRemoveOpen(true);
+                                    }}
+                                    className="w-full text-left px-5 py-3 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                                >
+                                    <i className="fas fa-user-minus text-gray-400 w-4"></i>
+                                    {t.conn_remove}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => {
+                                    setIsOpen(false);
+                                    setIsReportOpen(true);
+                                }}
+                                className="w-full text-left px-5 py-3 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-3"
+                            >
+                                <i className="fas fa-flag text-gray-400 w-4"></i>
+                                {t.safety_report}
+                            </button>
+                            <button
+                                onClick={() => setIsConfirmingBlock(true)}
+                                className="w-full text-left px-5 py-3 text-sm text-red-600 hover:bg-red-50 flex items-center gap-3"
+                            >
+                                <i className="fas fa-ban w-4"></i>
+                                {t.safety_block}
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            {isReportOpen && (
+                <ReportUserDialog
+                    targetUid={targetUid}
+                    displayName={displayName}
+                    onClose={() => setIsReportOpen(false)}
+                    onBlocked={onBlocked}
+                />
+            )}
+
+            {isRemoveOpen && (
+                <RemoveConnectionDialog
+                    targetUid={targetUid}
+                    displayName={displayName}
+                    onClose={() => setIsRemoveOpen(false)}
+                    onRemoved={onRemoved}
+                />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatService } from '../services/chatService';
+import { Message } from '../types';
+import { VOICE_NOTE_BARS, formatDuration } from '../utils/voiceNote';
+
+interface VoiceNotePlayerProps {
+    message: Message;
+    isMine: boolean;
+}
+
+// Starting one voice note pauses whichever was playing
+let playingAudio: HTMLAudioElement | null = null;
+
+/*
+ * VoiceNotePlayer Component
+ *
+ * Abstraction Function:
+ * The bubble content of a voice note: play/pause, the waveform recorded with it
+ * (filled up to the playback position) and its length. Clicking or dragging across
+ * the waveform seeks. Plays the local copy while it uploads, otherwise resolves the
+ * attachment path to a URL.
+ */
+export const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ message, isMine }) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [resolvedUrl, setResolvedUrl] = useState<string | null>(null);
+    const [hasFailed, setHasFailed] = useState(false);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [positionMs, setPositionMs] = useState(0);
+    const [isScrubbing, setIsScrubbing] = useState(false);
+    const src = message.audioUrl || resolvedUrl;
+
+    const durationMs = message.voiceNote?.durationMs || 0;
+    const waveform = message.voiceNote?.waveform.length
+        ? message.voiceNote.waveform
+        : new Array(VOICE_NOTE_BARS).fill(0.3);
+    const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+    useEffect(() => {
+        if (message.audioUrl || !message.audioPath) return;
+        let isCurrent = true;
+        setHasFailed(false);
+        ChatService.getInstance().getAttachmentUrl(message.audioPath)
+            .then(url => { if (isCurrent) setResolvedUrl(url); })
+            .catch(() => { if (isCurrent) setHasFailed(true); });
+        return () => { isCurrent = false; };
+    }, [message.audioUrl, message.audioPath]);
+
+    useEffect(() => () => {
+        if (playingAudio === audioRef.current) playingAudio = null;
+    }, []);
+
+    const togglePlay = () => {
+        const audio = audioRef.current;
+        if (!audio || !src) return;
+        if (!audio.paused) {
+            audio.pause();
+            return;
+        }
+        if (playingAudio && playingAudio !== audio) playingAudio.pause();
+        playingAudio = audio;
+        audio.play().catch(() => setHasFailed(true));
+    };
+
+    const seekTo = (e: React.PointerEvent<HTMLElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const fraction = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+        const target = fraction * durationMs;
+        setPositionMs(target);
+        if (audioRef.current && src) audioRef.current.currentTime = target / 1000;
+    };
+
+    const onScrubStart = (e: React.PointerEvent<HTMLElement>) => {
+        if (e.button !== 0 || !durationMs) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setIsScrubbing(true);
+        seekTo(e);
+    };
+
+    const played = isMine ? 'bg-white' : 'bg-ubc-blue';
+    const unplayed = isMine ? 'bg-white/40' : 'bg-gray-300';
+
+    return (
+        <div className="flex items-center gap-3 w-60 max-w-full py-1">
+            {src && (
+                <audio
+                    ref={audioRef}
+                    src={src}
+                    preload="metadata"
+                    onPlay={() => setIsPlaying(true)}
+                    onPause={() => setIsPlaying(false)}
+                    onTimeUpdate={(e) => { if (!isScrubbing) setPositionMs(e.currentTarget.currentTime * 1000); }}
+                    onEnded={() => { setIsPlaying(false); setPositionMs(0); }}
+                />
+            )}
+            <button
+                onClick={togglePlay}
+                disabled={!src}
+                aria-label={isPlaying ? 'Pause' : 'Play'}
+                className={`w-9 h-9 rounded-full flex items-center justify-center shrink-0 transition-colors
+                    ${isMine ? 'bg-white text-ubc-blue hover:bg-gray-100' : 'bg-ubc-blue text-white hover:bg-blue-800'}
+                    disabled:opacity-60
+                `}
+            >
+                <i className={`fas ${!src ? (hasFailed ? 'fa-exclamation' : 'fa-spinner fa-spin') : isPlaying ? 'fa-pause' : 'fa-play ml-0.5'} text-sm`}></i>
+            </button>
+            <div
+                role="slider"
+                aria-valuemin={0}
+                aria-valuemax={Math.round(durationMs / 1000)}
+                aria-valuenow={Math.round(positionMs / 1000)}
+                onPointerDown={onScrubStart}
+                onPointerMove={(e) => { if (isScrubbing) seekTo(e); }}
+                onPointerUp={() => setIsScrubbing(false)}
+                onPointerCancel={() => setIsScrubbing(false)}
+                className="flex-1 h-8 flex items-center gap-[2px] cursor-pointer touch-none"
+            >
+                {waveform.map((level, i) => (
+                    <div
+                        key={i}
+                        className={`flex-1 rounded-full ${(i + 0.5) / waveform.length <= progress ? played : unplayed}`}
+                        style={{ height: `${Math.max(12, level * 100)}%` }}
+                    />
+                ))}
+            </div>
+            <span className={`text-xs tabular-nums shrink-0 ${isMine ? 'text-white/80' : 'text-gray-500'}`}>
+                {formatDuration(isPlaying || positionMs > 0 ? positionMs : durationMs)}
+            </span>
+            {message.uploadProgress !== undefined && (
+                <i className={`fas fa-spinner fa-spin text-xs ${isMine ? 'text-white/70' : 'text-gray-400'}`}></i>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+
+export type SwipeDirection = 'left' | 'right';
+
+interface SwipeGestureOptions {
+    onSwipe: (direction: SwipeDirection) => void;
+    distanceThreshold?: number; // px the card must travel to count as a swipe
+    velocityThreshold?: number; // px/ms; a fast flick counts even if short
+    flyOutMs?: number;
+}
+
+interface PointerSample {
+    x: number;
+    t: number;
+}
+
+const VELOCITY_WINDOW_MS = 100;
+
+/*
+ * useSwipeGesture Hook
+ *
+ * Abstraction Function:
+ * Turns pointer drags on an element into left/right swipes.
+ * Tracks the drag offset for rendering, decides on release whether the distance or
+ * velocity threshold was met, and plays a fly-out animation before calling onSwipe.
+ * flyOut() lets buttons and keyboard shortcuts trigger the same animation.
+ */
+export const useSwipeGesture = ({
+    onSwipe,
+    distanceThreshold = 120,
+    velocityThreshold = 0.6,
+    flyOutMs = 250
+}: SwipeGestureOptions) => {
+    const [offset, setOffset] = useState({ x: 0, y: 0 });
+    const [isDragging, setIsDragging] = useState(false);
+    const [exiting, setExiting] = useState<SwipeDirection | null>(null);
+
+    const start = useRef<{ x: number; y: number; pointerId: number } | null>(null);
+    const samples = useRef<PointerSample[]>([]);
+    const exitTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // Keep the latest callback without re-binding handlers
+    const onSwipeRef = useRef(onSwipe);
+    onSwipeRef.current = onSwipe;
+
+    useEffect(() => () => {
+        if (exitTimer.current) clearTimeout(exitTimer.current);
+    }, []);
+
+    const flyOut = useCallback((direction: SwipeDirection) => {
+        if (exitTimer.current) return; // Already leaving
+
+        const distance = (typeof window !== 'undefined' ? window.innerWidth : 1000) + 200;
+        setIsDragging(false);
+        setExiting(direction);
+        setOffset(prev => ({ x: direction === 'right' ? distance : -distance, y: prev.y }));
+
+        exitTimer.current = setTimeout(() => {
+            exitTimer.current = null;
+            onSwipeRef.current(direction);
+            // The next card renders in place without animating back
+            setExiting(null);
+            setOffset({ x: 0, y: 0 });
+        }, flyOutMs);
+    }, [flyOutMs]);
+
+    const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+        if (exiting || e.button !== 0) return;
+        // Let links and buttons inside the card keep working
+        if ((e.target as HTMLElement).closest('a, button, input, textarea')) return;
+
+        start.current = { x: e.clientX, y: e.clientY, pointerId: e.pointerId };
+        samples.current = [{ x: e.clientX, t: e.timeStamp }];
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setIsDragging(true);
+    };
+
+    const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+        if (!start.current || e.pointerId !== start.current.pointerId) return;
+
+        setOffset({ x: e.clientX - start.current.x, y: e.clientY - start.current.y });
+        samples.current.push({ x: e.clientX, t: e.timeStamp });
+        // Only recent movement matters for velocity
+        while (samples.current.length > 2 && e.timeStamp - samples.current[0].t > VELOCITY_WINDOW_MS) {
+            samples.current.shift();
+        }
+    };
+
+    const endDrag = (e: React.PointerEvent<HTMLElement>) => {
+        if (!start.current || e.pointerId !== start.current.pointerId) return;
+
+        const dx = e.clientX - start.current.x;
+        const first = samples.current[0];
+        const elapsed = Math.max(e.timeStamp - first.t, 1);
+        const velocity = (e.clientX - first.x) / elapsed;
+
+        start.current = null;
+        samples.current = [];
+        setIsDragging(false);
+
+        const isFling = Math.abs(velocity) >= velocityThreshold && Math.sign(velocity) === Math.sign(dx);
+        if (e.type === 'pointerup' && (Math.abs(dx) >= distanceThreshold || isFling)) {
+            flyOut(dx > 0 ? 'right' : 'left');
+        } else {
+            // Snap back
+            setOffset({ x: 0, y: 0 });
+        }
+    };
+
+    // -1 (full left) .. 1 (full right), for overlays and the next-card preview
+    const progress = Math.max(-1, Math.min(1, offset.x / distanceThreshold));
+
+    const style: React.CSSProperties = {
+        transform: `translate(${offset.x}px, ${offset.y * 0.2}px) rotate(${offset.x / 20}deg)`,
+        transition: isDragging ? 'none' : `transform ${flyOutMs}ms ease-out`,
+        touchAction: 'pan-y',
+        cursor: isDragging ? 'grabbing' : 'grab'
+    };
+
+    return {
+        bind: {
+            onPointerDown,
+            onPointerMove,
+            onPointerUp: endDrag,
+            onPointerCancel: endDrag
+        },
+        style,
+        progress,
+        isDragging,
+        exiting,
+        flyOut
+    };
+};
@@ -0,0 +1,183 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { VoiceNoteMeta } from '../types';
+import { MAX_VOICE_NOTE_MS, MIN_VOICE_NOTE_MS, summarizeLevels } from '../utils/voiceNote';
+
+export interface VoiceRecording {
+    audio: Blob;
+    voiceNote: VoiceNoteMeta;
+}
+
+export type VoiceRecorderError = 'denied' | 'unsupported';
+
+interface VoiceRecorderOptions {
+    onRecorded: (recording: VoiceRecording) => void;
+    onError: (reason: VoiceRecorderError) => void;
+    onTooShort?: () => void; // Released before MIN_VOICE_NOTE_MS, e.g. a plain tap
+    cancelDistance?: number; // px to slide left to throw the recording away
+}
+
+// How often the input level is sampled for the waveform
+const LEVEL_SAMPLE_MS = 50;
+
+// Preferred recording formats; Safari only offers MP4
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+// Everything that lives only while recording
+interface Session {
+    stream: MediaStream;
+    recorder: MediaRecorder;
+    context: AudioContext;
+    chunks: Blob[];
+    levels: number[];
+    startedAt: number;
+    timer: ReturnType<typeof setInterval>;
+}
+
+/*
+ * useVoiceRecorder Hook
+ *
+ * Abstraction Function:
+ * Hold-to-record for a microphone button. Pressing starts a MediaRecorder and samples
+ * the input level for the waveform; releasing hands the recording to onRecorded, and
+ * sliding left past cancelDistance (or the pointer being taken away) throws it away.
+ * Recording stops by itself at MAX_VOICE_NOTE_MS.
+ */
+export const useVoiceRecorder = ({
+    onRecorded,
+    onError,
+    onTooShort,
+    cancelDistance = 80
+}: VoiceRecorderOptions) => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [elapsedMs, setElapsedMs] = useState(0);
+    const [slideX, setSlideX] = useState(0);
+
+    const session = useRef<Session | null>(null);
+    const press = useRef<{ x: number; pointerId: number } | null>(null);
+
+    // Keep the latest callbacks without re-binding handlers
+    const callbacks = useRef({ onRecorded, onError, onTooShort });
+    callbacks.current = { onRecorded, onError, onTooShort };
+
+    const finish = useCallback((keep: boolean) => {
+        const current = session.current;
+        press.current = null;
+        setIsRecording(false);
+        setSlideX(0);
+        setElapsedMs(0);
+        if (!current) return;
+
+        session.current = null;
+        clearInterval(current.timer);
+        const durationMs = Date.now() - current.startedAt;
+
+        current.recorder.onstop = () => {
+            current.stream.getTracks().forEach(track => track.stop());
+            current.context.close();
+            if (!keep) return;
+            if (durationMs < MIN_VOICE_NOTE_MS) {
+                callbacks.current.onTooShort?.();
+                return;
+            }
+            callbacks.current.onRecorded({
+                audio: new Blob(current.chunks, { type: current.recorder.mimeType || 'audio/webm' }),
+                voiceNote: { durationMs, waveform: summarizeLevels(current.levels) }
+            });
+        };
+        current.recorder.stop();
+    }, []);
+
+    // Leaving the chat mid-recording throws the recording away
+    useEffect(() => () => finish(false), [finish]);
+
+    const start = async (pointerId: number) => {
+        if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+            callbacks.current.onError('unsupported');
+            return;
+        }
+
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        } catch (err) {
+            press.current = null;
+            callbacks.current.onError('denied');
+            return;
+        }
+
+        // Released (or cancelled) while the permission prompt was open
+        if (press.current?.pointerId !== pointerId) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+
+        const mimeType = MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+        const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        const context = new AudioContext();
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 512;
+        context.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Uint8Array(analyser.fftSize);
+
+        const chunks: Blob[] = [];
+        const levels: number[] = [];
+        const startedAt = Date.now();
+        recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+        const timer = setInterval(() => {
+            // Peak distance from silence (128) in this slice of the signal
+            analyser.getByteTimeDomainData(samples);
+            let peak = 0;
+            samples.forEach(sample => { peak = Math.max(peak, Math.abs(sample - 128)); });
+            levels.push(peak / 128);
+
+            const elapsed = Date.now() - startedAt;
+            setElapsedMs(elapsed);
+            if (elapsed >= MAX_VOICE_NOTE_MS) finish(true);
+        }, LEVEL_SAMPLE_MS);
+
+        session.current = { stream, recorder, context, chunks, levels, startedAt, timer };
+        recorder.start();
+        setIsRecording(true);
+    };
+
+    const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+        if (press.current || e.button !== 0) return;
+        e.preventDefault();
+        press.current = { x: e.clientX, pointerId: e.pointerId };
+        e.currentTarget.setPointerCapture(e.pointerId);
+        start(e.pointerId);
+    };
+
+    const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+        if (!press.current || e.pointerId !== press.current.pointerId) return;
+
+        const dx = Math.min(0, e.clientX - press.current.x);
+        if (-dx >= cancelDistance) {
+            finish(false);
+        } else {
+            setSlideX(dx);
+        }
+    };
+
+    const endPress = (e: React.PointerEvent<HTMLElement>) => {
+        if (!press.current || e.pointerId !== press.current.pointerId) return;
+        finish(e.type === 'pointerup');
+    };
+
+    // 0 (not moved) .. 1 (about to cancel), for the "slide to cancel" hint
+    const cancelProgress = Math.min(1, -slideX / cancelDistance);
+
+    return {
+        bind: {
+            onPointerDown,
+            onPointerMove,
+            onPointerUp: endPress,
+            onPointerCancel: endPress
+        },
+        isRecording,
+        elapsedMs,
+        slideX,
+        cancelProgress,
+        cancel: () => finish(false)
+    };
+};
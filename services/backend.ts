@@ -0,0 +1,33 @@
+import { BackendAdapter } from './backendAdapter';
+import { SupabaseBackendAdapter } from './supabaseBackendAdapter';
+import { InMemoryBackendAdapter } from './inMemoryBackendAdapter';
+import { isSupabaseConfigured } from './supabaseClient';
+import { DEMO_SEED } from './demoSeed';
+
+let activeBackend: BackendAdapter | null = null;
+
+/*
+ * Picks the adapter from VITE_BACKEND ('supabase' | 'memory').
+ * Without an explicit choice, falls back to the in-memory demo backend when Supabase keys are missing.
+ */
+const createDefaultBackend = (): BackendAdapter => {
+    const choice = import.meta.env.VITE_BACKEND;
+    if (choice === 'memory' || (choice !== 'supabase' && !isSupabaseConfigured)) {
+        console.info('Cypress: using the in-memory backend with demo data');
+        return new InMemoryBackendAdapter(DEMO_SEED, { autoProvision: true });
+    }
+    return new SupabaseBackendAdapter();
+};
+
+/* Backend Accessor */
+export const getBackend = (): BackendAdapter => {
+    if (!activeBackend) {
+        activeBackend = createDefaultBackend();
+    }
+    return activeBackend;
+};
+
+/* Swaps the backend (tests, demos). Call before any data is loaded. */
+export const setBackend = (backend: BackendAdapter): void => {
+    activeBackend = backend;
+};
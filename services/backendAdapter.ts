@@ -0,0 +1,427 @@
+import { DiscoveryFilters } from '../types';
+
+/*
+ * BackendAdapter
+ *
+ * Abstraction Function:
+ * Describes the storage/auth operations the client needs from a backend, expressed
+ * in terms of the database rows (snake_case) rather than the app models.
+ * DataRepository and ChatService own the business logic and talk only to this interface,
+ * so the app can run against Supabase or entirely in memory.
+ *
+ * Rep Invariant:
+ * - Read/write methods resolve to { data, error } and never reject for backend errors.
+ * - Rows returned to callers are copies; mutating them does not change stored state.
+ */
+
+export interface BackendError {
+    message: string;
+    code?: string;
+}
+
+export interface BackendResult<T> {
+    data: T | null;
+    error: BackendError | null;
+}
+
+export interface AuthUser {
+    id: string;
+    email: string | null;
+}
+
+/*
+ * Table Rows
+ */
+export interface ProfileRow {
+    id: string;
+    email: string | null;
+    display_name: string | null;
+    major: string | null;
+    bio: string | null;
+    interests: string[] | null;
+    languages: string[] | null;
+    home_region: string | null;
+    photo_url: string | null;
+    is_searchable: boolean | null;
+    discovery_filters?: Partial<DiscoveryFilters> | null; // jsonb
+    last_seen_at?: string | null; // Refreshed while the user has the app open
+}
+
+export type ProfileInsert = Pick<ProfileRow, 'id'> & Partial<Omit<ProfileRow, 'id'>>;
+export type ProfileUpdate = Partial<Omit<ProfileRow, 'id'>>;
+
+export type SwipeAction = 'like' | 'pass';
+
+export interface ConnectionRow {
+    user_id: string;
+    target_user_id: string;
+    action: SwipeAction;
+    created_at: string;
+}
+
+export type ConnectionInsert = Omit<ConnectionRow, 'created_at'>;
+
+export interface MutualConnectionRow {
+    user_id_1: string;
+    user_id_2: string;
+    created_at: string;
+}
+
+export interface MessageRow {
+    id: string;
+    sender_id: string;
+    receiver_id: string | null; // null for group messages
+    conversation_id: string | null; // The group a group message belongs to
+    content: string;
+    image_url: string | null; // Legacy inline images; new ones are uploaded and use image_path
+    image_path: string | null; // Object in the chat attachments bucket
+    audio_path: string | null; // Voice note in the chat attachments bucket
+    audio_duration_ms: number | null;
+    audio_waveform: number[] | null; // Peak levels 0-1 for drawing the voice note
+    is_read: boolean;
+    delivered_at: string | null; // Set once the receiver's app has the message
+    client_id: string | null; // Generated by the sending app; unique, so retries cannot duplicate
+    edited_at: string | null;
+    reply_to_id: string | null; // The quoted message; cleared if it is unsent
+    deleted_for_sender: boolean; // "Delete for me" by the sender; the receiver still sees it
+    deleted_for_receiver: boolean; // Always false in groups; other members hide group messages with a HiddenMessageRow
+    created_at: string;
+}
+
+export type MessageInsert = Pick<MessageRow, 'sender_id' | 'receiver_id' | 'content'> & {
+    conversation_id?: string | null;
+    image_url?: string | null;
+    image_path?: string | null;
+    audio_path?: string | null;
+    audio_duration_ms?: number | null;
+    audio_waveform?: number[] | null;
+    is_read?: boolean;
+    client_id?: string | null;
+    reply_to_id?: string | null;
+};
+
+// One row per conversation partner: the latest visible message and my unread count
+export interface ConversationSummaryRow {
+    other_user_id: string;
+    last_message_id: string;
+    last_sender_id: string;
+    last_content: string;
+    last_image_url: string | null;
+    last_image_path: string | null;
+    last_audio_path: string | null;
+    last_created_at: string;
+    unread_count: number;
+}
+
+// One row per group userId belongs to that has visible messages
+export interface GroupSummaryRow {
+    conversation_id: string;
+    last_message_id: string;
+    last_sender_id: string;
+    last_content: string;
+    last_image_url: string | null;
+    last_image_path: string | null;
+    last_audio_path: string | null;
+    last_created_at: string;
+    unread_count: number; // Messages from others after the member's last_read_at
+}
+
+// A group conversation; one-to-one chats have no row here
+export interface ConversationRow {
+    id: string;
+    name: string;
+    photo_url: string | null;
+    interest: string | null; // What the group is about (an Interest value)
+    created_by: string;
+    created_at: string;
+}
+
+export type ConversationInsert = Pick<ConversationRow, 'name' | 'created_by'> & {
+    photo_url?: string | null;
+    interest?: string | null;
+};
+export type ConversationUpdate = Partial<Pick<ConversationRow, 'name' | 'photo_url' | 'interest'>>;
+
+export interface ParticipantRow {
+    conversation_id: string;
+    user_id: string;
+    joined_at: string;
+    last_read_at: string; // Group messages up to this time count as read
+    muted_until: string | null; // The member's own settings for the group, as in conversation_prefs
+    archived_at: string | null;
+    pinned_at: string | null;
+}
+
+export type ParticipantSettingsUpdate = Partial<Pick<ParticipantRow, 'muted_until' | 'archived_at' | 'pinned_at'>>;
+
+// A group message a member other than its sender deleted for themselves
+export interface HiddenMessageRow {
+    user_id: string;
+    message_id: string;
+}
+
+// Per-user settings for a conversation; the other participant never sees them
+export interface ConversationPrefsRow {
+    user_id: string;
+    other_user_id: string;
+    history_hidden_before: string | null; // Messages up to this time are hidden for user_id
+    muted_until: string | null; // No notifications or unread badge until then
+    archived_at: string | null; // Out of the chats list until a message newer than this
+    pinned_at: string | null; // Pinned chats are listed first, most recently pinned on top
+    updated_at: string;
+}
+
+export type ConversationPrefsUpsert = Pick<ConversationPrefsRow, 'user_id' | 'other_user_id'> &
+    Partial<Omit<ConversationPrefsRow, 'user_id' | 'other_user_id' | 'updated_at'>>;
+
+// One user's emoji on one message; a user can add several different emoji
+export interface ReactionRow {
+    message_id: string;
+    user_id: string;
+    emoji: string;
+    created_at: string;
+}
+
+export type ReactionInsert = Omit<ReactionRow, 'created_at'>;
+
+export interface BlockRow {
+    blocker_id: string;
+    blocked_id: string;
+    created_at: string;
+}
+
+export type BlockInsert = Omit<BlockRow, 'created_at'>;
+
+export interface ReportRow {
+    id: string;
+    reporter_id: string;
+    reported_id: string;
+    reason: string;
+    details: string | null;
+    created_at: string;
+}
+
+export type ReportInsert = Pick<ReportRow, 'reporter_id' | 'reported_id' | 'reason'> & {
+    details?: string | null;
+};
+
+// What a web page says about itself (Open Graph / <title>), as shown in a link preview
+export interface LinkPreviewRow {
+    url: string;
+    title: string | null;
+    description: string | null;
+    image_url: string | null;
+    site_name: string | null;
+}
+
+/*
+ * Query Shapes
+ */
+
+// Matches a profile when ANY of the set fields match
+export interface ProfileFieldMatch {
+    displayNameLike?: string; // Case-insensitive substring
+    homeRegionLike?: string;  // Case-insensitive substring
+    majorIn?: string[];
+    interestsOverlap?: string[];
+    languagesOverlap?: string[];
+}
+
+export interface ProfileQuery {
+    excludeIds?: string[];
+    majorIn?: string[];
+    majorNotIn?: string[];
+    interestsContainAll?: string[];
+    languagesContainAll?: string[];
+    homeRegionLike?: string; // Case-insensitive substring
+    searchableOnly?: boolean;
+    requireMajor?: boolean;
+    displayNameLike?: string;
+    // Every entry must match (AND of ORs)
+    matchEach?: ProfileFieldMatch[];
+    // Keyset pagination: only ids greater than afterId (use with orderById)
+    afterId?: string | null;
+    orderById?: boolean;
+    limit?: number;
+}
+
+export interface MessageFilter {
+    senderId?: string;
+    receiverId?: string;
+    // Group messages in any group this user belongs to. Membership is checked per event,
+    // so groups joined later need no new subscription
+    groupMemberId?: string;
+}
+
+// Keyset position in a conversation: messages sort by created_at, then id
+export interface MessageCursor {
+    createdAt: string;
+    id: string;
+}
+
+// Narrows a message search to one conversation or one group (neither: everything userId can see)
+export interface MessageSearchScope {
+    otherUserId?: string;
+    conversationId?: string;
+}
+
+export type Unsubscribe = () => void;
+
+/*
+ * Adapter Sections
+ */
+export interface AuthAdapter {
+    getSessionUser(): Promise<AuthUser | null>;
+    getUser(): Promise<AuthUser | null>;
+    signInWithPassword(email: string, password: string): Promise<BackendResult<AuthUser>>;
+    signUp(email: string, password: string): Promise<BackendResult<AuthUser>>;
+    signOut(): Promise<void>;
+}
+
+export interface ProfilesAdapter {
+    getById(id: string): Promise<BackendResult<ProfileRow>>;
+    getByIds(ids: string[]): Promise<BackendResult<ProfileRow[]>>;
+    insert(row: ProfileInsert): Promise<BackendResult<ProfileRow>>;
+    update(id: string, updates: ProfileUpdate): Promise<BackendResult<ProfileRow>>;
+    query(query: ProfileQuery): Promise<BackendResult<ProfileRow[]>>;
+}
+
+export interface ConnectionsAdapter {
+    // Swipes made by userId, optionally restricted to the given targets
+    listBySwiper(userId: string, targetIds?: string[]): Promise<BackendResult<ConnectionRow[]>>;
+    // 'like' swipes other users made on userId
+    listLikesReceived(userId: string): Promise<BackendResult<ConnectionRow[]>>;
+    // Inserting a 'like' that reciprocates another 'like' creates a mutual connection
+    insert(row: ConnectionInsert): Promise<BackendResult<ConnectionRow>>;
+    // Removes the swipe userId made on targetUserId (never touches mutual connections)
+    delete(userId: string, targetUserId: string): Promise<BackendResult<null>>;
+}
+
+export interface MutualConnectionsAdapter {
+    listForUser(userId: string): Promise<BackendResult<MutualConnectionRow[]>>;
+    // Removes the pair in whichever order it is stored; swipes are left untouched
+    delete(userId: string, otherUserId: string): Promise<BackendResult<null>>;
+}
+
+export interface ConversationPrefsAdapter {
+    // null data when the user never changed this conversation's settings
+    get(userId: string, otherUserId: string): Promise<BackendResult<ConversationPrefsRow>>;
+    listForUser(userId: string): Promise<BackendResult<ConversationPrefsRow[]>>;
+    upsert(row: ConversationPrefsUpsert): Promise<BackendResult<ConversationPrefsRow>>;
+}
+
+export interface MessagesAdapter {
+    // Inserting a client_id that is already stored returns the stored row instead
+    insert(row: MessageInsert): Promise<BackendResult<MessageRow>>;
+    // Only the sender can edit; sets edited_at
+    updateContent(messageId: string, senderId: string, content: string): Promise<BackendResult<MessageRow>>;
+    // Delete for me: hides the message from userId only. In groups this works for the sender
+    // and for every other member, each of whom keeps their own list of hidden messages
+    hideFor(messageId: string, userId: string): Promise<BackendResult<null>>;
+    // Unsend: removes the sender's message for both participants
+    delete(messageId: string, senderId: string): Promise<BackendResult<null>>;
+    // Specific messages (e.g. quoted ones), whoever they are from; unknown ids are skipped
+    listByIds(messageIds: string[]): Promise<BackendResult<MessageRow[]>>;
+    // Both directions between the two users, newest first: up to limit messages older than before.
+    // Messages userId deleted for themselves are skipped here and in the methods below
+    listConversationPage(userId: string, otherUserId: string, limit: number, before?: MessageCursor | null): Promise<BackendResult<MessageRow[]>>;
+    // Same paging for a group's messages
+    listGroupPage(userId: string, conversationId: string, limit: number, before?: MessageCursor | null): Promise<BackendResult<MessageRow[]>>;
+    // Up to limit messages userId can see whose content contains every term (case-insensitive),
+    // best match first as scored by utils/messageSearch, newest first among equal scores
+    search(userId: string, terms: string[], scope: MessageSearchScope, limit: number): Promise<BackendResult<MessageRow[]>>;
+    markRead(senderId: string, receiverId: string): Promise<BackendResult<null>>;
+    // Everything sent to receiverId that is not yet marked delivered
+    markDelivered(receiverId: string): Promise<BackendResult<null>>;
+    // Messages from excludeSenderIds (e.g. blocked users) are not counted
+    countUnread(receiverId: string, excludeSenderIds?: string[]): Promise<BackendResult<number>>;
+    // Every conversation userId has messages in; history hidden via conversationPrefs is skipped
+    listConversationSummaries(userId: string): Promise<BackendResult<ConversationSummaryRow[]>>;
+    // The latest message and unread count of every group userId belongs to
+    listGroupSummaries(userId: string): Promise<BackendResult<GroupSummaryRow[]>>;
+    // Realtime INSERT events matching every field set on the filter
+    subscribe(filter: MessageFilter, onInsert: (row: MessageRow) => void): Unsubscribe;
+    // Realtime UPDATE events (receipts, edits, deletes for one side), same filter rules
+    subscribeUpdates(filter: MessageFilter, onUpdate: (row: MessageRow) => void): Unsubscribe;
+    // Realtime DELETE events (unsends); only the id is known, so they cannot be filtered
+    subscribeDeletes(onDelete: (messageId: string) => void): Unsubscribe;
+}
+
+// Group conversations and who is in them
+export interface ConversationsAdapter {
+    // Creates the group with its creator and memberIds as participants
+    create(row: ConversationInsert, memberIds: string[]): Promise<BackendResult<ConversationRow>>;
+    // Groups userId currently belongs to
+    listForUser(userId: string): Promise<BackendResult<ConversationRow[]>>;
+    update(conversationId: string, updates: ConversationUpdate): Promise<BackendResult<ConversationRow>>;
+    listParticipants(conversationIds: string[]): Promise<BackendResult<ParticipantRow[]>>;
+    // Adding someone who is already a participant is not an error
+    addParticipants(conversationId: string, userIds: string[]): Promise<BackendResult<null>>;
+    removeParticipant(conversationId: string, userId: string): Promise<BackendResult<null>>;
+    // Moves userId's last_read_at to now
+    markRead(conversationId: string, userId: string): Promise<BackendResult<null>>;
+    // Mute, archive and pin for one member only
+    updateParticipantSettings(conversationId: string, userId: string, changes: ParticipantSettingsUpdate): Promise<BackendResult<null>>;
+}
+
+export interface BlocksAdapter {
+    // Blocks in either direction: made by userId or against userId
+    listInvolving(userId: string): Promise<BackendResult<BlockRow[]>>;
+    // Blocking someone twice is not an error
+    insert(row: BlockInsert): Promise<BackendResult<BlockRow>>;
+    delete(blockerId: string, blockedId: string): Promise<BackendResult<null>>;
+}
+
+export interface ReportsAdapter {
+    // Write-only: reporters cannot read reports back (they are for moderators)
+    insert(row: ReportInsert): Promise<BackendResult<null>>;
+}
+
+export interface ReactionsAdapter {
+    // Oldest first
+    listForMessages(messageIds: string[]): Promise<BackendResult<ReactionRow[]>>;
+    // Reacting twice with the same emoji is not an error
+    insert(row: ReactionInsert): Promise<BackendResult<null>>;
+    delete(messageId: string, userId: string, emoji: string): Promise<BackendResult<null>>;
+    // Realtime changes on reactions to messages the signed-in user can see
+    subscribe(onChange: (event: 'INSERT' | 'DELETE', row: ReactionInsert) => void): Unsubscribe;
+}
+
+// Ephemeral realtime state: nothing here is stored
+export interface PresenceAdapter {
+    // Announce userId as online; onChange receives everyone currently online
+    join(userId: string, onChange: (onlineUserIds: string[]) => void): Unsubscribe;
+    sendTyping(fromUserId: string, toUserId: string, isTyping: boolean): void;
+    // Typing signals addressed to userId
+    subscribeTyping(userId: string, onTyping: (fromUserId: string, isTyping: boolean) => void): Unsubscribe;
+}
+
+// Chat images live in object storage; message rows only keep the path
+export interface AttachmentsAdapter {
+    // onProgress receives the uploaded fraction (0-1); resolves with the stored path
+    upload(path: string, file: Blob, onProgress?: (fraction: number) => void): Promise<BackendResult<string>>;
+    // A URL the signed-in user can load the object from; it may expire
+    getUrl(path: string): Promise<BackendResult<string>>;
+}
+
+// Unfurls links server-side, so pages never see the reader's IP and CORS does not apply
+export interface LinkPreviewsAdapter {
+    // null data when the page has nothing to preview
+    fetch(url: string): Promise<BackendResult<LinkPreviewRow>>;
+}
+
+export interface BackendAdapter {
+    auth: AuthAdapter;
+    profiles: ProfilesAdapter;
+    connections: ConnectionsAdapter;
+    mutualConnections: MutualConnectionsAdapter;
+    messages: MessagesAdapter;
+    reactions: ReactionsAdapter;
+    conversations: ConversationsAdapter;
+    conversationPrefs: ConversationPrefsAdapter;
+    blocks: BlocksAdapter;
+    reports: ReportsAdapter;
+    presence: PresenceAdapter;
+    attachments: AttachmentsAdapter;
+    linkPreviews: LinkPreviewsAdapter;
+}
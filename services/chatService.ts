@@ -1,17 +1,73 @@
-import { Message } from '../types';
-import { supabase } from './supabaseClient';
+import { LinkPreview, Message, MessagePage, MessageReaction, MessageSearchResult, ReplyPreview, VoiceNoteMeta } from '../types';
+import { getBackend } from './backend';
+import { BackendError, MessageCursor, MessageRow, ParticipantRow, Unsubscribe } from './backendAdapter';
+import { groupReactions } from '../utils/messageReactions';
+import { messageSnippet, parseMessageQuery, rankMessageResults, scoreMessageText } from '../utils/messageSearch';
+import { audioExtension } from '../utils/voiceNote';
+import { isMuted, toConversationSettings } from '../utils/conversationSettings';
 
 type MessageListener = (message: Message) => void;
+type MessageRemovedListener = (messageId: string) => void;
+
+export interface SendMessageOptions {
+    imagePath?: string; // Uploaded first with uploadAttachment
+    audioPath?: string; // Likewise, for a voice note
+    voiceNote?: VoiceNoteMeta; // Required with audioPath
+    clientId?: string; // Makes a resend return the stored message instead of a duplicate
+    replyToId?: string;
+}
+
+// Someone added or removed an emoji on a message
+export interface ReactionChange {
+    messageId: string;
+    userId: string;
+    emoji: string;
+    added: boolean;
+}
+
+/*
+ * A message the backend will never accept: the receiver is blocked, a row-level security
+ * policy refused it, or it breaks a constraint. Unlike a network error, sending it again cannot help.
+ */
+export class MessageRefusedError extends Error {}
+
+// Messages per history page
+export const HISTORY_PAGE_SIZE = 30;
+
+// Best matching messages a search returns; the backend ranks them
+const SEARCH_CANDIDATE_LIMIT = 200;
+
+// While the user keeps typing, "typing" is re-sent at most this often
+const TYPING_RESEND_MS = 2000;
+
+// Typing counts as stopped after this long without input (also used by receivers as a timeout)
+export const TYPING_IDLE_MS = 4000;
+
+// How often last_seen_at is refreshed while the app is open
+const LAST_SEEN_HEARTBEAT_MS = 60 * 1000;
+
+// Attachment URLs are reused for this long; the backend signs them for an hour
+const ATTACHMENT_URL_CACHE_MS = 50 * 60 * 1000;
 
 /*
  * ChatService
  * 
  * Abstraction Function:
- * Manages the connection for real-time messaging using Supabase Realtime.
+ * The single messaging API: history, sending, read state and the realtime feed.
+ * Conversations are keyed by the other user's id, group conversations by the
+ * group's id (see DataRepository for group membership). useAppStore keeps the loaded
+ * messages; nothing else talks to the messages table.
  */
 export class ChatService {
     private static instance: ChatService;
-    private activeSubscription: any = null;
+    private inboxSubscription: Unsubscribe | null = null;
+    private inboxBlockedIds = new Set<string>(); // Loaded when the inbox starts; kept current by setBlockedInInbox
+    private presenceSubscription: Unsubscribe | null = null;
+    private presenceUserId: string | null = null;
+    private typingSentAt = new Map<string, number>();
+    private typingStopTimers = new Map<string, ReturnType<typeof setTimeout>>();
+    private attachmentUrls = new Map<string, { url: string; expiresAt: number }>();
+    private linkPreviews = new Map<string, Promise<LinkPreview | null>>();
 
     private constructor() {}
 
@@ -23,137 +79,666 @@ export class ChatService {
     }
 
     /*
-     * Subscribe to incoming messages for a specific conversation.
-     */
-    public subscribe(connectionId: string, callback: MessageListener): () => void {
-        // Remove existing sub if any
-        if (this.activeSubscription) {
-            this.activeSubscription.unsubscribe();
-        }
-
-        // Subscribe to INSERT events on messages table
-        // Filter where sender is the connectionId
-        this.activeSubscription = supabase
-            .channel('public:messages')
-            .on(
-                'postgres_changes',
-                {
-                    event: 'INSERT',
-                    schema: 'public',
-                    table: 'messages',
-                    filter: `sender_id=eq.${connectionId}`,
-                },
-                async (payload) => {
-                    const newMsg = payload.new;
-                    
-                    // Security/Logic Check: Verify the message is actually sent TO me.
-                    // Without this, if User A (Connection) sends a message to User B,
-                    // I (User C) might receive it if I am also subscribed to User A.
-                    const { data: { user } } = await supabase.auth.getUser();
-                    
-                    if (user && newMsg.receiver_id === user.id) {
-                         const message: Message = {
-                            id: newMsg.id.toString(),
-                            senderId: newMsg.sender_id,
-                            text: newMsg.content,
-                            imageUrl: newMsg.image_url,
-                            type: newMsg.image_url ? 'image' : 'text',
-                            timestamp: new Date(newMsg.created_at).getTime(),
-                            status: 'sent'
-                        };
-                        callback(message);
-                    }
-                }
-            )
-            .subscribe();
-
-        // Return unsubscribe function
-        return () => {
-            if (this.activeSubscription) {
-                supabase.removeChannel(this.activeSubscription);
-                this.activeSubscription = null;
-            }
+     * Subscribe to every message sent to userId, across all conversations and groups.
+     * onUpdate receives changed messages in either direction (receipts, edits);
+     * onRemove receives ids of messages that are gone for userId (unsent, or deleted for me).
+     * onReaction receives reaction changes on any message userId can see.
+     * Receiving marks messages delivered. There is one inbox per app session;
+     * subscribing again replaces it.
+     */
+    public subscribeToInbox(
+        userId: string,
+        callback: MessageListener,
+        onUpdate?: MessageListener,
+        onRemove?: MessageRemovedListener,
+        onReaction?: (change: ReactionChange) => void
+    ): () => void {
+        this.unsubscribeInbox();
+        const backend = getBackend();
+
+        // Anything that reached me while the app was closed is delivered now
+        backend.messages.markDelivered(userId);
+
+        // Messages are handed over one at a time, in arrival order. The block list is loaded once;
+        // after that only replies wait on a request, for their quote
+        const blockedIds = new Set<string>();
+        this.inboxBlockedIds = blockedIds;
+        let delivery: Promise<void> = this.getBlockedIds(userId).then(ids => {
+            ids.forEach(id => blockedIds.add(id));
+        });
+        const deliver = (newMsg: MessageRow) => {
+            delivery = delivery.then(async () => {
+                if (blockedIds.has(newMsg.sender_id)) return;
+                if (!newMsg.conversation_id) backend.messages.markDelivered(userId);
+                const replies = newMsg.reply_to_id
+                    ? await this.getReplyPreviews(userId, [newMsg])
+                    : new Map<string, ReplyPreview>();
+                callback(this.toMessage(newMsg, undefined, replies.get(newMsg.reply_to_id || '')));
+            }).catch(err => console.error("Inbox delivery error", err));
+        };
+
+        // receiver_id is filtered by the backend, so every row is already addressed to me
+        const unsubscribeMessages = backend.messages.subscribe({ receiverId: userId }, deliver);
+        // Membership is checked by the backend; my own group messages come back from sendGroupMessage
+        const unsubscribeGroupMessages = backend.messages.subscribe({ groupMemberId: userId }, (newMsg) => {
+            if (newMsg.sender_id !== userId) deliver(newMsg);
+        });
+        const handleUpdate = (row: MessageRow) => {
+            const isDeletedForMe = row.sender_id === userId ? row.deleted_for_sender : row.deleted_for_receiver;
+            if (isDeletedForMe) onRemove?.(row.id.toString());
+            else onUpdate?.(this.toMessage(row));
+        };
+        const unsubscribeSentUpdates = backend.messages.subscribeUpdates({ senderId: userId }, handleUpdate);
+        const unsubscribeReceivedUpdates = backend.messages.subscribeUpdates({ receiverId: userId }, handleUpdate);
+        const unsubscribeGroupUpdates = backend.messages.subscribeUpdates({ groupMemberId: userId }, (row) => {
+            if (row.sender_id !== userId) handleUpdate(row);
+        });
+        const unsubscribeDeletes = backend.messages.subscribeDeletes((messageId) => onRemove?.(messageId));
+        const unsubscribeReactions = backend.reactions.subscribe((event, row) => onReaction?.({
+            messageId: row.message_id,
+            userId: row.user_id,
+            emoji: row.emoji,
+            added: event === 'INSERT'
+        }));
+
+        this.inboxSubscription = () => {
+            unsubscribeMessages();
+            unsubscribeGroupMessages();
+            unsubscribeSentUpdates();
+            unsubscribeReceivedUpdates();
+            unsubscribeGroupUpdates();
+            unsubscribeDeletes();
+            unsubscribeReactions();
+        };
+        return () => this.unsubscribeInbox();
+    }
+
+    /*
+     * Keep the running inbox in step after I block or unblock someone.
+     */
+    public setBlockedInInbox(otherUserId: string, isBlocked: boolean): void {
+        if (isBlocked) this.inboxBlockedIds.add(otherUserId);
+        else this.inboxBlockedIds.delete(otherUserId);
+    }
+
+    /*
+     * Stop listening for incoming messages (e.g. on logout).
+     */
+    public unsubscribeInbox(): void {
+        if (this.inboxSubscription) {
+            this.inboxSubscription();
+            this.inboxSubscription = null;
+        }
+    }
+
+    /*
+     * Go online as userId: announce presence, keep last_seen_at fresh and listen
+     * for typing signals addressed to me. Joining again replaces the old session.
+     */
+    public joinPresence(
+        userId: string,
+        onOnlineChange: (onlineUserIds: string[]) => void,
+        onTyping: (fromUserId: string, isTyping: boolean) => void
+    ): () => void {
+        this.leavePresence();
+        const backend = getBackend();
+        this.presenceUserId = userId;
+
+        const touchLastSeen = () => {
+            backend.profiles.update(userId, { last_seen_at: new Date().toISOString() });
+        };
+        touchLastSeen();
+        const heartbeat = setInterval(touchLastSeen, LAST_SEEN_HEARTBEAT_MS);
+
+        const leave = backend.presence.join(userId, onOnlineChange);
+        const unsubscribeTyping = backend.presence.subscribeTyping(userId, onTyping);
+
+        this.presenceSubscription = () => {
+            clearInterval(heartbeat);
+            touchLastSeen();
+            leave();
+            unsubscribeTyping();
         };
+        return () => this.leavePresence();
     }
 
     /*
-     * Fetch initial history from DB.
+     * Go offline (e.g. on logout).
      */
-    public async getHistory(connectionId: string): Promise<Message[]> {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return [];
+    public leavePresence(): void {
+        this.typingStopTimers.forEach(timer => clearTimeout(timer));
+        this.typingStopTimers.clear();
+        this.typingSentAt.clear();
+
+        if (this.presenceSubscription) {
+            this.presenceSubscription();
+            this.presenceSubscription = null;
+        }
+        this.presenceUserId = null;
+    }
+
+    /*
+     * Call on every keystroke in a conversation. Signals are throttled,
+     * and a stop is sent automatically once input goes idle.
+     */
+    public notifyTyping(connectionId: string): void {
+        const userId = this.presenceUserId;
+        if (!userId) return;
+
+        const now = Date.now();
+        if (now - (this.typingSentAt.get(connectionId) || 0) >= TYPING_RESEND_MS) {
+            getBackend().presence.sendTyping(userId, connectionId, true);
+            this.typingSentAt.set(connectionId, now);
+        }
+
+        clearTimeout(this.typingStopTimers.get(connectionId));
+        this.typingStopTimers.set(connectionId, setTimeout(() => this.stopTyping(connectionId), TYPING_IDLE_MS));
+    }
+
+    /*
+     * Call when the message is sent, the input is cleared or the chat closes.
+     */
+    public stopTyping(connectionId: string): void {
+        const userId = this.presenceUserId;
+        clearTimeout(this.typingStopTimers.get(connectionId));
+        this.typingStopTimers.delete(connectionId);
+
+        // Only send a stop if a start went out
+        if (!userId || !this.typingSentAt.has(connectionId)) return;
+        this.typingSentAt.delete(connectionId);
+        getBackend().presence.sendTyping(userId, connectionId, false);
+    }
+
+    /*
+     * Fetch one page of history, newest page first.
+     * Pass the previous page's nextCursor to load older messages.
+     */
+    public async getHistory(connectionId: string, cursor: string | null = null, pageSize = HISTORY_PAGE_SIZE): Promise<MessagePage> {
+        const emptyPage: MessagePage = { messages: [], nextCursor: null };
+        const user = await getBackend().auth.getUser();
+        if (!user) return emptyPage;
 
         if (connectionId === 'cypress_bot' || connectionId === 'cypress_team') {
-             return [{
+             return cursor ? emptyPage : { nextCursor: null, messages: [{
                 id: 'bot_intro',
                 senderId: connectionId,
                 text: "Welcome to Cypress! (System Message)",
                 type: 'text',
+                receiverId: user.id,
                 timestamp: Date.now(),
                 status: 'sent'
-             }];
+             }] };
         }
 
-        // Fetch messages between Me and Them
-        const { data, error } = await supabase
-            .from('messages')
-            .select('*')
-            .or(`and(sender_id.eq.${user.id},receiver_id.eq.${connectionId}),and(sender_id.eq.${connectionId},receiver_id.eq.${user.id})`)
-            .order('created_at', { ascending: true });
+        if (await this.isBlocked(user.id, connectionId)) return emptyPage;
 
-        if (error || !data) return [];
+        // Newest first, strictly older than the cursor
+        const { data, error } = await getBackend().messages.listConversationPage(
+            user.id, connectionId, pageSize, this.decodeCursor(cursor)
+        );
 
-        return data.map((row: any) => ({
-            id: row.id.toString(),
-            senderId: row.sender_id,
-            text: row.content,
-            imageUrl: row.image_url,
-            type: row.image_url ? 'image' : 'text',
-            timestamp: new Date(row.created_at).getTime(),
-            status: 'sent'
+        if (error || !data) {
+            console.error("History error", error);
+            return emptyPage;
+        }
+
+        // Respect history the user hid when removing this connection
+        const { data: prefs } = await getBackend().conversationPrefs.get(user.id, connectionId);
+        const hiddenBefore = prefs?.history_hidden_before ? new Date(prefs.history_hidden_before).getTime() : 0;
+        const visible = data.filter(row => new Date(row.created_at).getTime() > hiddenBefore);
+
+        // Stop at a short page or at the hidden boundary (everything older is hidden too)
+        const hasMore = data.length === pageSize && visible.length === data.length;
+        return this.toPage(user.id, visible, hasMore);
+    }
+
+    /*
+     * Fetch one page of a group's history, like getHistory.
+     * Messages from users I blocked (or who blocked me) are left out.
+     */
+    public async getGroupHistory(groupId: string, cursor: string | null = null, pageSize = HISTORY_PAGE_SIZE): Promise<MessagePage> {
+        const emptyPage: MessagePage = { messages: [], nextCursor: null };
+        const user = await getBackend().auth.getUser();
+        if (!user) return emptyPage;
+
+        const { data, error } = await getBackend().messages.listGroupPage(
+            user.id, groupId, pageSize, this.decodeCursor(cursor)
+        );
+        if (error || !data) {
+            console.error("History error", error);
+            return emptyPage;
+        }
+
+        const blockedIds = await this.getBlockedIds(user.id);
+        const page = await this.toPage(user.id, data.filter(row => !blockedIds.has(row.sender_id)), false);
+        // The cursor follows the unfiltered page, so a page of blocked messages does not end the history
+        const oldest = data[data.length - 1];
+        return {
+            messages: page.messages,
+            nextCursor: data.length === pageSize ? this.encodeCursor({ createdAt: oldest.created_at, id: oldest.id }) : null
+        };
+    }
+
+    /*
+     * Search my messages, best match first (see utils/messageSearch).
+     * Pass a connectionId or groupId to search one conversation, neither to search them all.
+     * Messages from blocked users and history hidden when removing a connection are left out.
+     */
+    public async searchMessages(query: string, scope: { connectionId?: string; groupId?: string } = {}): Promise<MessageSearchResult[]> {
+        const terms = parseMessageQuery(query);
+        const user = await getBackend().auth.getUser();
+        if (!user || terms.length === 0) return [];
+
+        const { data, error } = await getBackend().messages.search(
+            user.id, terms, { otherUserId: scope.connectionId, conversationId: scope.groupId }, SEARCH_CANDIDATE_LIMIT
+        );
+        if (error || !data) {
+            console.error("Search error", error);
+            return [];
+        }
+
+        const blockedIds = await this.getBlockedIds(user.id);
+        const partnerOf = (row: MessageRow) => row.sender_id === user.id ? row.receiver_id : row.sender_id;
+        const partnerIds = Array.from(new Set(data.filter(row => !row.conversation_id).map(partnerOf)));
+        const hiddenBefore = new Map<string, number>();
+        await Promise.all(partnerIds.map(async partnerId => {
+            const { data: prefs } = await getBackend().conversationPrefs.get(user.id, partnerId);
+            if (prefs?.history_hidden_before) hiddenBefore.set(partnerId, new Date(prefs.history_hidden_before).getTime());
         }));
+
+        const results: MessageSearchResult[] = [];
+        data.forEach(row => {
+            const conversationId = row.conversation_id || partnerOf(row);
+            const score = scoreMessageText(row.content, terms);
+            if (score === null || blockedIds.has(row.sender_id) || blockedIds.has(conversationId)) return;
+            if (new Date(row.created_at).getTime() <= (hiddenBefore.get(conversationId) ?? 0)) return;
+            results.push({
+                message: this.toMessage(row),
+                conversationId,
+                isGroup: !!row.conversation_id,
+                score,
+                snippet: messageSnippet(row.content, terms),
+                terms
+            });
+        });
+        return rankMessageResults(results);
     }
 
     /*
      * Send a message to DB.
      */
-    public async sendMessage(connectionId: string, senderId: string, text: string, imageUrl?: string): Promise<Message> {
-        
+    public async sendMessage(connectionId: string, text: string, options: SendMessageOptions = {}): Promise<Message> {
+        const { imagePath, audioPath, voiceNote, clientId, replyToId } = options;
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+        const senderId = user.id;
+
         if (connectionId === 'cypress_bot' || connectionId === 'cypress_team') {
             return {
                 id: Math.random().toString(),
                 senderId,
+                receiverId: connectionId,
                 text,
-                type: 'text',
+                imagePath,
+                audioPath,
+                voiceNote,
+                type: audioPath ? 'audio' : imagePath ? 'image' : 'text',
                 timestamp: Date.now(),
                 status: 'sent'
             };
         }
 
-        const { data, error } = await supabase
-            .from('messages')
-            .insert({
-                sender_id: senderId,
-                receiver_id: connectionId,
-                content: text,
-                image_url: imageUrl
-            })
-            .select()
-            .single();
+        if (await this.isBlocked(senderId, connectionId)) {
+            throw new MessageRefusedError("You cannot message this user");
+        }
+
+        const { data, error } = await getBackend().messages.insert({
+            sender_id: senderId,
+            receiver_id: connectionId,
+            content: text,
+            image_path: imagePath,
+            ...this.toAudioColumns(audioPath, voiceNote),
+            client_id: clientId,
+            reply_to_id: replyToId
+        });
 
         if (error || !data) {
             console.error("Send error", error);
-            throw new Error("Failed to send message");
+            throw this.toSendError(error);
+        }
+
+        const replies = await this.getReplyPreviews(senderId, [data]);
+        return this.toMessage(data, undefined, replies.get(data.reply_to_id || ''));
+    }
+
+    /*
+     * Send a message to a group I belong to.
+     */
+    public async sendGroupMessage(groupId: string, text: string, options: SendMessageOptions = {}): Promise<Message> {
+        const { imagePath, audioPath, voiceNote, clientId, replyToId } = options;
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { data, error } = await getBackend().messages.insert({
+            sender_id: user.id,
+            receiver_id: null,
+            conversation_id: groupId,
+            content: text,
+            image_path: imagePath,
+            ...this.toAudioColumns(audioPath, voiceNote),
+            client_id: clientId,
+            reply_to_id: replyToId
+        });
+
+        if (error || !data) {
+            console.error("Send error", error);
+            throw this.toSendError(error);
+        }
+
+        const replies = await this.getReplyPreviews(user.id, [data]);
+        return this.toMessage(data, undefined, replies.get(data.reply_to_id || ''));
+    }
+
+    /*
+     * Change the text of one of my messages. It is marked as edited for both sides.
+     */
+    public async editMessage(messageId: string, text: string): Promise<Message> {
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { data, error } = await getBackend().messages.updateContent(messageId, user.id, text);
+        if (error || !data) {
+            console.error("Edit error", error);
+            throw new Error("Failed to edit message");
+        }
+        return this.toMessage(data);
+    }
+
+    /*
+     * Hide a message from my own history; the other participant keeps it.
+     */
+    public async deleteForMe(messageId: string): Promise<void> {
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { error } = await getBackend().messages.hideFor(messageId, user.id);
+        if (error) {
+            console.error("Delete error", error);
+            throw new Error("Failed to delete message");
+        }
+    }
+
+    /*
+     * Remove one of my messages for both participants.
+     */
+    public async unsendMessage(messageId: string): Promise<void> {
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { error } = await getBackend().messages.delete(messageId, user.id);
+        if (error) {
+            console.error("Unsend error", error);
+            throw new Error("Failed to unsend message");
+        }
+    }
+
+    /*
+     * React to a message with an emoji. Reacting again with the same emoji does nothing.
+     */
+    public async addReaction(messageId: string, emoji: string): Promise<void> {
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { error } = await getBackend().reactions.insert({ message_id: messageId, user_id: user.id, emoji });
+        if (error) {
+            console.error("Reaction error", error);
+            throw new Error("Failed to add reaction");
+        }
+    }
+
+    /*
+     * Take back my emoji on a message.
+     */
+    public async removeReaction(messageId: string, emoji: string): Promise<void> {
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const { error } = await getBackend().reactions.delete(messageId, user.id, emoji);
+        if (error) {
+            console.error("Reaction error", error);
+            throw new Error("Failed to remove reaction");
         }
+    }
+
+    /*
+     * Upload an image or voice note for a message to connectionId (a user or a group) and return its storage path.
+     * Paths are "<sender>/<receiver or group>/<random>", which the storage policies check.
+     */
+    public async uploadAttachment(connectionId: string, file: Blob, onProgress?: (fraction: number) => void): Promise<string> {
+        const user = await getBackend().auth.getUser();
+        if (!user) throw new Error("Not authenticated");
+
+        const extension = file.type.startsWith('audio/') ? audioExtension(file.type)
+            : file.type === 'image/png' ? 'png' : 'jpg';
+        const path = `${user.id}/${connectionId}/${crypto.randomUUID()}.${extension}`;
+        const { data, error } = await getBackend().attachments.upload(path, file, onProgress);
+
+        if (error || !data) {
+            console.error("Upload error", error);
+            throw new Error("Failed to upload attachment");
+        }
+        return data;
+    }
+
+    /*
+     * A loadable URL for an attachment path, cached until shortly before it expires.
+     */
+    public async getAttachmentUrl(path: string): Promise<string> {
+        const cached = this.attachmentUrls.get(path);
+        if (cached && cached.expiresAt > Date.now()) return cached.url;
+
+        const { data, error } = await getBackend().attachments.getUrl(path);
+        if (error || !data) {
+            throw new Error("Failed to load attachment");
+        }
+        this.attachmentUrls.set(path, { url: data, expiresAt: Date.now() + ATTACHMENT_URL_CACHE_MS });
+        return data;
+    }
+
+    /*
+     * The preview card for a link, or null if the page has nothing to show.
+     * Each URL is unfurled once per session, however many messages contain it.
+     */
+    public getLinkPreview(url: string): Promise<LinkPreview | null> {
+        let preview = this.linkPreviews.get(url);
+        if (!preview) {
+            preview = getBackend().linkPreviews.fetch(url).then(({ data, error }) => {
+                if (error) {
+                    // Not cached, so the next message with this link tries again
+                    console.error("Link preview error", error);
+                    this.linkPreviews.delete(url);
+                    return null;
+                }
+                if (!data || (!data.title && !data.site_name)) return null;
+                return {
+                    url: data.url,
+                    title: data.title || undefined,
+                    description: data.description || undefined,
+                    imageUrl: data.image_url || undefined,
+                    siteName: data.site_name || undefined
+                };
+            });
+            this.linkPreviews.set(url, preview);
+        }
+        return preview;
+    }
+
+    /*
+     * Mark everything the other user sent me as read.
+     */
+    public async markAsRead(connectionId: string): Promise<void> {
+        const user = await getBackend().auth.getUser();
+        if (!user) return;
+
+        const { error } = await getBackend().messages.markRead(connectionId, user.id);
+        if (error) {
+            console.error("Mark read error", error);
+            throw new Error("Failed to mark messages as read");
+        }
+    }
+
+    /*
+     * Mark everything in a group as read for me.
+     */
+    public async markGroupAsRead(groupId: string): Promise<void> {
+        const user = await getBackend().auth.getUser();
+        if (!user) return;
+
+        const { error } = await getBackend().conversations.markRead(groupId, user.id);
+        if (error) {
+            console.error("Mark read error", error);
+            throw new Error("Failed to mark messages as read");
+        }
+    }
+
+    /*
+     * Total unread messages across all conversations and groups, ignoring blocked users.
+     */
+    public async getUnreadCount(): Promise<number> {
+        const user = await getBackend().auth.getUser();
+        if (!user) return 0;
+
+        // Blocked users and muted chats do not count
+        const [blockedIds, { data: prefs }] = await Promise.all([
+            this.getBlockedIds(user.id),
+            getBackend().conversationPrefs.listForUser(user.id)
+        ]);
+        const mutedIds = (prefs || []).filter(row => isMuted(toConversationSettings(row))).map(row => row.other_user_id);
+        const [{ data, error }, { data: groups, error: groupsError }] = await Promise.all([
+            getBackend().messages.countUnread(user.id, [...Array.from(blockedIds), ...mutedIds]),
+            getBackend().messages.listGroupSummaries(user.id)
+        ]);
+
+        if (error || groupsError) {
+            console.error("Unread count error", error || groupsError);
+            return 0;
+        }
+
+        const unreadGroups = (groups || []).filter(row => row.unread_count > 0);
+        const { data: memberships } = unreadGroups.length > 0
+            ? await getBackend().conversations.listParticipants(unreadGroups.map(row => row.conversation_id))
+            : { data: [] as ParticipantRow[] };
+        const mutedGroupIds = new Set((memberships || [])
+            .filter(p => p.user_id === user.id && isMuted(toConversationSettings(p)))
+            .map(p => p.conversation_id));
+        return (data || 0) + unreadGroups
+            .filter(row => !mutedGroupIds.has(row.conversation_id))
+            .reduce((sum, row) => sum + row.unread_count, 0);
+    }
+
+    /* Helper: Everyone userId blocked or was blocked by */
+    private async getBlockedIds(userId: string): Promise<Set<string>> {
+        const { data } = await getBackend().blocks.listInvolving(userId);
+        return new Set((data || []).map(row => row.blocker_id === userId ? row.blocked_id : row.blocker_id));
+    }
+
+    /* Helper: The error a failed insert is reported as; permission (42501), data (22xxx) and constraint (23xxx) errors are final */
+    private toSendError(error: BackendError | null): Error {
+        const code = error?.code || '';
+        return code === '42501' || code.startsWith('22') || code.startsWith('23')
+            ? new MessageRefusedError("This message cannot be sent")
+            : new Error("Failed to send message");
+    }
+
+    /* Helper: True if either user has blocked the other */
+    private async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+        return (await this.getBlockedIds(userId)).has(otherUserId);
+    }
+
+    /* Helper: Previews of the messages quoted by rows, by id. Quotes deleted for userId are left out */
+    private async getReplyPreviews(userId: string, rows: MessageRow[]): Promise<Map<string, ReplyPreview>> {
+        const quotedIds = Array.from(new Set(rows.map(row => row.reply_to_id).filter((id): id is string => !!id)));
+        const previews = new Map<string, ReplyPreview>();
+        if (quotedIds.length === 0) return previews;
+
+        // Quotes of messages on the same page need no extra request
+        const onPage = rows.filter(row => quotedIds.includes(row.id));
+        const missing = quotedIds.filter(id => !onPage.some(row => row.id === id));
+        const { data: fetched } = missing.length > 0
+            ? await getBackend().messages.listByIds(missing)
+            : { data: [] as MessageRow[] };
+
+        [...onPage, ...(fetched || [])].forEach(row => {
+            const isDeletedForMe = row.sender_id === userId ? row.deleted_for_sender : row.deleted_for_receiver;
+            if (isDeletedForMe) return;
+            previews.set(row.id, {
+                id: row.id,
+                senderId: row.sender_id,
+                text: row.content,
+                isImage: !!(row.image_url || row.image_path),
+                isAudio: !!row.audio_path
+            });
+        });
+        return previews;
+    }
+
+    /* Helper: The message columns describing a voice note, if there is one */
+    private toAudioColumns(audioPath?: string, voiceNote?: VoiceNoteMeta): Partial<MessageRow> {
+        if (!audioPath) return {};
+        return {
+            audio_path: audioPath,
+            audio_duration_ms: voiceNote ? Math.round(voiceNote.durationMs) : null,
+            audio_waveform: voiceNote ? voiceNote.waveform : null
+        };
+    }
+
+    /* Helper: A history page from rows newest first, with reactions and quotes attached */
+    private async toPage(userId: string, rows: MessageRow[], hasMore: boolean): Promise<MessagePage> {
+        const oldest = rows[rows.length - 1];
+        const { data: reactionRows } = await getBackend().reactions.listForMessages(rows.map(row => row.id));
+        const reactions = groupReactions(reactionRows || []);
+        const replies = await this.getReplyPreviews(userId, rows);
 
         return {
-            id: data.id.toString(),
-            senderId: data.sender_id,
-            text: data.content,
-            imageUrl: data.image_url,
-            type: data.image_url ? 'image' : 'text',
-            timestamp: new Date(data.created_at).getTime(),
-            status: 'sent'
+            messages: [...rows].reverse().map(row => this.toMessage(row, reactions.get(row.id), replies.get(row.reply_to_id || ''))),
+            nextCursor: hasMore && oldest ? this.encodeCursor({ createdAt: oldest.created_at, id: oldest.id }) : null
+        };
+    }
+
+    /* Helper: History cursors are opaque strings to callers */
+    private encodeCursor(cursor: MessageCursor): string {
+        return `${cursor.createdAt}|${cursor.id}`;
+    }
+
+    private decodeCursor(cursor: string | null): MessageCursor | null {
+        if (!cursor) return null;
+        const split = cursor.indexOf('|');
+        return { createdAt: cursor.slice(0, split), id: cursor.slice(split + 1) };
+    }
+
+    /* Helper: Map a message row to the UI model */
+    private toMessage(row: MessageRow, reactions?: MessageReaction[], replyTo?: ReplyPreview): Message {
+        return {
+            id: row.id.toString(),
+            senderId: row.sender_id,
+            receiverId: row.receiver_id || row.conversation_id,
+            groupId: row.conversation_id || undefined,
+            text: row.content,
+            imageUrl: row.image_url || undefined,
+            imagePath: row.image_path || undefined,
+            audioPath: row.audio_path || undefined,
+            voiceNote: row.audio_path
+                ? { durationMs: row.audio_duration_ms || 0, waveform: row.audio_waveform || [] }
+                : undefined,
+            type: row.audio_path ? 'audio' : row.image_url || row.image_path ? 'image' : 'text',
+            timestamp: new Date(row.created_at).getTime(),
+            // Groups have no per-member receipts
+            status: row.conversation_id ? 'sent' : row.is_read ? 'read' : row.delivered_at ? 'delivered' : 'sent',
+            clientId: row.client_id || undefined,
+            editedAt: row.edited_at ? new Date(row.edited_at).getTime() : undefined,
+            reactions,
+            replyToId: row.reply_to_id || undefined,
+            replyTo
         };
     }
 }
\ No newline at end of file
@@ -1,11 +1,17 @@
-import { UserModel, MatchProfileModel, ConnectionModel, Major, Interest, Language } from '../types';
-import { supabase } from './supabaseClient';
+import { UserModel, MatchProfileModel, MatchQueuePage, ConnectionModel, Major, Interest, Language, DiscoveryFilters, UserSearchPage, UserSearchResult, BlockedUserModel, ReportReason, ConversationSummary, GroupConversation, ConversationSettings } from '../types';
+import { getBackend } from './backend';
+import { BackendAdapter, ProfileRow, ProfileUpdate, ProfileFieldMatch, ConversationRow } from './backendAdapter';
+import { normalizeDiscoveryFilters } from '../utils/discoveryFilters';
+import { parseSearchQuery, resolveSearchValues, scoreSearchResult, rankSearchResults, ParsedSearchQuery } from '../utils/userSearch';
+import { scoreCandidate, rankByScore, DEFAULT_MATCH_WEIGHTS, MatchWeights, ScoringProfile } from '../utils/matchScoring';
+import { toConversationSettings, toSettingsColumns } from '../utils/conversationSettings';
 
 /*
  * DataRepository
  * 
  * Abstraction Function:
- * Acts as the single source of truth for the client, abstracting network calls to Supabase.
+ * Acts as the single source of truth for the client, abstracting network calls to the backend.
+ * All storage access goes through the active BackendAdapter (Supabase or in-memory).
  */
 export class DataRepository {
     private static instance: DataRepository;
@@ -13,10 +19,26 @@ export class DataRepository {
     // Cache the current user to reduce redundant DB calls
     private currentUserCache: UserModel | null = null;
 
+    // Profiles returned per discovery page, and how many candidates are ranked at most
+    private readonly MATCH_PAGE_SIZE = 20;
+    private readonly MATCH_CANDIDATE_LIMIT = 500;
+
+    // Search results per page, and how many matching profiles are ranked at most
+    private readonly SEARCH_PAGE_SIZE = 10;
+    private readonly SEARCH_CANDIDATE_LIMIT = 200;
+
+    // Weights used to rank the discovery queue
+    private matchWeights: MatchWeights = { ...DEFAULT_MATCH_WEIGHTS };
+
     private readonly TREE_ICON_URL = "data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCA1MTIgNTEyIj48cGF0aCBmaWxsPSIjMDAyMTQ1IiBkPSJNMzY4LjUgMzYwSDQ0OGMtMTguNiAwLTMwLjktMjEuMi0xOS45LTM0LjRMMjcyLjggMjQuMmMtOS4zLTExLjEtMjYuNC0xMS4xtmMzNS43IDBMNDMuOSAzMjUuNmMtMTEgMTMuMiAyMy40IDM0LjQgMTkuOSAzNC40aDc5LjVsLTk1LjIgMTQzLjJjLTEwLjkgMTYuNCAuOCAzOC44IDIwLjUgMzguOGgxMDcuNHY3MS40YzAgMTAuMyA4LjMgMTguNiAxOC42IDE4LjZoMzJjMTAuMyAwIDE4LjYtOC4zIDE4LjYtMTguNnYtNzEuNGgxMDcuNGMxOS43IDAgMzEuNC0yMi40IDIwLjUtMzguOEwzNjguNSAzNjB6Ii8+PC9zdmc+";
 
     private constructor() {}
 
+    /* Active backend, resolved per call so tests can swap it */
+    private get backend(): BackendAdapter {
+        return getBackend();
+    }
+
     /* Singleton Accessor */
     public static getInstance(): DataRepository {
         if (!DataRepository.instance) {
@@ -29,10 +51,10 @@ export class DataRepository {
      * Session Management: Restore
      */
     public async restoreSession(): Promise<UserModel | null> {
-        const { data: { session } } = await supabase.auth.getSession();
+        const sessionUser = await this.backend.auth.getSessionUser();
         
-        if (session?.user) {
-            return await this.fetchUserProfile(session.user.id, session.user.email || '');
+        if (sessionUser) {
+            return await this.fetchUserProfile(sessionUser.id, sessionUser.email || '');
         }
         return null;
     }
@@ -41,7 +63,7 @@ export class DataRepository {
      * Authentication: Logout
      */
     public async logout(): Promise<void> {
-        await supabase.auth.signOut();
+        await this.backend.auth.signOut();
         this.currentUserCache = null;
     }
 
@@ -50,15 +72,12 @@ export class DataRepository {
     }
     
     public async loginWithPassword(email: string, password: string): Promise<UserModel> {
-         const { data, error } = await supabase.auth.signInWithPassword({
-            email,
-            password,
-        });
+         const { data, error } = await this.backend.auth.signInWithPassword(email, password);
 
         if (error) throw error;
-        if (!data.user) throw new Error("Login failed");
+        if (!data) throw new Error("Login failed");
 
-        return await this.fetchUserProfile(data.user.id, email);
+        return await this.fetchUserProfile(data.id, email);
     }
 
     /*
@@ -66,17 +85,14 @@ export class DataRepository {
      */
     public async signup(email: string, password: string): Promise<UserModel> {
         // 1. Create Auth User
-        const { data, error } = await supabase.auth.signUp({
-            email,
-            password,
-        });
+        const { data, error } = await this.backend.auth.signUp(email, password);
 
         if (error) throw error;
-        if (!data.user) throw new Error("Signup failed");
+        if (!data) throw new Error("Signup failed");
 
         // 2. Create Profile Entry
         const newUser: UserModel = {
-            uid: data.user.id,
+            uid: data.id,
             email: email,
             displayName: email.split('@')[0], // Default name
             major: null,
@@ -89,8 +105,7 @@ export class DataRepository {
             settings: { general: true, dailyMatches: true, directMessages: true }
         };
 
-        const { error: profileError } = await supabase
-            .from('profiles')
+        const { error: profileError } = await this.backend.profiles
             .insert({
                 id: newUser.uid,
                 email: newUser.email,
@@ -113,11 +128,7 @@ export class DataRepository {
 
     /* Helper: Fetch Profile from DB */
     private async fetchUserProfile(uid: string, email: string): Promise<UserModel> {
-        const { data, error } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', uid)
-            .single();
+        const { data, error } = await this.backend.profiles.getById(uid);
 
         if (error || !data) {
             // Fallback if auth exists but profile doesn't (rare)
@@ -138,15 +149,15 @@ export class DataRepository {
         const user: UserModel = {
             uid: data.id,
             email: data.email || email,
-            displayName: data.display_name,
-            major: data.major as Major,
-            bio: data.bio,
-            interests: data.interests || [],
-            languages: data.languages || [],
-            homeRegion: data.home_region,
-            photoUrl: data.photo_url,
+            displayName: data.display_name || 'User',
+            major: data.major as Major | null,
+            bio: data.bio || undefined,
+            interests: (data.interests || []) as Interest[],
+            languages: (data.languages || []) as Language[],
+            homeRegion: data.home_region || '',
+            photoUrl: data.photo_url || undefined,
             isVerified: true,
-            isSearchable: data.is_searchable,
+            isSearchable: data.is_searchable ?? true,
             settings: { general: true, dailyMatches: true, directMessages: true }
         };
 
@@ -154,15 +165,35 @@ export class DataRepository {
         return user;
     }
 
+    /* Helper: Read a match queue cursor ("score:id"); ids may contain ':' themselves */
+    private parseMatchCursor(cursor: string): { score: number; id: string } {
+        const separator = cursor.indexOf(':');
+        return { score: Number(cursor.slice(0, separator)), id: cursor.slice(separator + 1) };
+    }
+
+    /* Helper: Map a profile row to a match card */
+    private toMatchProfile(p: ProfileRow): MatchProfileModel {
+        return {
+            uid: p.id,
+            displayName: p.display_name || 'Student',
+            major: (p.major || Major.ARTS) as Major,
+            bio: p.bio || undefined,
+            commonInterests: (p.interests || []) as Interest[],
+            languages: (p.languages || []) as Language[],
+            homeRegion: p.home_region || undefined,
+            photoUrl: p.photo_url || undefined
+        };
+    }
+
     /* 
      * Profile: Update
      */
     public async updateProfile(updates: Partial<UserModel>): Promise<UserModel> {
-        const { data: { user } } = await supabase.auth.getUser();
+        const user = await this.backend.auth.getUser();
         if (!user) throw new Error("No user logged in");
 
         // Map frontend camelCase to DB snake_case
-        const dbUpdates: any = {};
+        const dbUpdates: ProfileUpdate = {};
         if (updates.displayName !== undefined) dbUpdates.display_name = updates.displayName;
         if (updates.major !== undefined) dbUpdates.major = updates.major;
         if (updates.bio !== undefined) dbUpdates.bio = updates.bio;
@@ -174,12 +205,7 @@ export class DataRepository {
 
         console.log('Updating profile with:', dbUpdates);
 
-        const { data, error } = await supabase
-            .from('profiles')
-            .update(dbUpdates)
-            .eq('id', user.id)
-            .select()
-            .single();
+        const { data, error } = await this.backend.profiles.update(user.id, dbUpdates);
 
         if (error) {
             console.error('Profile update error:', error);
@@ -196,36 +222,50 @@ export class DataRepository {
     }
 
     /* 
-     * Discovery: Fetch Queue
+     * Discovery: Fetch Queue (first page)
      */
     public async getMatchQueue(): Promise<MatchProfileModel[]> {
-        const { data: { user } } = await supabase.auth.getUser();
+        const page = await this.getMatchQueuePage();
+        return page.profiles;
+    }
+
+    /*
+     * Discovery: Fetch Queue Page
+     * Ranks up to MATCH_CANDIDATE_LIMIT candidates and pages through them best first.
+     * The cursor is the last profile's (score, id), so profiles swiped in the meantime
+     * drop out without shifting later pages; pass the previous page's nextCursor to continue.
+     * Without explicit filters, the user's saved discovery filters are applied.
+     */
+    public async getMatchQueuePage(
+        cursor: string | null = null,
+        pageSize: number = this.MATCH_PAGE_SIZE,
+        filters?: DiscoveryFilters
+    ): Promise<MatchQueuePage> {
+        const emptyPage: MatchQueuePage = { profiles: [], nextCursor: null };
+
+        const user = await this.backend.auth.getUser();
         if (!user) {
             console.log('No authenticated user');
-            return [];
+            return emptyPage;
         }
 
         // Get current user's profile to access their major, interests, home region, and languages
-        const { data: currentUserProfile, error: profileError } = await supabase
-            .from('profiles')
-            .select('major, interests, home_region, languages')
-            .eq('id', user.id)
-            .single();
+        const { data: currentUserProfile, error: profileError } = await this.backend.profiles.getById(user.id);
 
         if (profileError) {
             console.error('Error fetching current user profile:', profileError);
-            return [];
+            return emptyPage;
         }
 
         if (!currentUserProfile) {
             console.log('No profile found for current user');
-            return [];
+            return emptyPage;
         }
 
         const currentUserMajor = currentUserProfile.major;
-        const currentUserInterests: Interest[] = currentUserProfile.interests || [];
+        const currentUserInterests = (currentUserProfile.interests || []) as Interest[];
         const currentUserHomeRegion: string = currentUserProfile.home_region || '';
-        const currentUserLanguages: Language[] = currentUserProfile.languages || [];
+        const currentUserLanguages = (currentUserProfile.languages || []) as Language[];
 
         console.log('Current user major:', currentUserMajor);
         console.log('Current user interests:', currentUserInterests);
@@ -235,30 +275,24 @@ export class DataRepository {
         // If user hasn't set their major yet, don't show matches
         if (!currentUserMajor) {
             console.log('User has not set their major - cannot fetch matches');
-            return [];
+            return emptyPage;
         }
 
         // 1. Get list of users I have already swiped on (from connections table)
-        const { data: existingConnections } = await supabase
-            .from('connections')
-            .select('user_id, target_user_id')
-            .eq('user_id', user.id);
+        const { data: existingConnections } = await this.backend.connections.listBySwiper(user.id);
         
         const excludedIds = new Set<string>();
         excludedIds.add(user.id); // Exclude self
         
         // Add users I've already swiped on (liked or passed)
-        existingConnections?.forEach((row: any) => {
+        existingConnections?.forEach(row => {
             excludedIds.add(row.target_user_id);
         });
 
         // 2. Also exclude users I'm already mutually connected with
-        const { data: mutualConnections } = await supabase
-            .from('mutual_connections')
-            .select('user_id_1, user_id_2')
-            .or(`user_id_1.eq.${user.id},user_id_2.eq.${user.id}`);
+        const { data: mutualConnections } = await this.backend.mutualConnections.listForUser(user.id);
         
-        mutualConnections?.forEach((row: any) => {
+        mutualConnections?.forEach(row => {
             // Add the other user in the connection
             if (row.user_id_1 === user.id) {
                 excludedIds.add(row.user_id_2);
@@ -267,145 +301,216 @@ export class DataRepository {
             }
         });
 
-        console.log('Excluded user IDs (swiped + connected):', Array.from(excludedIds));
-
-        // 3. Fetch profiles NOT in that list and NOT with the same major
-        let query = supabase
-            .from('profiles')
-            .select('*')
-            .eq('is_searchable', true)
-            .neq('major', currentUserMajor) // MUST NOT have the same major
-            .not('major', 'is', null) // Exclude users without a major set
-            .limit(50); // Fetch more initially to have better sorting pool
-
-        if (excludedIds.size > 0) {
-             // Supabase filter for "NOT IN"
-             query = query.not('id', 'in', `(${Array.from(excludedIds).join(',')})`);
-        }
-
-        const { data, error } = await query;
+        // 3. Never show users on either side of a block
+        (await this.getBlockedIds(user.id)).forEach(id => excludedIds.add(id));
+
+        console.log('Excluded user IDs (swiped + connected + blocked):', Array.from(excludedIds));
+
+        // 4. Fetch profiles NOT in that list that pass the user's filters
+        const activeFilters = filters || normalizeDiscoveryFilters(currentUserProfile.discovery_filters);
+        const { data, error } = await this.backend.profiles.query({
+            searchableOnly: true,
+            majorIn: activeFilters.includeMajors,
+            // Same major is hidden unless the user opted in
+            majorNotIn: activeFilters.includeOwnMajor
+                ? activeFilters.excludeMajors
+                : [...activeFilters.excludeMajors, currentUserMajor],
+            interestsContainAll: activeFilters.requiredInterests,
+            languagesContainAll: activeFilters.requiredLanguages,
+            homeRegionLike: activeFilters.homeCountry || undefined,
+            requireMajor: true, // Exclude users without a major set
+            excludeIds: Array.from(excludedIds),
+            orderById: true,
+            limit: this.MATCH_CANDIDATE_LIMIT
+        });
 
         if (error) {
             console.error('Error fetching match queue:', error);
-            return [];
+            return emptyPage;
         }
 
         if (!data || data.length === 0) {
             console.log('No matching profiles found in database');
-            return [];
+            return emptyPage;
         }
 
         console.log(`Found ${data.length} potential matches`);
 
-        // 3. Map to MatchProfileModel and calculate compatibility scores
-        const profiles = data.map((p: any) => {
-            const profileInterests: Interest[] = p.interests || [];
-            const profileLanguages: Language[] = p.languages || [];
-            const profileHomeRegion: string = p.home_region || '';
-            
-            // Calculate common interests
-            const commonInterests = profileInterests.filter(interest => 
-                currentUserInterests.includes(interest)
-            );
-            
-            // Calculate common languages
-            const commonLanguages = profileLanguages.filter(lang =>
-                currentUserLanguages.includes(lang)
-            );
-            
-            // Check if home regions match
-            const sameHomeRegion = currentUserHomeRegion && profileHomeRegion && 
-                                   currentUserHomeRegion.toLowerCase() === profileHomeRegion.toLowerCase();
+        // 5. Map to MatchProfileModel and calculate compatibility scores
+        const me: ScoringProfile = {
+            major: currentUserMajor,
+            interests: currentUserInterests,
+            languages: currentUserLanguages,
+            homeRegion: currentUserHomeRegion,
+            bio: currentUserProfile.bio
+        };
 
-            return {
-                uid: p.id,
-                displayName: p.display_name || 'Student',
-                major: p.major || Major.ARTS,
-                bio: p.bio,
-                commonInterests: commonInterests,
+        const profiles: MatchProfileModel[] = data.map(p => {
+            const profile = this.toMatchProfile(p);
+            const compatibility = scoreCandidate(me, {
+                major: p.major,
+                interests: p.interests,
+                languages: p.languages,
                 homeRegion: p.home_region,
-                languages: p.languages || [],
-                photoUrl: p.photo_url,
-                _sameHomeRegion: sameHomeRegion,
-                _commonLanguageCount: commonLanguages.length,
-                _commonInterestCount: commonInterests.length
+                bio: p.bio
+            }, this.matchWeights);
+
+            return {
+                ...profile,
+                // Calculate common interests
+                commonInterests: profile.commonInterests.filter(interest => currentUserInterests.includes(interest)),
+                compatibility
             };
         });
 
-        // 4. Sort by compatibility: 
-        // High Priority: Same home region
-        // Medium Priority: Common languages
-        // Lower Priority: Common interests
-        profiles.sort((a, b) => {
-            // First, prioritize same home region
-            if (a._sameHomeRegion !== b._sameHomeRegion) {
-                return a._sameHomeRegion ? -1 : 1;
-            }
-            
-            // Second, prioritize common languages
-            if (a._commonLanguageCount !== b._commonLanguageCount) {
-                return b._commonLanguageCount - a._commonLanguageCount;
-            }
-            
-            // Third, sort by common interests
-            return b._commonInterestCount - a._commonInterestCount;
-        });
+        // 6. Sort by weighted compatibility score (see utils/matchScoring); ties stay in id order
+        const ranked = rankByScore(profiles, p => p.compatibility!);
 
-        console.log('Match queue sorted by compatibility:', profiles.map(p => ({
+        // 7. Continue after the cursor's place in that order
+        const after = cursor ? this.parseMatchCursor(cursor) : null;
+        const start = after
+            ? ranked.findIndex(p => p.compatibility!.total < after.score || (p.compatibility!.total === after.score && p.uid > after.id))
+            : 0;
+        const page = start < 0 ? [] : ranked.slice(start, start + pageSize);
+
+        console.log('Match queue page sorted by compatibility:', page.map(p => ({
             name: p.displayName,
             major: p.major,
-            sameRegion: p._sameHomeRegion,
-            commonLanguages: p._commonLanguageCount,
-            commonInterests: p._commonInterestCount
+            score: p.compatibility!.total
         })));
 
-        // 5. Remove the temporary sorting fields and return top 20
-        return profiles.slice(0, 20).map(({ _sameHomeRegion, _commonLanguageCount, _commonInterestCount, ...profile }) => profile);
+        const last = page[page.length - 1];
+        const hasMore = start >= 0 && start + pageSize < ranked.length;
+        return { profiles: page, nextCursor: hasMore ? `${last.compatibility!.total}:${last.uid}` : null };
+    }
+
+    /*
+     * Discovery: Filters
+     */
+    public async getDiscoveryFilters(): Promise<DiscoveryFilters> {
+        const user = await this.backend.auth.getUser();
+        if (!user) return normalizeDiscoveryFilters(null);
+
+        const { data } = await this.backend.profiles.getById(user.id);
+        return normalizeDiscoveryFilters(data?.discovery_filters);
+    }
+
+    public async saveDiscoveryFilters(filters: DiscoveryFilters): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error("No user logged in");
+
+        const { error } = await this.backend.profiles.update(user.id, { discovery_filters: filters });
+        if (error) {
+            console.error('[DiscoveryFilters] Error saving filters:', error);
+            throw new Error(error.message);
+        }
+    }
+
+    /*
+     * Discovery: Scoring Weights
+     */
+    public setMatchWeights(weights: Partial<MatchWeights>): void {
+        this.matchWeights = { ...this.matchWeights, ...weights };
     }
 
     /*
      * Discovery: Search
      */
-    public async searchUsers(query: string): Promise<MatchProfileModel[]> {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return [];
+    /*
+     * Search
+     * Matches free text across name, major, interests, languages and home region,
+     * plus field tokens (see utils/userSearch). The backend narrows the candidates;
+     * they are then ranked as a whole and sliced, so offsets stay consistent across pages.
+     */
+    public async searchUsers(
+        query: string,
+        offset = 0,
+        pageSize = this.SEARCH_PAGE_SIZE
+    ): Promise<UserSearchPage> {
+        const emptyPage: UserSearchPage = { results: [], total: 0, nextOffset: null };
+
+        const user = await this.backend.auth.getUser();
+        if (!user) return emptyPage;
+
+        const parsed = parseSearchQuery(query);
+        const matchEach = this.toFieldMatches(parsed);
+        if (!matchEach || matchEach.length === 0) return emptyPage;
+
+        const blockedIds = await this.getBlockedIds(user.id);
+        const { data, error } = await this.backend.profiles.query({
+            excludeIds: [user.id, ...blockedIds],
+            searchableOnly: true,
+            matchEach,
+            limit: this.SEARCH_CANDIDATE_LIMIT
+        });
 
-        const { data, error } = await supabase
-            .from('profiles')
-            .select('*')
-            .neq('id', user.id)
-            .eq('is_searchable', true)
-            .ilike('display_name', `%${query}%`)
-            .limit(10);
+        if (error || !data) {
+            console.error('Error searching users:', error);
+            return emptyPage;
+        }
 
-        if (error || !data) return [];        return data.map((p: any) => ({
-            uid: p.id,
-            displayName: p.display_name || 'Student',
-            major: p.major || Major.ARTS,
-            bio: p.bio,
-            commonInterests: p.interests || [],
-            languages: p.languages || [],
-            homeRegion: p.home_region,
-            photoUrl: p.photo_url
+        const ranked = rankSearchResults(
+            data
+                .map(p => scoreSearchResult(this.toMatchProfile(p), parsed))
+                .filter((r): r is UserSearchResult => r !== null)
+        );
+        const end = offset + pageSize;
+
+        return {
+            results: ranked.slice(offset, end),
+            total: ranked.length,
+            nextOffset: end < ranked.length ? end : null
+        };
+    }
+
+    /*
+     * Translates a parsed query into backend filters.
+     * Returns null when a token can never match (e.g. major:Astrology).
+     */
+    private toFieldMatches(parsed: ParsedSearchQuery): ProfileFieldMatch[] | null {
+        const matches: ProfileFieldMatch[] = parsed.terms.map(term => ({
+            displayNameLike: term,
+            homeRegionLike: term,
+            majorIn: resolveSearchValues('major', term),
+            interestsOverlap: resolveSearchValues('interests', term),
+            languagesOverlap: resolveSearchValues('languages', term)
         }));
+
+        for (const token of parsed.tokens) {
+            if (token.field === 'displayName') {
+                matches.push({ displayNameLike: token.value });
+            } else if (token.field === 'homeRegion') {
+                matches.push({ homeRegionLike: token.value });
+            } else {
+                const values = resolveSearchValues(token.field, token.value);
+                if (values.length === 0) return null;
+                matches.push(
+                    token.field === 'major' ? { majorIn: values } :
+                    token.field === 'interests' ? { interestsOverlap: values } :
+                    { languagesOverlap: values }
+                );
+            }
+        }
+
+        return matches;
     }
 
     /* 
      * Connections: Swipe Logic
      */
     public async recordSwipe(targetUid: string, action: 'CONNECT' | 'DISMISS'): Promise<void> {
-        const { data: { user } } = await supabase.auth.getUser();
+        const user = await this.backend.auth.getUser();
         if (!user) return;
 
         console.log('[RecordSwipe] Recording swipe:', { userId: user.id, targetUid, action });
 
         // Insert into connections table
         // The database trigger will automatically create mutual_connections if both users liked each other
-        const { data, error } = await supabase.from('connections').insert({
+        const { data, error } = await this.backend.connections.insert({
             user_id: user.id,
             target_user_id: targetUid,
             action: action === 'CONNECT' ? 'like' : 'pass'
-        }).select();
+        });
 
         if (error) {
             console.error('[RecordSwipe] Error recording swipe:', error);
@@ -415,8 +520,39 @@ export class DataRepository {
         console.log('[RecordSwipe] Swipe recorded successfully:', data);
     }
 
+    /*
+     * Connections: Undo Swipe
+     * Deletes my swipe on targetUid. Refuses once a mutual connection exists,
+     * since the other user has already been told we matched.
+     */
+    public async undoSwipe(targetUid: string): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { data: mutualConnections, error: mutualError } = await this.backend.mutualConnections.listForUser(user.id);
+        if (mutualError) {
+            console.error('[UndoSwipe] Error checking mutual connections:', mutualError);
+            throw mutualError;
+        }
+
+        const isMutual = (mutualConnections || []).some(row =>
+            row.user_id_1 === targetUid || row.user_id_2 === targetUid
+        );
+        if (isMutual) {
+            throw new Error('Already connected - this swipe can no longer be undone');
+        }
+
+        const { error } = await this.backend.connections.delete(user.id, targetUid);
+        if (error) {
+            console.error('[UndoSwipe] Error deleting swipe:', error);
+            throw error;
+        }
+
+        console.log('[UndoSwipe] Swipe removed:', { userId: user.id, targetUid });
+    }
+
     public async getIncomingRequests(): Promise<MatchProfileModel[]> {
-        const { data: { user } } = await supabase.auth.getUser();
+        const user = await this.backend.auth.getUser();
         if (!user) {
             console.log('[IncomingRequests] No authenticated user');
             return [];
@@ -426,11 +562,7 @@ export class DataRepository {
 
         // Find users who liked me, but I haven't responded to yet
         // Get all users who liked me
-        const { data: incomingLikes, error } = await supabase
-            .from('connections')
-            .select('user_id')
-            .eq('target_user_id', user.id)
-            .eq('action', 'like');
+        const { data: incomingLikes, error } = await this.backend.connections.listLikesReceived(user.id);
 
         if (error || !incomingLikes || incomingLikes.length === 0) {
             console.log('[IncomingRequests] No incoming likes found');
@@ -440,14 +572,11 @@ export class DataRepository {
         const likerIds = incomingLikes.map(like => like.user_id);
 
         // Check which ones I haven't responded to yet
-        const { data: myResponses } = await supabase
-            .from('connections')
-            .select('target_user_id')
-            .eq('user_id', user.id)
-            .in('target_user_id', likerIds);
+        const { data: myResponses } = await this.backend.connections.listBySwiper(user.id, likerIds);
 
         const respondedIds = new Set((myResponses || []).map(r => r.target_user_id));
-        const pendingIds = likerIds.filter(id => !respondedIds.has(id));
+        const blockedIds = await this.getBlockedIds(user.id);
+        const pendingIds = likerIds.filter(id => !respondedIds.has(id) && !blockedIds.has(id));
 
         if (pendingIds.length === 0) {
             console.log('[IncomingRequests] All incoming requests already responded to');
@@ -457,40 +586,28 @@ export class DataRepository {
         console.log('[IncomingRequests] Found pending requests from:', pendingIds);
 
         // Fetch profiles of users with pending requests
-        const { data: profiles, error: profileError } = await supabase
-            .from('profiles')
-            .select('*')
-            .in('id', pendingIds);
+        const { data: profiles, error: profileError } = await this.backend.profiles.getByIds(pendingIds);
 
         if (profileError || !profiles) {
             console.error('[IncomingRequests] Error fetching profiles:', profileError);
             return [];
         }
 
-        return profiles.map((p: any) => ({
-            uid: p.id,
-            displayName: p.display_name,
-            major: p.major,
-            bio: p.bio,
-            commonInterests: p.interests || [],
-            languages: p.languages || [],
-            photoUrl: p.photo_url,
-            homeRegion: p.home_region
-        }));
+        return profiles.map(p => this.toMatchProfile(p));
     }
 
     public async respondToRequest(targetUid: string, action: 'ACCEPT' | 'DECLINE'): Promise<MatchProfileModel | null> {
-        const { data: { user } } = await supabase.auth.getUser();
+        const user = await this.backend.auth.getUser();
         if (!user) return null;
 
         console.log('[RespondToRequest] Responding to request:', { userId: user.id, targetUid, action });
 
         // Record my response (like or pass)
-        const { data, error } = await supabase.from('connections').insert({
+        const { data, error } = await this.backend.connections.insert({
             user_id: user.id,
             target_user_id: targetUid,
             action: action === 'ACCEPT' ? 'like' : 'pass'
-        }).select();
+        });
 
         if (error) {
             console.error('[RespondToRequest] Error recording response:', error);
@@ -528,7 +645,7 @@ export class DataRepository {
      * Connections: Get Mutuals
      */
     public async getConnections(): Promise<ConnectionModel[]> {
-        const { data: { user } } = await supabase.auth.getUser();
+        const user = await this.backend.auth.getUser();
         if (!user) {
             console.log('[GetConnections] No authenticated user');
             return [];
@@ -537,14 +654,7 @@ export class DataRepository {
         console.log('[GetConnections] Fetching mutual connections for:', user.id);
 
         // Fetch mutual connections from the mutual_connections table
-        const { data, error } = await supabase
-            .from('mutual_connections')
-            .select(`
-                user_id_1,
-                user_id_2,
-                created_at
-            `)
-            .or(`user_id_1.eq.${user.id},user_id_2.eq.${user.id}`);
+        const { data, error } = await this.backend.mutualConnections.listForUser(user.id);
 
         if (error) {
             console.error('[GetConnections] Error fetching mutual connections:', error);
@@ -558,16 +668,16 @@ export class DataRepository {
 
         console.log('[GetConnections] Found connections:', data);
 
-        // Get the other user's IDs
-        const otherUserIds = data.map(conn => 
-            conn.user_id_1 === user.id ? conn.user_id_2 : conn.user_id_1
-        );
+        // Get the other user's IDs (blocked users stay connected but hidden)
+        const blockedIds = await this.getBlockedIds(user.id);
+        const otherUserIds = data
+            .map(conn => conn.user_id_1 === user.id ? conn.user_id_2 : conn.user_id_1)
+            .filter(id => !blockedIds.has(id));
+
+        if (otherUserIds.length === 0) return [];
 
         // Fetch profiles of connected users
-        const { data: profiles, error: profileError } = await supabase
-            .from('profiles')
-            .select('id, display_name, major, photo_url')
-            .in('id', otherUserIds);
+        const { data: profiles, error: profileError } = await this.backend.profiles.getByIds(otherUserIds);
 
         if (profileError) {
             console.error('[GetConnections] Error fetching profiles:', profileError);
@@ -576,15 +686,275 @@ export class DataRepository {
 
         console.log('[GetConnections] Fetched profiles:', profiles);
 
-        return (profiles || []).map((profile: any) => ({
+        // When each connection was made
+        const connectedAt = new Map(data.map(conn => [
+            conn.user_id_1 === user.id ? conn.user_id_2 : conn.user_id_1,
+            new Date(conn.created_at).getTime()
+        ]));
+
+        return (profiles || []).map(profile => ({
             uid: profile.id,
-            displayName: profile.display_name,
-            major: profile.major,
-            photoUrl: profile.photo_url,
-            timestamp: Date.now()
+            displayName: profile.display_name || 'Student',
+            major: profile.major as Major,
+            photoUrl: profile.photo_url || undefined,
+            timestamp: connectedAt.get(profile.id) || Date.now(),
+            lastSeenAt: profile.last_seen_at ? new Date(profile.last_seen_at).getTime() : undefined
         }));
     }
 
+    /*
+     * Connections: Conversation List
+     * One summary per connection, most recent activity first.
+     * Connections without messages are ordered by when they were made.
+     */
+    public async getConversationSummaries(): Promise<ConversationSummary[]> {
+        const user = await this.backend.auth.getUser();
+        if (!user) return [];
+
+        const connections = await this.getConnections();
+        if (connections.length === 0) return [];
+
+        const [{ data, error }, { data: prefs }] = await Promise.all([
+            this.backend.messages.listConversationSummaries(user.id),
+            this.backend.conversationPrefs.listForUser(user.id)
+        ]);
+        if (error) {
+            console.error('[Conversations] Error fetching conversation summaries:', error);
+        }
+        const summaryByUser = new Map((data || []).map(row => [row.other_user_id, row]));
+        const prefsByUser = new Map((prefs || []).map(row => [row.other_user_id, row]));
+
+        const summaries: ConversationSummary[] = connections.map(connection => {
+            const row = summaryByUser.get(connection.uid);
+            return {
+                connection,
+                lastMessage: row ? {
+                    text: row.last_content,
+                    isImage: !!(row.last_image_url || row.last_image_path),
+                    isAudio: !!row.last_audio_path,
+                    senderId: row.last_sender_id,
+                    isMine: row.last_sender_id === user.id,
+                    timestamp: new Date(row.last_created_at).getTime()
+                } : null,
+                unreadCount: row?.unread_count || 0,
+                settings: toConversationSettings(prefsByUser.get(connection.uid))
+            };
+        });
+
+        const activityAt = (s: ConversationSummary) => s.lastMessage?.timestamp ?? s.connection.timestamp;
+        return summaries.sort((a, b) => activityAt(b) - activityAt(a));
+    }
+
+    /*
+     * Conversations: Settings of one chat (by the other user's id), for a message that
+     * arrives before the chats list is loaded. The defaults if I never changed them.
+     */
+    public async getConversationSettings(otherUserId: string): Promise<ConversationSettings> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { data, error } = await this.backend.conversationPrefs.get(user.id, otherUserId);
+        if (error) {
+            console.error('[Conversations] Error fetching chat settings:', error);
+            throw new Error('Failed to load chat settings');
+        }
+        return toConversationSettings(data);
+    }
+
+    /*
+     * Conversations: Settings
+     * Mutes, archives or pins a chat (by the other user's id) or a group, for me only.
+     */
+    public async updateConversationSettings(conversationId: string, isGroup: boolean, changes: Partial<ConversationSettings>): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const columns = toSettingsColumns(changes);
+        const { error } = isGroup
+            ? await this.backend.conversations.updateParticipantSettings(conversationId, user.id, columns)
+            : await this.backend.conversationPrefs.upsert({ user_id: user.id, other_user_id: conversationId, ...columns });
+        if (error) {
+            console.error('[Conversations] Error saving chat settings:', error);
+            throw new Error('Failed to save chat settings');
+        }
+    }
+
+    /*
+     * Connections: Remove (unfriend)
+     * Deletes the mutual connection for both users. Swipes are kept so neither
+     * user shows up in the other's discovery queue or requests again.
+     * hideHistory hides the existing messages for the current user only.
+     */
+    public async removeConnection(targetUid: string, hideHistory = false): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { error } = await this.backend.mutualConnections.delete(user.id, targetUid);
+        if (error) {
+            console.error('[RemoveConnection] Error removing connection:', error);
+            throw error;
+        }
+
+        if (hideHistory) {
+            const { error: prefsError } = await this.backend.conversationPrefs.upsert({
+                user_id: user.id,
+                other_user_id: targetUid,
+                history_hidden_before: new Date().toISOString()
+            });
+            if (prefsError) {
+                console.error('[RemoveConnection] Error hiding chat history:', prefsError);
+                throw prefsError;
+            }
+            // Hidden messages should not keep the unread badge up
+            await this.backend.messages.markRead(targetUid, user.id);
+        }
+
+        console.log('[RemoveConnection] Connection removed:', { userId: user.id, targetUid, hideHistory });
+    }
+
+    /*
+     * Groups: List
+     * Every group I belong to, with its members and latest message, most recent activity first.
+     * Groups without messages are ordered by when they were created.
+     */
+    public async getGroups(): Promise<GroupConversation[]> {
+        const user = await this.backend.auth.getUser();
+        if (!user) return [];
+
+        const { data, error } = await this.backend.conversations.listForUser(user.id);
+        if (error) {
+            console.error('[Groups] Error fetching groups:', error);
+            return [];
+        }
+        const groups = await this.toGroups(user.id, data || []);
+
+        const activityAt = (g: GroupConversation) => g.lastMessage?.timestamp ?? g.createdAt;
+        return groups.sort((a, b) => activityAt(b) - activityAt(a));
+    }
+
+    /*
+     * Groups: Create
+     * Starts a group with me and some of my connections.
+     */
+    public async createGroup(name: string, memberIds: string[], interest?: Interest): Promise<GroupConversation> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+        if (!name.trim()) throw new Error('Give the group a name');
+        if (memberIds.length === 0) throw new Error('Add at least one connection');
+        await this.assertConnected(memberIds);
+
+        const { data, error } = await this.backend.conversations.create(
+            { name: name.trim(), interest: interest ?? null, created_by: user.id },
+            memberIds
+        );
+        if (error || !data) {
+            console.error('[Groups] Error creating group:', error);
+            throw new Error('Failed to create group');
+        }
+
+        const [group] = await this.toGroups(user.id, [data]);
+        return group;
+    }
+
+    /*
+     * Groups: Rename or change the avatar
+     */
+    public async updateGroup(groupId: string, updates: { name?: string; photoUrl?: string | null; interest?: Interest | null }): Promise<void> {
+        if (updates.name !== undefined && !updates.name.trim()) throw new Error('Give the group a name');
+
+        const { error } = await this.backend.conversations.update(groupId, {
+            ...(updates.name !== undefined && { name: updates.name.trim() }),
+            ...(updates.photoUrl !== undefined && { photo_url: updates.photoUrl }),
+            ...(updates.interest !== undefined && { interest: updates.interest })
+        });
+        if (error) {
+            console.error('[Groups] Error updating group:', error);
+            throw new Error('Failed to update group');
+        }
+    }
+
+    /*
+     * Groups: Add members
+     * Members can add their own connections.
+     */
+    public async addGroupMembers(groupId: string, userIds: string[]): Promise<void> {
+        await this.assertConnected(userIds);
+
+        const { error } = await this.backend.conversations.addParticipants(groupId, userIds);
+        if (error) {
+            console.error('[Groups] Error adding members:', error);
+            throw new Error('Failed to add members');
+        }
+    }
+
+    /*
+     * Groups: Leave
+     * The group and its history stay with the remaining members.
+     */
+    public async leaveGroup(groupId: string): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { error } = await this.backend.conversations.removeParticipant(groupId, user.id);
+        if (error) {
+            console.error('[Groups] Error leaving group:', error);
+            throw new Error('Failed to leave group');
+        }
+    }
+
+    /* Helper: Only connections (who are not blocked) can be added to a group */
+    private async assertConnected(userIds: string[]): Promise<void> {
+        const connectionIds = new Set((await this.getConnections()).map(c => c.uid));
+        if (userIds.some(id => !connectionIds.has(id))) {
+            throw new Error('You can only add your connections');
+        }
+    }
+
+    /* Helper: Attach members and the latest message to group rows */
+    private async toGroups(userId: string, rows: ConversationRow[]): Promise<GroupConversation[]> {
+        if (rows.length === 0) return [];
+
+        const [{ data: participants }, { data: summaries }] = await Promise.all([
+            this.backend.conversations.listParticipants(rows.map(row => row.id)),
+            this.backend.messages.listGroupSummaries(userId)
+        ]);
+        const memberIds = Array.from(new Set((participants || []).map(p => p.user_id)));
+        const { data: profiles } = await this.backend.profiles.getByIds(memberIds);
+        const profileById = new Map((profiles || []).map(p => [p.id, p]));
+        const summaryById = new Map((summaries || []).map(s => [s.conversation_id, s]));
+
+        return rows.map(row => {
+            const summary = summaryById.get(row.id);
+            const myMembership = (participants || []).find(p => p.conversation_id === row.id && p.user_id === userId);
+            return {
+                id: row.id,
+                name: row.name,
+                photoUrl: row.photo_url || undefined,
+                interest: (row.interest as Interest) || undefined,
+                createdBy: row.created_by,
+                createdAt: new Date(row.created_at).getTime(),
+                members: (participants || [])
+                    .filter(p => p.conversation_id === row.id)
+                    .sort((a, b) => a.joined_at.localeCompare(b.joined_at))
+                    .map(p => ({
+                        uid: p.user_id,
+                        displayName: profileById.get(p.user_id)?.display_name || 'Student',
+                        photoUrl: profileById.get(p.user_id)?.photo_url || undefined
+                    })),
+                lastMessage: summary ? {
+                    text: summary.last_content,
+                    isImage: !!(summary.last_image_url || summary.last_image_path),
+                    isAudio: !!summary.last_audio_path,
+                    senderId: summary.last_sender_id,
+                    isMine: summary.last_sender_id === userId,
+                    timestamp: new Date(summary.last_created_at).getTime()
+                } : null,
+                unreadCount: summary?.unread_count || 0,
+                settings: toConversationSettings(myMembership)
+            };
+        });
+    }
+
     /*
      * General: Get User by ID
      */
@@ -601,11 +971,7 @@ export class DataRepository {
             };
         }
 
-        const { data, error } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', uid)
-            .single();
+        const { data, error } = await this.backend.profiles.getById(uid);
 
         if (error || !data) {
             return { uid, displayName: 'Unknown User' };
@@ -613,141 +979,101 @@ export class DataRepository {
 
         return {
             uid: data.id,
-            displayName: data.display_name,
-            major: data.major,
-            bio: data.bio,
-            interests: data.interests,
-            languages: data.languages,
-            homeRegion: data.home_region,
-            photoUrl: data.photo_url
+            displayName: data.display_name || 'Student',
+            major: data.major as Major | null,
+            bio: data.bio || undefined,
+            interests: (data.interests || []) as Interest[],
+            languages: (data.languages || []) as Language[],
+            homeRegion: data.home_region || undefined,
+            photoUrl: data.photo_url || undefined,
+            lastSeenAt: data.last_seen_at ? new Date(data.last_seen_at).getTime() : undefined
         };
     }
 
     /*
-     * Messaging: Send Message
+     * Safety: Blocking
+     * A block hides both users from each other everywhere (discovery, search,
+     * requests, connections and chat), whichever of them created it.
      */
-    public async sendMessage(receiverId: string, content: string): Promise<void> {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) throw new Error('Not authenticated');
-
-        console.log('[SendMessage] Sending message:', { from: user.id, to: receiverId, content });
-        
-        const { data, error } = await supabase
-            .from('messages')
-            .insert({
-                sender_id: user.id,
-                receiver_id: receiverId,
-                content: content,
-                is_read: false
-            })
-            .select()
-            .single();
-        
+    private async getBlockedIds(userId: string): Promise<Set<string>> {
+        const { data, error } = await this.backend.blocks.listInvolving(userId);
         if (error) {
-            console.error('[SendMessage] Error sending message:', error);
-            throw error;
+            console.error('[Blocks] Error fetching blocks:', error);
         }
-        
-        console.log('[SendMessage] Message sent successfully:', data);
+
+        return new Set((data || []).map(row => row.blocker_id === userId ? row.blocked_id : row.blocker_id));
     }
 
-    /*
-     * Messaging: Get Messages with User
-     */
-    public async getMessagesWithUser(otherUserId: string): Promise<any[]> {
-        const { data: { user } } = await supabase.auth.getUser();
+    /* Users I have blocked, most recent first (for the settings list) */
+    public async getBlockedUsers(): Promise<BlockedUserModel[]> {
+        const user = await this.backend.auth.getUser();
         if (!user) return [];
 
-        console.log('[GetMessages] Fetching messages between:', user.id, 'and', otherUserId);
-        
-        const { data, error } = await supabase
-            .from('messages')
-            .select('*')
-            .or(`and(sender_id.eq.${user.id},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${user.id})`)
-            .order('created_at', { ascending: true });
-        
+        const { data, error } = await this.backend.blocks.listInvolving(user.id);
         if (error) {
-            console.error('[GetMessages] Error fetching messages:', error);
+            console.error('[Blocks] Error fetching blocked users:', error);
             throw error;
         }
-        
-        console.log('[GetMessages] Found messages:', data?.length || 0);
-        return data || [];
+
+        const myBlocks = (data || [])
+            .filter(row => row.blocker_id === user.id)
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+        if (myBlocks.length === 0) return [];
+
+        const { data: profiles } = await this.backend.profiles.getByIds(myBlocks.map(row => row.blocked_id));
+        const profileById = new Map((profiles || []).map(p => [p.id, p]));
+
+        return myBlocks.map(row => {
+            const profile = profileById.get(row.blocked_id);
+            return {
+                uid: row.blocked_id,
+                displayName: profile?.display_name || 'Student',
+                photoUrl: profile?.photo_url || undefined,
+                blockedAt: new Date(row.created_at).getTime()
+            };
+        });
     }
 
-    /*
-     * Messaging: Mark Messages as Read
-     */
-    public async markMessagesAsRead(otherUserId: string): Promise<void> {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return;
+    public async blockUser(targetUid: string): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+        if (targetUid === user.id) throw new Error('You cannot block yourself');
 
-        console.log('[MarkAsRead] Marking messages as read from:', otherUserId);
-        
-        const { error } = await supabase
-            .from('messages')
-            .update({ is_read: true })
-            .eq('sender_id', otherUserId)
-            .eq('receiver_id', user.id)
-            .eq('is_read', false);
-        
+        const { error } = await this.backend.blocks.insert({ blocker_id: user.id, blocked_id: targetUid });
         if (error) {
-            console.error('[MarkAsRead] Error marking messages as read:', error);
+            console.error('[Blocks] Error blocking user:', error);
             throw error;
         }
-        
-        console.log('[MarkAsRead] Messages marked as read');
     }
 
-    /*
-     * Messaging: Get Unread Message Count
-     */
-    public async getUnreadMessageCount(): Promise<number> {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return 0;
-        
-        const { count, error } = await supabase
-            .from('messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('receiver_id', user.id)
-            .eq('is_read', false);
-        
+    public async unblockUser(targetUid: string): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { error } = await this.backend.blocks.delete(user.id, targetUid);
         if (error) {
-            console.error('[UnreadCount] Error fetching unread count:', error);
-            return 0;
+            console.error('[Blocks] Error unblocking user:', error);
+            throw error;
         }
-        
-        return count || 0;
     }
 
     /*
-     * Messaging: Subscribe to Real-time Messages
+     * Safety: Reporting
+     * Records a report for moderators. Does not block; callers decide that separately.
      */
-    public subscribeToMessages(otherUserId: string, callback: (message: any) => void): () => void {
-        console.log('[Subscribe] Setting up real-time subscription for messages with:', otherUserId);
-        
-        const channel = supabase
-            .channel(`messages-${otherUserId}`)
-            .on(
-                'postgres_changes',
-                {
-                    event: 'INSERT',
-                    schema: 'public',
-                    table: 'messages',
-                    filter: `sender_id=eq.${otherUserId}`
-                },
-                (payload) => {
-                    console.log('[Subscribe] New message received:', payload.new);
-                    callback(payload.new);
-                }
-            )
-            .subscribe();
-        
-        // Return unsubscribe function
-        return () => {
-            console.log('[Subscribe] Unsubscribing from messages');
-            supabase.removeChannel(channel);
-        };
+    public async reportUser(targetUid: string, reason: ReportReason, details?: string): Promise<void> {
+        const user = await this.backend.auth.getUser();
+        if (!user) throw new Error('Not authenticated');
+
+        const { error } = await this.backend.reports.insert({
+            reporter_id: user.id,
+            reported_id: targetUid,
+            reason,
+            details: details?.trim() || null
+        });
+        if (error) {
+            console.error('[Reports] Error submitting report:', error);
+            throw error;
+        }
     }
 }
-
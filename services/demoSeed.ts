@@ -0,0 +1,81 @@
+import { Major, Interest, Language } from '../types';
+import { InMemorySeed } from './inMemoryBackendAdapter';
+import { ProfileRow } from './backendAdapter';
+
+const profile = (
+    id: string,
+    display_name: string,
+    major: Major,
+    interests: Interest[],
+    languages: Language[],
+    home_region: string,
+    bio: string
+): ProfileRow => ({
+    id,
+    email: `${id}@example.com`,
+    display_name,
+    major,
+    bio,
+    interests,
+    languages,
+    home_region,
+    photo_url: null,
+    is_searchable: true
+});
+
+/*
+ * DEMO_SEED
+ *
+ * Sample data for the in-memory backend, used for offline demos and tests.
+ * Log in as user@example.com / password123.
+ */
+export const DEMO_SEED: InMemorySeed = {
+    accounts: [
+        { id: 'demo_user', email: 'user@example.com', password: 'password123' }
+    ],
+    profiles: [
+        {
+            ...profile('demo_user', 'Demo Student', Major.COMPUTER_SCIENCE,
+                [Interest.HIKING, Interest.CODING, Interest.MUSIC],
+                [Language.ENGLISH, Language.KOREAN], 'Seoul, South Korea',
+                'Second year CS student looking for hiking buddies.'),
+            email: 'user@example.com'
+        },
+        profile('user_2', 'Maria Garcia', Major.ARTS,
+            [Interest.PAINTING, Interest.MUSIC, Interest.READING],
+            [Language.SPANISH, Language.ENGLISH], 'Madrid, Spain',
+            'International student from Spain. Love painting!'),
+        profile('user_3', 'Jisoo Park', Major.COMMERCE,
+            [Interest.STARTUPS, Interest.HIKING],
+            [Language.KOREAN, Language.ENGLISH], 'Seoul, South Korea',
+            'Building my first startup between lectures.'),
+        profile('user_4', 'Liam Chen', Major.ENGINEERING,
+            [Interest.SKIING, Interest.VIDEO_GAMES, Interest.CODING],
+            [Language.ENGLISH, Language.MANDARIN_SIMPLIFIED], 'Vancouver, Canada',
+            'Weekend skier, weekday robot builder.'),
+        profile('user_5', 'Aiko Tanaka', Major.SCIENCE,
+            [Interest.READING, Interest.MUSIC],
+            [Language.JAPANESE, Language.ENGLISH], 'Osaka, Japan',
+            'Biology nerd and amateur pianist.'),
+        profile('user_6', 'Lucas Moreau', Major.FORESTRY,
+            [Interest.HIKING, Interest.SKIING],
+            [Language.FRENCH, Language.ENGLISH], 'Lyon, France',
+            'Happiest in the woods.'),
+        profile('user_7', 'Giulia Rossi', Major.KINESIOLOGY,
+            [Interest.HIKING, Interest.MUSIC],
+            [Language.ITALIAN, Language.ENGLISH], 'Milan, Italy',
+            'Runner, climber, coffee enthusiast.'),
+        profile('user_8', 'Pedro Alves', Major.COMPUTER_SCIENCE,
+            [Interest.CODING, Interest.VIDEO_GAMES],
+            [Language.PORTUGUESE, Language.ENGLISH], 'Lisbon, Portugal',
+            'Game jams every month.'),
+        profile('user_9', 'Mei Lin', Major.ARTS,
+            [Interest.PAINTING, Interest.READING],
+            [Language.MANDARIN_TRADITIONAL, Language.ENGLISH], 'Taipei, Taiwan',
+            'Sketching the campus one building at a time.')
+    ],
+    connections: [
+        // user_3 already liked the demo user, so they show up as an incoming request
+        { user_id: 'user_3', target_user_id: 'demo_user', action: 'like', created_at: '2025-01-01T00:00:00.000Z' }
+    ]
+};
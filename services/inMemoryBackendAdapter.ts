@@ -0,0 +1,822 @@
+import {
+    BackendAdapter,
+    AuthAdapter,
+    ProfilesAdapter,
+    ConnectionsAdapter,
+    MutualConnectionsAdapter,
+    MessagesAdapter,
+    ReactionsAdapter,
+    ConversationsAdapter,
+    ConversationPrefsAdapter,
+    BlocksAdapter,
+    ReportsAdapter,
+    PresenceAdapter,
+    AttachmentsAdapter,
+    LinkPreviewsAdapter,
+    BackendError,
+    AuthUser,
+    ProfileRow,
+    ConnectionRow,
+    MutualConnectionRow,
+    MessageRow,
+    ReactionRow,
+    ReactionInsert,
+    MessageFilter,
+    ProfileFieldMatch,
+    ConversationSummaryRow,
+    GroupSummaryRow,
+    ConversationRow,
+    ParticipantRow,
+    HiddenMessageRow,
+    ConversationPrefsRow,
+    BlockRow,
+    ReportRow,
+    LinkPreviewRow
+} from './backendAdapter';
+import { scoreMessageText } from '../utils/messageSearch';
+
+export interface InMemoryAccount {
+    id: string;
+    email: string;
+    password: string;
+}
+
+export interface InMemorySeed {
+    accounts?: InMemoryAccount[];
+    profiles?: ProfileRow[];
+    connections?: ConnectionRow[];
+    mutualConnections?: MutualConnectionRow[];
+    messages?: MessageRow[];
+    reactions?: ReactionRow[];
+    conversations?: ConversationRow[];
+    participants?: ParticipantRow[];
+    conversationPrefs?: ConversationPrefsRow[];
+    blocks?: BlockRow[];
+    reports?: ReportRow[];
+    linkPreviews?: LinkPreviewRow[]; // Pages the stub link unfurler knows
+}
+
+export interface InMemoryOptions {
+    // Sign in with an unknown email creates the account instead of failing (demo mode)
+    autoProvision?: boolean;
+}
+
+type MessageListener = { event: 'INSERT' | 'UPDATE'; filter: MessageFilter; onRow: (row: MessageRow) => void };
+type ReactionListener = (event: 'INSERT' | 'DELETE', row: ReactionInsert) => void;
+type PresenceListener = (onlineUserIds: string[]) => void;
+type TypingListener = { userId: string; onTyping: (fromUserId: string, isTyping: boolean) => void };
+
+const ok = <T>(data: T) => ({ data, error: null });
+const fail = (message: string, code?: string) => ({ data: null, error: { message, code } as BackendError });
+const copy = <T extends object>(row: T): T => ({ ...row });
+const now = () => new Date().toISOString();
+const isDeletedFor = (row: MessageRow, userId: string) =>
+    row.sender_id === userId ? row.deleted_for_sender : row.receiver_id === userId && row.deleted_for_receiver;
+const newParticipant = (conversationId: string, userId: string, joinedAt: string): ParticipantRow => ({
+    conversation_id: conversationId,
+    user_id: userId,
+    joined_at: joinedAt,
+    last_read_at: joinedAt,
+    muted_until: null,
+    archived_at: null,
+    pinned_at: null
+});
+
+/*
+ * InMemoryBackendAdapter
+ *
+ * Abstraction Function:
+ * Implements BackendAdapter with plain arrays so the app and tests run without Supabase.
+ * Mirrors the server-side behaviour the client relies on:
+ * - the mutual_connections trigger (two reciprocal 'like' rows create one mutual row),
+ * - the unique (user_id, target_user_id) constraint on connections,
+ * - realtime INSERT events on messages,
+ * - row level security on group messages (only participants receive them).
+ * Link previews are stubbed: seeded pages, otherwise just the site's host name.
+ *
+ * Rep Invariant:
+ * - mutualConnections stores each pair once, with user_id_1 < user_id_2.
+ * - sessionUserId, when set, refers to an entry in accounts.
+ */
+export class InMemoryBackendAdapter implements BackendAdapter {
+    private accounts: InMemoryAccount[];
+    private profileRows: ProfileRow[];
+    private connectionRows: ConnectionRow[];
+    private mutualRows: MutualConnectionRow[];
+    private messageRows: MessageRow[];
+    private reactionRows: ReactionRow[];
+    private conversationRows: ConversationRow[];
+    private participantRows: ParticipantRow[];
+    private hiddenRows: HiddenMessageRow[] = [];
+    private prefsRows: ConversationPrefsRow[];
+    private blockRows: BlockRow[];
+    private reportRows: ReportRow[];
+    private linkPreviewRows: LinkPreviewRow[];
+    private listeners = new Set<MessageListener>();
+    private deleteListeners = new Set<(messageId: string) => void>();
+    private reactionListeners = new Set<ReactionListener>();
+    private onlineCounts = new Map<string, number>(); // userId -> joined sessions
+    private presenceListeners = new Set<PresenceListener>();
+    private typingListeners = new Set<TypingListener>();
+    private attachmentFiles = new Map<string, Blob>();
+    private attachmentUrls = new Map<string, string>();
+    private sessionUserId: string | null = null;
+    private idSeq = 0;
+
+    constructor(seed: InMemorySeed = {}, private readonly options: InMemoryOptions = {}) {
+        this.accounts = (seed.accounts || []).map(copy);
+        this.profileRows = (seed.profiles || []).map(copy);
+        this.connectionRows = (seed.connections || []).map(copy);
+        this.mutualRows = (seed.mutualConnections || []).map(copy);
+        this.messageRows = (seed.messages || []).map(copy);
+        this.reactionRows = (seed.reactions || []).map(copy);
+        this.conversationRows = (seed.conversations || []).map(copy);
+        this.participantRows = (seed.participants || []).map(copy);
+        this.prefsRows = (seed.conversationPrefs || []).map(copy);
+        this.blockRows = (seed.blocks || []).map(copy);
+        this.reportRows = (seed.reports || []).map(copy);
+        this.linkPreviewRows = (seed.linkPreviews || []).map(copy);
+    }
+
+    private nextId(prefix: string): string {
+        this.idSeq += 1;
+        return `${prefix}_${Date.now().toString(36)}_${this.idSeq}`;
+    }
+
+    private toAuthUser(account: InMemoryAccount): AuthUser {
+        return { id: account.id, email: account.email };
+    }
+
+    private currentAccount(): InMemoryAccount | null {
+        return this.accounts.find(a => a.id === this.sessionUserId) || null;
+    }
+
+    /* Mirrors the database trigger on connections */
+    private applyMutualTrigger(row: ConnectionRow): void {
+        if (row.action !== 'like') return;
+
+        const reciprocated = this.connectionRows.some(c =>
+            c.user_id === row.target_user_id && c.target_user_id === row.user_id && c.action === 'like'
+        );
+        if (!reciprocated) return;
+
+        const [user_id_1, user_id_2] = [row.user_id, row.target_user_id].sort();
+        const exists = this.mutualRows.some(m => m.user_id_1 === user_id_1 && m.user_id_2 === user_id_2);
+        if (!exists) {
+            this.mutualRows.push({ user_id_1, user_id_2, created_at: now() });
+        }
+    }
+
+    private isParticipant(conversationId: string | null, userId: string): boolean {
+        return this.participantRows.some(p => p.conversation_id === conversationId && p.user_id === userId);
+    }
+
+    /* Deleted for userId: by a flag on the row, or on their own list for group messages */
+    private isHiddenFor(row: MessageRow, userId: string): boolean {
+        return isDeletedFor(row, userId) || this.hiddenRows.some(h => h.message_id === row.id && h.user_id === userId);
+    }
+
+    private emitMessageEvent(event: 'INSERT' | 'UPDATE', row: MessageRow): void {
+        this.listeners.forEach(listener => {
+            if (listener.event === event &&
+                (!listener.filter.senderId || row.sender_id === listener.filter.senderId) &&
+                (!listener.filter.receiverId || row.receiver_id === listener.filter.receiverId) &&
+                (!listener.filter.groupMemberId || this.isParticipant(row.conversation_id, listener.filter.groupMemberId))) {
+                listener.onRow(copy(row));
+            }
+        });
+    }
+
+    private listenToMessages(event: 'INSERT' | 'UPDATE', filter: MessageFilter, onRow: (row: MessageRow) => void): () => void {
+        const listener: MessageListener = { event, filter, onRow };
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public readonly auth: AuthAdapter = {
+        getSessionUser: async () => {
+            const account = this.currentAccount();
+            return account ? this.toAuthUser(account) : null;
+        },
+
+        getUser: async () => {
+            const account = this.currentAccount();
+            return account ? this.toAuthUser(account) : null;
+        },
+
+        signInWithPassword: async (email, password) => {
+            let account = this.accounts.find(a => a.email.toLowerCase() === email.toLowerCase());
+
+            if (!account && this.options.autoProvision) {
+                account = { id: this.nextId('user'), email, password };
+                this.accounts.push(account);
+            }
+            if (!account || account.password !== password) {
+                return fail('Invalid login credentials', 'invalid_credentials');
+            }
+
+            this.sessionUserId = account.id;
+            return ok(this.toAuthUser(account));
+        },
+
+        signUp: async (email, password) => {
+            if (this.accounts.some(a => a.email.toLowerCase() === email.toLowerCase())) {
+                return fail('User already registered', 'user_already_exists');
+            }
+
+            const account: InMemoryAccount = { id: this.nextId('user'), email, password };
+            this.accounts.push(account);
+            this.sessionUserId = account.id;
+            return ok(this.toAuthUser(account));
+        },
+
+        signOut: async () => {
+            this.sessionUserId = null;
+        }
+    };
+
+    public readonly profiles: ProfilesAdapter = {
+        getById: async (id) => {
+            const row = this.profileRows.find(p => p.id === id);
+            return row ? ok(copy(row)) : fail('Row not found', 'PGRST116');
+        },
+
+        getByIds: async (ids) => {
+            return ok(this.profileRows.filter(p => ids.includes(p.id)).map(copy));
+        },
+
+        insert: async (row) => {
+            if (this.profileRows.some(p => p.id === row.id)) {
+                return fail('duplicate key value violates unique constraint "profiles_pkey"', '23505');
+            }
+
+            const inserted: ProfileRow = {
+                email: null,
+                display_name: null,
+                major: null,
+                bio: null,
+                interests: null,
+                languages: null,
+                home_region: null,
+                photo_url: null,
+                is_searchable: true,
+                ...row
+            };
+            this.profileRows.push(inserted);
+            return ok(copy(inserted));
+        },
+
+        update: async (id, updates) => {
+            const row = this.profileRows.find(p => p.id === id);
+            if (!row) return fail('Row not found', 'PGRST116');
+
+            Object.assign(row, updates);
+            return ok(copy(row));
+        },
+
+        query: async (q) => {
+            const excluded = new Set(q.excludeIds || []);
+            const nameLike = q.displayNameLike?.toLowerCase();
+            const regionLike = q.homeRegionLike?.toLowerCase();
+            const containsAll = (values: string[] | null, required?: string[]) =>
+                !required || required.every(r => (values || []).includes(r));
+            const overlaps = (values: string[] | null, wanted?: string[]) =>
+                !!wanted && wanted.some(w => (values || []).includes(w));
+            const like = (value: string | null, text?: string) =>
+                !!text && (value || '').toLowerCase().includes(text.toLowerCase());
+            const matchesAny = (p: ProfileRow, m: ProfileFieldMatch) =>
+                like(p.display_name, m.displayNameLike) ||
+                like(p.home_region, m.homeRegionLike) ||
+                (!!m.majorIn && p.major !== null && m.majorIn.includes(p.major)) ||
+                overlaps(p.interests, m.interestsOverlap) ||
+                overlaps(p.languages, m.languagesOverlap);
+
+            const rows = this.profileRows.filter(p =>
+                !excluded.has(p.id) &&
+                (!q.afterId || p.id > q.afterId) &&
+                (!q.searchableOnly || p.is_searchable === true) &&
+                (!q.requireMajor || p.major !== null) &&
+                (!q.majorIn || q.majorIn.length === 0 || (p.major !== null && q.majorIn.includes(p.major))) &&
+                // SQL "NOT IN" never matches NULL, so profiles without a major drop out too
+                (!q.majorNotIn || q.majorNotIn.length === 0 || (p.major !== null && !q.majorNotIn.includes(p.major))) &&
+                containsAll(p.interests, q.interestsContainAll) &&
+                containsAll(p.languages, q.languagesContainAll) &&
+                (!regionLike || (p.home_region || '').toLowerCase().includes(regionLike)) &&
+                (!nameLike || (p.display_name || '').toLowerCase().includes(nameLike)) &&
+                (q.matchEach || []).every(m => matchesAny(p, m))
+            );
+
+            if (q.orderById) rows.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+            return ok((q.limit ? rows.slice(0, q.limit) : rows).map(copy));
+        }
+    };
+
+    public readonly connections: ConnectionsAdapter = {
+        listBySwiper: async (userId, targetIds) => {
+            return ok(this.connectionRows
+                .filter(c => c.user_id === userId && (!targetIds || targetIds.includes(c.target_user_id)))
+                .map(copy));
+        },
+
+        listLikesReceived: async (userId) => {
+            return ok(this.connectionRows
+                .filter(c => c.target_user_id === userId && c.action === 'like')
+                .map(copy));
+        },
+
+        insert: async (row) => {
+            const duplicate = this.connectionRows.some(c =>
+                c.user_id === row.user_id && c.target_user_id === row.target_user_id
+            );
+            if (duplicate) {
+                return fail('duplicate key value violates unique constraint "connections_user_id_target_user_id_key"', '23505');
+            }
+
+            const inserted: ConnectionRow = { ...row, created_at: now() };
+            this.connectionRows.push(inserted);
+            this.applyMutualTrigger(inserted);
+            return ok(copy(inserted));
+        },
+
+        delete: async (userId, targetUserId) => {
+            this.connectionRows = this.connectionRows.filter(c =>
+                !(c.user_id === userId && c.target_user_id === targetUserId)
+            );
+            return ok(null);
+        }
+    };
+
+    public readonly mutualConnections: MutualConnectionsAdapter = {
+        listForUser: async (userId) => {
+            return ok(this.mutualRows
+                .filter(m => m.user_id_1 === userId || m.user_id_2 === userId)
+                .map(copy));
+        },
+
+        delete: async (userId, otherUserId) => {
+            const [user_id_1, user_id_2] = [userId, otherUserId].sort();
+            this.mutualRows = this.mutualRows.filter(m => !(m.user_id_1 === user_id_1 && m.user_id_2 === user_id_2));
+            return ok(null);
+        }
+    };
+
+    public readonly messages: MessagesAdapter = {
+        insert: async (row) => {
+            const existing = row.client_id && this.messageRows.find(m => m.client_id === row.client_id);
+            if (existing) return ok(copy(existing));
+            // Mirrors the policy that only participants post in a group
+            if (row.conversation_id && !this.isParticipant(row.conversation_id, row.sender_id)) {
+                return fail('new row violates row-level security policy for table "messages"', '42501');
+            }
+
+            const inserted: MessageRow = {
+                id: this.nextId('msg'),
+                receiver_id: null,
+                conversation_id: null,
+                image_url: null,
+                image_path: null,
+                audio_path: null,
+                audio_duration_ms: null,
+                audio_waveform: null,
+                is_read: false,
+                delivered_at: null,
+                client_id: null,
+                edited_at: null,
+                reply_to_id: null,
+                deleted_for_sender: false,
+                deleted_for_receiver: false,
+                created_at: now(),
+                ...row
+            };
+            this.messageRows.push(inserted);
+            this.emitMessageEvent('INSERT', inserted);
+            return ok(copy(inserted));
+        },
+
+        listByIds: async (messageIds) => {
+            // Mirrors the row level security policy that hides group messages a member deleted for themselves
+            const hiddenIds = this.hiddenRows.filter(h => h.user_id === this.sessionUserId).map(h => h.message_id);
+            return ok(this.messageRows.filter(m => messageIds.includes(m.id) && !hiddenIds.includes(m.id)).map(copy));
+        },
+
+        updateContent: async (messageId, senderId, content) => {
+            const row = this.messageRows.find(m => m.id === messageId && m.sender_id === senderId);
+            if (!row) return fail('Message not found');
+            row.content = content;
+            row.edited_at = now();
+            this.emitMessageEvent('UPDATE', row);
+            return ok(copy(row));
+        },
+
+        hideFor: async (messageId, userId) => {
+            const row = this.messageRows.find(m => m.id === messageId);
+            if (!row) return fail('Message not found');
+            if (row.conversation_id && row.sender_id !== userId) {
+                if (!this.isParticipant(row.conversation_id, userId)) return fail('Message not found');
+                if (!this.isHiddenFor(row, userId)) this.hiddenRows.push({ user_id: userId, message_id: messageId });
+                return ok(null);
+            }
+            if (row.sender_id !== userId && row.receiver_id !== userId) return fail('Message not found');
+            if (row.sender_id === userId) row.deleted_for_sender = true;
+            else row.deleted_for_receiver = true;
+            this.emitMessageEvent('UPDATE', row);
+            return ok(null);
+        },
+
+        delete: async (messageId, senderId) => {
+            const exists = this.messageRows.some(m => m.id === messageId && m.sender_id === senderId);
+            if (!exists) return fail('Message not found');
+            this.messageRows = this.messageRows.filter(m => m.id !== messageId);
+            // Mirrors "on delete cascade"; like Postgres, no reaction events are emitted for it
+            this.reactionRows = this.reactionRows.filter(r => r.message_id !== messageId);
+            this.hiddenRows = this.hiddenRows.filter(h => h.message_id !== messageId);
+            // Mirrors "on delete set null" on reply_to_id
+            this.messageRows.forEach(m => {
+                if (m.reply_to_id === messageId) m.reply_to_id = null;
+            });
+            this.deleteListeners.forEach(listener => listener(messageId));
+            return ok(null);
+        },
+
+        listConversationPage: async (userId, otherUserId, limit, before) => {
+            // Stable sort keeps insertion order for messages created in the same millisecond,
+            // so position (not id) breaks created_at ties here
+            const rows = this.messageRows
+                .filter(m =>
+                    (m.sender_id === userId && m.receiver_id === otherUserId) ||
+                    (m.sender_id === otherUserId && m.receiver_id === userId)
+                )
+                .filter(m => !isDeletedFor(m, userId))
+                .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+            const cursorIndex = before ? rows.findIndex(m => m.id === before.id) : -1;
+            const older = !before ? rows
+                : cursorIndex >= 0 ? rows.slice(0, cursorIndex)
+                : rows.filter(m => m.created_at < before.createdAt);
+
+            return ok(older.slice(-limit).reverse().map(copy));
+        },
+
+        listGroupPage: async (userId, conversationId, limit, before) => {
+            if (!this.isParticipant(conversationId, userId)) return ok([]);
+            const rows = this.messageRows
+                .filter(m => m.conversation_id === conversationId && !this.isHiddenFor(m, userId))
+                .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+            const cursorIndex = before ? rows.findIndex(m => m.id === before.id) : -1;
+            const older = !before ? rows
+                : cursorIndex >= 0 ? rows.slice(0, cursorIndex)
+                : rows.filter(m => m.created_at < before.createdAt);
+
+            return ok(older.slice(-limit).reverse().map(copy));
+        },
+
+        search: async (userId, terms, scope, limit) => {
+            const lowerTerms = terms.map(term => term.toLowerCase());
+            const rows = this.messageRows
+                .filter(m => m.conversation_id
+                    ? this.isParticipant(m.conversation_id, userId)
+                    : m.sender_id === userId || m.receiver_id === userId)
+                .filter(m => !this.isHiddenFor(m, userId))
+                .filter(m => !scope.conversationId || m.conversation_id === scope.conversationId)
+                .filter(m => !scope.otherUserId || (!m.conversation_id && (m.sender_id === scope.otherUserId || m.receiver_id === scope.otherUserId)))
+                .filter(m => lowerTerms.every(term => m.content.toLowerCase().includes(term)))
+                .map(m => ({ m, score: scoreMessageText(m.content, lowerTerms)! }))
+                .sort((a, b) => b.score - a.score || b.m.created_at.localeCompare(a.m.created_at))
+                .map(({ m }) => m);
+
+            return ok(rows.slice(0, limit).map(copy));
+        },
+
+        markRead: async (senderId, receiverId) => {
+            this.messageRows.forEach(m => {
+                if (m.sender_id === senderId && m.receiver_id === receiverId && !m.is_read) {
+                    m.is_read = true;
+                    this.emitMessageEvent('UPDATE', m);
+                }
+            });
+            return ok(null);
+        },
+
+        countUnread: async (receiverId, excludeSenderIds = []) => {
+            return ok(this.messageRows.filter(m =>
+                m.receiver_id === receiverId && !m.is_read && !m.deleted_for_receiver && !excludeSenderIds.includes(m.sender_id)
+            ).length);
+        },
+
+        listConversationSummaries: async (userId) => {
+            const summaries = new Map<string, ConversationSummaryRow>();
+
+            // Oldest first, so the last write per partner is the latest message
+            const sorted = [...this.messageRows].sort((a, b) => a.created_at.localeCompare(b.created_at));
+            sorted.forEach(m => {
+                if (m.receiver_id === null || (m.sender_id !== userId && m.receiver_id !== userId) || isDeletedFor(m, userId)) return;
+                const otherId = m.sender_id === userId ? m.receiver_id : m.sender_id;
+
+                const prefs = this.prefsRows.find(p => p.user_id === userId && p.other_user_id === otherId);
+                if (prefs?.history_hidden_before && m.created_at <= prefs.history_hidden_before) return;
+
+                const unread = (summaries.get(otherId)?.unread_count || 0) +
+                    (m.receiver_id === userId && !m.is_read ? 1 : 0);
+                summaries.set(otherId, {
+                    other_user_id: otherId,
+                    last_message_id: m.id,
+                    last_sender_id: m.sender_id,
+                    last_content: m.content,
+                    last_image_url: m.image_url,
+                    last_image_path: m.image_path,
+                    last_audio_path: m.audio_path,
+                    last_created_at: m.created_at,
+                    unread_count: unread
+                });
+            });
+
+            return ok(Array.from(summaries.values()));
+        },
+
+        listGroupSummaries: async (userId) => {
+            const summaries = new Map<string, GroupSummaryRow>();
+            const sorted = [...this.messageRows].sort((a, b) => a.created_at.localeCompare(b.created_at));
+            sorted.forEach(m => {
+                const membership = this.participantRows.find(p => p.conversation_id === m.conversation_id && p.user_id === userId);
+                if (!membership || this.isHiddenFor(m, userId)) return;
+
+                const isUnread = m.sender_id !== userId && m.created_at > membership.last_read_at;
+                summaries.set(membership.conversation_id, {
+                    conversation_id: membership.conversation_id,
+                    last_message_id: m.id,
+                    last_sender_id: m.sender_id,
+                    last_content: m.content,
+                    last_image_url: m.image_url,
+                    last_image_path: m.image_path,
+                    last_audio_path: m.audio_path,
+                    last_created_at: m.created_at,
+                    unread_count: (summaries.get(membership.conversation_id)?.unread_count || 0) + (isUnread ? 1 : 0)
+                });
+            });
+
+            return ok(Array.from(summaries.values()));
+        },
+
+        markDelivered: async (receiverId) => {
+            const deliveredAt = now();
+            this.messageRows.forEach(m => {
+                if (m.receiver_id === receiverId && !m.delivered_at) {
+                    m.delivered_at = deliveredAt;
+                    this.emitMessageEvent('UPDATE', m);
+                }
+            });
+            return ok(null);
+        },
+
+        subscribe: (filter, onInsert) => this.listenToMessages('INSERT', filter, onInsert),
+
+        subscribeUpdates: (filter, onUpdate) => this.listenToMessages('UPDATE', filter, onUpdate),
+
+        subscribeDeletes: (onDelete) => {
+            this.deleteListeners.add(onDelete);
+            return () => {
+                this.deleteListeners.delete(onDelete);
+            };
+        }
+    };
+
+    public readonly reactions: ReactionsAdapter = {
+        listForMessages: async (messageIds) => {
+            const rows = this.reactionRows
+                .filter(r => messageIds.includes(r.message_id))
+                .sort((a, b) => a.created_at.localeCompare(b.created_at));
+            return ok(rows.map(copy));
+        },
+
+        insert: async (row) => {
+            const exists = this.reactionRows.some(r =>
+                r.message_id === row.message_id && r.user_id === row.user_id && r.emoji === row.emoji
+            );
+            if (!exists) {
+                this.reactionRows.push({ ...row, created_at: now() });
+                this.reactionListeners.forEach(listener => listener('INSERT', { ...row }));
+            }
+            return ok(null);
+        },
+
+        delete: async (messageId, userId, emoji) => {
+            const before = this.reactionRows.length;
+            this.reactionRows = this.reactionRows.filter(r =>
+                !(r.message_id === messageId && r.user_id === userId && r.emoji === emoji)
+            );
+            if (this.reactionRows.length < before) {
+                this.reactionListeners.forEach(listener => listener('DELETE', { message_id: messageId, user_id: userId, emoji }));
+            }
+            return ok(null);
+        },
+
+        subscribe: (onChange) => {
+            this.reactionListeners.add(onChange);
+            return () => {
+                this.reactionListeners.delete(onChange);
+            };
+        }
+    };
+
+    public readonly conversations: ConversationsAdapter = {
+        create: async (row, memberIds) => {
+            const stored: ConversationRow = {
+                id: this.nextId('conversation'),
+                photo_url: null,
+                interest: null,
+                ...row,
+                created_at: now()
+            };
+            this.conversationRows.push(stored);
+            Array.from(new Set([row.created_by, ...memberIds])).forEach(userId => {
+                this.participantRows.push(newParticipant(stored.id, userId, stored.created_at));
+            });
+            return ok(copy(stored));
+        },
+
+        listForUser: async (userId) => {
+            return ok(this.conversationRows
+                .filter(c => this.isParticipant(c.id, userId))
+                .map(copy));
+        },
+
+        update: async (conversationId, updates) => {
+            const row = this.conversationRows.find(c => c.id === conversationId);
+            if (!row) return fail('Row not found', 'PGRST116');
+
+            Object.assign(row, updates);
+            return ok(copy(row));
+        },
+
+        listParticipants: async (conversationIds) => {
+            return ok(this.participantRows
+                .filter(p => conversationIds.includes(p.conversation_id))
+                .map(copy));
+        },
+
+        addParticipants: async (conversationId, userIds) => {
+            if (!this.conversationRows.some(c => c.id === conversationId)) return fail('Conversation not found');
+            const joinedAt = now();
+            userIds.forEach(userId => {
+                if (this.isParticipant(conversationId, userId)) return;
+                this.participantRows.push(newParticipant(conversationId, userId, joinedAt));
+            });
+            return ok(null);
+        },
+
+        removeParticipant: async (conversationId, userId) => {
+            this.participantRows = this.participantRows.filter(p => !(p.conversation_id === conversationId && p.user_id === userId));
+            return ok(null);
+        },
+
+        markRead: async (conversationId, userId) => {
+            const row = this.participantRows.find(p => p.conversation_id === conversationId && p.user_id === userId);
+            if (row) row.last_read_at = now();
+            return ok(null);
+        },
+
+        updateParticipantSettings: async (conversationId, userId, changes) => {
+            const row = this.participantRows.find(p => p.conversation_id === conversationId && p.user_id === userId);
+            if (!row) return fail('Row not found', 'PGRST116');
+
+            Object.assign(row, changes);
+            return ok(null);
+        }
+    };
+
+    public readonly conversationPrefs: ConversationPrefsAdapter = {
+        get: async (userId, otherUserId) => {
+            const row = this.prefsRows.find(p => p.user_id === userId && p.other_user_id === otherUserId);
+            return ok(row ? copy(row) : null);
+        },
+
+        listForUser: async (userId) => {
+            return ok(this.prefsRows.filter(p => p.user_id === userId).map(copy));
+        },
+
+        upsert: async (row) => {
+            const existing = this.prefsRows.find(p => p.user_id === row.user_id && p.other_user_id === row.other_user_id);
+            if (existing) {
+                Object.assign(existing, row, { updated_at: now() });
+                return ok(copy(existing));
+            }
+
+            const stored: ConversationPrefsRow = {
+                history_hidden_before: null,
+                muted_until: null,
+                archived_at: null,
+                pinned_at: null,
+                ...row,
+                updated_at: now()
+            };
+            this.prefsRows.push(stored);
+            return ok(copy(stored));
+        }
+    };
+
+    public readonly blocks: BlocksAdapter = {
+        listInvolving: async (userId) => {
+            return ok(this.blockRows
+                .filter(b => b.blocker_id === userId || b.blocked_id === userId)
+                .map(copy));
+        },
+
+        insert: async (row) => {
+            const existing = this.blockRows.find(b => b.blocker_id === row.blocker_id && b.blocked_id === row.blocked_id);
+            if (existing) return ok(copy(existing));
+
+            const stored: BlockRow = { ...row, created_at: now() };
+            this.blockRows.push(stored);
+            return ok(copy(stored));
+        },
+
+        delete: async (blockerId, blockedId) => {
+            this.blockRows = this.blockRows.filter(b => !(b.blocker_id === blockerId && b.blocked_id === blockedId));
+            return ok(null);
+        }
+    };
+
+    public readonly reports: ReportsAdapter = {
+        insert: async (row) => {
+            const stored: ReportRow = {
+                id: this.nextId('report'),
+                reporter_id: row.reporter_id,
+                reported_id: row.reported_id,
+                reason: row.reason,
+                details: row.details ?? null,
+                created_at: now()
+            };
+            this.reportRows.push(stored);
+            return ok(null);
+        }
+    };
+
+    public readonly presence: PresenceAdapter = {
+        join: (userId, onChange) => {
+            const emit = () => {
+                const online = Array.from(this.onlineCounts.keys());
+                this.presenceListeners.forEach(listener => listener(online));
+            };
+
+            this.onlineCounts.set(userId, (this.onlineCounts.get(userId) || 0) + 1);
+            this.presenceListeners.add(onChange);
+            emit();
+
+            return () => {
+                this.presenceListeners.delete(onChange);
+                const remaining = (this.onlineCounts.get(userId) || 1) - 1;
+                if (remaining > 0) this.onlineCounts.set(userId, remaining);
+                else this.onlineCounts.delete(userId);
+                emit();
+            };
+        },
+
+        sendTyping: (fromUserId, toUserId, isTyping) => {
+            this.typingListeners.forEach(listener => {
+                if (listener.userId === toUserId) listener.onTyping(fromUserId, isTyping);
+            });
+        },
+
+        subscribeTyping: (userId, onTyping) => {
+            const listener: TypingListener = { userId, onTyping };
+            this.typingListeners.add(listener);
+            return () => {
+                this.typingListeners.delete(listener);
+            };
+        }
+    };
+
+    public readonly attachments: AttachmentsAdapter = {
+        upload: async (path, file, onProgress) => {
+            if (this.attachmentFiles.has(path)) return fail('The resource already exists', '409');
+            this.attachmentFiles.set(path, file);
+            onProgress?.(1);
+            return ok(path);
+        },
+
+        getUrl: async (path) => {
+            const file = this.attachmentFiles.get(path);
+            if (!file) return fail('Object not found', '404');
+            if (!this.attachmentUrls.has(path)) this.attachmentUrls.set(path, URL.createObjectURL(file));
+            return ok(this.attachmentUrls.get(path)!);
+        }
+    };
+
+    public readonly linkPreviews: LinkPreviewsAdapter = {
+        fetch: async (url) => {
+            const seeded = this.linkPreviewRows.find(row => row.url === url);
+            if (seeded) return ok(copy(seeded));
+            try {
+                const site = new URL(url).hostname.replace(/^www\./, '');
+                return ok({ url, title: null, description: null, image_url: null, site_name: site });
+            } catch (err) {
+                // Not a URL: nothing to preview
+                return ok(null);
+            }
+        }
+    };
+}
@@ -0,0 +1,153 @@
+import { VoiceNoteMeta } from '../types';
+
+// Sending gives up (and the bubble offers Retry / Delete) after this many failed attempts; a refused message gives up at once
+export const OUTBOX_MAX_ATTEMPTS = 5;
+
+// First retry delay; doubles with every failed attempt up to OUTBOX_MAX_RETRY_DELAY_MS
+const OUTBOX_BASE_RETRY_DELAY_MS = 1000;
+const OUTBOX_MAX_RETRY_DELAY_MS = 60 * 1000;
+
+const STORAGE_KEY_PREFIX = 'cypress_outbox_';
+
+/*
+ * A message that has not reached the backend yet.
+ * clientId doubles as the optimistic message id and as the messages.client_id
+ * that makes a resend of an already stored message a no-op.
+ */
+export interface OutboxEntry {
+    clientId: string;
+    receiverId: string; // Or the group's id
+    isGroup?: boolean;
+    text: string;
+    imagePath?: string; // Already uploaded; only the message row is outstanding
+    audioPath?: string; // Likewise, for a voice note
+    voiceNote?: VoiceNoteMeta;
+    replyToId?: string;
+    createdAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    status: 'pending' | 'failed';
+}
+
+/**
+ * How long to wait before the next attempt
+ * @param attempts - Failed attempts so far (at least 1)
+ * @returns number - Delay in milliseconds
+ */
+export function outboxRetryDelay(attempts: number): number {
+    return Math.min(OUTBOX_BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), OUTBOX_MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether the browser reports a network connection (always true outside a browser)
+ */
+export function isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/*
+ * MessageOutbox
+ *
+ * Abstraction Function:
+ * The signed-in user's unsent messages, oldest first, persisted in localStorage
+ * per user so they survive a reload. Only bookkeeping lives here; useAppStore
+ * decides when to send and ChatService does the sending.
+ */
+export class MessageOutbox {
+    private static instance: MessageOutbox;
+    private userId: string | null = null;
+    private entries: OutboxEntry[] = [];
+
+    private constructor() {}
+
+    public static getInstance(): MessageOutbox {
+        if (!MessageOutbox.instance) {
+            MessageOutbox.instance = new MessageOutbox();
+        }
+        return MessageOutbox.instance;
+    }
+
+    /*
+     * Switch to userId's outbox and return what is still queued there.
+     */
+    public open(userId: string): OutboxEntry[] {
+        this.userId = userId;
+        this.entries = [];
+        try {
+            const stored = typeof localStorage === 'undefined' ? null : localStorage.getItem(STORAGE_KEY_PREFIX + userId);
+            if (stored) this.entries = JSON.parse(stored);
+        } catch (err) {
+            console.error('Failed to read the message outbox', err);
+        }
+        return this.list();
+    }
+
+    /*
+     * Forget the in-memory entries (e.g. on logout). The stored outbox is kept
+     * and picked up again the next time this user signs in.
+     */
+    public close(): void {
+        this.userId = null;
+        this.entries = [];
+    }
+
+    public list(): OutboxEntry[] {
+        return this.entries.map(entry => ({ ...entry }));
+    }
+
+    public get(clientId: string): OutboxEntry | undefined {
+        const entry = this.entries.find(e => e.clientId === clientId);
+        return entry && { ...entry };
+    }
+
+    public add(entry: OutboxEntry): void {
+        this.entries.push({ ...entry });
+        this.persist();
+    }
+
+    public update(clientId: string, changes: Partial<Omit<OutboxEntry, 'clientId'>>): void {
+        this.entries = this.entries.map(e => e.clientId === clientId ? { ...e, ...changes } : e);
+        this.persist();
+    }
+
+    public remove(clientId: string): void {
+        this.entries = this.entries.filter(e => e.clientId !== clientId);
+        this.persist();
+    }
+
+    /*
+     * The next entry that may be sent at `now`, or undefined.
+     * Within a conversation messages go out in order: an entry waiting for its
+     * retry holds back the later ones to the same receiver.
+     */
+    public nextDue(now: number): OutboxEntry | undefined {
+        const waitingReceivers = new Set<string>();
+        for (const entry of this.entries) {
+            if (entry.status !== 'pending' || waitingReceivers.has(entry.receiverId)) continue;
+            if (entry.nextAttemptAt <= now) return { ...entry };
+            waitingReceivers.add(entry.receiverId);
+        }
+        return undefined;
+    }
+
+    /*
+     * When the earliest pending entry becomes due, or null if nothing is pending.
+     */
+    public nextAttemptAt(): number | null {
+        const pending = this.entries.filter(e => e.status === 'pending');
+        return pending.length ? Math.min(...pending.map(e => e.nextAttemptAt)) : null;
+    }
+
+    private persist(): void {
+        if (!this.userId || typeof localStorage === 'undefined') return;
+        try {
+            if (this.entries.length) {
+                localStorage.setItem(STORAGE_KEY_PREFIX + this.userId, JSON.stringify(this.entries));
+            } else {
+                localStorage.removeItem(STORAGE_KEY_PREFIX + this.userId);
+            }
+        } catch (err) {
+            console.error('Failed to save the message outbox', err);
+        }
+    }
+}
@@ -0,0 +1,748 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase, SUPABASE_URL, SUPABASE_ANON_KEY } from './supabaseClient';
+import {
+    BackendAdapter,
+    AuthAdapter,
+    ProfilesAdapter,
+    ConnectionsAdapter,
+    MutualConnectionsAdapter,
+    MessagesAdapter,
+    ReactionsAdapter,
+    ConversationsAdapter,
+    ConversationPrefsAdapter,
+    BlocksAdapter,
+    ReportsAdapter,
+    PresenceAdapter,
+    AttachmentsAdapter,
+    LinkPreviewsAdapter,
+    LinkPreviewRow,
+    MessageFilter,
+    MessageRow,
+    ConversationSummaryRow,
+    GroupSummaryRow,
+    ConversationRow,
+    ReactionInsert,
+    ProfileFieldMatch,
+    AuthUser,
+    Unsubscribe
+} from './backendAdapter';
+
+const toAuthUser = (user: { id: string; email?: string | null } | null | undefined): AuthUser | null =>
+    user ? { id: user.id, email: user.email ?? null } : null;
+
+// PostgREST values are quoted because majors and interests contain spaces
+const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// An ilike pattern matching value anywhere; \, % and _ in it are matched literally, like includes()
+const containsPattern = (value: string): string => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+// The summary functions count unread messages as a bigint, which PostgREST may send as a string
+type SummaryRpcRow<Row extends { unread_count: number }> = Omit<Row, 'unread_count'> & { unread_count: number | string };
+
+const ATTACHMENTS_BUCKET = 'chat-attachments';
+
+// Lifetime of the signed URLs handed out for attachments
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+const toListLiteral = (values: string[]): string => `(${values.map(quote).join(',')})`;
+
+const toArrayLiteral = (values: string[]): string => `{${values.map(quote).join(',')}}`;
+
+// One PostgREST or=(...) group for a ProfileFieldMatch
+const toOrFilter = (match: ProfileFieldMatch): string => {
+    const parts: string[] = [];
+    if (match.displayNameLike) parts.push(`display_name.ilike.${quote(containsPattern(match.displayNameLike))}`);
+    if (match.homeRegionLike) parts.push(`home_region.ilike.${quote(containsPattern(match.homeRegionLike))}`);
+    if (match.majorIn && match.majorIn.length > 0) parts.push(`major.in.${toListLiteral(match.majorIn)}`);
+    if (match.interestsOverlap && match.interestsOverlap.length > 0) parts.push(`interests.ov.${toArrayLiteral(match.interestsOverlap)}`);
+    if (match.languagesOverlap && match.languagesOverlap.length > 0) parts.push(`languages.ov.${toArrayLiteral(match.languagesOverlap)}`);
+    return parts.join(',');
+};
+
+// Group membership is enforced by row level security: realtime only sends rows the user can read
+const matchesFilter = (row: MessageRow, filter: MessageFilter): boolean =>
+    (!filter.senderId || row.sender_id === filter.senderId) &&
+    (!filter.receiverId || row.receiver_id === filter.receiverId) &&
+    (!filter.groupMemberId || row.conversation_id !== null);
+
+/*
+ * SupabaseBackendAdapter
+ *
+ * Abstraction Function:
+ * Implements BackendAdapter on top of the shared Supabase client.
+ * The mutual_connections table is maintained by a database trigger on connections.
+ */
+export class SupabaseBackendAdapter implements BackendAdapter {
+    private channelSeq = 0;
+    // Broadcast channels used to send typing signals, by receiver
+    private typingChannels = new Map<string, RealtimeChannel>();
+
+    private listenToMessages(event: 'INSERT' | 'UPDATE', filter: MessageFilter, onRow: (row: MessageRow) => void): Unsubscribe {
+        // Realtime supports a single column filter; the other one is checked client-side
+        const serverFilter = filter.receiverId
+            ? `receiver_id=eq.${filter.receiverId}`
+            : filter.senderId ? `sender_id=eq.${filter.senderId}` : undefined;
+
+        const channel = supabase
+            .channel(`messages-${event.toLowerCase()}-${filter.senderId || '*'}-${filter.receiverId || '*'}-${filter.groupMemberId ? 'groups' : '*'}-${++this.channelSeq}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'messages',
+                    filter: serverFilter
+                },
+                (payload) => {
+                    const row = payload.new as MessageRow;
+                    if (payload.eventType === event && matchesFilter(row, filter)) {
+                        onRow(row);
+                    }
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }
+
+    public readonly auth: AuthAdapter = {
+        getSessionUser: async () => {
+            const { data: { session } } = await supabase.auth.getSession();
+            return toAuthUser(session?.user);
+        },
+
+        getUser: async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            return toAuthUser(user);
+        },
+
+        signInWithPassword: async (email, password) => {
+            const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+            return { data: toAuthUser(data.user), error };
+        },
+
+        signUp: async (email, password) => {
+            const { data, error } = await supabase.auth.signUp({ email, password });
+            return { data: toAuthUser(data.user), error };
+        },
+
+        signOut: async () => {
+            await supabase.auth.signOut();
+        }
+    };
+
+    public readonly profiles: ProfilesAdapter = {
+        getById: async (id) => {
+            const { data, error } = await supabase
+                .from('profiles')
+                .select('*')
+                .eq('id', id)
+                .single();
+            return { data, error };
+        },
+
+        getByIds: async (ids) => {
+            const { data, error } = await supabase
+                .from('profiles')
+                .select('*')
+                .in('id', ids);
+            return { data, error };
+        },
+
+        insert: async (row) => {
+            const { data, error } = await supabase
+                .from('profiles')
+                .insert(row)
+                .select()
+                .single();
+            return { data, error };
+        },
+
+        update: async (id, updates) => {
+            const { data, error } = await supabase
+                .from('profiles')
+                .update(updates)
+                .eq('id', id)
+                .select()
+                .single();
+            return { data, error };
+        },
+
+        query: async (q) => {
+            let query = supabase.from('profiles').select('*');
+
+            if (q.searchableOnly) query = query.eq('is_searchable', true);
+            if (q.majorIn && q.majorIn.length > 0) query = query.in('major', q.majorIn);
+            if (q.majorNotIn && q.majorNotIn.length > 0) query = query.not('major', 'in', toListLiteral(q.majorNotIn));
+            if (q.interestsContainAll && q.interestsContainAll.length > 0) query = query.contains('interests', q.interestsContainAll);
+            if (q.languagesContainAll && q.languagesContainAll.length > 0) query = query.contains('languages', q.languagesContainAll);
+            if (q.homeRegionLike) query = query.ilike('home_region', containsPattern(q.homeRegionLike));
+            if (q.requireMajor) query = query.not('major', 'is', null);
+            if (q.displayNameLike) query = query.ilike('display_name', containsPattern(q.displayNameLike));
+            // Repeated or= parameters are combined with AND
+            for (const match of q.matchEach || []) query = query.or(toOrFilter(match));
+            if (q.excludeIds && q.excludeIds.length > 0) {
+                // Supabase filter for "NOT IN"
+                query = query.not('id', 'in', `(${q.excludeIds.join(',')})`);
+            }
+            if (q.afterId) query = query.gt('id', q.afterId);
+            if (q.orderById) query = query.order('id', { ascending: true });
+            if (q.limit) query = query.limit(q.limit);
+
+            const { data, error } = await query;
+            return { data, error };
+        }
+    };
+
+    public readonly connections: ConnectionsAdapter = {
+        listBySwiper: async (userId, targetIds) => {
+            let query = supabase
+                .from('connections')
+                .select('*')
+                .eq('user_id', userId);
+            if (targetIds) query = query.in('target_user_id', targetIds);
+
+            const { data, error } = await query;
+            return { data, error };
+        },
+
+        listLikesReceived: async (userId) => {
+            const { data, error } = await supabase
+                .from('connections')
+                .select('*')
+                .eq('target_user_id', userId)
+                .eq('action', 'like');
+            return { data, error };
+        },
+
+        insert: async (row) => {
+            // The database trigger creates the mutual_connections row when both users liked each other
+            const { data, error } = await supabase
+                .from('connections')
+                .insert(row)
+                .select()
+                .single();
+            return { data, error };
+        },
+
+        delete: async (userId, targetUserId) => {
+            const { error } = await supabase
+                .from('connections')
+                .delete()
+                .eq('user_id', userId)
+                .eq('target_user_id', targetUserId);
+            return { data: null, error };
+        }
+    };
+
+    public readonly mutualConnections: MutualConnectionsAdapter = {
+        listForUser: async (userId) => {
+            const { data, error } = await supabase
+                .from('mutual_connections')
+                .select('user_id_1, user_id_2, created_at')
+                .or(`user_id_1.eq.${userId},user_id_2.eq.${userId}`);
+            return { data, error };
+        },
+
+        delete: async (userId, otherUserId) => {
+            const { error } = await supabase
+                .from('mutual_connections')
+                .delete()
+                .or(`and(user_id_1.eq.${userId},user_id_2.eq.${otherUserId}),and(user_id_1.eq.${otherUserId},user_id_2.eq.${userId})`);
+            return { data: null, error };
+        }
+    };
+
+    public readonly messages: MessagesAdapter = {
+        insert: async (row) => {
+            const { data, error } = await supabase
+                .from('messages')
+                .insert(row)
+                .select()
+                .single();
+
+            // Unique violation on client_id: an earlier attempt already got through
+            if (error?.code === '23505' && row.client_id) {
+                return await supabase
+                    .from('messages')
+                    .select('*')
+                    .eq('client_id', row.client_id)
+                    .eq('sender_id', row.sender_id)
+                    .single();
+            }
+            return { data, error };
+        },
+
+        listByIds: async (messageIds) => {
+            if (messageIds.length === 0) return { data: [], error: null };
+            const { data, error } = await supabase
+                .from('messages')
+                .select('*')
+                .in('id', messageIds);
+            return { data, error };
+        },
+
+        updateContent: async (messageId, senderId, content) => {
+            const { data, error } = await supabase
+                .from('messages')
+                .update({ content, edited_at: new Date().toISOString() })
+                .eq('id', messageId)
+                .eq('sender_id', senderId)
+                .select()
+                .single();
+            return { data, error };
+        },
+
+        hideFor: async (messageId, userId) => {
+            const { data: row, error } = await supabase
+                .from('messages')
+                .select('sender_id, conversation_id')
+                .eq('id', messageId)
+                .single();
+            if (error || !row) return { data: null, error };
+
+            // Group members other than the sender cannot update the row; they list it in hidden_messages,
+            // which row level security then filters out for them (see README)
+            if (row.conversation_id && row.sender_id !== userId) {
+                const { error: hideError } = await supabase
+                    .from('hidden_messages')
+                    .upsert({ user_id: userId, message_id: messageId }, { onConflict: 'user_id,message_id', ignoreDuplicates: true });
+                return { data: null, error: hideError };
+            }
+
+            // Only one of the two matches, depending on which side userId is on
+            const [asSender, asReceiver] = await Promise.all([
+                supabase.from('messages').update({ deleted_for_sender: true }).eq('id', messageId).eq('sender_id', userId),
+                supabase.from('messages').update({ deleted_for_receiver: true }).eq('id', messageId).eq('receiver_id', userId)
+            ]);
+            return { data: null, error: asSender.error || asReceiver.error };
+        },
+
+        delete: async (messageId, senderId) => {
+            const { error } = await supabase
+                .from('messages')
+                .delete()
+                .eq('id', messageId)
+                .eq('sender_id', senderId);
+            return { data: null, error };
+        },
+
+        listConversationPage: async (userId, otherUserId, limit, before) => {
+            let query = supabase
+                .from('messages')
+                .select('*')
+                .or(`and(sender_id.eq.${userId},receiver_id.eq.${otherUserId},deleted_for_sender.is.false),and(sender_id.eq.${otherUserId},receiver_id.eq.${userId},deleted_for_receiver.is.false)`);
+
+            // Separate or= groups are ANDed together by PostgREST
+            if (before) {
+                const createdAt = quote(before.createdAt);
+                query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${quote(before.id)})`);
+            }
+
+            const { data, error } = await query
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(limit);
+            return { data, error };
+        },
+
+        listGroupPage: async (userId, conversationId, limit, before) => {
+            // Row level security already limits this to groups userId belongs to
+            let query = supabase
+                .from('messages')
+                .select('*')
+                .eq('conversation_id', conversationId)
+                .or(`sender_id.neq.${userId},deleted_for_sender.is.false`);
+
+            if (before) {
+                const createdAt = quote(before.createdAt);
+                query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${quote(before.id)})`);
+            }
+
+            const { data, error } = await query
+                .order('created_at', { ascending: false })
+                .order('id', { ascending: false })
+                .limit(limit);
+            return { data, error };
+        },
+
+        search: async (userId, terms, scope, limit) => {
+            // Matched and ranked server-side by the search_messages function (see README);
+            // row level security limits group messages to groups userId belongs to
+            const { data, error } = await supabase.rpc('search_messages', {
+                p_user_id: userId,
+                p_terms: terms,
+                p_conversation_id: scope.conversationId ?? null,
+                p_other_user_id: scope.otherUserId ?? null,
+                p_limit: limit
+            });
+            return { data, error };
+        },
+
+        markRead: async (senderId, receiverId) => {
+            const { error } = await supabase
+                .from('messages')
+                .update({ is_read: true })
+                .eq('sender_id', senderId)
+                .eq('receiver_id', receiverId)
+                .eq('is_read', false);
+            return { data: null, error };
+        },
+
+        countUnread: async (receiverId, excludeSenderIds) => {
+            let query = supabase
+                .from('messages')
+                .select('*', { count: 'exact', head: true })
+                .eq('receiver_id', receiverId)
+                .eq('is_read', false)
+                .eq('deleted_for_receiver', false);
+            if (excludeSenderIds && excludeSenderIds.length > 0) {
+                query = query.not('sender_id', 'in', `(${excludeSenderIds.join(',')})`);
+            }
+
+            const { count, error } = await query;
+            return { data: count || 0, error };
+        },
+
+        listConversationSummaries: async (userId) => {
+            // Aggregated server-side by the conversation_summaries function (see README)
+            const { data, error } = await supabase.rpc('conversation_summaries', { p_user_id: userId });
+            const rows = data as SummaryRpcRow<ConversationSummaryRow>[] | null;
+            return {
+                data: rows ? rows.map(row => ({ ...row, unread_count: Number(row.unread_count) })) : null,
+                error
+            };
+        },
+
+        listGroupSummaries: async (userId) => {
+            // Aggregated server-side by the group_summaries function (see README)
+            const { data, error } = await supabase.rpc('group_summaries', { p_user_id: userId });
+            const rows = data as SummaryRpcRow<GroupSummaryRow>[] | null;
+            return {
+                data: rows ? rows.map(row => ({ ...row, unread_count: Number(row.unread_count) })) : null,
+                error
+            };
+        },
+
+        markDelivered: async (receiverId) => {
+            const { error } = await supabase
+                .from('messages')
+                .update({ delivered_at: new Date().toISOString() })
+                .eq('receiver_id', receiverId)
+                .is('delivered_at', null);
+            return { data: null, error };
+        },
+
+        subscribe: (filter, onInsert) => this.listenToMessages('INSERT', filter, onInsert),
+
+        subscribeUpdates: (filter, onUpdate) => this.listenToMessages('UPDATE', filter, onUpdate),
+
+        subscribeDeletes: (onDelete) => {
+            // DELETE payloads only carry the primary key, and realtime cannot filter them
+            const channel = supabase
+                .channel(`messages-delete-${++this.channelSeq}`)
+                .on(
+                    'postgres_changes',
+                    { event: 'DELETE', schema: 'public', table: 'messages' },
+                    (payload) => {
+                        const old = payload.old as Partial<MessageRow>;
+                        if (old.id) onDelete(old.id);
+                    }
+                )
+                .subscribe();
+
+            return () => {
+                supabase.removeChannel(channel);
+            };
+        }
+    };
+
+    public readonly reactions: ReactionsAdapter = {
+        listForMessages: async (messageIds) => {
+            if (messageIds.length === 0) return { data: [], error: null };
+            const { data, error } = await supabase
+                .from('message_reactions')
+                .select('*')
+                .in('message_id', messageIds)
+                .order('created_at', { ascending: true });
+            return { data, error };
+        },
+
+        insert: async (row) => {
+            const { error } = await supabase
+                .from('message_reactions')
+                .upsert(row, { onConflict: 'message_id,user_id,emoji', ignoreDuplicates: true });
+            return { data: null, error };
+        },
+
+        delete: async (messageId, userId, emoji) => {
+            const { error } = await supabase
+                .from('message_reactions')
+                .delete()
+                .eq('message_id', messageId)
+                .eq('user_id', userId)
+                .eq('emoji', emoji);
+            return { data: null, error };
+        },
+
+        subscribe: (onChange) => {
+            // The primary key is the whole row, so DELETE payloads carry everything needed
+            const channel = supabase
+                .channel(`message-reactions-${++this.channelSeq}`)
+                .on(
+                    'postgres_changes',
+                    { event: '*', schema: 'public', table: 'message_reactions' },
+                    (payload) => {
+                        if (payload.eventType === 'INSERT') onChange('INSERT', payload.new as ReactionInsert);
+                        else if (payload.eventType === 'DELETE') onChange('DELETE', payload.old as ReactionInsert);
+                    }
+                )
+                .subscribe();
+
+            return () => {
+                supabase.removeChannel(channel);
+            };
+        }
+    };
+
+    public readonly conversations: ConversationsAdapter = {
+        create: async (row, memberIds) => {
+            const { data, error } = await supabase
+                .from('conversations')
+                .insert(row)
+                .select()
+                .single();
+            if (error || !data) return { data: null, error };
+
+            // The creator goes first: the policy lets participants add the others
+            const joined = await supabase
+                .from('conversation_participants')
+                .insert({ conversation_id: data.id, user_id: row.created_by });
+            if (joined.error) return { data: null, error: joined.error };
+
+            const others = memberIds.filter(id => id !== row.created_by);
+            if (others.length > 0) {
+                const added = await supabase
+                    .from('conversation_participants')
+                    .insert(others.map(user_id => ({ conversation_id: data.id, user_id })));
+                if (added.error) return { data: null, error: added.error };
+            }
+            return { data, error: null };
+        },
+
+        listForUser: async (userId) => {
+            const { data, error } = await supabase
+                .from('conversations')
+                .select('*, conversation_participants!inner(user_id)')
+                .eq('conversation_participants.user_id', userId)
+                .returns<(ConversationRow & { conversation_participants: { user_id: string }[] })[]>();
+            return {
+                data: data ? data.map(({ conversation_participants: _participants, ...row }) => row) : null,
+                error
+            };
+        },
+
+        update: async (conversationId, updates) => {
+            const { data, error } = await supabase
+                .from('conversations')
+                .update(updates)
+                .eq('id', conversationId)
+                .select()
+                .single();
+            return { data, error };
+        },
+
+        listParticipants: async (conversationIds) => {
+            if (conversationIds.length === 0) return { data: [], error: null };
+            const { data, error } = await supabase
+                .from('conversation_participants')
+                .select('*')
+                .in('conversation_id', conversationIds);
+            return { data, error };
+        },
+
+        addParticipants: async (conversationId, userIds) => {
+            const { error } = await supabase
+                .from('conversation_participants')
+                .upsert(userIds.map(user_id => ({ conversation_id: conversationId, user_id })), {
+                    onConflict: 'conversation_id,user_id',
+                    ignoreDuplicates: true
+                });
+            return { data: null, error };
+        },
+
+        removeParticipant: async (conversationId, userId) => {
+            const { error } = await supabase
+                .from('conversation_participants')
+                .delete()
+                .eq('conversation_id', conversationId)
+                .eq('user_id', userId);
+            return { data: null, error };
+        },
+
+        markRead: async (conversationId, userId) => {
+            const { error } = await supabase
+                .from('conversation_participants')
+                .update({ last_read_at: new Date().toISOString() })
+                .eq('conversation_id', conversationId)
+                .eq('user_id', userId);
+            return { data: null, error };
+        },
+
+        updateParticipantSettings: async (conversationId, userId, changes) => {
+            const { error } = await supabase
+                .from('conversation_participants')
+                .update(changes)
+                .eq('conversation_id', conversationId)
+                .eq('user_id', userId);
+            return { data: null, error };
+        }
+    };
+
+    public readonly conversationPrefs: ConversationPrefsAdapter = {
+        get: async (userId, otherUserId) => {
+            const { data, error } = await supabase
+                .from('conversation_prefs')
+                .select('*')
+                .eq('user_id', userId)
+                .eq('other_user_id', otherUserId)
+                .maybeSingle();
+            return { data, error };
+        },
+
+        listForUser: async (userId) => {
+            const { data, error } = await supabase
+                .from('conversation_prefs')
+                .select('*')
+                .eq('user_id', userId);
+            return { data, error };
+        },
+
+        upsert: async (row) => {
+            const { data, error } = await supabase
+                .from('conversation_prefs')
+                .upsert({ ...row, updated_at: new Date().toISOString() }, { onConflict: 'user_id,other_user_id' })
+                .select()
+                .single();
+            return { data, error };
+        }
+    };
+
+    public readonly blocks: BlocksAdapter = {
+        listInvolving: async (userId) => {
+            const { data, error } = await supabase
+                .from('blocks')
+                .select('*')
+                .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+            return { data, error };
+        },
+
+        insert: async (row) => {
+            const { data, error } = await supabase
+                .from('blocks')
+                .upsert(row, { onConflict: 'blocker_id,blocked_id' })
+                .select()
+                .single();
+            return { data, error };
+        },
+
+        delete: async (blockerId, blockedId) => {
+            const { error } = await supabase
+                .from('blocks')
+                .delete()
+                .eq('blocker_id', blockerId)
+                .eq('blocked_id', blockedId);
+            return { data: null, error };
+        }
+    };
+
+    public readonly reports: ReportsAdapter = {
+        insert: async (row) => {
+            const { error } = await supabase
+                .from('reports')
+                .insert(row);
+            return { data: null, error };
+        }
+    };
+
+    public readonly presence: PresenceAdapter = {
+        join: (userId, onChange) => {
+            const channel = supabase.channel('online-users', { config: { presence: { key: userId } } });
+            channel
+                .on('presence', { event: 'sync' }, () => onChange(Object.keys(channel.presenceState())))
+                .subscribe((status) => {
+                    if (status === 'SUBSCRIBED') {
+                        channel.track({ online_at: new Date().toISOString() });
+                    }
+                });
+
+            return () => {
+                supabase.removeChannel(channel);
+                this.typingChannels.forEach(typingChannel => supabase.removeChannel(typingChannel));
+                this.typingChannels.clear();
+            };
+        },
+
+        sendTyping: (fromUserId, toUserId, isTyping) => {
+            let channel = this.typingChannels.get(toUserId);
+            if (!channel) {
+                channel = supabase.channel(`typing-${toUserId}`);
+                channel.subscribe();
+                this.typingChannels.set(toUserId, channel);
+            }
+            channel.send({ type: 'broadcast', event: 'typing', payload: { from: fromUserId, isTyping } });
+        },
+
+        subscribeTyping: (userId, onTyping) => {
+            const channel = supabase
+                .channel(`typing-${userId}`)
+                .on('broadcast', { event: 'typing' }, ({ payload }) => onTyping(payload.from, payload.isTyping))
+                .subscribe();
+
+            return () => {
+                supabase.removeChannel(channel);
+            };
+        }
+    };
+
+    public readonly attachments: AttachmentsAdapter = {
+        upload: async (path, file, onProgress) => {
+            const { data: { session } } = await supabase.auth.getSession();
+
+            // supabase-js uploads with fetch, which cannot report progress, so the storage endpoint is called directly
+            return new Promise(resolve => {
+                const xhr = new XMLHttpRequest();
+                xhr.open('POST', `${SUPABASE_URL}/storage/v1/object/${ATTACHMENTS_BUCKET}/${path}`);
+                xhr.setRequestHeader('apikey', SUPABASE_ANON_KEY);
+                xhr.setRequestHeader('Authorization', `Bearer ${session?.access_token ?? SUPABASE_ANON_KEY}`);
+                xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+                xhr.upload.onprogress = (event) => {
+                    if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+                };
+                xhr.onload = () => resolve(xhr.status >= 200 && xhr.status < 300
+                    ? { data: path, error: null }
+                    : { data: null, error: { message: xhr.responseText || 'Upload failed', code: String(xhr.status) } }
+                );
+                xhr.onerror = () => resolve({ data: null, error: { message: 'Network error during upload' } });
+                xhr.send(file);
+            });
+        },
+
+        getUrl: async (path) => {
+            const { data, error } = await supabase.storage
+                .from(ATTACHMENTS_BUCKET)
+                .createSignedUrl(path, ATTACHMENT_URL_TTL_SECONDS);
+            return { data: data?.signedUrl ?? null, error };
+        }
+    };
+
+    public readonly linkPreviews: LinkPreviewsAdapter = {
+        fetch: async (url) => {
+            // Edge function (see README); responds with a LinkPreviewRow or null
+            const { data, error } = await supabase.functions.invoke<LinkPreviewRow | null>('link-preview', { body: { url } });
+            return { data: data ?? null, error: error ? { message: error.message } : null };
+        }
+    };
+}
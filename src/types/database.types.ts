@@ -54,38 +54,6 @@ export interface Database {
           } | null
         }
       }
-      messages: {
-        Row: {
-          id: string
-          sender_id: string
-          receiver_id: string
-          text: string | null
-          image_url: string | null
-          type: string | null
-          status: string | null
-          created_at: string | null
-        }
-        Insert: {
-          id?: string
-          sender_id: string
-          receiver_id: string
-          text?: string | null
-          image_url?: string | null
-          type?: string | null
-          status?: string | null
-          created_at?: string | null
-        }
-        Update: {
-          id?: string
-          sender_id?: string
-          receiver_id?: string
-          text?: string | null
-          image_url?: string | null
-          type?: string | null
-          status?: string | null
-          created_at?: string | null
-        }
-      }
       connections: {
         Row: {
           id: string
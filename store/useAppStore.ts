@@ -1,7 +1,45 @@
 
 import { create } from 'zustand';
-import { UserModel, MatchProfileModel, ConnectionModel, Language, AppNotification, Major, DbMessage } from '../types';
+import { UserModel, MatchProfileModel, ConnectionModel, Language, AppNotification, NotificationAction, Major, Message, ReplyPreview, SwipeRecord, DiscoveryFilters, UserSearchResult, BlockedUserModel, ReportReason, ConversationSummary, GroupConversation, Interest, MessagePreview, MessageSearchResult, VoiceNoteMeta, ConversationSettings } from '../types';
 import { DataRepository } from '../services/dataRepository';
+import { ChatService, MessageRefusedError, ReactionChange, TYPING_IDLE_MS } from '../services/chatService';
+import { MessageOutbox, OutboxEntry, OUTBOX_MAX_ATTEMPTS, outboxRetryDelay, isOnline } from '../services/messageOutbox';
+import { resizeImage, MAX_ATTACHMENT_BYTES } from '../utils/imageResize';
+import { applyReaction } from '../utils/messageReactions';
+import { DEFAULT_DISCOVERY_FILTERS } from '../utils/discoveryFilters';
+import { isMuted, MUTED_FOREVER } from '../utils/conversationSettings';
+
+// Prefetch the next discovery page when fewer cards than this remain
+const MATCH_PREFETCH_THRESHOLD = 5;
+
+// How many swipes can be undone
+const SWIPE_UNDO_LIMIT = 10;
+
+// Swipes still being written, so an undo can wait for the row it has to delete
+const pendingSwipes = new Map<string, Promise<void>>();
+
+// Clears a typing indicator if its "stopped typing" signal never arrives
+const typingExpiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// The outbox is flushed by one loop at a time; the timer wakes it for the next backoff retry.
+// Logging out starts a new session, so a flush still running for the old account stops where it is
+let isFlushingOutbox = false;
+let outboxSession = 0;
+let outboxRetryTimer: ReturnType<typeof setTimeout> | null = null;
+let isOnlineListenerAdded = false;
+
+// Settings and sender names of chats missing from the loaded list, fetched when a message for one
+// arrives first, and the fetches still running (one per chat, however many messages arrive meanwhile)
+const fetchedSettings = new Map<string, ConversationSettings>();
+const fetchedSenderNames = new Map<string, string>();
+const settingsRequests = new Map<string, Promise<ConversationSettings | null>>();
+
+// Wakes the store when the soonest mute ends, so the unread badge counts that chat again
+let muteExpiryTimer: ReturnType<typeof setTimeout> | null = null;
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Images and voice notes that have not finished uploading, by client id; kept after a failure so Retry can start over
+const pendingUploads = new Map<string, { receiverId: string; isGroup: boolean; file: Blob; voiceNote?: VoiceNoteMeta; createdAt: number; replyToId?: string }>();
 
 /*
  * AppState Interface
@@ -13,11 +51,35 @@ interface AppState {
     isAuthenticated: boolean;
     isSessionChecked: boolean; // Flag to indicate if we've checked for an existing session
     matchQueue: MatchProfileModel[];
+    matchCursor: string | null; // Cursor for the next discovery page
+    hasMoreMatches: boolean;
+    isFetchingMoreMatches: boolean;
+    seenMatchUids: string[]; // Every uid queued this session, to de-duplicate pages
+    swipeHistory: SwipeRecord[]; // Most recent last, capped at SWIPE_UNDO_LIMIT
+    discoveryFilters: DiscoveryFilters; // Mirrors the saved filters the repository applies
     incomingRequests: MatchProfileModel[];
-    searchResults: MatchProfileModel[]; // For Search feature
+    searchResults: UserSearchResult[]; // For Search feature, best match first
+    searchQuery: string; // Query the current results belong to
+    searchTotal: number;
+    searchNextOffset: number | null; // null when every result is loaded
+    isFetchingMoreSearchResults: boolean;
+    messageSearchResults: MessageSearchResult[]; // Chat search, best match first
+    messageSearchQuery: string; // Query the current results belong to
+    messageSearchScope: string | null; // Conversation (other user's id or group id) searched; null for every chat
+    isSearchingMessages: boolean;
     connections: ConnectionModel[];
+    conversations: ConversationSummary[]; // Chats list, most recent activity first
+    groups: GroupConversation[]; // Group chats I belong to, most recent activity first
+    blockedUsers: BlockedUserModel[]; // Users I blocked, most recent first
     notifications: AppNotification[];
-    messages: Record<string, DbMessage[]>; // userId -> messages array
+    messagesById: Record<string, Message>;
+    messageIdsByConversation: Record<string, string[]>; // Other user's id (or group id) -> message ids, oldest first
+    loadingConversations: Record<string, boolean>;
+    olderMessagesCursor: Record<string, string | null>; // Per loaded conversation; null once its start is loaded
+    isFetchingOlderMessages: boolean;
+    activeConversationId: string | null; // The chat currently on screen, if any
+    onlineUserIds: string[];
+    typingUserIds: string[]; // Users currently typing a message to me
     unreadCount: number;
     isLoading: boolean;
     error: string | null;
@@ -27,25 +89,224 @@ interface AppState {
     checkSession: () => Promise<void>; // Init action
     login: (email: string, password?: string) => Promise<void>; // Changed signature
     signup: (email: string, password: string) => Promise<void>;
-    logout: () => void;
+    logout: () => Promise<void>;
     updateUserProfile: (updates: Partial<UserModel>) => Promise<void>;
     fetchMatches: () => Promise<void>;
+    fetchMoreMatches: () => Promise<void>;
+    loadDiscoveryFilters: () => Promise<void>;
+    setDiscoveryFilters: (filters: DiscoveryFilters) => Promise<void>;
     fetchIncomingRequests: () => Promise<void>;
     respondToRequest: (targetUid: string, action: 'ACCEPT' | 'DECLINE') => Promise<void>;
     simulateIncomingRequest: () => Promise<void>; // Demo Action
     searchUsers: (query: string) => Promise<void>;
+    fetchMoreSearchResults: () => Promise<void>;
+    searchMessages: (query: string, conversationId?: string | null) => Promise<void>; // An empty query clears the results
     handleSwipe: (targetUid: string, action: 'CONNECT' | 'DISMISS') => Promise<void>;
+    undoSwipe: (targetUid?: string) => Promise<void>; // Defaults to the most recent swipe
     fetchConnections: () => Promise<void>;
-    sendMessage: (receiverId: string, content: string) => Promise<void>;
-    loadMessages: (otherUserId: string) => Promise<void>;
+    fetchConversations: () => Promise<void>;
+    removeConnection: (targetUid: string, hideHistory?: boolean) => Promise<void>;
+    fetchGroups: () => Promise<void>;
+    createGroup: (name: string, memberIds: string[], interest?: Interest) => Promise<string | null>; // Resolves with the new group's id
+    updateGroup: (groupId: string, updates: { name?: string; photoUrl?: string | null; interest?: Interest | null }) => Promise<void>;
+    addGroupMembers: (groupId: string, userIds: string[]) => Promise<void>;
+    leaveGroup: (groupId: string) => Promise<void>;
+    updateConversationSettings: (conversationId: string, changes: Partial<ConversationSettings>) => Promise<void>; // Mute, archive or pin a chat or group
+    fetchBlockedUsers: () => Promise<void>;
+    blockUser: (targetUid: string) => Promise<void>;
+    unblockUser: (targetUid: string) => Promise<void>;
+    reportUser: (targetUid: string, reason: ReportReason, details?: string, alsoBlock?: boolean) => Promise<void>;
+    loadConversation: (otherUserId: string) => Promise<void>;
+    fetchOlderMessages: (otherUserId: string) => Promise<void>;
+    sendMessage: (receiverId: string, text: string, replyToId?: string) => Promise<void>;
+    sendImage: (receiverId: string, file: File, replyToId?: string) => Promise<void>;
+    sendVoiceNote: (receiverId: string, audio: Blob, voiceNote: VoiceNoteMeta, replyToId?: string) => Promise<void>;
+    uploadPendingAttachment: (clientId: string) => Promise<void>;
+    flushOutbox: () => Promise<void>;
+    restoreOutbox: () => void;
+    retryMessage: (clientId: string) => void;
+    discardMessage: (clientId: string) => void;
+    editMessage: (messageId: string, text: string) => Promise<void>;
+    deleteMessageForMe: (messageId: string) => Promise<void>;
+    unsendMessage: (messageId: string) => Promise<void>;
+    forgetMessage: (messageId: string) => void; // Gone for me: drop it if loaded, refresh previews and unread count
+    toggleReaction: (messageId: string, emoji: string) => Promise<void>;
+    applyReactionChange: (change: ReactionChange) => void;
+    receiveMessage: (message: Message) => void;
+    startInbox: () => void;
+    loadConversationSettings: (conversationId: string, isGroup: boolean) => Promise<ConversationSettings | null>;
+    scheduleMuteExpiry: () => void;
+    loadChatsAndStartInbox: () => Promise<void>;
+    startPresence: () => void;
+    setUserTyping: (userId: string, isTyping: boolean) => void;
+    notifyTyping: (toUserId: string) => void;
+    stopTyping: (toUserId: string) => void;
+    setActiveConversation: (otherUserId: string | null) => void;
     markAsRead: (otherUserId: string) => Promise<void>;
-    subscribeToUserMessages: (otherUserId: string) => () => void;
     fetchUnreadCount: () => Promise<void>;
     setUiLanguage: (lang: Language) => void;
-    addNotification: (message: string, type: 'success' | 'info' | 'error') => void;
+    addNotification: (message: string, type: 'success' | 'info' | 'error', action?: NotificationAction) => void;
     removeNotification: (id: string) => void;
 }
 
+type MessageSlice = Pick<AppState, 'messagesById' | 'messageIdsByConversation'>;
+type ConversationSlice = MessageSlice & Pick<AppState, 'olderMessagesCursor'>;
+
+/* Conversations are keyed by the participant who is not me, group conversations by the group */
+const conversationIdFor = (message: Message, myUid: string) =>
+    message.groupId || (message.senderId === myUid ? message.receiverId : message.senderId);
+
+const isGroupConversation = (state: Pick<AppState, 'groups'>, conversationId: string) =>
+    state.groups.some(g => g.id === conversationId);
+
+/* Muted chats and groups neither notify nor add to the unread badge. null until the chat's settings are loaded */
+const isConversationMuted = (state: Pick<AppState, 'conversations' | 'groups'>, conversationId: string): boolean | null => {
+    const settings = state.groups.find(g => g.id === conversationId)?.settings
+        || state.conversations.find(c => c.connection.uid === conversationId)?.settings
+        || fetchedSettings.get(conversationId);
+    return settings ? isMuted(settings) : null;
+};
+
+/* One history page of a chat or a group */
+const fetchHistoryPage = (state: Pick<AppState, 'groups'>, conversationId: string, cursor: string | null = null) =>
+    isGroupConversation(state, conversationId)
+        ? ChatService.getInstance().getGroupHistory(conversationId, cursor)
+        : ChatService.getInstance().getHistory(conversationId, cursor);
+
+/* Add or update messages in a conversation, keeping its ids unique and oldest first */
+const mergeMessages = (state: MessageSlice, conversationId: string, messages: Message[]): MessageSlice => {
+    const messagesById = { ...state.messagesById };
+    messages.forEach(m => {
+        messagesById[m.id] = m;
+        // The stored copy of a message still shown under its client id replaces it
+        if (m.clientId && m.clientId !== m.id) delete messagesById[m.clientId];
+    });
+    const ids = Array.from(new Set([...(state.messageIdsByConversation[conversationId] || []), ...messages.map(m => m.id)]))
+        .filter(id => messagesById[id]);
+    ids.sort((a, b) => messagesById[a].timestamp - messagesById[b].timestamp);
+    return { messagesById, messageIdsByConversation: { ...state.messageIdsByConversation, [conversationId]: ids } };
+};
+
+/* Swap an optimistic message for the stored one */
+const replaceMessage = (state: MessageSlice, conversationId: string, oldId: string, message: Message): MessageSlice => {
+    const { [oldId]: _old, ...rest } = state.messagesById;
+    const ids = (state.messageIdsByConversation[conversationId] || []).map(id => id === oldId ? message.id : id);
+    return {
+        messagesById: { ...rest, [message.id]: message },
+        messageIdsByConversation: { ...state.messageIdsByConversation, [conversationId]: Array.from(new Set(ids)) }
+    };
+};
+
+/* Remove one message from a conversation */
+const removeMessage = (state: MessageSlice, conversationId: string, messageId: string): MessageSlice => {
+    const { [messageId]: _removed, ...messagesById } = state.messagesById;
+    return {
+        messagesById,
+        messageIdsByConversation: {
+            ...state.messageIdsByConversation,
+            [conversationId]: (state.messageIdsByConversation[conversationId] || []).filter(id => id !== messageId)
+        }
+    };
+};
+
+/* What a reply to a loaded message quotes */
+const replyPreviewOf = (message: Message | undefined): ReplyPreview | undefined => message && {
+    id: message.id,
+    senderId: message.senderId,
+    text: message.text,
+    isImage: message.type === 'image',
+    isAudio: message.type === 'audio'
+};
+
+/* A stored message that changed (edit, receipt) keeps the details only loaded with history */
+const withLoadedDetails = (updated: Message, loaded: Message | undefined): Message => ({
+    ...updated,
+    reactions: loaded?.reactions,
+    replyTo: updated.replyTo || loaded?.replyTo
+});
+
+/* The optimistic bubble shown for an outbox entry */
+const outboxMessage = (entry: OutboxEntry, senderId: string, replyTo?: ReplyPreview): Message => ({
+    id: entry.clientId,
+    clientId: entry.clientId,
+    senderId,
+    receiverId: entry.receiverId,
+    text: entry.text,
+    imagePath: entry.imagePath,
+    audioPath: entry.audioPath,
+    voiceNote: entry.voiceNote,
+    type: entry.audioPath ? 'audio' : entry.imagePath ? 'image' : 'text',
+    timestamp: entry.createdAt,
+    status: entry.status === 'failed' ? 'error' : isOnline() ? 'sending' : 'queued',
+    replyToId: entry.replyToId,
+    replyTo
+});
+
+/* Keep a chat's or group's preview in sync when its last message is edited */
+const updatePreviewText = <T extends { lastMessage: MessagePreview | null }>(items: T[], isTarget: (item: T) => boolean, message: Message): T[] =>
+    items.map(item => isTarget(item) && item.lastMessage && item.lastMessage.timestamp === message.timestamp
+        ? { ...item, lastMessage: { ...item.lastMessage, text: message.text } }
+        : item
+    );
+
+/* Both chats lists, after one of their messages was edited */
+const updatePreviews = (state: Pick<AppState, 'conversations' | 'groups'>, conversationId: string, message: Message) => ({
+    conversations: updatePreviewText(state.conversations, c => c.connection.uid === conversationId, message),
+    groups: updatePreviewText(state.groups, g => g.id === conversationId, message)
+});
+
+const previewOf = (message: Message, myUid: string): MessagePreview => ({
+    text: message.text,
+    isImage: message.type === 'image',
+    isAudio: message.type === 'audio',
+    senderId: message.senderId,
+    isMine: message.senderId === myUid,
+    timestamp: message.timestamp
+});
+
+/* Release the local copy an image or voice note bubble used while uploading */
+const revokePreview = (message: Message | undefined) => {
+    if (message?.imageUrl?.startsWith('blob:')) URL.revokeObjectURL(message.imageUrl);
+    if (message?.audioUrl?.startsWith('blob:')) URL.revokeObjectURL(message.audioUrl);
+};
+
+/* Forget every loaded message of a conversation */
+const dropConversation = (state: ConversationSlice, conversationId: string): ConversationSlice => {
+    const { [conversationId]: ids = [], ...messageIdsByConversation } = state.messageIdsByConversation;
+    const { [conversationId]: _cursor, ...olderMessagesCursor } = state.olderMessagesCursor;
+    const messagesById = { ...state.messagesById };
+    ids.forEach(id => { delete messagesById[id]; });
+    return { messagesById, messageIdsByConversation, olderMessagesCursor };
+};
+
+/* Move a conversation to the top of the chats list with a new last message */
+const touchConversation = (conversations: ConversationSummary[], conversationId: string, message: Message, myUid: string, countUnread = true): ConversationSummary[] => {
+    const existing = conversations.find(c => c.connection.uid === conversationId);
+    if (!existing) return conversations;
+
+    const isMine = message.senderId === myUid;
+    const updated: ConversationSummary = {
+        ...existing,
+        lastMessage: previewOf(message, myUid),
+        unreadCount: existing.unreadCount + (!isMine && countUnread ? 1 : 0)
+    };
+    return [updated, ...conversations.filter(c => c !== existing)];
+};
+
+/* Move a group to the top of the groups list with a new last message */
+const touchGroup = (groups: GroupConversation[], groupId: string, message: Message, myUid: string, countUnread = true): GroupConversation[] => {
+    const existing = groups.find(g => g.id === groupId);
+    if (!existing) return groups;
+
+    const isMine = message.senderId === myUid;
+    const updated: GroupConversation = {
+        ...existing,
+        lastMessage: previewOf(message, myUid),
+        unreadCount: existing.unreadCount + (!isMine && countUnread ? 1 : 0)
+    };
+    return [updated, ...groups.filter(g => g !== existing)];
+};
+
 /*
  * useAppStore
  * 
@@ -58,11 +319,35 @@ export const useAppStore = create<AppState>((set, get) => ({
     isAuthenticated: false,
     isSessionChecked: false,
     matchQueue: [],
+    matchCursor: null,
+    hasMoreMatches: false,
+    isFetchingMoreMatches: false,
+    seenMatchUids: [],
+    swipeHistory: [],
+    discoveryFilters: DEFAULT_DISCOVERY_FILTERS,
     incomingRequests: [],
     searchResults: [],
+    searchQuery: '',
+    searchTotal: 0,
+    searchNextOffset: null,
+    messageSearchResults: [],
+    messageSearchQuery: '',
+    messageSearchScope: null,
+    isSearchingMessages: false,
+    isFetchingMoreSearchResults: false,
     connections: [],
+    conversations: [],
+    groups: [],
+    blockedUsers: [],
     notifications: [],
-    messages: {},
+    messagesById: {},
+    messageIdsByConversation: {},
+    loadingConversations: {},
+    olderMessagesCursor: {},
+    isFetchingOlderMessages: false,
+    activeConversationId: null,
+    onlineUserIds: [],
+    typingUserIds: [],
     unreadCount: 0,
     isLoading: false,
     error: null,
@@ -76,6 +361,11 @@ export const useAppStore = create<AppState>((set, get) => ({
                 set({ currentUser: user, isAuthenticated: true });
                 // Optimistically fetch data
                 get().fetchIncomingRequests();
+                get().loadDiscoveryFilters();
+                get().fetchUnreadCount();
+                get().loadChatsAndStartInbox();
+                get().startPresence();
+                get().restoreOutbox();
             }
         } catch (err) {
             console.error("Session restore failed", err);
@@ -95,6 +385,11 @@ export const useAppStore = create<AppState>((set, get) => ({
             set({ currentUser: user, isAuthenticated: true, isLoading: false });
             // Fetch initial data
             get().fetchIncomingRequests(); 
+            get().loadDiscoveryFilters();
+            get().fetchUnreadCount();
+            get().loadChatsAndStartInbox();
+            get().startPresence();
+            get().restoreOutbox();
         } catch (err: any) {
             let errorMessage = err.message;
             
@@ -139,8 +434,24 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     logout: async () => {
         const repo = DataRepository.getInstance();
+        ChatService.getInstance().unsubscribeInbox();
+        ChatService.getInstance().leavePresence();
+        if (outboxRetryTimer) clearTimeout(outboxRetryTimer);
+        outboxRetryTimer = null;
+        MessageOutbox.getInstance().close();
+        outboxSession += 1;
+        isFlushingOutbox = false;
+        pendingUploads.forEach((_, clientId) => revokePreview(get().messagesById[clientId]));
+        pendingUploads.clear();
+        typingExpiryTimers.forEach(timer => clearTimeout(timer));
+        typingExpiryTimers.clear();
+        fetchedSettings.clear();
+        fetchedSenderNames.clear();
+        settingsRequests.clear();
+        if (muteExpiryTimer) clearTimeout(muteExpiryTimer);
+        muteExpiryTimer = null;
         await repo.logout();
-        set({ currentUser: null, isAuthenticated: false, matchQueue: [], connections: [], searchResults: [], incomingRequests: [], notifications: [] });
+        set({ currentUser: null, isAuthenticated: false, matchQueue: [], matchCursor: null, hasMoreMatches: false, seenMatchUids: [], swipeHistory: [], discoveryFilters: DEFAULT_DISCOVERY_FILTERS, connections: [], conversations: [], groups: [], searchResults: [], searchQuery: '', searchTotal: 0, searchNextOffset: null, messageSearchResults: [], messageSearchQuery: '', messageSearchScope: null, blockedUsers: [], incomingRequests: [], notifications: [], messagesById: {}, messageIdsByConversation: {}, loadingConversations: {}, olderMessagesCursor: {}, activeConversationId: null, onlineUserIds: [], typingUserIds: [], unreadCount: 0 });
     },
 
     updateUserProfile: async (updates: Partial<UserModel>) => {
@@ -158,13 +469,76 @@ export const useAppStore = create<AppState>((set, get) => ({
         set({ isLoading: true });
         try {
             const repo = DataRepository.getInstance();
-            const matches = await repo.getMatchQueue();
-            set({ matchQueue: matches, isLoading: false });
+            const page = await repo.getMatchQueuePage(null);
+            set({
+                matchQueue: page.profiles,
+                matchCursor: page.nextCursor,
+                hasMoreMatches: page.nextCursor !== null,
+                seenMatchUids: page.profiles.map(p => p.uid),
+                isLoading: false
+            });
         } catch (err: any) {
             set({ error: err.message, isLoading: false });
         }
     },
 
+    fetchMoreMatches: async () => {
+        const { hasMoreMatches, isFetchingMoreMatches, matchCursor } = get();
+        if (!hasMoreMatches || isFetchingMoreMatches || matchCursor === null) return;
+
+        set({ isFetchingMoreMatches: true });
+        try {
+            const repo = DataRepository.getInstance();
+            const page = await repo.getMatchQueuePage(matchCursor);
+
+            set(state => {
+                // A swipe may still be in flight, so the server can return cards we already showed
+                const seen = new Set(state.seenMatchUids);
+                const fresh = page.profiles.filter(p => !seen.has(p.uid));
+                return {
+                    matchQueue: [...state.matchQueue, ...fresh],
+                    matchCursor: page.nextCursor,
+                    hasMoreMatches: page.nextCursor !== null,
+                    seenMatchUids: [...state.seenMatchUids, ...fresh.map(p => p.uid)],
+                    isFetchingMoreMatches: false
+                };
+            });
+        } catch (err: any) {
+            set({ error: err.message, isFetchingMoreMatches: false });
+            return;
+        }
+
+        // Keep going if de-duplication left the queue short
+        if (get().matchQueue.length < MATCH_PREFETCH_THRESHOLD) {
+            await get().fetchMoreMatches();
+        }
+    },
+
+    loadDiscoveryFilters: async () => {
+        try {
+            const repo = DataRepository.getInstance();
+            const filters = await repo.getDiscoveryFilters();
+            set({ discoveryFilters: filters });
+        } catch (err: any) {
+            console.error(err);
+        }
+    },
+
+    setDiscoveryFilters: async (filters: DiscoveryFilters) => {
+        const previous = get().discoveryFilters;
+        set({ discoveryFilters: filters });
+
+        try {
+            const repo = DataRepository.getInstance();
+            // Saved first: the repository applies the stored filters to the queue
+            await repo.saveDiscoveryFilters(filters);
+            await get().fetchMatches();
+        } catch (err: any) {
+            set({ discoveryFilters: previous });
+            get().addNotification("Failed to save filters", 'error');
+        }
+    },
+
     fetchIncomingRequests: async () => {
         try {
             const repo = DataRepository.getInstance();
@@ -230,34 +604,127 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     searchUsers: async (query: string) => {
         if (!query.trim()) {
-            set({ searchResults: [] });
+            set({ searchResults: [], searchQuery: '', searchTotal: 0, searchNextOffset: null });
             return;
         }
-        set({ isLoading: true });
+        set({ isLoading: true, searchQuery: query });
         try {
             const repo = DataRepository.getInstance();
-            const results = await repo.searchUsers(query);
-            set({ searchResults: results, isLoading: false });
+            const page = await repo.searchUsers(query);
+            // Ignore responses for a query the user has already changed
+            if (get().searchQuery !== query) return;
+            set({ searchResults: page.results, searchTotal: page.total, searchNextOffset: page.nextOffset, isLoading: false });
         } catch (err: any) {
             set({ error: err.message, isLoading: false });
         }
     },
 
+    fetchMoreSearchResults: async () => {
+        const { searchQuery, searchNextOffset, isFetchingMoreSearchResults } = get();
+        if (!searchQuery || searchNextOffset === null || isFetchingMoreSearchResults) return;
+
+        set({ isFetchingMoreSearchResults: true });
+        try {
+            const repo = DataRepository.getInstance();
+            const page = await repo.searchUsers(searchQuery, searchNextOffset);
+            if (get().searchQuery !== searchQuery) return;
+            set(state => ({
+                searchResults: [...state.searchResults, ...page.results],
+                searchTotal: page.total,
+                searchNextOffset: page.nextOffset
+            }));
+        } catch (err: any) {
+            console.error(err);
+        } finally {
+            set({ isFetchingMoreSearchResults: false });
+        }
+    },
+
+    searchMessages: async (query: string, conversationId: string | null = null) => {
+        if (!query.trim()) {
+            set({ messageSearchResults: [], messageSearchQuery: '', messageSearchScope: conversationId, isSearchingMessages: false });
+            return;
+        }
+        set({ messageSearchQuery: query, messageSearchScope: conversationId, isSearchingMessages: true });
+        try {
+            const scope = !conversationId ? {}
+                : isGroupConversation(get(), conversationId) ? { groupId: conversationId }
+                : { connectionId: conversationId };
+            const results = await ChatService.getInstance().searchMessages(query, scope);
+            // Ignore responses for a query (or chat) the user has already changed
+            if (get().messageSearchQuery !== query || get().messageSearchScope !== conversationId) return;
+            set({ messageSearchResults: results, isSearchingMessages: false });
+        } catch (err: any) {
+            console.error(err);
+            set({ isSearchingMessages: false });
+        }
+    },
+
     handleSwipe: async (targetUid: string, action: 'CONNECT' | 'DISMISS') => {
         // Optimistic UI update: Remove card immediately
         const currentQueue = get().matchQueue;
+        const swipedCard = currentQueue.find(m => m.uid === targetUid);
         set({ matchQueue: currentQueue.filter(m => m.uid !== targetUid) });
 
+        // Only queue cards can be undone (they have a place to go back to)
+        if (swipedCard) {
+            set(state => ({
+                swipeHistory: [...state.swipeHistory, { profile: swipedCard, action, timestamp: Date.now() }].slice(-SWIPE_UNDO_LIMIT)
+            }));
+        }
+
+        // Infinite queue: top up before the user runs out of cards
+        if (get().matchQueue.length < MATCH_PREFETCH_THRESHOLD) {
+            get().fetchMoreMatches();
+        }
+
+        const undo = swipedCard ? { label: 'Undo', onClick: () => get().undoSwipe(targetUid) } : undefined;
+
         try {
             const repo = DataRepository.getInstance();
-            await repo.recordSwipe(targetUid, action);
+            const request = repo.recordSwipe(targetUid, action);
+            pendingSwipes.set(targetUid, request);
+            await request;
             
             if (action === 'CONNECT') {
-                get().addNotification("Friend Request Sent!", "success");
+                get().addNotification("Friend Request Sent!", "success", undo);
+            } else if (undo) {
+                get().addNotification("Passed", "info", undo);
             }
         } catch (err: any) {
             // Revert on failure (simplified)
-            set({ error: "Failed to record action", matchQueue: currentQueue });
+            set(state => ({
+                error: "Failed to record action",
+                matchQueue: currentQueue,
+                swipeHistory: state.swipeHistory.filter(s => s.profile.uid !== targetUid)
+            }));
+        } finally {
+            pendingSwipes.delete(targetUid);
+        }
+    },
+
+    undoSwipe: async (targetUid?: string) => {
+        const history = get().swipeHistory;
+        const last = targetUid
+            ? history.find(s => s.profile.uid === targetUid)
+            : history[history.length - 1];
+        if (!last) return;
+
+        // Optimistic UI update: Put the card back on top
+        set(state => ({
+            swipeHistory: state.swipeHistory.filter(s => s !== last),
+            matchQueue: [last.profile, ...state.matchQueue.filter(m => m.uid !== last.profile.uid)]
+        }));
+
+        try {
+            const repo = DataRepository.getInstance();
+            await pendingSwipes.get(last.profile.uid);
+            await repo.undoSwipe(last.profile.uid);
+            get().addNotification(`Undid swipe on ${last.profile.displayName}`, 'info');
+        } catch (err: any) {
+            // Revert: the swipe stands
+            set(state => ({ matchQueue: state.matchQueue.filter(m => m.uid !== last.profile.uid) }));
+            get().addNotification(err.message || "Failed to undo swipe", 'error');
         }
     },
 
@@ -274,50 +741,817 @@ export const useAppStore = create<AppState>((set, get) => ({
         }
     },
 
-    sendMessage: async (receiverId: string, content: string) => {
-        const repo = DataRepository.getInstance();
-        await repo.sendMessage(receiverId, content);
-        // Reload messages to get the new one
-        await get().loadMessages(receiverId);
+    fetchConversations: async () => {
+        set({ isLoading: true });
+        try {
+            const repo = DataRepository.getInstance();
+            const conversations = await repo.getConversationSummaries();
+            set({ conversations, connections: conversations.map(c => c.connection), isLoading: false });
+            get().scheduleMuteExpiry();
+        } catch (err: any) {
+            set({ error: err.message, isLoading: false });
+        }
     },
 
-    loadMessages: async (otherUserId: string) => {
-        const repo = DataRepository.getInstance();
-        const messages = await repo.getMessagesWithUser(otherUserId);
-        set((state) => ({
-            messages: {
-                ...state.messages,
-                [otherUserId]: messages
+    removeConnection: async (targetUid: string, hideHistory = false) => {
+        // Optimistic UI update: Drop the connection immediately
+        const { connections: previousConnections, conversations: previousConversations } = get();
+        const removed = previousConnections.find(c => c.uid === targetUid);
+        set({
+            connections: previousConnections.filter(c => c.uid !== targetUid),
+            conversations: previousConversations.filter(c => c.connection.uid !== targetUid)
+        });
+
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.removeConnection(targetUid, hideHistory);
+
+            if (hideHistory) {
+                set(state => dropConversation(state, targetUid));
+                get().fetchUnreadCount();
             }
+            get().addNotification(`Removed ${removed?.displayName || 'connection'}`, 'info');
+        } catch (err: any) {
+            set({ connections: previousConnections, conversations: previousConversations });
+            get().addNotification(err.message || "Failed to remove connection", 'error');
+        }
+    },
+
+    fetchGroups: async () => {
+        try {
+            const repo = DataRepository.getInstance();
+            const groups = await repo.getGroups();
+            set({ groups });
+            get().scheduleMuteExpiry();
+        } catch (err: any) {
+            set({ error: err.message });
+        }
+    },
+
+    createGroup: async (name: string, memberIds: string[], interest?: Interest) => {
+        try {
+            const repo = DataRepository.getInstance();
+            const group = await repo.createGroup(name, memberIds, interest);
+            set(state => ({ groups: [group, ...state.groups.filter(g => g.id !== group.id)] }));
+            return group.id;
+        } catch (err: any) {
+            get().addNotification(err.message || "Failed to create group", 'error');
+            return null;
+        }
+    },
+
+    updateGroup: async (groupId: string, updates: { name?: string; photoUrl?: string | null; interest?: Interest | null }) => {
+        const previousGroups = get().groups;
+        const patch: Partial<GroupConversation> = {
+            ...(updates.name !== undefined && { name: updates.name.trim() }),
+            ...(updates.photoUrl !== undefined && { photoUrl: updates.photoUrl || undefined }),
+            ...(updates.interest !== undefined && { interest: updates.interest || undefined })
+        };
+
+        // Optimistic UI update: Show the new name/avatar immediately
+        set({ groups: previousGroups.map(g => g.id === groupId ? { ...g, ...patch } : g) });
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.updateGroup(groupId, updates);
+        } catch (err: any) {
+            set({ groups: previousGroups });
+            get().addNotification(err.message || "Failed to update group", 'error');
+        }
+    },
+
+    addGroupMembers: async (groupId: string, userIds: string[]) => {
+        const { groups: previousGroups, connections } = get();
+        const added = connections
+            .filter(c => userIds.includes(c.uid))
+            .map(c => ({ uid: c.uid, displayName: c.displayName, photoUrl: c.photoUrl }));
+
+        // Optimistic UI update: List the new members right away
+        set({
+            groups: previousGroups.map(g => g.id === groupId
+                ? { ...g, members: [...g.members, ...added.filter(a => !g.members.some(m => m.uid === a.uid))] }
+                : g
+            )
+        });
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.addGroupMembers(groupId, userIds);
+        } catch (err: any) {
+            set({ groups: previousGroups });
+            get().addNotification(err.message || "Failed to add members", 'error');
+        }
+    },
+
+    leaveGroup: async (groupId: string) => {
+        const previousGroups = get().groups;
+        const left = previousGroups.find(g => g.id === groupId);
+
+        // Optimistic UI update: Drop the group immediately
+        set({ groups: previousGroups.filter(g => g.id !== groupId) });
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.leaveGroup(groupId);
+            set(state => dropConversation(state, groupId));
+            get().fetchUnreadCount();
+            get().addNotification(`Left ${left?.name || 'group'}`, 'info');
+        } catch (err: any) {
+            set({ groups: previousGroups });
+            get().addNotification(err.message || "Failed to leave group", 'error');
+        }
+    },
+
+    updateConversationSettings: async (conversationId: string, changes: Partial<ConversationSettings>) => {
+        const { conversations: previousConversations, groups: previousGroups } = get();
+        const isGroup = isGroupConversation(get(), conversationId);
+
+        // Optimistic UI update
+        set({
+            conversations: previousConversations.map(c =>
+                c.connection.uid === conversationId ? { ...c, settings: { ...c.settings, ...changes } } : c
+            ),
+            groups: previousGroups.map(g => g.id === conversationId ? { ...g, settings: { ...g.settings, ...changes } } : g)
+        });
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.updateConversationSettings(conversationId, isGroup, changes);
+            if (changes.mutedUntil !== undefined) get().fetchUnreadCount();
+        } catch (err: any) {
+            set({ conversations: previousConversations, groups: previousGroups });
+            get().addNotification(err.message || "Failed to save chat settings", 'error');
+        }
+        get().scheduleMuteExpiry();
+    },
+
+    fetchBlockedUsers: async () => {
+        try {
+            const repo = DataRepository.getInstance();
+            const blockedUsers = await repo.getBlockedUsers();
+            set({ blockedUsers });
+        } catch (err: any) {
+            set({ error: err.message });
+        }
+    },
+
+    blockUser: async (targetUid: string) => {
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.blockUser(targetUid);
+            ChatService.getInstance().setBlockedInInbox(targetUid, true);
+
+            // Hide them everywhere without waiting for refetches
+            set(state => ({
+                ...dropConversation(state, targetUid),
+                matchQueue: state.matchQueue.filter(m => m.uid !== targetUid),
+                swipeHistory: state.swipeHistory.filter(s => s.profile.uid !== targetUid),
+                searchResults: state.searchResults.filter(r => r.profile.uid !== targetUid),
+                incomingRequests: state.incomingRequests.filter(r => r.uid !== targetUid),
+                connections: state.connections.filter(c => c.uid !== targetUid),
+                conversations: state.conversations.filter(c => c.connection.uid !== targetUid)
+            }));
+
+            get().addNotification("User blocked", 'info', { label: 'Undo', onClick: () => get().unblockUser(targetUid) });
+            get().fetchBlockedUsers();
+            get().fetchUnreadCount();
+        } catch (err: any) {
+            get().addNotification(err.message || "Failed to block user", 'error');
+        }
+    },
+
+    unblockUser: async (targetUid: string) => {
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.unblockUser(targetUid);
+            ChatService.getInstance().setBlockedInInbox(targetUid, false);
+            set(state => ({ blockedUsers: state.blockedUsers.filter(b => b.uid !== targetUid) }));
+            get().addNotification("User unblocked", 'info');
+
+            // Existing connections and requests become visible again
+            get().fetchConnections();
+            get().fetchUnreadCount();
+        } catch (err: any) {
+            get().addNotification(err.message || "Failed to unblock user", 'error');
+        }
+    },
+
+    reportUser: async (targetUid: string, reason: ReportReason, details?: string, alsoBlock = false) => {
+        try {
+            const repo = DataRepository.getInstance();
+            await repo.reportUser(targetUid, reason, details);
+            get().addNotification("Report submitted. Thank you for keeping Cypress safe.", 'success');
+        } catch (err: any) {
+            get().addNotification(err.message || "Failed to submit report", 'error');
+            return;
+        }
+
+        if (alsoBlock) {
+            await get().blockUser(targetUid);
+        }
+    },
+
+    loadConversation: async (otherUserId: string) => {
+        set(state => ({ loadingConversations: { ...state.loadingConversations, [otherUserId]: true } }));
+        try {
+            const page = await fetchHistoryPage(get(), otherUserId);
+            set(state => ({
+                ...mergeMessages(state, otherUserId, page.messages),
+                // Reopening a chat refreshes the newest page; keep any older pages already loaded
+                olderMessagesCursor: otherUserId in state.olderMessagesCursor
+                    ? state.olderMessagesCursor
+                    : { ...state.olderMessagesCursor, [otherUserId]: page.nextCursor }
+            }));
+        } catch (err: any) {
+            get().addNotification("Failed to load chat", 'error');
+        } finally {
+            set(state => ({ loadingConversations: { ...state.loadingConversations, [otherUserId]: false } }));
+        }
+    },
+
+    fetchOlderMessages: async (otherUserId: string) => {
+        const { olderMessagesCursor, isFetchingOlderMessages } = get();
+        const cursor = olderMessagesCursor[otherUserId];
+        if (!cursor || isFetchingOlderMessages) return;
+
+        set({ isFetchingOlderMessages: true });
+        try {
+            const page = await fetchHistoryPage(get(), otherUserId, cursor);
+            set(state => ({
+                ...mergeMessages(state, otherUserId, page.messages),
+                olderMessagesCursor: { ...state.olderMessagesCursor, [otherUserId]: page.nextCursor },
+                isFetchingOlderMessages: false
+            }));
+        } catch (err: any) {
+            set({ isFetchingOlderMessages: false });
+        }
+    },
+
+    sendMessage: async (receiverId: string, text: string, replyToId?: string) => {
+        const { currentUser } = get();
+        if (!text.trim() || !currentUser) return;
+
+        // Every message goes through the outbox, so it survives going offline or a reload
+        const entry: OutboxEntry = {
+            clientId: crypto.randomUUID(),
+            receiverId,
+            isGroup: isGroupConversation(get(), receiverId),
+            text,
+            replyToId,
+            createdAt: Date.now(),
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            status: 'pending'
+        };
+        MessageOutbox.getInstance().add(entry);
+
+        // Optimistic UI update: Show the message while it is being sent
+        set(state => mergeMessages(state, receiverId, [
+            outboxMessage(entry, currentUser.uid, replyToId ? replyPreviewOf(state.messagesById[replyToId]) : undefined)
+        ]));
+        await get().flushOutbox();
+    },
+
+    sendImage: async (receiverId: string, file: File, replyToId?: string) => {
+        const { currentUser } = get();
+        if (!currentUser) return;
+        if (!file.type.startsWith('image/')) {
+            get().addNotification("Only images can be attached", 'error');
+            return;
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            get().addNotification(`Images must be smaller than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`, 'error');
+            return;
+        }
+
+        let image: Blob;
+        try {
+            image = await resizeImage(file);
+        } catch (err) {
+            get().addNotification("Could not read that image", 'error');
+            return;
+        }
+
+        const clientId = crypto.randomUUID();
+        const createdAt = Date.now();
+        pendingUploads.set(clientId, { receiverId, isGroup: isGroupConversation(get(), receiverId), file: image, createdAt, replyToId });
+
+        // Optimistic UI update: the local copy is shown while it uploads
+        set(state => mergeMessages(state, receiverId, [{
+            id: clientId,
+            clientId,
+            senderId: currentUser.uid,
+            receiverId,
+            text: '',
+            imageUrl: URL.createObjectURL(image),
+            type: 'image',
+            timestamp: createdAt,
+            status: 'sending',
+            uploadProgress: 0,
+            replyToId,
+            replyTo: replyToId ? replyPreviewOf(state.messagesById[replyToId]) : undefined
+        }]));
+        await get().uploadPendingAttachment(clientId);
+    },
+
+    sendVoiceNote: async (receiverId: string, audio: Blob, voiceNote: VoiceNoteMeta, replyToId?: string) => {
+        const { currentUser } = get();
+        if (!currentUser) return;
+        if (audio.size > MAX_ATTACHMENT_BYTES) {
+            get().addNotification("That voice message is too long to send", 'error');
+            return;
+        }
+
+        const clientId = crypto.randomUUID();
+        const createdAt = Date.now();
+        pendingUploads.set(clientId, { receiverId, isGroup: isGroupConversation(get(), receiverId), file: audio, voiceNote, createdAt, replyToId });
+
+        // Optimistic UI update: the local copy can be played while it uploads
+        set(state => mergeMessages(state, receiverId, [{
+            id: clientId,
+            clientId,
+            senderId: currentUser.uid,
+            receiverId,
+            text: '',
+            audioUrl: URL.createObjectURL(audio),
+            voiceNote,
+            type: 'audio',
+            timestamp: createdAt,
+            status: 'sending',
+            uploadProgress: 0,
+            replyToId,
+            replyTo: replyToId ? replyPreviewOf(state.messagesById[replyToId]) : undefined
+        }]));
+        await get().uploadPendingAttachment(clientId);
+    },
+
+    uploadPendingAttachment: async (clientId: string) => {
+        const upload = pendingUploads.get(clientId);
+        if (!upload) return;
+
+        const updateBubble = (changes: Partial<Message>) => set(state => state.messagesById[clientId]
+            ? { messagesById: { ...state.messagesById, [clientId]: { ...state.messagesById[clientId], ...changes } } }
+            : state
+        );
+        updateBubble({ status: 'sending', uploadProgress: 0 });
+
+        try {
+            const path = await ChatService.getInstance().uploadAttachment(
+                upload.receiverId,
+                upload.file,
+                (fraction) => updateBubble({ uploadProgress: fraction })
+            );
+            pendingUploads.delete(clientId);
+            const attachment = upload.voiceNote
+                ? { audioPath: path, voiceNote: upload.voiceNote }
+                : { imagePath: path };
+            updateBubble({ ...attachment, uploadProgress: undefined });
+
+            // Uploaded: from here on it is an ordinary outbox message
+            MessageOutbox.getInstance().add({
+                clientId,
+                receiverId: upload.receiverId,
+                isGroup: upload.isGroup,
+                text: '',
+                ...attachment,
+                replyToId: upload.replyToId,
+                createdAt: upload.createdAt,
+                attempts: 0,
+                nextAttemptAt: Date.now(),
+                status: 'pending'
+            });
+            await get().flushOutbox();
+        } catch (err) {
+            updateBubble({ status: 'error', uploadProgress: undefined });
+        }
+    },
+
+    flushOutbox: async () => {
+        const { currentUser } = get();
+        if (!currentUser || isFlushingOutbox) return;
+
+        const outbox = MessageOutbox.getInstance();
+        const chat = ChatService.getInstance();
+        const session = outboxSession;
+        isFlushingOutbox = true;
+        if (outboxRetryTimer) clearTimeout(outboxRetryTimer);
+        outboxRetryTimer = null;
+
+        try {
+            let entry: OutboxEntry | undefined;
+            while (isOnline() && (entry = outbox.nextDue(Date.now()))) {
+                const { clientId, receiverId } = entry;
+                try {
+                    const options = {
+                        imagePath: entry.imagePath,
+                        audioPath: entry.audioPath,
+                        voiceNote: entry.voiceNote,
+                        clientId,
+                        replyToId: entry.replyToId
+                    };
+                    const sentMessage = entry.isGroup
+                        ? await chat.sendGroupMessage(receiverId, entry.text, options)
+                        : await chat.sendMessage(receiverId, entry.text, options);
+                    if (session !== outboxSession) break;
+                    outbox.remove(clientId);
+                    revokePreview(get().messagesById[clientId]);
+                    set(state => ({
+                        ...replaceMessage(state, receiverId, clientId, sentMessage),
+                        conversations: touchConversation(state.conversations, receiverId, sentMessage, currentUser.uid),
+                        groups: touchGroup(state.groups, receiverId, sentMessage, currentUser.uid)
+                    }));
+                } catch (err) {
+                    // Dropping offline mid-send is not the message's fault; it waits for 'online'
+                    if (!isOnline() || session !== outboxSession) break;
+
+                    // Only transport errors are retried; a refusal fails straight away
+                    const attempts = entry.attempts + 1;
+                    const hasGivenUp = err instanceof MessageRefusedError || attempts >= OUTBOX_MAX_ATTEMPTS;
+                    outbox.update(clientId, {
+                        attempts,
+                        nextAttemptAt: Date.now() + outboxRetryDelay(attempts),
+                        status: hasGivenUp ? 'failed' : 'pending'
+                    });
+                    set(state => state.messagesById[clientId]
+                        ? { messagesById: { ...state.messagesById, [clientId]: { ...state.messagesById[clientId], status: hasGivenUp ? 'error' : 'queued' } } }
+                        : state
+                    );
+                }
+            }
+        } finally {
+            if (session === outboxSession) isFlushingOutbox = false;
+        }
+        if (session !== outboxSession) return;
+
+        // Anything left is waiting for connectivity or for its backoff to pass
+        const waiting = outbox.list().filter(e => e.status === 'pending').map(e => e.clientId);
+        set(state => ({
+            messagesById: waiting.reduce((byId, id) => byId[id] && byId[id].status === 'sending'
+                ? { ...byId, [id]: { ...byId[id], status: 'queued' } }
+                : byId, state.messagesById)
         }));
+
+        const nextAttemptAt = outbox.nextAttemptAt();
+        if (nextAttemptAt !== null && isOnline()) {
+            outboxRetryTimer = setTimeout(() => get().flushOutbox(), Math.max(0, nextAttemptAt - Date.now()));
+        }
     },
 
-    markAsRead: async (otherUserId: string) => {
-        const repo = DataRepository.getInstance();
-        await repo.markMessagesAsRead(otherUserId);
-        await get().fetchUnreadCount();
+    restoreOutbox: () => {
+        const { currentUser } = get();
+        if (!currentUser) return;
+
+        const entries = MessageOutbox.getInstance().open(currentUser.uid);
+        set(state => entries.reduce(
+            (slice, entry) => ({
+                ...slice,
+                ...mergeMessages(slice, entry.receiverId, [
+                    outboxMessage(entry, currentUser.uid, entry.replyToId ? replyPreviewOf(slice.messagesById[entry.replyToId]) : undefined)
+                ])
+            }),
+            state
+        ));
+
+        if (!isOnlineListenerAdded && typeof window !== 'undefined') {
+            isOnlineListenerAdded = true;
+            window.addEventListener('online', () => {
+                // Coming back online retries right away instead of waiting out the backoff
+                const outbox = MessageOutbox.getInstance();
+                outbox.list()
+                    .filter(e => e.status === 'pending')
+                    .forEach(e => outbox.update(e.clientId, { nextAttemptAt: Date.now() }));
+                get().flushOutbox();
+            });
+        }
+        get().flushOutbox();
     },
 
-    subscribeToUserMessages: (otherUserId: string) => {
-        const repo = DataRepository.getInstance();
-        return repo.subscribeToMessages(otherUserId, (newMessage) => {
-            set((state) => {
-                const existingMessages = state.messages[otherUserId] || [];
-                return {
-                    messages: {
-                        ...state.messages,
-                        [otherUserId]: [...existingMessages, newMessage]
-                    }
-                };
+    retryMessage: (clientId: string) => {
+        if (pendingUploads.has(clientId)) {
+            get().uploadPendingAttachment(clientId);
+            return;
+        }
+
+        const outbox = MessageOutbox.getInstance();
+        if (!outbox.get(clientId)) return;
+
+        outbox.update(clientId, { attempts: 0, nextAttemptAt: Date.now(), status: 'pending' });
+        set(state => state.messagesById[clientId]
+            ? { messagesById: { ...state.messagesById, [clientId]: { ...state.messagesById[clientId], status: isOnline() ? 'sending' : 'queued' } } }
+            : state
+        );
+        get().flushOutbox();
+    },
+
+    discardMessage: (clientId: string) => {
+        const outbox = MessageOutbox.getInstance();
+        const receiverId = outbox.get(clientId)?.receiverId ?? pendingUploads.get(clientId)?.receiverId;
+        if (!receiverId) return;
+
+        outbox.remove(clientId);
+        pendingUploads.delete(clientId);
+        revokePreview(get().messagesById[clientId]);
+        set(state => removeMessage(state, receiverId, clientId));
+    },
+
+    editMessage: async (messageId: string, text: string) => {
+        const { currentUser, messagesById } = get();
+        const original = messagesById[messageId];
+        if (!currentUser || !original || !text.trim() || text === original.text) return;
+        const conversationId = conversationIdFor(original, currentUser.uid);
+
+        // Optimistic UI update: Show the new text right away
+        const applyEdit = (message: Message) => set(state => ({
+            messagesById: { ...state.messagesById, [messageId]: withLoadedDetails(message, state.messagesById[messageId]) },
+            ...updatePreviews(state, conversationId, message)
+        }));
+        applyEdit({ ...original, text, editedAt: Date.now() });
+
+        try {
+            const edited = await ChatService.getInstance().editMessage(messageId, text);
+            applyEdit(edited);
+        } catch (err: any) {
+            // Revert on error
+            applyEdit(original);
+            get().addNotification("Failed to edit message", 'error');
+        }
+    },
+
+    deleteMessageForMe: async (messageId: string) => {
+        const { currentUser, messagesById } = get();
+        const original = messagesById[messageId];
+        if (!currentUser || !original) return;
+        const conversationId = conversationIdFor(original, currentUser.uid);
+
+        // Optimistic UI update: Drop it from the chat immediately
+        set(state => removeMessage(state, conversationId, messageId));
+        try {
+            await ChatService.getInstance().deleteForMe(messageId);
+            get().forgetMessage(messageId);
+        } catch (err: any) {
+            // Revert on error
+            set(state => mergeMessages(state, conversationId, [original]));
+            get().addNotification("Failed to delete message", 'error');
+        }
+    },
+
+    unsendMessage: async (messageId: string) => {
+        const { currentUser, messagesById } = get();
+        const original = messagesById[messageId];
+        if (!currentUser || !original || original.senderId !== currentUser.uid) return;
+
+        // Optimistic UI update: Drop it from the chat immediately
+        set(state => removeMessage(state, original.receiverId, messageId));
+        try {
+            await ChatService.getInstance().unsendMessage(messageId);
+            get().forgetMessage(messageId);
+        } catch (err: any) {
+            // Revert on error
+            set(state => mergeMessages(state, original.receiverId, [original]));
+            get().addNotification("Failed to unsend message", 'error');
+        }
+    },
+
+    forgetMessage: (messageId: string) => {
+        const { currentUser, messagesById, conversations, groups } = get();
+        if (!currentUser) return;
+
+        const message = messagesById[messageId];
+        if (message) {
+            set(state => removeMessage(state, conversationIdFor(message, currentUser.uid), messageId));
+        }
+
+        // The message may have been a chat's preview or still unread, even if it was never loaded here
+        if (!message || message.senderId !== currentUser.uid) get().fetchUnreadCount();
+        if (conversations.length > 0) {
+            DataRepository.getInstance().getConversationSummaries()
+                .then(updated => set({ conversations: updated }))
+                .catch(err => console.error('Failed to refresh conversations', err));
+        }
+        if (groups.length > 0) get().fetchGroups();
+    },
+
+    toggleReaction: async (messageId: string, emoji: string) => {
+        const { currentUser, messagesById } = get();
+        const message = messagesById[messageId];
+        if (!currentUser || !message) return;
+
+        const isAdding = !(message.reactions || []).some(r => r.emoji === emoji && r.userIds.includes(currentUser.uid));
+        const change: ReactionChange = { messageId, userId: currentUser.uid, emoji, added: isAdding };
+
+        // Optimistic UI update: Show the chip change immediately
+        get().applyReactionChange(change);
+        try {
+            const chat = ChatService.getInstance();
+            if (isAdding) await chat.addReaction(messageId, emoji);
+            else await chat.removeReaction(messageId, emoji);
+        } catch (err: any) {
+            // Revert on error
+            get().applyReactionChange({ ...change, added: !isAdding });
+            get().addNotification("Failed to update reaction", 'error');
+        }
+    },
+
+    applyReactionChange: (change: ReactionChange) => {
+        set(state => {
+            const message = state.messagesById[change.messageId];
+            if (!message) return state;
+            return {
+                messagesById: {
+                    ...state.messagesById,
+                    [change.messageId]: { ...message, reactions: applyReaction(message.reactions || [], change.emoji, change.userId, change.added) }
+                }
+            };
+        });
+    },
+
+    receiveMessage: (message: Message) => {
+        const { currentUser, activeConversationId, groups } = get();
+        if (!currentUser) return;
+
+        const conversationId = conversationIdFor(message, currentUser.uid);
+        if (message.groupId) {
+            const group = groups.find(g => g.id === message.groupId);
+            const countUnread = conversationId !== activeConversationId;
+            const isMutedGroup = isConversationMuted(get(), conversationId);
+            set(state => ({
+                ...mergeMessages(state, conversationId, [message]),
+                groups: touchGroup(state.groups, conversationId, message, currentUser.uid, countUnread),
+                unreadCount: state.unreadCount + (countUnread && isMutedGroup === false ? 1 : 0)
+            }));
+            if (countUnread && isMutedGroup === false) get().addNotification(`New message in ${group!.name}`, 'info');
+            // Someone added me to a group this session, or the groups are not loaded yet:
+            // its mute setting comes with the list, so count and notify once that is here
+            if (!group) {
+                get().loadConversationSettings(conversationId, true).then(settings => {
+                    const loaded = get().groups.find(g => g.id === conversationId);
+                    if (!countUnread || !settings || !loaded || isMuted(settings)) return;
+                    set(state => ({ unreadCount: state.unreadCount + 1 }));
+                    get().addNotification(`New message in ${loaded.name}`, 'info');
+                });
+            }
+            return;
+        }
+
+        const isIncoming = message.senderId !== currentUser.uid;
+        // A sent message ends the sender's typing
+        if (isIncoming) get().setUserTyping(message.senderId, false);
+        // The open chat marks its own messages read, so they never count as unread
+        const countUnread = isIncoming && conversationId !== activeConversationId;
+        const isMutedChat = isConversationMuted(get(), conversationId);
+        set(state => ({
+            ...mergeMessages(state, conversationId, [message]),
+            conversations: touchConversation(state.conversations, conversationId, message, currentUser.uid, countUnread),
+            unreadCount: state.unreadCount + (countUnread && isMutedChat === false ? 1 : 0)
+        }));
+        if (!countUnread) return;
+
+        const notify = () => {
+            const { conversations, connections } = get();
+            const senderName = (conversations.find(c => c.connection.uid === conversationId)?.connection
+                || connections.find(c => c.uid === conversationId))?.displayName
+                || fetchedSenderNames.get(conversationId);
+            get().addNotification(senderName ? `New message from ${senderName}` : 'New message', 'info');
+        };
+        if (isMutedChat === false) {
+            notify();
+        } else if (isMutedChat === null) {
+            // A new chat, or the chats are not loaded yet: fetch its mute setting before counting or notifying
+            get().loadConversationSettings(conversationId, false).then(settings => {
+                if (!settings || isMuted(settings)) return;
+                set(state => ({ unreadCount: state.unreadCount + 1 }));
+                notify();
+            });
+        }
+    },
+
+    startInbox: () => {
+        const { currentUser } = get();
+        if (!currentUser) return;
+        ChatService.getInstance().subscribeToInbox(
+            currentUser.uid,
+            (message) => get().receiveMessage(message),
+            // Receipts and edits; only loaded messages need updating
+            (message) => set(state => state.messagesById[message.id]
+                ? {
+                    messagesById: { ...state.messagesById, [message.id]: withLoadedDetails(message, state.messagesById[message.id]) },
+                    ...updatePreviews(state, conversationIdFor(message, currentUser.uid), message)
+                }
+                : state
+            ),
+            // Unsent by the sender, or deleted for me on another device
+            (messageId) => get().forgetMessage(messageId),
+            (change) => get().applyReactionChange(change)
+        );
+    },
+
+    loadConversationSettings: (conversationId: string, isGroup: boolean) => {
+        const running = settingsRequests.get(conversationId);
+        if (running) return running;
+
+        // Groups come with their member list, so a group I was just added to is loaded whole
+        const request = (isGroup
+            ? get().fetchGroups().then(() => get().groups.find(g => g.id === conversationId)?.settings ?? null)
+            : Promise.all([
+                DataRepository.getInstance().getConversationSettings(conversationId),
+                DataRepository.getInstance().getUser(conversationId)
+            ]).then(([settings, sender]) => {
+                fetchedSettings.set(conversationId, settings);
+                if (sender.displayName) fetchedSenderNames.set(conversationId, sender.displayName);
+                return settings;
+            })
+        )
+            .catch(() => null)
+            .finally(() => {
+                settingsRequests.delete(conversationId);
+                get().scheduleMuteExpiry();
             });
-            // Update unread count
+        settingsRequests.set(conversationId, request);
+        return request;
+    },
+
+    scheduleMuteExpiry: () => {
+        if (muteExpiryTimer) clearTimeout(muteExpiryTimer);
+        muteExpiryTimer = null;
+
+        const now = Date.now();
+        const { conversations, groups } = get();
+        const endings = [...conversations.map(c => c.settings), ...groups.map(g => g.settings), ...fetchedSettings.values()]
+            .map(settings => settings.mutedUntil)
+            .filter((mutedUntil): mutedUntil is number => mutedUntil !== null && mutedUntil > now && mutedUntil !== MUTED_FOREVER);
+        if (endings.length === 0) return;
+
+        muteExpiryTimer = setTimeout(() => {
+            muteExpiryTimer = null;
+            // Redraw the lists without the bell, and count the unmuted chat in the badge again
+            set(state => ({ conversations: [...state.conversations], groups: [...state.groups] }));
             get().fetchUnreadCount();
+            get().scheduleMuteExpiry();
+        }, Math.min(Math.min(...endings) - now, MAX_TIMER_DELAY_MS));
+    },
+
+    loadChatsAndStartInbox: async () => {
+        // Mute settings come with the chat lists, and receiveMessage needs them for the first message
+        await Promise.all([get().fetchConversations(), get().fetchGroups()]);
+        get().startInbox();
+    },
+
+    startPresence: () => {
+        const { currentUser } = get();
+        if (!currentUser) return;
+        ChatService.getInstance().joinPresence(
+            currentUser.uid,
+            (onlineUserIds) => set({ onlineUserIds }),
+            (fromUserId, isTyping) => get().setUserTyping(fromUserId, isTyping)
+        );
+    },
+
+    setUserTyping: (userId: string, isTyping: boolean) => {
+        clearTimeout(typingExpiryTimers.get(userId));
+        typingExpiryTimers.delete(userId);
+        if (isTyping) {
+            typingExpiryTimers.set(userId, setTimeout(() => get().setUserTyping(userId, false), TYPING_IDLE_MS * 2));
+        }
+
+        set(state => {
+            const isListed = state.typingUserIds.includes(userId);
+            if (isTyping === isListed) return state;
+            return {
+                typingUserIds: isTyping
+                    ? [...state.typingUserIds, userId]
+                    : state.typingUserIds.filter(id => id !== userId)
+            };
         });
     },
 
+    notifyTyping: (toUserId: string) => {
+        ChatService.getInstance().notifyTyping(toUserId);
+    },
+
+    stopTyping: (toUserId: string) => {
+        ChatService.getInstance().stopTyping(toUserId);
+    },
+
+    setActiveConversation: (otherUserId: string | null) => {
+        set({ activeConversationId: otherUserId });
+    },
+
+    markAsRead: async (otherUserId: string) => {
+        try {
+            const chat = ChatService.getInstance();
+            if (isGroupConversation(get(), otherUserId)) await chat.markGroupAsRead(otherUserId);
+            else await chat.markAsRead(otherUserId);
+        } catch (err) {
+            console.error('Failed to mark messages as read', err);
+            return;
+        }
+        set(state => ({
+            conversations: state.conversations.map(c =>
+                c.connection.uid === otherUserId ? { ...c, unreadCount: 0 } : c
+            ),
+            groups: state.groups.map(g => g.id === otherUserId ? { ...g, unreadCount: 0 } : g)
+        }));
+        await get().fetchUnreadCount();
+    },
+
     fetchUnreadCount: async () => {
-        const repo = DataRepository.getInstance();
-        const count = await repo.getUnreadMessageCount();
+        const count = await ChatService.getInstance().getUnreadCount();
         set({ unreadCount: count });
     },
 
@@ -325,9 +1559,9 @@ export const useAppStore = create<AppState>((set, get) => ({
         set({ uiLanguage: lang });
     },
 
-    addNotification: (message: string, type: 'success' | 'info' | 'error') => {
+    addNotification: (message: string, type: 'success' | 'info' | 'error', action?: NotificationAction) => {
         const id = Math.random().toString(36).substring(7);
-        const newNotif = { id, message, type, duration: 3000 };
+        const newNotif: AppNotification = { id, message, type, duration: 3000, action };
         set(state => ({ notifications: [...state.notifications, newNotif] }));
 
         // Auto remove
@@ -0,0 +1,44 @@
+import { muteUntil, isMuted, isArchived, orderPinnedFirst, toConversationSettings, toSettingsColumns, MUTED_FOREVER, DEFAULT_CONVERSATION_SETTINGS } from '../utils/conversationSettings';
+
+const preview = (timestamp: number) => ({ text: 'hi', isImage: false, senderId: 'user_2', isMine: false, timestamp });
+
+/*
+ * Test Suite: Conversation Settings
+ */
+describe('Conversation Settings', () => {
+    test('Mutes last for the chosen duration or until turned off', () => {
+        const now = Date.UTC(2026, 9, 19, 12);
+        expect(muteUntil('hour', now)).toBe(now + 60 * 60 * 1000);
+        expect(muteUntil('forever', now)).toBe(MUTED_FOREVER);
+        expect(isMuted({ ...DEFAULT_CONVERSATION_SETTINGS, mutedUntil: muteUntil('eightHours', now) }, now + 1000)).toBe(true);
+        expect(isMuted({ ...DEFAULT_CONVERSATION_SETTINGS, mutedUntil: muteUntil('hour', now) }, now + 2 * 60 * 60 * 1000)).toBe(false);
+        expect(isMuted(DEFAULT_CONVERSATION_SETTINGS, now)).toBe(false);
+    });
+
+    test('Archived chats come back once a newer message arrives', () => {
+        const archived = { ...DEFAULT_CONVERSATION_SETTINGS, archivedAt: 5000 };
+        expect(isArchived(archived, preview(4000))).toBe(true);
+        expect(isArchived(archived, null)).toBe(true);
+        expect(isArchived(archived, preview(6000))).toBe(false);
+        expect(isArchived(DEFAULT_CONVERSATION_SETTINGS, preview(4000))).toBe(false);
+    });
+
+    test('Pinned chats go first, most recently pinned on top; the rest keep their order', () => {
+        const chat = (id: string, pinnedAt: number | null) => ({ id, settings: { ...DEFAULT_CONVERSATION_SETTINGS, pinnedAt } });
+        const ordered = orderPinnedFirst([chat('a', null), chat('b', 100), chat('c', null), chat('d', 200)]);
+        expect(ordered.map(item => item.id)).toEqual(['d', 'b', 'a', 'c']);
+    });
+
+    test('Settings convert to and from stored columns, leaving unchanged ones out', () => {
+        expect(toConversationSettings({ muted_until: null, archived_at: '2026-10-19T12:00:00.000Z', pinned_at: null }))
+            .toEqual({ mutedUntil: null, archivedAt: Date.UTC(2026, 9, 19, 12), pinnedAt: null });
+        expect(toConversationSettings(undefined)).toEqual(DEFAULT_CONVERSATION_SETTINGS);
+        expect(toSettingsColumns({ pinnedAt: Date.UTC(2026, 9, 19, 12), mutedUntil: null }))
+            .toEqual({ muted_until: null, pinned_at: '2026-10-19T12:00:00.000Z' });
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
@@ -0,0 +1,24 @@
+import { fitWithin } from '../utils/imageResize';
+
+/*
+ * Test Suite: Image Resize
+ */
+describe('Image Resize', () => {
+    test('Large images shrink to the bound on their longest side', () => {
+        expect(fitWithin(4000, 3000, 1600)).toEqual({ width: 1600, height: 1200 });
+        expect(fitWithin(1080, 1920, 1600)).toEqual({ width: 900, height: 1600 });
+    });
+
+    test('Images that already fit keep their size', () => {
+        expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+    });
+
+    test('Extreme aspect ratios never collapse to zero pixels', () => {
+        expect(fitWithin(10000, 2, 1600)).toEqual({ width: 1600, height: 1 });
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
@@ -2,16 +2,27 @@
 // In a real environment, run this with 'npm test'.
 
 import { DataRepository } from '../services/dataRepository';
-import { Major, Interest } from '../types';
+import { ChatService } from '../services/chatService';
+import { getBackend, setBackend } from '../services/backend';
+import { InMemoryBackendAdapter } from '../services/inMemoryBackendAdapter';
+import { DEMO_SEED } from '../services/demoSeed';
+import { Major, Interest, Language, ReportReason } from '../types';
+import { DEFAULT_DISCOVERY_FILTERS } from '../utils/discoveryFilters';
+import { muteUntil, MUTED_FOREVER } from '../utils/conversationSettings';
+
+// Run the suite offline against the in-memory backend
+setBackend(new InMemoryBackendAdapter(DEMO_SEED, { autoProvision: true }));
 
 /* 
  * Test Suite: Matchmaking Core Logic
  */
 describe('DataRepository Mock Logic', () => {
     let repo: DataRepository;
+    let chat: ChatService;
 
     beforeEach(() => {
         repo = DataRepository.getInstance();
+        chat = ChatService.getInstance();
     });
 
     test('Login should accept any valid email', async () => {
@@ -33,10 +44,504 @@ describe('DataRepository Mock Logic', () => {
         expect(Object.values(Major)).toContain(firstMatch.major);
     });
 
+    test('Match queue pages do not overlap and end with a null cursor', async () => {
+        const first = await repo.getMatchQueuePage(null, 3);
+        expect(first.profiles.length).toBe(3);
+        expect(first.nextCursor).not.toBeNull();
+
+        const seen = new Set(first.profiles.map(p => p.uid));
+        let cursor = first.nextCursor;
+        while (cursor) {
+            const page = await repo.getMatchQueuePage(cursor, 3);
+            page.profiles.forEach(p => {
+                expect(seen.has(p.uid)).toBe(false);
+                seen.add(p.uid);
+            });
+            cursor = page.nextCursor;
+        }
+        expect(seen.size).toBe((await repo.getMatchQueuePage(null, 100)).profiles.length);
+    });
+
+    test('Match queue pages run from the best match down across the whole queue', async () => {
+        const scores: number[] = [];
+        let page = await repo.getMatchQueuePage(null, 2);
+        scores.push(...page.profiles.map(p => p.compatibility!.total));
+        while (page.nextCursor) {
+            page = await repo.getMatchQueuePage(page.nextCursor, 2);
+            scores.push(...page.profiles.map(p => p.compatibility!.total));
+        }
+        expect(scores.length).toBeGreaterThan(2);
+        expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    });
+
     test('Recording a swipe should resolve successfully', async () => {
         const result = await repo.recordSwipe('user_2', 'CONNECT');
         expect(result).toBeUndefined(); // Returns void promise
     });
+
+    test('Undoing a swipe returns the profile to the queue', async () => {
+        await repo.recordSwipe('user_5', 'DISMISS');
+        expect((await repo.getMatchQueuePage(null, 100)).profiles.map(p => p.uid)).not.toContain('user_5');
+
+        await repo.undoSwipe('user_5');
+        expect((await repo.getMatchQueuePage(null, 100)).profiles.map(p => p.uid)).toContain('user_5');
+    });
+
+    test('Undo is refused once the swipe formed a mutual connection', async () => {
+        // user_3 already liked the demo user in the seed data
+        await repo.recordSwipe('user_3', 'CONNECT');
+        await expect(repo.undoSwipe('user_3')).rejects.toThrow();
+    });
+
+    test('Saved discovery filters narrow the match queue', async () => {
+        const uids = async () => (await repo.getMatchQueuePage(null, 100)).profiles.map(p => p.uid);
+        // user_8 shares the demo user's major, so they are hidden by default
+        expect(await uids()).not.toContain('user_8');
+
+        await repo.saveDiscoveryFilters({
+            ...DEFAULT_DISCOVERY_FILTERS,
+            includeOwnMajor: true,
+            requiredLanguages: [Language.PORTUGUESE]
+        });
+        expect(await uids()).toEqual(['user_8']);
+        expect((await repo.getDiscoveryFilters()).includeOwnMajor).toBe(true);
+
+        await repo.saveDiscoveryFilters(DEFAULT_DISCOVERY_FILTERS);
+        expect(await uids()).not.toContain('user_8');
+    });
+
+    test('Search matches across fields and paginates ranked results', async () => {
+        const tokens = await repo.searchUsers('lang:Korean region:Seoul');
+        expect(tokens.results.map(r => r.profile.uid)).toEqual(['user_3']);
+
+        // Every seeded profile speaks English
+        const first = await repo.searchUsers('english', 0, 3);
+        expect(first.results.length).toBe(3);
+        expect(first.nextOffset).toBe(3);
+
+        const rest = await repo.searchUsers('english', 3, 100);
+        expect(rest.nextOffset).toBeNull();
+        expect(first.total).toBe(first.results.length + rest.results.length);
+    });
+
+    test('Blocking hides a user everywhere until unblocked', async () => {
+        // user_3 became a connection in the undo test above
+        await repo.blockUser('user_3');
+        expect((await repo.getConnections()).map(c => c.uid)).not.toContain('user_3');
+        expect((await repo.searchUsers('jisoo')).total).toBe(0);
+        expect((await repo.getBlockedUsers()).map(b => b.uid)).toEqual(['user_3']);
+        await expect(chat.sendMessage('user_3', 'hi')).rejects.toThrow();
+
+        await repo.unblockUser('user_3');
+        expect((await repo.getConnections()).map(c => c.uid)).toContain('user_3');
+    });
+
+    test('Being blocked hides the blocker too', async () => {
+        await getBackend().blocks.insert({ blocker_id: 'user_6', blocked_id: 'demo_user' });
+        expect((await repo.getMatchQueuePage(null, 100)).profiles.map(p => p.uid)).not.toContain('user_6');
+        // Only blocks I made are listed (and can be undone)
+        expect((await repo.getBlockedUsers()).map(b => b.uid)).not.toContain('user_6');
+    });
+
+    test('Removing a connection keeps it gone and can hide the history', async () => {
+        await chat.sendMessage('user_3', 'See you around');
+        expect((await chat.getHistory('user_3')).messages.length).toBe(1);
+
+        await repo.removeConnection('user_3', true);
+        expect((await repo.getConnections()).map(c => c.uid)).not.toContain('user_3');
+        expect((await chat.getHistory('user_3')).messages).toEqual([]);
+        // Swipes stay, so they do not come back as a request or a card
+        expect((await repo.getIncomingRequests()).map(r => r.uid)).not.toContain('user_3');
+        expect((await repo.getMatchQueuePage(null, 100)).profiles.map(p => p.uid)).not.toContain('user_3');
+    });
+
+    test('The inbox receives messages from every conversation except blocked users', async () => {
+        const received: string[] = [];
+        const unsubscribe = chat.subscribeToInbox('demo_user', (message) => received.push(message.text));
+
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'demo_user', content: 'from user_2' });
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'from user_4' });
+        // user_6 blocked demo_user in an earlier test
+        await getBackend().messages.insert({ sender_id: 'user_6', receiver_id: 'demo_user', content: 'from a blocker' });
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'user_4', content: 'not for me' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        unsubscribe();
+
+        expect(received).toEqual(['from user_2', 'from user_4']);
+    });
+
+    test('Inbox messages arrive in order, and blocking takes effect without a restart', async () => {
+        const received: string[] = [];
+        const unsubscribe = chat.subscribeToInbox('demo_user', (message) => received.push(message.text));
+
+        const { data: quoted } = await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'demo_user', content: 'first' });
+        // The reply needs its quote looked up; the message after it must still wait its turn
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'demo_user', content: 'a reply', reply_to_id: quoted!.id });
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'after the reply' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        chat.setBlockedInInbox('user_4', true);
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'after blocking' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        chat.setBlockedInInbox('user_4', false);
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'after unblocking' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        unsubscribe();
+
+        expect(received).toEqual(['first', 'a reply', 'after the reply', 'after unblocking']);
+    });
+
+    test('History pages run from newest to oldest without overlap', async () => {
+        for (const text of ['one', 'two', 'three', 'four', 'five']) {
+            await chat.sendMessage('user_5', text);
+        }
+
+        const newest = await chat.getHistory('user_5', null, 2);
+        expect(newest.messages.map(m => m.text)).toEqual(['four', 'five']);
+
+        const middle = await chat.getHistory('user_5', newest.nextCursor, 2);
+        expect(middle.messages.map(m => m.text)).toEqual(['two', 'three']);
+
+        const oldest = await chat.getHistory('user_5', middle.nextCursor, 2);
+        expect(oldest.messages.map(m => m.text)).toEqual(['one']);
+        expect(oldest.nextCursor).toBeNull();
+    });
+
+    test('Senders see their messages become delivered, then read', async () => {
+        const statuses: string[] = [];
+        const unsubscribe = chat.subscribeToInbox('demo_user', () => {}, (message) => statuses.push(message.status));
+
+        const sent = await chat.sendMessage('user_7', 'Are you coming to the study group?');
+        expect(sent.status).toBe('sent');
+
+        // user_7's app receives it, then they open the chat
+        await getBackend().messages.markDelivered('user_7');
+        await getBackend().messages.markRead('demo_user', 'user_7');
+        unsubscribe();
+
+        expect(statuses).toEqual(['delivered', 'read']);
+        expect((await chat.getHistory('user_7')).messages[0].status).toBe('read');
+    });
+
+    test('Resending with the same client id does not duplicate the message', async () => {
+        const clientId = '2f1c9a4e-7b1d-4c55-9e0a-3d6f8b2c1a77';
+        const first = await chat.sendMessage('user_8', 'Lab notes attached', { clientId });
+        const retried = await chat.sendMessage('user_8', 'Lab notes attached', { clientId });
+
+        expect(retried.id).toBe(first.id);
+        expect(retried.clientId).toBe(clientId);
+        expect((await chat.getHistory('user_8')).messages.length).toBe(1);
+    });
+
+    test('Images are uploaded and sent by storage path', async () => {
+        const progress: number[] = [];
+        const path = await chat.uploadAttachment('user_9', new Blob(['jpeg bytes'], { type: 'image/jpeg' }), (f) => progress.push(f));
+        expect(path.startsWith('demo_user/user_9/')).toBe(true);
+        expect(progress[progress.length - 1]).toBe(1);
+
+        await chat.sendMessage('user_9', '', { imagePath: path });
+        const [message] = (await chat.getHistory('user_9')).messages;
+        expect(message.type).toBe('image');
+        expect(message.imagePath).toBe(path);
+        expect(message.imageUrl).toBeUndefined();
+        expect(typeof await chat.getAttachmentUrl(path)).toBe('string');
+
+        const { data: summaries } = await getBackend().messages.listConversationSummaries('demo_user');
+        expect(summaries!.find(row => row.other_user_id === 'user_9')!.last_image_path).toBe(path);
+    });
+
+    test('Voice notes are uploaded and sent with their length and waveform', async () => {
+        const path = await chat.uploadAttachment('user_10', new Blob(['opus bytes'], { type: 'audio/webm;codecs=opus' }));
+        expect(path.startsWith('demo_user/user_10/') && path.endsWith('.webm')).toBe(true);
+
+        const voiceNote = { durationMs: 4200, waveform: [0.2, 1, 0.5] };
+        await chat.sendMessage('user_10', '', { audioPath: path, voiceNote });
+        const [message] = (await chat.getHistory('user_10')).messages;
+        expect(message.type).toBe('audio');
+        expect(message.audioPath).toBe(path);
+        expect(message.voiceNote).toEqual(voiceNote);
+
+        const { data: summaries } = await getBackend().messages.listConversationSummaries('demo_user');
+        expect(summaries!.find(row => row.other_user_id === 'user_10')!.last_audio_path).toBe(path);
+    });
+
+    test('Edits and unsends reach the inbox; delete for me only hides my side', async () => {
+        const edits: string[] = [];
+        const removed: string[] = [];
+        const unsubscribe = chat.subscribeToInbox('demo_user', () => {}, (m) => edits.push(m.text), (id) => removed.push(id));
+
+        const typo = await chat.sendMessage('user_2', 'Meet at the libary?');
+        const edited = await chat.editMessage(typo.id, 'Meet at the library?');
+        expect(edited.editedAt).toBeDefined();
+        expect(edits).toContain('Meet at the library?');
+
+        const wrongChat = await chat.sendMessage('user_2', 'Meant for someone else');
+        await chat.unsendMessage(wrongChat.id);
+
+        const { data: incoming } = await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'demo_user', content: 'Old news' });
+        await expect(chat.editMessage(incoming!.id, 'Not mine to edit')).rejects.toThrow();
+        await chat.deleteForMe(incoming!.id);
+        unsubscribe();
+        expect(removed).toEqual([wrongChat.id, incoming!.id]);
+
+        const mine = (await chat.getHistory('user_2')).messages.map(m => m.id);
+        expect(mine).toContain(typo.id);
+        expect(mine).not.toContain(wrongChat.id);
+        expect(mine).not.toContain(incoming!.id);
+
+        const { data: theirs } = await getBackend().messages.listConversationPage('user_2', 'demo_user', 100);
+        expect(theirs!.map(row => row.id)).toContain(incoming!.id);
+        expect(theirs!.map(row => row.id)).not.toContain(wrongChat.id);
+    });
+
+    test('Reactions come with history and reach the inbox in realtime', async () => {
+        const changes: string[] = [];
+        const unsubscribe = chat.subscribeToInbox('demo_user', () => {}, undefined, undefined,
+            (change) => changes.push(`${change.userId}:${change.emoji}:${change.added}`));
+
+        const sent = await chat.sendMessage('user_4', 'Finished the problem set!');
+        await getBackend().reactions.insert({ message_id: sent.id, user_id: 'user_4', emoji: '🎉' });
+        await chat.addReaction(sent.id, '🎉');
+        await chat.addReaction(sent.id, '🎉');
+        await chat.removeReaction(sent.id, '🎉');
+        unsubscribe();
+
+        expect(changes).toEqual(['user_4:🎉:true', 'demo_user:🎉:true', 'demo_user:🎉:false']);
+        const message = (await chat.getHistory('user_4')).messages.find(m => m.id === sent.id)!;
+        expect(message.reactions).toEqual([{ emoji: '🎉', userIds: ['user_4'] }]);
+    });
+
+    test('Replies quote the original, even when it is older than the loaded page', async () => {
+        const question = await chat.sendMessage('user_4', 'Which chapters are on the midterm?');
+        for (const text of ['Let me check', 'Found the syllabus']) {
+            await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: text });
+        }
+        const answer = await chat.sendMessage('user_4', 'Thanks!', { replyToId: question.id });
+        expect(answer.replyTo).toEqual({ id: question.id, senderId: 'demo_user', text: 'Which chapters are on the midterm?', isImage: false, isAudio: false });
+
+        const newest = await chat.getHistory('user_4', null, 2);
+        expect(newest.messages.map(m => m.id)).not.toContain(question.id);
+        expect(newest.messages.find(m => m.id === answer.id)!.replyTo!.id).toBe(question.id);
+
+        // Unsending the original leaves a reply that quotes nothing
+        await chat.unsendMessage(question.id);
+        const orphan = (await chat.getHistory('user_4')).messages.find(m => m.id === answer.id)!;
+        expect(orphan.replyToId).toBeUndefined();
+        expect(orphan.replyTo).toBeUndefined();
+    });
+
+    test('Group members exchange messages and keep their own read position', async () => {
+        for (const uid of ['user_2', 'user_4']) {
+            await getBackend().connections.insert({ user_id: uid, target_user_id: 'demo_user', action: 'like' });
+            await getBackend().connections.insert({ user_id: 'demo_user', target_user_id: uid, action: 'like' });
+        }
+        await expect(repo.createGroup('Midterm prep', ['user_9'])).rejects.toThrow();
+        const group = await repo.createGroup('Midterm prep', ['user_2', 'user_4'], Interest.CODING);
+        expect(group.members.map(m => m.uid).sort()).toEqual(['demo_user', 'user_2', 'user_4']);
+        // Messages in the same millisecond as the group's creation would count as read
+        await new Promise(resolve => setTimeout(resolve, 5));
+
+        const received: string[] = [];
+        const unsubscribe = chat.subscribeToInbox('demo_user', (message) => received.push(`${message.groupId}:${message.text}`));
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: null, conversation_id: group.id, content: 'Library at 6?' });
+        const { error } = await getBackend().messages.insert({ sender_id: 'user_5', receiver_id: null, conversation_id: group.id, content: 'Not a member' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        unsubscribe();
+
+        expect(error).not.toBeNull();
+        expect(received).toEqual([`${group.id}:Library at 6?`]);
+        expect((await repo.getGroups()).find(g => g.id === group.id)!.unreadCount).toBe(1);
+        await chat.markGroupAsRead(group.id);
+        expect((await repo.getGroups()).find(g => g.id === group.id)!.unreadCount).toBe(0);
+
+        await chat.sendGroupMessage(group.id, 'Works for me');
+        const history = await chat.getGroupHistory(group.id);
+        expect(history.messages.map(m => `${m.senderId}:${m.text}`)).toEqual(['user_2:Library at 6?', 'demo_user:Works for me']);
+
+        await repo.leaveGroup(group.id);
+        expect((await repo.getGroups()).map(g => g.id)).not.toContain(group.id);
+        await expect(chat.sendGroupMessage(group.id, 'Still here?')).rejects.toThrow();
+    });
+
+    test('Any group member can delete a message for themselves without hiding it from the others', async () => {
+        const group = await repo.createGroup('Lab partners', ['user_2', 'user_4']);
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: null, conversation_id: group.id, content: 'Lab report due Friday' });
+        const { data: spoiler } = await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: null, conversation_id: group.id, content: 'Lab answers attached' });
+
+        await chat.deleteForMe(spoiler!.id);
+        expect((await chat.getGroupHistory(group.id)).messages.map(m => m.text)).toEqual(['Lab report due Friday']);
+        expect((await repo.getGroups()).find(g => g.id === group.id)!.lastMessage!.text).toBe('Lab report due Friday');
+        expect((await chat.searchMessages('lab answers', { groupId: group.id })).length).toBe(0);
+
+        const { data: theirs } = await getBackend().messages.listGroupPage('user_4', group.id, 10);
+        expect(theirs!.map(row => row.content)).toContain('Lab answers attached');
+        await repo.leaveGroup(group.id);
+    });
+
+    test('Muted chats and groups stay out of the unread count; settings come back with the lists', async () => {
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'Quiet please' });
+        const chatWithUser4 = async () => (await repo.getConversationSummaries()).find(s => s.connection.uid === 'user_4')!;
+        const before = await chat.getUnreadCount();
+        const { unreadCount } = await chatWithUser4();
+        expect(unreadCount).toBeGreaterThan(0);
+
+        const mutedUntil = muteUntil('hour');
+        await repo.updateConversationSettings('user_4', false, { mutedUntil, pinnedAt: 1000 });
+        expect(await chat.getUnreadCount()).toBe(before - unreadCount);
+        expect((await chatWithUser4()).settings).toEqual({ mutedUntil, archivedAt: null, pinnedAt: 1000 });
+
+        const group = await repo.createGroup('Quiet study', ['user_2']);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: null, conversation_id: group.id, content: 'Anyone?' });
+        expect(await chat.getUnreadCount()).toBe(before - unreadCount + 1);
+
+        await repo.updateConversationSettings(group.id, true, { mutedUntil: MUTED_FOREVER, archivedAt: 2000 });
+        expect(await chat.getUnreadCount()).toBe(before - unreadCount);
+        expect((await repo.getGroups()).find(g => g.id === group.id)!.settings).toEqual({ mutedUntil: MUTED_FOREVER, archivedAt: 2000, pinnedAt: null });
+
+        await repo.updateConversationSettings('user_4', false, { mutedUntil: null });
+        expect(await chat.getUnreadCount()).toBe(before);
+    });
+
+    test('Message search ranks my visible messages and can be scoped to one chat', async () => {
+        await chat.sendMessage('user_5', 'The review session is in room IKB 204');
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'Is it the roommate thing again?' });
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'user_2', content: 'room 101, not for me' });
+        // user_6 blocked demo_user in an earlier test
+        await getBackend().messages.insert({ sender_id: 'user_6', receiver_id: 'demo_user', content: 'Which room?' });
+
+        const everywhere = await chat.searchMessages('room');
+        expect(everywhere.map(r => r.snippet)).toEqual(['The review session is in room IKB 204', 'Is it the roommate thing again?']);
+        expect([everywhere[0].conversationId, everywhere[0].isGroup]).toEqual(['user_5', false]);
+
+        expect((await chat.searchMessages('room', { connectionId: 'user_4' })).map(r => r.conversationId)).toEqual(['user_4']);
+        expect(await chat.searchMessages('"room ikb 205"')).toEqual([]);
+        expect(await chat.searchMessages('   ')).toEqual([]);
+    });
+
+    test('An older, better message match is found behind many newer weak ones', async () => {
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'Final exam moved to Friday' });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        for (let i = 0; i < 200; i++) {
+            await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: `Worked examples, part ${i}` });
+        }
+        await getBackend().messages.insert({ sender_id: 'user_4', receiver_id: 'demo_user', content: 'Scored 100% on the quiz' });
+
+        expect((await chat.searchMessages('exam'))[0].snippet).toBe('Final exam moved to Friday');
+        // Wildcard characters are matched as typed
+        expect((await chat.searchMessages('100%')).map(r => r.snippet)).toEqual(['Scored 100% on the quiz']);
+        expect(await chat.searchMessages('exam_')).toEqual([]);
+    });
+
+    test('Link previews are unfurled by the backend and cached per URL', async () => {
+        const preview = await chat.getLinkPreview('https://www.ubc.ca/campus');
+        expect(preview).toEqual({ url: 'https://www.ubc.ca/campus', siteName: 'ubc.ca' });
+        expect(await chat.getLinkPreview('https://www.ubc.ca/campus')).toBe(preview);
+        expect(await chat.getLinkPreview('not a url')).toBeNull();
+    });
+
+    test('Reporting a user resolves', async () => {
+        const result = await repo.reportUser('user_7', ReportReason.SPAM, 'Sends links');
+        expect(result).toBeUndefined();
+    });
+});
+
+/*
+ * Test Suite: In-Memory Backend
+ */
+describe('InMemoryBackendAdapter', () => {
+    let backend: InMemoryBackendAdapter;
+
+    beforeEach(() => {
+        backend = new InMemoryBackendAdapter(DEMO_SEED);
+    });
+
+    test('Reciprocal likes create a single mutual connection', async () => {
+        await backend.connections.insert({ user_id: 'user_2', target_user_id: 'user_4', action: 'like' });
+        const { data: before } = await backend.mutualConnections.listForUser('user_2');
+        expect(before).toEqual([]);
+
+        await backend.connections.insert({ user_id: 'user_4', target_user_id: 'user_2', action: 'like' });
+        const { data: after } = await backend.mutualConnections.listForUser('user_2');
+        expect(after!.length).toBe(1);
+        expect(after![0].user_id_1).toBe('user_2');
+        expect(after![0].user_id_2).toBe('user_4');
+    });
+
+    test('A pass never creates a mutual connection', async () => {
+        await backend.connections.insert({ user_id: 'demo_user', target_user_id: 'user_3', action: 'pass' });
+        const { data } = await backend.mutualConnections.listForUser('demo_user');
+        expect(data).toEqual([]);
+    });
+
+    test('Duplicate swipes are rejected', async () => {
+        await backend.connections.insert({ user_id: 'user_2', target_user_id: 'user_5', action: 'pass' });
+        const { error } = await backend.connections.insert({ user_id: 'user_2', target_user_id: 'user_5', action: 'like' });
+        expect(error).not.toBeNull();
+    });
+
+    test('Message inserts are delivered to matching subscribers only', async () => {
+        const received: string[] = [];
+        const unsubscribe = backend.messages.subscribe({ receiverId: 'user_2' }, (row) => received.push(row.content));
+
+        await backend.messages.insert({ sender_id: 'user_3', receiver_id: 'user_2', content: 'hi' });
+        await backend.messages.insert({ sender_id: 'user_3', receiver_id: 'user_4', content: 'not for user_2' });
+        unsubscribe();
+        await backend.messages.insert({ sender_id: 'user_3', receiver_id: 'user_2', content: 'after unsubscribe' });
+
+        expect(received).toEqual(['hi']);
+    });
+
+    test('Inserting a known client_id returns the stored row', async () => {
+        const row = { sender_id: 'user_2', receiver_id: 'user_5', content: 'once', client_id: 'client_1' };
+        const { data: first } = await backend.messages.insert(row);
+        const { data: second, error } = await backend.messages.insert(row);
+
+        expect(error).toBeNull();
+        expect(second!.id).toBe(first!.id);
+        const { data: all } = await backend.messages.listConversationPage('user_2', 'user_5', 100);
+        expect(all!.filter(m => m.client_id === 'client_1').length).toBe(1);
+    });
+
+    test('Presence lists joined users and typing reaches only the addressee', async () => {
+        const online: string[][] = [];
+        const leave2 = backend.presence.join('user_2', (ids) => online.push(ids));
+        const leave3 = backend.presence.join('user_3', () => {});
+        expect(online[online.length - 1]).toEqual(['user_2', 'user_3']);
+
+        const typing: string[] = [];
+        const unsubscribe = backend.presence.subscribeTyping('user_2', (from, isTyping) => typing.push(`${from}:${isTyping}`));
+        backend.presence.sendTyping('user_3', 'user_2', true);
+        backend.presence.sendTyping('user_3', 'user_4', true);
+        backend.presence.sendTyping('user_3', 'user_2', false);
+        unsubscribe();
+
+        leave3();
+        expect(online[online.length - 1]).toEqual(['user_2']);
+        leave2();
+        expect(typing).toEqual(['user_3:true', 'user_3:false']);
+    });
+
+    test('Seeded link previews are returned as stored', async () => {
+        const page = { url: 'https://ubc.ca', title: 'UBC', description: 'A place of mind', image_url: null, site_name: 'ubc.ca' };
+        const seeded = new InMemoryBackendAdapter({ linkPreviews: [page] });
+        expect((await seeded.linkPreviews.fetch('https://ubc.ca')).data).toEqual(page);
+    });
+
+    test('Conversation summaries hold the latest message and unread count per partner', async () => {
+        await backend.messages.insert({ sender_id: 'user_3', receiver_id: 'user_2', content: 'first' });
+        await backend.messages.insert({ sender_id: 'user_3', receiver_id: 'user_2', content: 'second' });
+        await backend.messages.insert({ sender_id: 'user_2', receiver_id: 'user_4', content: 'hello' });
+
+        const { data } = await backend.messages.listConversationSummaries('user_2');
+        const byPartner = new Map(data!.map(row => [row.other_user_id, row]));
+        expect(byPartner.get('user_3')!.last_content).toBe('second');
+        expect(byPartner.get('user_3')!.unread_count).toBe(2);
+        expect(byPartner.get('user_4')!.unread_count).toBe(0);
+
+        await backend.messages.markRead('user_3', 'user_2');
+        const { data: afterRead } = await backend.messages.listConversationSummaries('user_2');
+        expect(afterRead!.find(row => row.other_user_id === 'user_3')!.unread_count).toBe(0);
+    });
 });
 
 // Mocking 'describe', 'test', 'expect', 'beforeEach' for TypeScript compilation in non-test environment
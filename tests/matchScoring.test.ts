@@ -0,0 +1,65 @@
+import { scoreCandidate, rankByScore, extractBioKeywords, DEFAULT_MATCH_WEIGHTS } from '../utils/matchScoring';
+import { Major, Interest, Language } from '../types';
+
+/*
+ * Test Suite: Compatibility Scoring
+ */
+describe('Match Scoring', () => {
+    const me = {
+        major: Major.COMPUTER_SCIENCE,
+        interests: [Interest.HIKING, Interest.CODING],
+        languages: [Language.ENGLISH, Language.KOREAN],
+        homeRegion: 'Seoul, South Korea',
+        bio: 'Looking for hiking buddies and startup founders'
+    };
+
+    test('Score is the weighted sum of every factor', () => {
+        const score = scoreCandidate(me, {
+            major: Major.COMMERCE,
+            interests: [Interest.HIKING],
+            languages: [Language.KOREAN, Language.ENGLISH],
+            homeRegion: ' seoul, south korea ',
+            bio: 'Weekend hiking and a startup on the side'
+        });
+
+        const byFactor = Object.fromEntries(score.factors.map(f => [f.factor, f]));
+        expect(byFactor.region.value).toBe(1);
+        expect(byFactor.languages.value).toBe(2);
+        expect(byFactor.interests.matches).toEqual([Interest.HIKING]);
+        expect(byFactor.majorDiversity.value).toBe(1);
+        expect(byFactor.bioKeywords.matches).toEqual(['hiking', 'startup']);
+
+        const w = DEFAULT_MATCH_WEIGHTS;
+        expect(score.total).toBe(w.region + 2 * w.languages + w.interests + w.majorDiversity + 2 * w.bioKeywords);
+    });
+
+    test('Custom weights override the defaults', () => {
+        const candidate = { major: Major.ARTS, interests: [Interest.CODING], languages: [], homeRegion: '' };
+        const score = scoreCandidate(me, candidate, { interests: 7, majorDiversity: 0 });
+        expect(score.total).toBe(7);
+    });
+
+    test('Missing home regions never count as the same region', () => {
+        const score = scoreCandidate({ ...me, homeRegion: '' }, { homeRegion: '' });
+        expect(score.factors.find(f => f.factor === 'region')!.value).toBe(0);
+    });
+
+    test('Bio keywords ignore short and common words', () => {
+        expect(extractBioKeywords('I love the Hiking, hiking and ski')).toEqual(['hiking']);
+        expect(extractBioKeywords(undefined)).toEqual([]);
+    });
+
+    test('Ranking is by descending total and stable on ties', () => {
+        const items = [
+            { id: 'a', score: { total: 1, factors: [] } },
+            { id: 'b', score: { total: 5, factors: [] } },
+            { id: 'c', score: { total: 1, factors: [] } }
+        ];
+        expect(rankByScore(items, i => i.score).map(i => i.id)).toEqual(['b', 'a', 'c']);
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
@@ -0,0 +1,44 @@
+import { parseMessageText, findLinks, toHref } from '../utils/messageFormat';
+
+/*
+ * Test Suite: Message Formatting
+ */
+describe('Message Formatting', () => {
+    test('Links are found in text, without the punctuation that ends the sentence', () => {
+        expect(parseMessageText('Map: https://ubc.ca/maps. Or www.ubc.ca!')).toEqual([
+            { type: 'text', text: 'Map: ' },
+            { type: 'link', text: 'https://ubc.ca/maps', href: 'https://ubc.ca/maps' },
+            { type: 'text', text: '. Or ' },
+            { type: 'link', text: 'www.ubc.ca', href: 'https://www.ubc.ca' },
+            { type: 'text', text: '!' }
+        ]);
+    });
+
+    test('Bold, italic and code are parsed; code content is left alone', () => {
+        expect(parseMessageText('**IKB 204** at _6pm_, run `npm *test*`')).toEqual([
+            { type: 'bold', children: [{ type: 'text', text: 'IKB 204' }] },
+            { type: 'text', text: ' at ' },
+            { type: 'italic', children: [{ type: 'text', text: '6pm' }] },
+            { type: 'text', text: ', run ' },
+            { type: 'code', text: 'npm *test*' }
+        ]);
+        expect(parseMessageText('```\nif (a) {\n  b();\n}\n```')).toEqual([{ type: 'codeBlock', text: 'if (a) {\n  b();\n}' }]);
+    });
+
+    test('Markup, stray markers and line breaks stay plain text', () => {
+        const text = '<img src=x onerror=alert(1)>\n2*3*4 = 24, snake_case_name';
+        expect(parseMessageText(text)).toEqual([{ type: 'text', text }]);
+        expect(parseMessageText('javascript:alert(1)')).toEqual([{ type: 'text', text: 'javascript:alert(1)' }]);
+    });
+
+    test('Link hrefs are always http(s) and listed once, skipping code', () => {
+        expect(toHref('www.ubc.ca')).toBe('https://www.ubc.ca');
+        expect(toHref('HTTP://ubc.ca')).toBe('HTTP://ubc.ca');
+        expect(findLinks('https://a.com `https://b.com` **www.c.com** https://a.com')).toEqual(['https://a.com', 'https://www.c.com']);
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
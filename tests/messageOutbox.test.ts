@@ -0,0 +1,64 @@
+import { MessageOutbox, OutboxEntry, outboxRetryDelay } from '../services/messageOutbox';
+
+const entry = (clientId: string, receiverId: string, nextAttemptAt: number, status: OutboxEntry['status'] = 'pending'): OutboxEntry => ({
+    clientId,
+    receiverId,
+    text: clientId,
+    createdAt: 0,
+    attempts: 0,
+    nextAttemptAt,
+    status
+});
+
+/*
+ * Test Suite: Message Outbox
+ */
+describe('Message Outbox', () => {
+    let outbox: MessageOutbox;
+
+    beforeEach(() => {
+        // Start every test from an empty outbox, in memory and in storage
+        if (typeof localStorage !== 'undefined') localStorage.clear();
+        outbox = MessageOutbox.getInstance();
+        outbox.close();
+        outbox.open('demo_user');
+    });
+
+    test('Retry delays double and are capped', () => {
+        expect(outboxRetryDelay(1)).toBe(1000);
+        expect(outboxRetryDelay(2)).toBe(2000);
+        expect(outboxRetryDelay(4)).toBe(8000);
+        expect(outboxRetryDelay(20)).toBe(60000);
+    });
+
+    test('A message waiting for its retry holds back later ones to the same receiver', () => {
+        outbox.add(entry('a1', 'user_2', 5000));
+        outbox.add(entry('a2', 'user_2', 0));
+        outbox.add(entry('b1', 'user_3', 0));
+
+        expect(outbox.nextDue(1000)!.clientId).toBe('b1');
+        outbox.remove('b1');
+        expect(outbox.nextDue(1000)).toBeUndefined();
+        expect(outbox.nextAttemptAt()).toBe(0);
+        expect(outbox.nextDue(5000)!.clientId).toBe('a1');
+    });
+
+    test('Failed messages are skipped until retried', () => {
+        outbox.add(entry('a1', 'user_2', 0, 'failed'));
+        outbox.add(entry('a2', 'user_2', 0));
+
+        expect(outbox.nextDue(0)!.clientId).toBe('a2');
+        outbox.remove('a2');
+        expect(outbox.nextDue(0)).toBeUndefined();
+        expect(outbox.nextAttemptAt()).toBeNull();
+
+        outbox.update('a1', { status: 'pending' });
+        expect(outbox.nextDue(0)!.clientId).toBe('a1');
+    });
+});
+
+// Mocking 'describe', 'test', 'expect', 'beforeEach' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const beforeEach: any;
@@ -0,0 +1,37 @@
+import { applyReaction, groupReactions } from '../utils/messageReactions';
+
+/*
+ * Test Suite: Message Reactions
+ */
+describe('Message Reactions', () => {
+    test('Reactions group by emoji in order of first use', () => {
+        const grouped = groupReactions([
+            { message_id: 'm1', user_id: 'a', emoji: '👍' },
+            { message_id: 'm1', user_id: 'b', emoji: '😂' },
+            { message_id: 'm1', user_id: 'b', emoji: '👍' },
+            { message_id: 'm2', user_id: 'a', emoji: '❤️' }
+        ]);
+        expect(grouped.get('m1')).toEqual([
+            { emoji: '👍', userIds: ['a', 'b'] },
+            { emoji: '😂', userIds: ['b'] }
+        ]);
+        expect(grouped.get('m2')).toEqual([{ emoji: '❤️', userIds: ['a'] }]);
+    });
+
+    test('Applying a change twice has no further effect', () => {
+        const once = applyReaction([], '🙏', 'a', true);
+        expect(applyReaction(once, '🙏', 'a', true)).toEqual(once);
+        expect(applyReaction(applyReaction(once, '🙏', 'a', false), '🙏', 'a', false)).toEqual([]);
+    });
+
+    test('Removing the last user drops the chip but keeps the others', () => {
+        const reactions = [{ emoji: '👍', userIds: ['a'] }, { emoji: '😮', userIds: ['a', 'b'] }];
+        expect(applyReaction(reactions, '👍', 'a', false)).toEqual([{ emoji: '😮', userIds: ['a', 'b'] }]);
+        expect(applyReaction(reactions, '😮', 'b', false)).toEqual([{ emoji: '👍', userIds: ['a'] }, { emoji: '😮', userIds: ['a'] }]);
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
@@ -0,0 +1,40 @@
+import { parseMessageQuery, scoreMessageText, rankMessageResults, messageSnippet, MESSAGE_MATCH_POINTS } from '../utils/messageSearch';
+
+/*
+ * Test Suite: Message Search
+ */
+describe('Message Search', () => {
+    test('Queries are split into lowercase terms and quoted phrases', () => {
+        expect(parseMessageQuery('  Room "IKB  204" room friday ')).toEqual(['room', 'ikb 204', 'friday']);
+        expect(parseMessageQuery('"" ')).toEqual([]);
+    });
+
+    test('Every term must appear; whole words score above prefixes and text inside words', () => {
+        const terms = parseMessageQuery('lib 6');
+        expect(scoreMessageText('Meet at the library at 6?', terms)).toBe(MESSAGE_MATCH_POINTS.prefix + MESSAGE_MATCH_POINTS.word);
+        expect(scoreMessageText('Meet at the library at 7?', terms)).toBeNull();
+        expect(scoreMessageText('Room 604', ['60'])).toBe(MESSAGE_MATCH_POINTS.prefix);
+        expect(scoreMessageText('Room 604', ['04'])).toBe(MESSAGE_MATCH_POINTS.inside);
+        expect(scoreMessageText('anything', [])).toBeNull();
+    });
+
+    test('Results rank by score, then newest first', () => {
+        const result = (id: string, score: number, timestamp: number) => ({ id, score, message: { timestamp } });
+        const ranked = rankMessageResults([result('old', 3, 1), result('best', 5, 0), result('new', 3, 2)]);
+        expect(ranked.map(r => r.id)).toEqual(['best', 'new', 'old']);
+    });
+
+    test('Snippets keep the text around the first match without cutting words', () => {
+        const text = 'Sorry for the late reply, I was at practice all evening. The study session moved to IKB 204 on Friday afternoon, bring your notes and snacks for everyone please';
+        const snippet = messageSnippet(text, ['ikb 204'], 20);
+        expect(snippet.startsWith('…')).toBe(true);
+        expect(snippet.endsWith('…')).toBe(true);
+        expect(snippet).toContain('IKB 204');
+        expect(messageSnippet('Short one', ['one'])).toBe('Short one');
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
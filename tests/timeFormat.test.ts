@@ -0,0 +1,30 @@
+import { formatClockTime, formatRecentTime } from '../utils/timeFormat';
+
+/*
+ * Test Suite: Time Format
+ */
+describe('Time Format', () => {
+    const now = new Date(2025, 2, 14, 15, 30).getTime();
+
+    test('Today shows the time of day', () => {
+        const earlier = new Date(2025, 2, 14, 9, 5).getTime();
+        expect(formatRecentTime(earlier, 'Yesterday', now)).toBe(formatClockTime(earlier));
+        expect(formatClockTime(earlier)).toBe('9:05 AM');
+    });
+
+    test('Yesterday uses the given label', () => {
+        const lateYesterday = new Date(2025, 2, 13, 23, 59).getTime();
+        const earlyYesterday = new Date(2025, 2, 13, 0, 0).getTime();
+        expect(formatRecentTime(lateYesterday, 'Ayer', now)).toBe('Ayer');
+        expect(formatRecentTime(earlyYesterday, 'Ayer', now)).toBe('Ayer');
+    });
+
+    test('Older timestamps show a short date', () => {
+        expect(formatRecentTime(new Date(2025, 2, 12, 23, 59).getTime(), 'Yesterday', now)).toBe('Mar 12');
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
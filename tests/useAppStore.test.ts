@@ -0,0 +1,153 @@
+import { useAppStore } from '../store/useAppStore';
+import { getBackend, setBackend } from '../services/backend';
+import { InMemoryBackendAdapter } from '../services/inMemoryBackendAdapter';
+import { DEMO_SEED } from '../services/demoSeed';
+import { MessageOutbox } from '../services/messageOutbox';
+import { MUTED_FOREVER } from '../utils/conversationSettings';
+import { Message } from '../types';
+
+const onlyMessageTo = (receiverId: string) => {
+    const state = useAppStore.getState();
+    const ids = state.messageIdsByConversation[receiverId] || [];
+    expect(ids).toHaveLength(1);
+    return state.messagesById[ids[0]];
+};
+
+// Lets the store finish what it started without awaiting (loading the chats, starting the inbox)
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+const connectAndMute = async (otherUserId: string) => {
+    await getBackend().connections.insert({ user_id: otherUserId, target_user_id: 'demo_user', action: 'like' });
+    await getBackend().connections.insert({ user_id: 'demo_user', target_user_id: otherUserId, action: 'like' });
+    await getBackend().conversationPrefs.upsert({ user_id: 'demo_user', other_user_id: otherUserId, muted_until: new Date(MUTED_FOREVER).toISOString() });
+};
+
+/*
+ * Test Suite: App Store
+ */
+describe('App Store', () => {
+    beforeEach(async () => {
+        // A fresh in-memory backend and an empty outbox per test, signed in through the store
+        setBackend(new InMemoryBackendAdapter(DEMO_SEED, { autoProvision: true }));
+        await useAppStore.getState().logout();
+        if (typeof localStorage !== 'undefined') localStorage.clear();
+        await useAppStore.getState().login('user@example.com', 'password123');
+    });
+
+    test('A message to a blocked user fails at once instead of retrying', async () => {
+        await getBackend().blocks.insert({ blocker_id: 'user_3', blocked_id: 'demo_user' });
+        await useAppStore.getState().sendMessage('user_3', 'Are you there?');
+
+        const message = onlyMessageTo('user_3');
+        expect(message.status).toBe('error');
+        expect(MessageOutbox.getInstance().get(message.id)!.status).toBe('failed');
+        expect(MessageOutbox.getInstance().get(message.id)!.attempts).toBe(1);
+        await useAppStore.getState().logout();
+    });
+
+    test('A message refused by a security policy fails at once', async () => {
+        getBackend().messages.insert = async () => ({
+            data: null,
+            error: { message: 'new row violates row-level security policy for table "messages"', code: '42501' }
+        });
+        await useAppStore.getState().sendMessage('user_2', 'Hello');
+
+        const message = onlyMessageTo('user_2');
+        expect(message.status).toBe('error');
+        expect(MessageOutbox.getInstance().get(message.id)!.status).toBe('failed');
+        await useAppStore.getState().logout();
+    });
+
+    test('A message that hits a network error waits for its retry', async () => {
+        getBackend().messages.insert = async () => ({ data: null, error: { message: 'TypeError: Failed to fetch' } });
+        const sentAt = Date.now();
+        await useAppStore.getState().sendMessage('user_2', 'Hello');
+
+        const message = onlyMessageTo('user_2');
+        const entry = MessageOutbox.getInstance().get(message.id)!;
+        expect(message.status).toBe('queued');
+        expect(entry.status).toBe('pending');
+        expect(entry.attempts).toBe(1);
+        expect(entry.nextAttemptAt).toBeGreaterThanOrEqual(sentAt + 1000);
+        await useAppStore.getState().logout();
+    });
+
+    test('A muted chat stays quiet from sign in, before the chats list is opened', async () => {
+        await useAppStore.getState().logout();
+        await connectAndMute('user_2');
+        await useAppStore.getState().login('user@example.com', 'password123');
+        await settle();
+
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'demo_user', content: 'Psst' });
+        await settle();
+
+        expect(useAppStore.getState().unreadCount).toBe(0);
+        expect(useAppStore.getState().notifications).toEqual([]);
+        await useAppStore.getState().logout();
+    });
+
+    test('A message for a chat whose settings are not loaded waits for them before notifying', async () => {
+        await connectAndMute('user_4');
+        await connectAndMute('user_5');
+        await getBackend().conversationPrefs.upsert({ user_id: 'demo_user', other_user_id: 'user_5', muted_until: null });
+        useAppStore.setState({ conversations: [], connections: [] });
+
+        const incoming = (from: string): Message => ({ id: `from_${from}`, senderId: from, receiverId: 'demo_user', text: 'Hi', type: 'text', timestamp: Date.now(), status: 'sent' });
+        useAppStore.getState().receiveMessage(incoming('user_4'));
+        useAppStore.getState().receiveMessage(incoming('user_5'));
+        await settle();
+
+        const sender = (await getBackend().profiles.getById('user_5')).data!;
+        expect(useAppStore.getState().notifications.map(n => n.message)).toEqual([`New message from ${sender.display_name}`]);
+        expect(useAppStore.getState().unreadCount).toBe(1);
+        await useAppStore.getState().logout();
+    });
+
+    test('A burst of messages for a chat that is not loaded fetches its settings once, without the loading state', async () => {
+        await connectAndMute('user_4');
+        await getBackend().conversationPrefs.upsert({ user_id: 'demo_user', other_user_id: 'user_4', muted_until: null });
+        await settle();
+        useAppStore.setState({ conversations: [], connections: [], unreadCount: 0 });
+
+        let settingsRequests = 0;
+        const getPrefs = getBackend().conversationPrefs.get;
+        getBackend().conversationPrefs.get = (...args: Parameters<typeof getPrefs>) => {
+            settingsRequests += 1;
+            return getPrefs(...args);
+        };
+        let wasLoading = false;
+        const unsubscribe = useAppStore.subscribe(state => { wasLoading = wasLoading || state.isLoading; });
+
+        for (let i = 0; i < 5; i++) {
+            useAppStore.getState().receiveMessage({ id: `burst_${i}`, senderId: 'user_4', receiverId: 'demo_user', text: 'Hi', type: 'text', timestamp: Date.now(), status: 'sent' });
+        }
+        await settle();
+        unsubscribe();
+
+        expect(settingsRequests).toBe(1);
+        expect(wasLoading).toBe(false);
+        expect(useAppStore.getState().unreadCount).toBe(5);
+        expect(useAppStore.getState().notifications).toHaveLength(5);
+        await useAppStore.getState().logout();
+    });
+
+    test('A chat counts as unread again once its mute ends', async () => {
+        await connectAndMute('user_2');
+        await getBackend().messages.insert({ sender_id: 'user_2', receiver_id: 'demo_user', content: 'Psst' });
+        await useAppStore.getState().fetchConversations();
+        await useAppStore.getState().fetchUnreadCount();
+        expect(useAppStore.getState().unreadCount).toBe(0);
+
+        await useAppStore.getState().updateConversationSettings('user_2', { mutedUntil: Date.now() + 30 });
+        await new Promise(resolve => setTimeout(resolve, 60));
+
+        expect(useAppStore.getState().unreadCount).toBe(1);
+        await useAppStore.getState().logout();
+    });
+});
+
+// Mocking 'describe', 'test', 'expect', 'beforeEach' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const beforeEach: any;
@@ -0,0 +1,72 @@
+import { parseSearchQuery, resolveSearchValues, scoreSearchResult, rankSearchResults, highlightText } from '../utils/userSearch';
+import { Major, Interest, Language, MatchProfileModel } from '../types';
+
+/*
+ * Test Suite: User Search
+ */
+describe('User Search', () => {
+    const profile = (uid: string, displayName: string, major: Major, homeRegion: string): MatchProfileModel => ({
+        uid,
+        displayName,
+        major,
+        bio: '',
+        commonInterests: [Interest.HIKING, Interest.VIDEO_GAMES],
+        languages: [Language.KOREAN, Language.ENGLISH],
+        homeRegion
+    });
+
+    test('Queries are split into free text and field tokens', () => {
+        const parsed = parseSearchQuery('maria major:"Computer Science" LANG:Korean at:10');
+        expect(parsed.terms).toEqual(['maria', 'at:10']);
+        expect(parsed.tokens).toEqual([
+            { field: 'major', value: 'Computer Science' },
+            { field: 'languages', value: 'Korean' }
+        ]);
+    });
+
+    test('Token text resolves to every matching known value', () => {
+        expect(resolveSearchValues('languages', 'mandarin')).toEqual([
+            Language.MANDARIN_SIMPLIFIED,
+            Language.MANDARIN_TRADITIONAL
+        ]);
+        expect(resolveSearchValues('major', 'astrology')).toEqual([]);
+    });
+
+    test('Every term and token must match', () => {
+        const jisoo = profile('u1', 'Jisoo Park', Major.FORESTRY, 'Seoul, South Korea');
+        expect(scoreSearchResult(jisoo, parseSearchQuery('major:Forestry lang:Korean'))).not.toBeNull();
+        expect(scoreSearchResult(jisoo, parseSearchQuery('major:Arts lang:Korean'))).toBeNull();
+        expect(scoreSearchResult(jisoo, parseSearchQuery('jisoo nobody'))).toBeNull();
+    });
+
+    test('Matches record what to highlight per field', () => {
+        const jisoo = profile('u1', 'Jisoo Park', Major.FORESTRY, 'Seoul, South Korea');
+        const result = scoreSearchResult(jisoo, parseSearchQuery('korea games'));
+        expect(result.matches.homeRegion).toEqual(['korea']);
+        expect(result.matches.languages).toEqual([Language.KOREAN]);
+        expect(result.matches.interests).toEqual([Interest.VIDEO_GAMES]);
+        expect(result.matches.displayName).toBeUndefined();
+    });
+
+    test('Name matches outrank other fields', () => {
+        const parsed = parseSearchQuery('park');
+        const byName = scoreSearchResult(profile('u1', 'Jisoo Park', Major.ARTS, 'Seoul'), parsed);
+        const byRegion = scoreSearchResult(profile('u2', 'Ana Silva', Major.ARTS, 'Parksville'), parsed);
+        expect(rankSearchResults([byRegion, byName]).map(r => r.profile.uid)).toEqual(['u1', 'u2']);
+    });
+
+    test('Highlighting marks every case-insensitive occurrence', () => {
+        expect(highlightText('Seoul, South Korea', ['s'])).toEqual([
+            { text: 'S', match: true },
+            { text: 'eoul, ', match: false },
+            { text: 'S', match: true },
+            { text: 'outh Korea', match: false }
+        ]);
+        expect(highlightText('Park', [])).toEqual([{ text: 'Park', match: false }]);
+    });
+});
+
+// Mocking 'describe', 'test', 'expect' for TypeScript compilation in non-test environment
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
@@ -44,6 +44,15 @@ export enum Language {
     PORTUGUESE = "Portuguese"
 }
 
+export enum ReportReason {
+    SPAM = "spam",
+    HARASSMENT = "harassment",
+    INAPPROPRIATE = "inappropriate",
+    FAKE_PROFILE = "fake_profile",
+    UNDERAGE = "underage",
+    OTHER = "other"
+}
+
 export enum ConnectionStatus {
     PENDING = "PENDING",
     CONNECTED = "CONNECTED",
@@ -56,11 +65,17 @@ export interface NotificationSettings {
     directMessages: boolean;
 }
 
+export interface NotificationAction {
+    label: string;
+    onClick: () => void;
+}
+
 export interface AppNotification {
     id: string;
     message: string;
     type: 'success' | 'info' | 'error';
     duration?: number;
+    action?: NotificationAction; // Optional button on the toast (e.g. Undo)
 }
 
 /* 
@@ -80,6 +95,26 @@ export interface UserModel {
     isVerified: boolean;
     isSearchable: boolean; // Privacy Setting
     settings: NotificationSettings;
+    lastSeenAt?: number; // Last time the user had the app open
+}
+
+/*
+ * Compatibility Scoring
+ * One entry per factor; contribution = weight * value.
+ */
+export type MatchFactor = 'region' | 'languages' | 'interests' | 'majorDiversity' | 'bioKeywords';
+
+export interface MatchFactorScore {
+    factor: MatchFactor;
+    weight: number;
+    value: number; // 0/1 for yes/no factors, overlap count for list factors
+    contribution: number;
+    matches: string[]; // The shared items that produced the value (for "why you matched")
+}
+
+export interface MatchScore {
+    total: number;
+    factors: MatchFactorScore[];
 }
 
 /* 
@@ -95,6 +130,61 @@ export interface MatchProfileModel {
     homeRegion?: string;
     languages: Language[];
     photoUrl?: string;
+    compatibility?: MatchScore; // Only set on discovery queue cards
+}
+
+/*
+ * One page of the discovery queue.
+ * nextCursor is opaque to callers; null when there are no more pages.
+ */
+export interface MatchQueuePage {
+    profiles: MatchProfileModel[];
+    nextCursor: string | null;
+}
+
+/*
+ * Search: fields a query can match, and a ranked result.
+ * matches lists what matched per field (query terms for text fields,
+ * the matching values for major/interests/languages) so the UI can highlight them.
+ */
+export type SearchField = 'displayName' | 'major' | 'interests' | 'languages' | 'homeRegion';
+
+export interface UserSearchResult {
+    profile: MatchProfileModel;
+    score: number;
+    matches: Partial<Record<SearchField, string[]>>;
+}
+
+/*
+ * One page of search results.
+ * nextOffset is null when there are no more results.
+ */
+export interface UserSearchPage {
+    results: UserSearchResult[];
+    total: number;
+    nextOffset: number | null;
+}
+
+/*
+ * User-controlled discovery filters, persisted per user.
+ * Empty lists mean "no constraint".
+ */
+export interface DiscoveryFilters {
+    includeOwnMajor: boolean; // Own major is hidden unless this is set
+    includeMajors: Major[]; // When non-empty, only these majors are shown
+    excludeMajors: Major[];
+    requiredInterests: Interest[]; // Candidate must have all of them
+    requiredLanguages: Language[]; // Candidate must speak all of them
+    homeCountry: string; // Matched against the end of the home region, e.g. "Japan"
+}
+
+/*
+ * A swipe that can still be undone.
+ */
+export interface SwipeRecord {
+    profile: MatchProfileModel;
+    action: 'CONNECT' | 'DISMISS';
+    timestamp: number;
 }
 
 /* 
@@ -107,32 +197,159 @@ export interface ConnectionModel {
     major: Major;
     photoUrl?: string;
     timestamp: number;
+    lastSeenAt?: number;
+}
+
+/*
+ * The latest message of a chat, as the chats list shows it.
+ */
+export interface MessagePreview {
+    text: string;
+    isImage: boolean;
+    isAudio?: boolean;
+    senderId: string;
+    isMine: boolean;
+    timestamp: number;
+}
+
+/*
+ * A row in the chats list: a connection with its latest message.
+ * lastMessage is null until either side has sent something.
+ */
+/*
+ * My own settings for a chat or group; the other members never see them.
+ * Times are epoch milliseconds, null when the setting is off.
+ */
+export interface ConversationSettings {
+    mutedUntil: number | null; // MUTED_FOREVER (utils/conversationSettings) until turned back on
+    archivedAt: number | null; // A newer message brings the chat back to the list
+    pinnedAt: number | null;
+}
+
+export interface ConversationSummary {
+    connection: ConnectionModel;
+    lastMessage: MessagePreview | null;
+    unreadCount: number;
+    settings: ConversationSettings;
+}
+
+export interface GroupMember {
+    uid: string;
+    displayName: string;
+    photoUrl?: string;
+}
+
+/*
+ * A group conversation, e.g. a study circle or a hiking crew.
+ * Any member can rename it, add their connections or leave.
+ */
+export interface GroupConversation {
+    id: string;
+    name: string;
+    photoUrl?: string;
+    interest?: Interest; // Shown as the avatar when there is no photo
+    createdBy: string;
+    createdAt: number;
+    members: GroupMember[]; // Including me
+    lastMessage: MessagePreview | null;
+    unreadCount: number;
+    settings: ConversationSettings;
+}
+
+/*
+ * A user the current user has blocked.
+ */
+export interface BlockedUserModel {
+    uid: string;
+    displayName: string;
+    photoUrl?: string;
+    blockedAt: number;
 }
 
 /*
  * Chat Types
  */
-export type MessageStatus = 'sending' | 'sent' | 'error';
-export type MessageType = 'text' | 'image';
+// 'queued' waits in the outbox (offline or backing off); 'error' gave up and needs a manual retry
+export type MessageStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'read' | 'error';
+export type MessageType = 'text' | 'image' | 'audio';
+
+/*
+ * What a voice note's bubble needs before its audio loads.
+ * waveform holds evenly spaced peak levels from 0 to 1.
+ */
+export interface VoiceNoteMeta {
+    durationMs: number;
+    waveform: number[];
+}
+
+/*
+ * Everyone who reacted to a message with one emoji, in order of first use.
+ */
+export interface MessageReaction {
+    emoji: string;
+    userIds: string[];
+}
+
+/*
+ * What a reply shows of the message it quotes.
+ */
+export interface ReplyPreview {
+    id: string;
+    senderId: string;
+    text: string;
+    isImage: boolean;
+    isAudio?: boolean;
+}
 
 export interface Message {
     id: string;
     senderId: string;
+    receiverId: string; // The group's id for group messages
+    groupId?: string; // Set for group messages
     text: string;
-    imageUrl?: string;
+    imageUrl?: string; // Legacy inline image, or the local preview of one being uploaded
+    imagePath?: string; // Uploaded attachment; resolve with ChatService.getAttachmentUrl
+    audioUrl?: string; // Local copy of a voice note being uploaded
+    audioPath?: string; // Uploaded voice note; resolve with ChatService.getAttachmentUrl
+    voiceNote?: VoiceNoteMeta; // Set on audio messages
+    uploadProgress?: number; // 0-1 while the attachment of an unsent message uploads
     type: MessageType;
     timestamp: number;
     status: MessageStatus;
+    clientId?: string; // Id the sending app gave the message before it was stored
+    editedAt?: number;
+    reactions?: MessageReaction[];
+    replyToId?: string;
+    replyTo?: ReplyPreview; // Missing when the quoted message is deleted for me or not available
 }
 
 /*
- * Database Message Model
+ * One page of a conversation's history, oldest first.
+ * nextCursor continues with older messages; null once the start is reached.
  */
-export interface DbMessage {
-    id: string;
-    sender_id: string;
-    receiver_id: string;
-    content: string;
-    is_read: boolean;
-    created_at: string;
-}
\ No newline at end of file
+export interface MessagePage {
+    messages: Message[];
+    nextCursor: string | null;
+}
+
+/*
+ * A message that matched a chat search, best match first.
+ * conversationId is the other user's id, or the group's id when isGroup.
+ */
+export interface MessageSearchResult {
+    message: Message;
+    conversationId: string;
+    isGroup: boolean;
+    score: number;
+    snippet: string;
+    terms: string[]; // What to highlight in the snippet
+}
+
+// The card shown under a message for the first link in it
+export interface LinkPreview {
+    url: string;
+    title?: string;
+    description?: string;
+    imageUrl?: string;
+    siteName?: string;
+}
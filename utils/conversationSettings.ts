@@ -0,0 +1,96 @@
+/**
+ * Conversation Settings Utility
+ *
+ * Mute, archive and pin for chats and groups: how long a mute lasts, which chats
+ * are muted or archived right now, and the order pinned chats take in the list.
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+import { ConversationSettings, MessagePreview } from '../types';
+
+export type MuteDuration = 'hour' | 'eightHours' | 'week' | 'forever';
+
+export const MUTE_DURATIONS: MuteDuration[] = ['hour', 'eightHours', 'week', 'forever'];
+
+// Stored as the end of a mute that lasts until it is turned off
+export const MUTED_FOREVER = Date.UTC(9999, 11, 31);
+
+const MUTE_DURATION_MS: Record<Exclude<MuteDuration, 'forever'>, number> = {
+    hour: 60 * 60 * 1000,
+    eightHours: 8 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000
+};
+
+export const DEFAULT_CONVERSATION_SETTINGS: ConversationSettings = {
+    mutedUntil: null,
+    archivedAt: null,
+    pinnedAt: null
+};
+
+/**
+ * When a mute chosen now ends
+ * @param duration - One of MUTE_DURATIONS
+ * @param now - Current time (ms)
+ * @returns number - mutedUntil to store
+ */
+export function muteUntil(duration: MuteDuration, now = Date.now()): number {
+    return duration === 'forever' ? MUTED_FOREVER : now + MUTE_DURATION_MS[duration];
+}
+
+/**
+ * Whether a chat is muted: no notifications and no part in the unread badge
+ * @param settings - The chat's settings
+ * @param now - Current time (ms)
+ */
+export function isMuted(settings: ConversationSettings, now = Date.now()): boolean {
+    return settings.mutedUntil !== null && settings.mutedUntil > now;
+}
+
+/**
+ * Whether a chat belongs in the archive rather than the main list.
+ * Archiving lasts until a message newer than the archive time arrives.
+ * @param settings - The chat's settings
+ * @param lastMessage - The chat's latest message, if any
+ */
+export function isArchived(settings: ConversationSettings, lastMessage: MessagePreview | null): boolean {
+    if (settings.archivedAt === null) return false;
+    return !lastMessage || lastMessage.timestamp <= settings.archivedAt;
+}
+
+/**
+ * Puts pinned chats first, the most recently pinned on top; the rest keep their order
+ * @param items - Chats in list order (most recent activity first)
+ * @returns T[] - A new array
+ */
+export function orderPinnedFirst<T extends { settings: ConversationSettings }>(items: T[]): T[] {
+    const pinned = items
+        .filter(item => item.settings.pinnedAt !== null)
+        .sort((a, b) => b.settings.pinnedAt! - a.settings.pinnedAt!);
+    return [...pinned, ...items.filter(item => item.settings.pinnedAt === null)];
+}
+
+/**
+ * Settings from the stored columns (ISO strings or null)
+ */
+export function toConversationSettings(row: { muted_until: string | null; archived_at: string | null; pinned_at: string | null } | null | undefined): ConversationSettings {
+    if (!row) return DEFAULT_CONVERSATION_SETTINGS;
+    const toTime = (value: string | null) => value ? new Date(value).getTime() : null;
+    return {
+        mutedUntil: toTime(row.muted_until),
+        archivedAt: toTime(row.archived_at),
+        pinnedAt: toTime(row.pinned_at)
+    };
+}
+
+/**
+ * The stored columns for changed settings; settings left out are left unchanged
+ */
+export function toSettingsColumns(changes: Partial<ConversationSettings>): { muted_until?: string | null; archived_at?: string | null; pinned_at?: string | null } {
+    const toIso = (value: number | null) => value === null ? null : new Date(value).toISOString();
+    return {
+        ...(changes.mutedUntil !== undefined && { muted_until: toIso(changes.mutedUntil) }),
+        ...(changes.archivedAt !== undefined && { archived_at: toIso(changes.archivedAt) }),
+        ...(changes.pinnedAt !== undefined && { pinned_at: toIso(changes.pinnedAt) })
+    };
+}
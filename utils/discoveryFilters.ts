@@ -0,0 +1,52 @@
+/**
+ * Discovery Filter Utility
+ *
+ * Defaults and helpers for the user-controlled discovery filters.
+ * The defaults reproduce the original behaviour: everyone except your own major.
+ */
+
+import { DiscoveryFilters, Major, Interest, Language } from '../types';
+
+export const DEFAULT_DISCOVERY_FILTERS: DiscoveryFilters = {
+    includeOwnMajor: false,
+    includeMajors: [],
+    excludeMajors: [],
+    requiredInterests: [],
+    requiredLanguages: [],
+    homeCountry: ''
+};
+
+const onlyValues = <T extends string>(values: unknown, allowed: T[]): T[] =>
+    Array.isArray(values) ? values.filter((v): v is T => allowed.includes(v)) : [];
+
+/**
+ * Builds a complete filter object from stored JSON, dropping unknown values
+ * @param raw - The stored value (may be partial, outdated or null)
+ * @returns DiscoveryFilters - Safe to use directly
+ */
+export function normalizeDiscoveryFilters(raw?: Partial<DiscoveryFilters> | null): DiscoveryFilters {
+    if (!raw) return { ...DEFAULT_DISCOVERY_FILTERS };
+
+    return {
+        includeOwnMajor: raw.includeOwnMajor === true,
+        includeMajors: onlyValues(raw.includeMajors, Object.values(Major)),
+        excludeMajors: onlyValues(raw.excludeMajors, Object.values(Major)),
+        requiredInterests: onlyValues(raw.requiredInterests, Object.values(Interest)),
+        requiredLanguages: onlyValues(raw.requiredLanguages, Object.values(Language)),
+        homeCountry: typeof raw.homeCountry === 'string' ? raw.homeCountry.trim() : ''
+    };
+}
+
+/**
+ * Counts the filters that differ from the defaults (for the filter button badge)
+ * @param filters - The current filters
+ * @returns number - Number of active constraints
+ */
+export function countActiveFilters(filters: DiscoveryFilters): number {
+    return (filters.includeOwnMajor ? 1 : 0) +
+        filters.includeMajors.length +
+        filters.excludeMajors.length +
+        filters.requiredInterests.length +
+        filters.requiredLanguages.length +
+        (filters.homeCountry ? 1 : 0);
+}
@@ -0,0 +1,71 @@
+/**
+ * Image Resize Utility
+ *
+ * Shrinks chat images in the browser before they are uploaded.
+ */
+
+// Larger source files are rejected before decoding
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+
+// Longest side of an uploaded chat image, in pixels
+export const ATTACHMENT_MAX_DIMENSION = 1600;
+
+const ATTACHMENT_JPEG_QUALITY = 0.8;
+
+/**
+ * Scales dimensions down to fit a square bound, keeping the aspect ratio.
+ * Images that already fit are left alone.
+ * @param width - Source width in pixels
+ * @param height - Source height in pixels
+ * @param maxDimension - Longest allowed side
+ * @returns The scaled, rounded dimensions
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return {
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale))
+    };
+}
+
+/**
+ * Decodes an image file, scales it to fit ATTACHMENT_MAX_DIMENSION and re-encodes it as JPEG
+ * @param file - The picked image
+ * @param maxDimension - Longest allowed side
+ * @returns Promise<Blob> - The compressed image
+ */
+export function resizeImage(file: Blob, maxDimension: number = ATTACHMENT_MAX_DIMENSION): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const sourceUrl = URL.createObjectURL(file);
+        const img = new Image();
+
+        img.onload = () => {
+            URL.revokeObjectURL(sourceUrl);
+            const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, maxDimension);
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                reject(new Error('Canvas is not supported'));
+                return;
+            }
+            // JPEG has no transparency; paint it white rather than black
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, width, height);
+            ctx.drawImage(img, 0, 0, width, height);
+
+            canvas.toBlob(
+                (blob) => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+                'image/jpeg',
+                ATTACHMENT_JPEG_QUALITY
+            );
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(sourceUrl);
+            reject(new Error('Failed to read image'));
+        };
+        img.src = sourceUrl;
+    });
+}
@@ -0,0 +1,123 @@
+/**
+ * Match Scoring Utility
+ *
+ * Computes an explainable compatibility score between the current user and a candidate.
+ * Each factor yields a raw value (0/1 or an overlap count) that is multiplied by a
+ * configurable weight; the breakdown is kept so the UI can show "why you matched".
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+import { MatchFactor, MatchFactorScore, MatchScore } from '../types';
+
+export type MatchWeights = Record<MatchFactor, number>;
+
+/*
+ * Defaults keep the previous priority order in most cases:
+ * same home region > common languages > common interests.
+ */
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+    region: 10,
+    languages: 3,
+    interests: 2,
+    majorDiversity: 1,
+    bioKeywords: 1
+};
+
+export interface ScoringProfile {
+    major?: string | null;
+    interests?: string[] | null;
+    languages?: string[] | null;
+    homeRegion?: string | null;
+    bio?: string | null;
+}
+
+// Words too common to say anything about compatibility
+const STOP_WORDS = new Set([
+    'about', 'also', 'and', 'are', 'been', 'but', 'for', 'from', 'have', 'into', 'just', 'like',
+    'looking', 'love', 'more', 'most', 'really', 'some', 'student', 'than', 'that', 'the', 'their',
+    'them', 'then', 'there', 'they', 'this', 'very', 'want', 'were', 'what', 'when', 'with', 'year', 'your'
+]);
+
+const MIN_KEYWORD_LENGTH = 4;
+
+/**
+ * Extracts the distinct, lower-cased keywords of a bio
+ * @param bio - Free text bio
+ * @returns string[] - Keywords with stop words and short words removed
+ */
+export function extractBioKeywords(bio?: string | null): string[] {
+    if (!bio) return [];
+
+    const words = bio.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    return Array.from(new Set(
+        words.filter(word => word.length >= MIN_KEYWORD_LENGTH && !STOP_WORDS.has(word))
+    ));
+}
+
+const overlap = (a?: string[] | null, b?: string[] | null): string[] => {
+    if (!a || !b) return [];
+    return a.filter(item => b.includes(item));
+};
+
+const normalizeRegion = (region?: string | null): string => (region || '').trim().toLowerCase();
+
+/**
+ * Scores a candidate against the current user
+ * @param me - The current user's profile
+ * @param candidate - The profile being scored
+ * @param weights - Per-factor weights (missing factors fall back to the defaults)
+ * @returns MatchScore - Total plus the per-factor breakdown
+ */
+export function scoreCandidate(
+    me: ScoringProfile,
+    candidate: ScoringProfile,
+    weights: Partial<MatchWeights> = {}
+): MatchScore {
+    const w: MatchWeights = { ...DEFAULT_MATCH_WEIGHTS, ...weights };
+
+    const myRegion = normalizeRegion(me.homeRegion);
+    const sameRegion = myRegion !== '' && myRegion === normalizeRegion(candidate.homeRegion);
+
+    const differentMajor = !!me.major && !!candidate.major && me.major !== candidate.major;
+
+    const myKeywords = extractBioKeywords(me.bio);
+    const sharedKeywords = extractBioKeywords(candidate.bio).filter(word => myKeywords.includes(word));
+
+    const sharedLanguages = overlap(candidate.languages, me.languages);
+    const sharedInterests = overlap(candidate.interests, me.interests);
+
+    const raw: Array<[MatchFactor, number, string[]]> = [
+        ['region', sameRegion ? 1 : 0, sameRegion ? [candidate.homeRegion!.trim()] : []],
+        ['languages', sharedLanguages.length, sharedLanguages],
+        ['interests', sharedInterests.length, sharedInterests],
+        ['majorDiversity', differentMajor ? 1 : 0, differentMajor ? [candidate.major!] : []],
+        ['bioKeywords', sharedKeywords.length, sharedKeywords]
+    ];
+
+    const factors: MatchFactorScore[] = raw.map(([factor, value, matches]) => ({
+        factor,
+        weight: w[factor],
+        value,
+        contribution: w[factor] * value,
+        matches
+    }));
+
+    return {
+        total: factors.reduce((sum, f) => sum + f.contribution, 0),
+        factors
+    };
+}
+
+/**
+ * Sorts items by descending score; ties keep their original order
+ * @param items - Items that carry a score
+ * @param getScore - Reads the score of an item
+ * @returns T[] - A new, sorted array
+ */
+export function rankByScore<T>(items: T[], getScore: (item: T) => MatchScore): T[] {
+    return items
+        .map((item, index) => ({ item, index, total: getScore(item).total }))
+        .sort((a, b) => (b.total - a.total) || (a.index - b.index))
+        .map(entry => entry.item);
+}
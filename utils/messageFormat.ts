@@ -0,0 +1,85 @@
+/**
+ * Message Format Utility
+ *
+ * Turns message text into nodes for rendering: links, **bold**, *italic* (or _italic_),
+ * `inline code` and ```code blocks```. Text is never parsed as HTML; components render
+ * the nodes as React elements, so markup in a message shows up as typed. Line breaks
+ * are kept in the text nodes (bubbles use white-space: pre-wrap).
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+export type MessageNode =
+    | { type: 'text'; text: string }
+    | { type: 'link'; text: string; href: string }
+    | { type: 'code'; text: string }
+    | { type: 'codeBlock'; text: string }
+    | { type: 'bold' | 'italic'; children: MessageNode[] };
+
+// http(s) URLs and bare www. addresses; trailing punctuation belongs to the sentence
+const URL_PATTERN = String.raw`(?:https?:\/\/|www\.)[^\s<>]*[^\s<>.,:;!?'")\]*_]`;
+
+// Tried left to right; at the same position the earlier alternative wins (\x60 is a backtick)
+const INLINE_PATTERN = new RegExp([
+    String.raw`\x60\x60\x60\n?([\s\S]+?)\n?\x60\x60\x60`,         // 1: ```code block```
+    String.raw`\x60([^\x60\n]+)\x60`,                            // 2: `code`
+    `(${URL_PATTERN})`,                                          // 3: link
+    String.raw`\*\*(?=\S)([^\n]*?\S)\*\*`,                       // 4: **bold**
+    String.raw`(?<![\w*])\*(?=[^\s*])([^\n*]*?[^\s*])\*(?![\w*])`, // 5: *italic*
+    String.raw`(?<![\w_])_(?=[^\s_])([^\n_]*?[^\s_])_(?![\w_])`    // 6: _italic_
+].join('|'), 'g');
+
+/**
+ * The address a link node opens
+ * @param url - As typed, e.g. `www.ubc.ca`
+ * @returns string - Always http(s), so a message cannot produce a javascript: link
+ */
+export function toHref(url: string): string {
+    return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+/**
+ * Splits message text into formatted nodes
+ * @param text - Message text as sent
+ * @returns MessageNode[] - Concatenating the visible text gives back text without the markers
+ */
+export function parseMessageText(text: string): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    const pushText = (value: string) => {
+        if (!value) return;
+        const last = nodes[nodes.length - 1];
+        if (last && last.type === 'text') last.text += value;
+        else nodes.push({ type: 'text', text: value });
+    };
+
+    let index = 0;
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        const [whole, codeBlock, code, url, bold, starItalic, underscoreItalic] = match;
+        pushText(text.slice(index, match.index));
+        index = match.index! + whole.length;
+
+        if (codeBlock !== undefined) nodes.push({ type: 'codeBlock', text: codeBlock });
+        else if (code !== undefined) nodes.push({ type: 'code', text: code });
+        else if (url !== undefined) nodes.push({ type: 'link', text: url, href: toHref(url) });
+        else if (bold !== undefined) nodes.push({ type: 'bold', children: parseMessageText(bold) });
+        else nodes.push({ type: 'italic', children: parseMessageText(starItalic ?? underscoreItalic) });
+    }
+    pushText(text.slice(index));
+
+    return nodes;
+}
+
+/**
+ * Every link in the text, in order, as hrefs (links inside code are not links)
+ * @param text - Message text as sent
+ * @returns string[] - Distinct hrefs
+ */
+export function findLinks(text: string): string[] {
+    const hrefs: string[] = [];
+    const visit = (nodes: MessageNode[]) => nodes.forEach(node => {
+        if (node.type === 'link' && !hrefs.includes(node.href)) hrefs.push(node.href);
+        if (node.type === 'bold' || node.type === 'italic') visit(node.children);
+    });
+    visit(parseMessageText(text));
+    return hrefs;
+}
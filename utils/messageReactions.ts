@@ -0,0 +1,48 @@
+/**
+ * Message Reactions Utility
+ *
+ * Groups reaction rows per message and applies single reaction changes.
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+import { MessageReaction } from '../types';
+
+// The emoji offered by the reaction picker
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+/**
+ * Adds or removes one user's emoji, keeping chips in order of first use.
+ * Applying the same change twice has no further effect.
+ * @param reactions - Current reactions of a message
+ * @param emoji - The emoji that changed
+ * @param userId - Who reacted
+ * @param added - True for a new reaction, false for a removed one
+ * @returns MessageReaction[] - The updated reactions, without empty chips
+ */
+export function applyReaction(reactions: MessageReaction[], emoji: string, userId: string, added: boolean): MessageReaction[] {
+    const existing = reactions.find(r => r.emoji === emoji);
+    if (added) {
+        if (!existing) return [...reactions, { emoji, userIds: [userId] }];
+        if (existing.userIds.includes(userId)) return reactions;
+        return reactions.map(r => r === existing ? { ...r, userIds: [...r.userIds, userId] } : r);
+    }
+
+    if (!existing || !existing.userIds.includes(userId)) return reactions;
+    return reactions
+        .map(r => r === existing ? { ...r, userIds: r.userIds.filter(id => id !== userId) } : r)
+        .filter(r => r.userIds.length > 0);
+}
+
+/**
+ * Groups reaction rows by message
+ * @param rows - Reactions, oldest first
+ * @returns Map from message id to its reactions
+ */
+export function groupReactions(rows: { message_id: string; user_id: string; emoji: string }[]): Map<string, MessageReaction[]> {
+    const byMessage = new Map<string, MessageReaction[]>();
+    rows.forEach(row => {
+        byMessage.set(row.message_id, applyReaction(byMessage.get(row.message_id) || [], row.emoji, row.user_id, true));
+    });
+    return byMessage;
+}
@@ -0,0 +1,99 @@
+/**
+ * Message Search Utility
+ *
+ * Parses chat search queries, scores message text against them and cuts the
+ * snippet shown in the results. Every term must appear in a message for it to
+ * match; "quoted phrases" are matched as a whole, e.g. `"room 204" friday`.
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+/*
+ * Points per term, by how well it matched.
+ * Whole words beat word prefixes ("lib" -> "library"), which beat text inside a word.
+ */
+export const MESSAGE_MATCH_POINTS = {
+    word: 3,
+    prefix: 2,
+    inside: 1
+};
+
+// Characters kept on each side of the first match in a snippet
+const SNIPPET_RADIUS = 40;
+
+// "quoted phrase" | term
+const QUERY_PART = /"([^"]*)"|(\S+)/g;
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}_]/u.test(char);
+
+/**
+ * Splits a search box query into lowercase terms
+ * @param query - Raw input, e.g. `"room 204" Friday`
+ * @returns string[] - Distinct terms; empty quotes are dropped
+ */
+export function parseMessageQuery(query: string): string[] {
+    const terms: string[] = [];
+    for (const [, quoted, term] of query.matchAll(QUERY_PART)) {
+        const text = (quoted ?? term).trim().toLowerCase().replace(/\s+/g, ' ');
+        if (text && !terms.includes(text)) terms.push(text);
+    }
+    return terms;
+}
+
+/**
+ * Scores message text against parsed terms
+ * @param text - Message text
+ * @param terms - From parseMessageQuery
+ * @returns number | null - null if a term does not appear (or there are no terms)
+ */
+export function scoreMessageText(text: string, terms: string[]): number | null {
+    if (terms.length === 0) return null;
+    const lower = text.toLowerCase();
+    let score = 0;
+
+    for (const term of terms) {
+        let best = 0;
+        for (let i = lower.indexOf(term); i !== -1; i = lower.indexOf(term, i + 1)) {
+            const startsWord = !isWordChar(lower[i - 1]);
+            const endsWord = !isWordChar(lower[i + term.length]);
+            const points = startsWord && endsWord ? MESSAGE_MATCH_POINTS.word
+                : startsWord ? MESSAGE_MATCH_POINTS.prefix
+                : MESSAGE_MATCH_POINTS.inside;
+            best = Math.max(best, points);
+        }
+        if (best === 0) return null;
+        score += best;
+    }
+    return score;
+}
+
+/**
+ * Orders results best first; ties go to the newest message
+ * @param results - Scored results
+ * @returns T[] - A new, sorted array
+ */
+export function rankMessageResults<T extends { score: number; message: { timestamp: number } }>(results: T[]): T[] {
+    return [...results].sort((a, b) => b.score - a.score || b.message.timestamp - a.message.timestamp);
+}
+
+/**
+ * Cuts the part of a long message around its first match
+ * @param text - Message text
+ * @param terms - From parseMessageQuery
+ * @param radius - Characters to keep on each side of the match
+ * @returns string - With an ellipsis where text was cut
+ */
+export function messageSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    const lower = flat.toLowerCase();
+    const hits = terms.map(term => lower.indexOf(term)).filter(i => i !== -1);
+    const first = hits.length ? Math.min(...hits) : 0;
+
+    let start = Math.max(0, first - radius);
+    let end = Math.min(flat.length, first + radius * 2);
+    // Do not cut words in half
+    while (start > 0 && isWordChar(flat[start - 1])) start--;
+    while (end < flat.length && isWordChar(flat[end])) end++;
+
+    return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+}
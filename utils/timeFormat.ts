@@ -0,0 +1,41 @@
+/**
+ * Time Format Utility
+ *
+ * Short "when" labels for chat lists and headers.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Formats a timestamp as a time of day, e.g. "3:45 PM"
+ * @param timestamp - Milliseconds since epoch
+ * @returns string - The formatted time
+ */
+export function formatClockTime(timestamp: number): string {
+    return new Intl.DateTimeFormat('en-US', {
+        hour: 'numeric',
+        minute: 'numeric',
+        hour12: true
+    }).format(new Date(timestamp));
+}
+
+/**
+ * Formats a past timestamp relative to today: the time of day for today,
+ * the given label for yesterday, and a short date before that
+ * @param timestamp - Milliseconds since epoch
+ * @param yesterdayLabel - Translated "Yesterday"
+ * @param now - Current time (for tests)
+ * @returns string - The formatted label
+ */
+export function formatRecentTime(timestamp: number, yesterdayLabel: string, now: number = Date.now()): string {
+    const startOfToday = new Date(now);
+    startOfToday.setHours(0, 0, 0, 0);
+
+    if (timestamp >= startOfToday.getTime()) {
+        return formatClockTime(timestamp);
+    }
+    if (timestamp >= startOfToday.getTime() - DAY_MS) {
+        return yesterdayLabel;
+    }
+    return new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(new Date(timestamp));
+}
@@ -39,6 +39,9 @@ export const TRANSLATIONS = {
         settings_privacy: "Privacy",
         privacy_searchable: "Allow Search",
         privacy_searchable_desc: "Allow other students to find you by name or major.",
+        settings_blocked: "Blocked users",
+        settings_blocked_none: "You haven't blocked anyone.",
+        settings_unblock: "Unblock",
         notif_general: "Allow Notifications",
         notif_general_desc: "Enable or disable all push notifications",
         notif_daily: "Daily Smart Matches",
@@ -87,15 +90,62 @@ export const TRANSLATIONS = {
         disc_common: "Common Interests",
         disc_common_none: "No common interests found.",
         disc_langs: "Languages",
-        disc_search_placeholder: "Search name, major, or email...",
+        disc_search_placeholder: "Search name, major, interest, language or region...",
         disc_search_results: "Search Results",
         disc_search_none: "No students found matching your search.",
+        disc_search_tips: "Narrow it down with major:, lang:, interest: or region: (e.g. major:Forestry lang:Korean)",
+        disc_search_more: "Show more",
+        disc_why_title: "Why you matched",
+        disc_why_region: "Same home region",
+        disc_why_languages: "Shared languages",
+        disc_why_interests: "Shared interests",
+        disc_why_major: "Different major",
+        disc_why_bio: "Similar bios",
+        disc_undo: "Undo",
+        disc_shortcuts: "← pass · → connect · Enter: view profile",
+        disc_filters: "Filters",
+        filter_title: "Discovery Filters",
+        filter_majors: "Majors",
+        filter_majors_hint: "Tap once to include only, twice to exclude.",
+        filter_own_major: "Show students in my major",
+        filter_interests: "Must share interests",
+        filter_languages: "Must speak",
+        filter_country: "Home country",
+        filter_country_hint: "e.g. Korea",
+        filter_apply: "Apply",
+        filter_reset: "Reset",
+        safety_options: "Safety options",
+        safety_block: "Block",
+        safety_report: "Report",
+        safety_block_title: "Block this user?",
+        safety_block_desc: "You won't see each other in discovery, search, requests or chat. You can unblock them in Settings.",
+        safety_cancel: "Cancel",
+        conn_remove: "Remove connection",
+        conn_remove_title: "Remove this connection?",
+        conn_remove_desc: "You'll disappear from each other's connections. They won't be notified.",
+        conn_remove_hide_history: "Also hide our chat history",
+        conn_remove_confirm: "Remove",
+        report_title: "Report user",
+        report_reason: "What's wrong?",
+        report_reason_spam: "Spam or scam",
+        report_reason_harassment: "Harassment or bullying",
+        report_reason_inappropriate: "Inappropriate content",
+        report_reason_fake_profile: "Fake profile",
+        report_reason_underage: "Underage user",
+        report_reason_other: "Something else",
+        report_details: "Details (optional)",
+        report_also_block: "Also block this user",
+        report_submit: "Submit report",
 
         // Connections
         conn_title: "Connections",
         conn_loading: "Loading...",
         conn_empty: "No connections yet",
         conn_empty_sub: "Start swiping to find friends!",
+        conn_you_prefix: "You: ",
+        conn_photo: "Photo",
+        conn_no_messages: "No messages yet",
+        conn_yesterday: "Yesterday",
 
         // Chat
         chat_invalid: "Invalid Chat ID",
@@ -103,7 +153,66 @@ export const TRANSLATIONS = {
         chat_empty: "No messages yet. Say hi!",
         chat_sending: "sending",
         chat_failed: "failed",
+        chat_queued: "Waiting for connection",
+        chat_not_delivered: "Not delivered",
+        chat_retry: "Retry",
+        chat_delete: "Delete",
+        chat_sent: "Sent",
+        chat_delivered: "Delivered",
+        chat_seen: "Seen",
+        chat_typing: "typing…",
+        chat_online: "Online",
+        chat_last_seen: "Last seen",
         chat_photo: "Send Photo",
+        chat_load_older: "Load older messages",
+        chat_message_options: "Message options",
+        chat_edit: "Edit",
+        chat_edited: "edited",
+        chat_editing: "Editing message",
+        chat_reply: "Reply",
+        chat_replying_to: "Replying to",
+        chat_you: "You",
+        chat_original_unavailable: "Original message unavailable",
+        group_new: "New group",
+        group_create: "Create group",
+        group_name: "Group name",
+        group_name_placeholder: "e.g. CPSC 110 study circle",
+        group_topic: "Topic",
+        group_members: "Members",
+        group_add_members: "Add members",
+        group_no_connections: "Connect with people first to add them to a group.",
+        group_info: "Group info",
+        group_leave: "Leave group",
+        group_leave_desc: "You will stop receiving this group's messages. The others keep the chat.",
+        chat_search: "Search in chat",
+        chat_search_placeholder: "Search this chat",
+        conn_search_placeholder: "Search messages",
+        chat_search_none: "No messages found",
+        chat_voice_message: "Voice message",
+        chat_hold_to_record: "Hold to record a voice message",
+        chat_slide_to_cancel: "Slide to cancel",
+        chat_mic_denied: "Allow microphone access to record voice messages",
+        chat_mic_unsupported: "This browser cannot record voice messages",
+        conn_chat_options: "Chat options",
+        conn_pin: "Pin to top",
+        conn_unpin: "Unpin",
+        conn_mute: "Mute",
+        conn_unmute: "Unmute",
+        conn_mute_hour: "For 1 hour",
+        conn_mute_eightHours: "For 8 hours",
+        conn_mute_week: "For 1 week",
+        conn_mute_forever: "Until I turn it back on",
+        conn_archive: "Archive",
+        conn_unarchive: "Unarchive",
+        conn_archived: "Archived",
+        conn_archived_hint: "Archived chats come back when a new message arrives",
+        conn_back_to_chats: "Back to chats",
+        conn_pinned: "Pinned",
+        conn_muted: "Muted",
+        chat_delete_for_me: "Delete for me",
+        chat_unsend: "Unsend",
+        chat_unsend_desc: "Remove this message for everyone in the chat?",
+        chat_react: "React",
     },
     [Language.MANDARIN_SIMPLIFIED]: {
         welcome: "欢迎回来",
@@ -139,6 +248,9 @@ export const TRANSLATIONS = {
         settings_privacy: "隐私",
         privacy_searchable: "允许搜索",
         privacy_searchable_desc: "允许其他学生通过姓名或专业找到你。",
+        settings_blocked: "已屏蔽的用户",
+        settings_blocked_none: "你还没有屏蔽任何人。",
+        settings_unblock: "解除屏蔽",
         notif_general: "允许通知",
         notif_general_desc: "启用或禁用所有推送通知",
         notif_daily: "每日智能匹配",
@@ -184,21 +296,127 @@ export const TRANSLATIONS = {
         disc_common: "共同兴趣",
         disc_common_none: "未发现共同兴趣。",
         disc_langs: "语言",
-        disc_search_placeholder: "按姓名、专业或邮箱搜索...",
+        disc_search_placeholder: "按姓名、专业、兴趣、语言或地区搜索...",
         disc_search_results: "搜索结果",
         disc_search_none: "未找到匹配的学生。",
+        disc_search_tips: "可用 major:、lang:、interest: 或 region: 缩小范围（例如 major:Forestry lang:Korean）",
+        disc_search_more: "显示更多",
+        disc_why_title: "匹配原因",
+        disc_why_region: "同一家乡",
+        disc_why_languages: "共同语言",
+        disc_why_interests: "共同兴趣",
+        disc_why_major: "不同专业",
+        disc_why_bio: "简介相似",
+        disc_undo: "撤销",
+        disc_shortcuts: "← 跳过 · → 连接 · Enter：查看资料",
+        disc_filters: "筛选",
+        filter_title: "发现筛选",
+        filter_majors: "专业",
+        filter_majors_hint: "点一次仅包含，点两次排除。",
+        filter_own_major: "显示同专业的学生",
+        filter_interests: "必须有的兴趣",
+        filter_languages: "必须会说",
+        filter_country: "家乡国家",
+        filter_country_hint: "例如：韩国",
+        filter_apply: "应用",
+        filter_reset: "重置",
+        safety_options: "安全选项",
+        safety_block: "屏蔽",
+        safety_report: "举报",
+        safety_block_title: "屏蔽该用户？",
+        safety_block_desc: "你们将不会在发现、搜索、请求或聊天中看到对方。可在设置中解除屏蔽。",
+        safety_cancel: "取消",
+        conn_remove: "移除联系人",
+        conn_remove_title: "移除此联系人？",
+        conn_remove_desc: "你们将从彼此的联系人中消失，对方不会收到通知。",
+        conn_remove_hide_history: "同时隐藏聊天记录",
+        conn_remove_confirm: "移除",
+        report_title: "举报用户",
+        report_reason: "出了什么问题？",
+        report_reason_spam: "垃圾信息或诈骗",
+        report_reason_harassment: "骚扰或欺凌",
+        report_reason_inappropriate: "不当内容",
+        report_reason_fake_profile: "虚假资料",
+        report_reason_underage: "未成年用户",
+        report_reason_other: "其他",
+        report_details: "详情（可选）",
+        report_also_block: "同时屏蔽该用户",
+        report_submit: "提交举报",
 
         conn_title: "联系人",
         conn_loading: "加载中...",
         conn_empty: "暂无联系人",
         conn_empty_sub: "开始滑动以寻找朋友！",
+        conn_you_prefix: "你：",
+        conn_photo: "图片",
+        conn_no_messages: "暂无消息",
+        conn_yesterday: "昨天",
 
         chat_invalid: "无效的聊天ID",
         chat_placeholder: "输入消息...",
         chat_empty: "暂无消息。打个招呼吧！",
         chat_sending: "发送中",
         chat_failed: "失败",
+        chat_queued: "等待网络连接",
+        chat_not_delivered: "未送达",
+        chat_retry: "重试",
+        chat_delete: "删除",
+        chat_sent: "已发送",
+        chat_delivered: "已送达",
+        chat_seen: "已读",
+        chat_typing: "正在输入…",
+        chat_online: "在线",
+        chat_last_seen: "最后在线",
         chat_photo: "发送图片",
+        chat_load_older: "加载更早的消息",
+        chat_message_options: "消息选项",
+        chat_edit: "编辑",
+        chat_edited: "已编辑",
+        chat_editing: "正在编辑消息",
+        chat_reply: "回复",
+        chat_replying_to: "回复",
+        chat_you: "你",
+        chat_original_unavailable: "原消息不可用",
+        group_new: "新建群组",
+        group_create: "创建群组",
+        group_name: "群组名称",
+        group_name_placeholder: "例如：CPSC 110 学习小组",
+        group_topic: "主题",
+        group_members: "成员",
+        group_add_members: "添加成员",
+        group_no_connections: "请先与他人建立联系，再将其加入群组。",
+        group_info: "群组信息",
+        group_leave: "退出群组",
+        group_leave_desc: "你将不再收到此群组的消息，其他成员仍保留聊天记录。",
+        chat_search: "在聊天中搜索",
+        chat_search_placeholder: "搜索此聊天",
+        conn_search_placeholder: "搜索消息",
+        chat_search_none: "未找到消息",
+        chat_voice_message: "语音消息",
+        chat_hold_to_record: "按住录制语音消息",
+        chat_slide_to_cancel: "滑动取消",
+        chat_mic_denied: "请允许使用麦克风以录制语音消息",
+        chat_mic_unsupported: "此浏览器无法录制语音消息",
+        conn_chat_options: "聊天选项",
+        conn_pin: "置顶",
+        conn_unpin: "取消置顶",
+        conn_mute: "静音",
+        conn_unmute: "取消静音",
+        conn_mute_hour: "1 小时",
+        conn_mute_eightHours: "8 小时",
+        conn_mute_week: "1 周",
+        conn_mute_forever: "直到我重新开启",
+        conn_archive: "归档",
+        conn_unarchive: "取消归档",
+        conn_archived: "已归档",
+        conn_archived_hint: "有新消息时，已归档的聊天会重新出现",
+        conn_back_to_chats: "返回聊天",
+        conn_pinned: "已置顶",
+        conn_muted: "已静音",
+        chat_delete_for_me: "仅为我删除",
+        chat_unsend: "撤回",
+        chat_unsend_desc: "要为聊天中的所有人撤回这条消息吗？",
+        chat_react: "回应",
     },
     // ... (Keeping other languages implied for brevity in this specific update, but ensuring structure matches)
     [Language.MANDARIN_TRADITIONAL]: {
@@ -235,6 +453,9 @@ export const TRANSLATIONS = {
         settings_privacy: "隱私",
         privacy_searchable: "允許搜尋",
         privacy_searchable_desc: "允許其他學生透過姓名或主修找到你。",
+        settings_blocked: "已封鎖的用戶",
+        settings_blocked_none: "你尚未封鎖任何人。",
+        settings_unblock: "解除封鎖",
         notif_general: "允許通知",
         notif_general_desc: "啟用或禁用所有推送通知",
         notif_daily: "每日智能配對",
@@ -280,21 +501,127 @@ export const TRANSLATIONS = {
         disc_common: "共同興趣",
         disc_common_none: "未發現共同興趣。",
         disc_langs: "語言",
-        disc_search_placeholder: "按姓名、主修或郵箱搜尋...",
+        disc_search_placeholder: "按姓名、主修、興趣、語言或地區搜尋...",
         disc_search_results: "搜尋結果",
         disc_search_none: "未找到匹配的學生。",
+        disc_search_tips: "可用 major:、lang:、interest: 或 region: 縮小範圍（例如 major:Forestry lang:Korean）",
+        disc_search_more: "顯示更多",
+        disc_why_title: "配對原因",
+        disc_why_region: "同一家鄉",
+        disc_why_languages: "共同語言",
+        disc_why_interests: "共同興趣",
+        disc_why_major: "不同主修",
+        disc_why_bio: "簡介相似",
+        disc_undo: "復原",
+        disc_shortcuts: "← 略過 · → 連結 · Enter：查看檔案",
+        disc_filters: "篩選",
+        filter_title: "探索篩選",
+        filter_majors: "主修",
+        filter_majors_hint: "點一次僅包含，點兩次排除。",
+        filter_own_major: "顯示同主修的學生",
+        filter_interests: "必須有的興趣",
+        filter_languages: "必須會說",
+        filter_country: "家鄉國家",
+        filter_country_hint: "例如：韓國",
+        filter_apply: "套用",
+        filter_reset: "重設",
+        safety_options: "安全選項",
+        safety_block: "封鎖",
+        safety_report: "檢舉",
+        safety_block_title: "封鎖此用戶？",
+        safety_block_desc: "你們將不會在探索、搜尋、請求或聊天中看到對方。可在設定中解除封鎖。",
+        safety_cancel: "取消",
+        conn_remove: "移除聯絡人",
+        conn_remove_title: "移除此聯絡人？",
+        conn_remove_desc: "你們將從彼此的聯絡人中消失，對方不會收到通知。",
+        conn_remove_hide_history: "同時隱藏聊天紀錄",
+        conn_remove_confirm: "移除",
+        report_title: "檢舉用戶",
+        report_reason: "發生了什麼問題？",
+        report_reason_spam: "垃圾訊息或詐騙",
+        report_reason_harassment: "騷擾或霸凌",
+        report_reason_inappropriate: "不當內容",
+        report_reason_fake_profile: "虛假檔案",
+        report_reason_underage: "未成年用戶",
+        report_reason_other: "其他",
+        report_details: "詳情（選填）",
+        report_also_block: "同時封鎖此用戶",
+        report_submit: "送出檢舉",
 
         conn_title: "聯絡人",
         conn_loading: "載入中...",
         conn_empty: "暫無聯絡人",
         conn_empty_sub: "開始滑動以尋找朋友！",
+        conn_you_prefix: "你：",
+        conn_photo: "圖片",
+        conn_no_messages: "暫無訊息",
+        conn_yesterday: "昨天",
 
         chat_invalid: "無效的聊天ID",
         chat_placeholder: "輸入訊息...",
         chat_empty: "暫無訊息。打個招呼吧！",
         chat_sending: "發送中",
         chat_failed: "失敗",
+        chat_queued: "等待網路連線",
+        chat_not_delivered: "未送達",
+        chat_retry: "重試",
+        chat_delete: "刪除",
+        chat_sent: "已傳送",
+        chat_delivered: "已送達",
+        chat_seen: "已讀",
+        chat_typing: "正在輸入…",
+        chat_online: "線上",
+        chat_last_seen: "最後上線",
         chat_photo: "發送圖片",
+        chat_load_older: "載入更早的訊息",
+        chat_message_options: "訊息選項",
+        chat_edit: "編輯",
+        chat_edited: "已編輯",
+        chat_editing: "正在編輯訊息",
+        chat_reply: "回覆",
+        chat_replying_to: "回覆",
+        chat_you: "你",
+        chat_original_unavailable: "原訊息無法顯示",
+        group_new: "新增群組",
+        group_create: "建立群組",
+        group_name: "群組名稱",
+        group_name_placeholder: "例如：CPSC 110 讀書會",
+        group_topic: "主題",
+        group_members: "成員",
+        group_add_members: "新增成員",
+        group_no_connections: "請先與他人建立聯繫，再將其加入群組。",
+        group_info: "群組資訊",
+        group_leave: "退出群組",
+        group_leave_desc: "你將不再收到此群組的訊息，其他成員仍保留聊天記錄。",
+        chat_search: "在聊天中搜尋",
+        chat_search_placeholder: "搜尋此聊天",
+        conn_search_placeholder: "搜尋訊息",
+        chat_search_none: "找不到訊息",
+        chat_voice_message: "語音訊息",
+        chat_hold_to_record: "按住錄製語音訊息",
+        chat_slide_to_cancel: "滑動取消",
+        chat_mic_denied: "請允許使用麥克風以錄製語音訊息",
+        chat_mic_unsupported: "此瀏覽器無法錄製語音訊息",
+        conn_chat_options: "聊天選項",
+        conn_pin: "置頂",
+        conn_unpin: "取消置頂",
+        conn_mute: "靜音",
+        conn_unmute: "取消靜音",
+        conn_mute_hour: "1 小時",
+        conn_mute_eightHours: "8 小時",
+        conn_mute_week: "1 週",
+        conn_mute_forever: "直到我重新開啟",
+        conn_archive: "封存",
+        conn_unarchive: "取消封存",
+        conn_archived: "已封存",
+        conn_archived_hint: "有新訊息時，已封存的聊天會重新出現",
+        conn_back_to_chats: "返回聊天",
+        conn_pinned: "已置頂",
+        conn_muted: "已靜音",
+        chat_delete_for_me: "僅為我刪除",
+        chat_unsend: "收回",
+        chat_unsend_desc: "要為聊天中的所有人收回這則訊息嗎？",
+        chat_react: "回應",
     },
     [Language.SPANISH]: {
         welcome: "Bienvenido de nuevo",
@@ -330,6 +657,9 @@ export const TRANSLATIONS = {
         settings_privacy: "Privacidad",
         privacy_searchable: "Permitir Búsqueda",
         privacy_searchable_desc: "Permitir que otros estudiantes te encuentren por nombre o carrera.",
+        settings_blocked: "Usuarios bloqueados",
+        settings_blocked_none: "No has bloqueado a nadie.",
+        settings_unblock: "Desbloquear",
         notif_general: "Permitir notificaciones",
         notif_general_desc: "Habilitar o deshabilitar todas las notificaciones push",
         notif_daily: "Coincidencias diarias",
@@ -375,21 +705,127 @@ export const TRANSLATIONS = {
         disc_common: "Intereses Comunes",
         disc_common_none: "No se encontraron intereses comunes.",
         disc_langs: "Idiomas",
-        disc_search_placeholder: "Buscar por nombre, carrera o email...",
+        disc_search_placeholder: "Buscar por nombre, carrera, interés, idioma o región...",
         disc_search_results: "Resultados de Búsqueda",
         disc_search_none: "No se encontraron estudiantes.",
+        disc_search_tips: "Filtra con major:, lang:, interest: o region: (p. ej. major:Forestry lang:Korean)",
+        disc_search_more: "Mostrar más",
+        disc_why_title: "Por qué coinciden",
+        disc_why_region: "Misma región de origen",
+        disc_why_languages: "Idiomas en común",
+        disc_why_interests: "Intereses en común",
+        disc_why_major: "Carrera diferente",
+        disc_why_bio: "Biografías similares",
+        disc_undo: "Deshacer",
+        disc_shortcuts: "← pasar · → conectar · Enter: ver perfil",
+        disc_filters: "Filtros",
+        filter_title: "Filtros de descubrimiento",
+        filter_majors: "Carreras",
+        filter_majors_hint: "Toca una vez para incluir solo esa, dos veces para excluir.",
+        filter_own_major: "Mostrar estudiantes de mi carrera",
+        filter_interests: "Intereses requeridos",
+        filter_languages: "Debe hablar",
+        filter_country: "País de origen",
+        filter_country_hint: "p. ej. Corea",
+        filter_apply: "Aplicar",
+        filter_reset: "Restablecer",
+        safety_options: "Opciones de seguridad",
+        safety_block: "Bloquear",
+        safety_report: "Denunciar",
+        safety_block_title: "¿Bloquear a este usuario?",
+        safety_block_desc: "No os veréis en descubrir, búsqueda, solicitudes ni chat. Puedes desbloquearlo en Ajustes.",
+        safety_cancel: "Cancelar",
+        conn_remove: "Eliminar conexión",
+        conn_remove_title: "¿Eliminar esta conexión?",
+        conn_remove_desc: "Desapareceréis de las conexiones del otro. No se le notificará.",
+        conn_remove_hide_history: "Ocultar también nuestro historial de chat",
+        conn_remove_confirm: "Eliminar",
+        report_title: "Denunciar usuario",
+        report_reason: "¿Qué ocurre?",
+        report_reason_spam: "Spam o estafa",
+        report_reason_harassment: "Acoso o intimidación",
+        report_reason_inappropriate: "Contenido inapropiado",
+        report_reason_fake_profile: "Perfil falso",
+        report_reason_underage: "Usuario menor de edad",
+        report_reason_other: "Otro motivo",
+        report_details: "Detalles (opcional)",
+        report_also_block: "Bloquear también a este usuario",
+        report_submit: "Enviar denuncia",
 
         conn_title: "Conexiones",
         conn_loading: "Cargando...",
         conn_empty: "Aún no hay conexiones",
         conn_empty_sub: "¡Empieza a deslizar para encontrar amigos!",
+        conn_you_prefix: "Tú: ",
+        conn_photo: "Foto",
+        conn_no_messages: "Aún no hay mensajes",
+        conn_yesterday: "Ayer",
 
         chat_invalid: "ID de chat inválido",
         chat_placeholder: "Mensaje...",
         chat_empty: "No hay mensajes. ¡Di hola!",
         chat_sending: "enviando",
         chat_failed: "fallido",
+        chat_queued: "Esperando conexión",
+        chat_not_delivered: "No entregado",
+        chat_retry: "Reintentar",
+        chat_delete: "Eliminar",
+        chat_sent: "Enviado",
+        chat_delivered: "Entregado",
+        chat_seen: "Visto",
+        chat_typing: "escribiendo…",
+        chat_online: "En línea",
+        chat_last_seen: "Últ. vez",
         chat_photo: "Enviar foto",
+        chat_load_older: "Cargar mensajes anteriores",
+        chat_message_options: "Opciones del mensaje",
+        chat_edit: "Editar",
+        chat_edited: "editado",
+        chat_editing: "Editando mensaje",
+        chat_reply: "Responder",
+        chat_replying_to: "Respondiendo a",
+        chat_you: "Tú",
+        chat_original_unavailable: "Mensaje original no disponible",
+        group_new: "Nuevo grupo",
+        group_create: "Crear grupo",
+        group_name: "Nombre del grupo",
+        group_name_placeholder: "p. ej. Grupo de estudio CPSC 110",
+        group_topic: "Tema",
+        group_members: "Miembros",
+        group_add_members: "Añadir miembros",
+        group_no_connections: "Conecta primero con personas para añadirlas a un grupo.",
+        group_info: "Información del grupo",
+        group_leave: "Salir del grupo",
+        group_leave_desc: "Dejarás de recibir los mensajes de este grupo. Los demás conservan el chat.",
+        chat_search: "Buscar en el chat",
+        chat_search_placeholder: "Buscar en este chat",
+        conn_search_placeholder: "Buscar mensajes",
+        chat_search_none: "No se encontraron mensajes",
+        chat_voice_message: "Mensaje de voz",
+        chat_hold_to_record: "Mantén pulsado para grabar un mensaje de voz",
+        chat_slide_to_cancel: "Desliza para cancelar",
+        chat_mic_denied: "Permite el acceso al micrófono para grabar mensajes de voz",
+        chat_mic_unsupported: "Este navegador no puede grabar mensajes de voz",
+        conn_chat_options: "Opciones del chat",
+        conn_pin: "Fijar arriba",
+        conn_unpin: "Desfijar",
+        conn_mute: "Silenciar",
+        conn_unmute: "Activar sonido",
+        conn_mute_hour: "Durante 1 hora",
+        conn_mute_eightHours: "Durante 8 horas",
+        conn_mute_week: "Durante 1 semana",
+        conn_mute_forever: "Hasta que lo vuelva a activar",
+        conn_archive: "Archivar",
+        conn_unarchive: "Desarchivar",
+        conn_archived: "Archivados",
+        conn_archived_hint: "Los chats archivados vuelven cuando llega un mensaje nuevo",
+        conn_back_to_chats: "Volver a los chats",
+        conn_pinned: "Fijado",
+        conn_muted: "Silenciado",
+        chat_delete_for_me: "Eliminar para mí",
+        chat_unsend: "Anular envío",
+        chat_unsend_desc: "¿Eliminar este mensaje para todos en el chat?",
+        chat_react: "Reaccionar",
     },
     [Language.JAPANESE]: {
         welcome: "お帰りなさい",
@@ -425,6 +861,9 @@ export const TRANSLATIONS = {
         settings_privacy: "プライバシー",
         privacy_searchable: "検索を許可",
         privacy_searchable_desc: "名前や専攻での検索を許可します。",
+        settings_blocked: "ブロック中のユーザー",
+        settings_blocked_none: "ブロックしているユーザーはいません。",
+        settings_unblock: "ブロック解除",
         notif_general: "通知を許可",
         notif_general_desc: "すべてのプッシュ通知を有効または無効にする",
         notif_daily: "毎日のスマートマッチ",
@@ -470,21 +909,127 @@ export const TRANSLATIONS = {
         disc_common: "共通の興味",
         disc_common_none: "共通の興味は見つかりませんでした。",
         disc_langs: "言語",
-        disc_search_placeholder: "名前、専攻、またはメールで検索...",
+        disc_search_placeholder: "名前、専攻、趣味、言語、地域で検索...",
         disc_search_results: "検索結果",
         disc_search_none: "一致する学生が見つかりませんでした。",
+        disc_search_tips: "major:、lang:、interest:、region: で絞り込めます（例：major:Forestry lang:Korean）",
+        disc_search_more: "もっと見る",
+        disc_why_title: "マッチした理由",
+        disc_why_region: "同じ出身地",
+        disc_why_languages: "共通の言語",
+        disc_why_interests: "共通の趣味",
+        disc_why_major: "異なる専攻",
+        disc_why_bio: "似ている自己紹介",
+        disc_undo: "元に戻す",
+        disc_shortcuts: "← パス · → つながる · Enter：プロフィール",
+        disc_filters: "フィルター",
+        filter_title: "検索フィルター",
+        filter_majors: "専攻",
+        filter_majors_hint: "1回タップで限定、2回で除外します。",
+        filter_own_major: "同じ専攻の学生を表示",
+        filter_interests: "必須の趣味",
+        filter_languages: "話せる言語",
+        filter_country: "出身国",
+        filter_country_hint: "例：韓国",
+        filter_apply: "適用",
+        filter_reset: "リセット",
+        safety_options: "安全オプション",
+        safety_block: "ブロック",
+        safety_report: "報告",
+        safety_block_title: "このユーザーをブロックしますか？",
+        safety_block_desc: "発見、検索、リクエスト、チャットで互いに表示されなくなります。設定で解除できます。",
+        safety_cancel: "キャンセル",
+        conn_remove: "つながりを解除",
+        conn_remove_title: "このつながりを解除しますか？",
+        conn_remove_desc: "お互いのつながりから消えます。相手には通知されません。",
+        conn_remove_hide_history: "チャット履歴も非表示にする",
+        conn_remove_confirm: "解除",
+        report_title: "ユーザーを報告",
+        report_reason: "何が問題ですか？",
+        report_reason_spam: "スパム・詐欺",
+        report_reason_harassment: "嫌がらせ・いじめ",
+        report_reason_inappropriate: "不適切なコンテンツ",
+        report_reason_fake_profile: "偽のプロフィール",
+        report_reason_underage: "未成年のユーザー",
+        report_reason_other: "その他",
+        report_details: "詳細（任意）",
+        report_also_block: "このユーザーもブロックする",
+        report_submit: "報告を送信",
 
         conn_title: "つながり",
         conn_loading: "読み込み中...",
         conn_empty: "まだつながりがありません",
         conn_empty_sub: "スワイプして友達を見つけましょう！",
+        conn_you_prefix: "あなた: ",
+        conn_photo: "写真",
+        conn_no_messages: "まだメッセージはありません",
+        conn_yesterday: "昨日",
 
         chat_invalid: "無効なチャットID",
         chat_placeholder: "メッセージ...",
         chat_empty: "メッセージはまだありません。挨拶しましょう！",
         chat_sending: "送信中",
         chat_failed: "失敗",
+        chat_queued: "接続を待っています",
+        chat_not_delivered: "未送信",
+        chat_retry: "再試行",
+        chat_delete: "削除",
+        chat_sent: "送信済み",
+        chat_delivered: "配信済み",
+        chat_seen: "既読",
+        chat_typing: "入力中…",
+        chat_online: "オンライン",
+        chat_last_seen: "最終アクセス",
         chat_photo: "写真を送信",
+        chat_load_older: "以前のメッセージを読み込む",
+        chat_message_options: "メッセージのオプション",
+        chat_edit: "編集",
+        chat_edited: "編集済み",
+        chat_editing: "メッセージを編集中",
+        chat_reply: "返信",
+        chat_replying_to: "返信先",
+        chat_you: "あなた",
+        chat_original_unavailable: "元のメッセージは表示できません",
+        group_new: "新しいグループ",
+        group_create: "グループを作成",
+        group_name: "グループ名",
+        group_name_placeholder: "例：CPSC 110 勉強会",
+        group_topic: "テーマ",
+        group_members: "メンバー",
+        group_add_members: "メンバーを追加",
+        group_no_connections: "グループに追加するには、まずつながりを作りましょう。",
+        group_info: "グループ情報",
+        group_leave: "グループを退出",
+        group_leave_desc: "このグループのメッセージは届かなくなります。他のメンバーのチャットは残ります。",
+        chat_search: "チャット内を検索",
+        chat_search_placeholder: "このチャットを検索",
+        conn_search_placeholder: "メッセージを検索",
+        chat_search_none: "メッセージが見つかりません",
+        chat_voice_message: "ボイスメッセージ",
+        chat_hold_to_record: "長押しでボイスメッセージを録音",
+        chat_slide_to_cancel: "スライドでキャンセル",
+        chat_mic_denied: "ボイスメッセージを録音するにはマイクへのアクセスを許可してください",
+        chat_mic_unsupported: "このブラウザではボイスメッセージを録音できません",
+        conn_chat_options: "チャットのオプション",
+        conn_pin: "上部に固定",
+        conn_unpin: "固定を解除",
+        conn_mute: "ミュート",
+        conn_unmute: "ミュートを解除",
+        conn_mute_hour: "1時間",
+        conn_mute_eightHours: "8時間",
+        conn_mute_week: "1週間",
+        conn_mute_forever: "オンに戻すまで",
+        conn_archive: "アーカイブ",
+        conn_unarchive: "アーカイブを解除",
+        conn_archived: "アーカイブ済み",
+        conn_archived_hint: "新しいメッセージが届くとアーカイブしたチャットは戻ります",
+        conn_back_to_chats: "チャットに戻る",
+        conn_pinned: "固定済み",
+        conn_muted: "ミュート中",
+        chat_delete_for_me: "自分から削除",
+        chat_unsend: "送信取消",
+        chat_unsend_desc: "このメッセージをチャットの全員から削除しますか？",
+        chat_react: "リアクション",
     },
     [Language.KOREAN]: {
         welcome: "환영합니다",
@@ -520,6 +1065,9 @@ export const TRANSLATIONS = {
         settings_privacy: "개인 정보",
         privacy_searchable: "검색 허용",
         privacy_searchable_desc: "다른 학생이 이름이나 전공으로 나를 찾을 수 있도록 허용합니다.",
+        settings_blocked: "차단한 사용자",
+        settings_blocked_none: "차단한 사용자가 없습니다.",
+        settings_unblock: "차단 해제",
         notif_general: "알림 허용",
         notif_general_desc: "모든 푸시 알림 활성화 또는 비활성화",
         notif_daily: "일일 스마트 매치",
@@ -565,21 +1113,127 @@ export const TRANSLATIONS = {
         disc_common: "공통 관심사",
         disc_common_none: "공통 관심사가 없습니다.",
         disc_langs: "언어",
-        disc_search_placeholder: "이름, 전공 또는 이메일로 검색...",
+        disc_search_placeholder: "이름, 전공, 관심사, 언어 또는 지역으로 검색...",
         disc_search_results: "검색 결과",
         disc_search_none: "일치하는 학생이 없습니다.",
+        disc_search_tips: "major:, lang:, interest:, region:로 좁혀 보세요 (예: major:Forestry lang:Korean)",
+        disc_search_more: "더 보기",
+        disc_why_title: "매칭된 이유",
+        disc_why_region: "같은 출신 지역",
+        disc_why_languages: "공통 언어",
+        disc_why_interests: "공통 관심사",
+        disc_why_major: "다른 전공",
+        disc_why_bio: "비슷한 자기소개",
+        disc_undo: "실행 취소",
+        disc_shortcuts: "← 패스 · → 연결 · Enter: 프로필 보기",
+        disc_filters: "필터",
+        filter_title: "탐색 필터",
+        filter_majors: "전공",
+        filter_majors_hint: "한 번 탭하면 포함, 두 번 탭하면 제외됩니다.",
+        filter_own_major: "같은 전공 학생 보기",
+        filter_interests: "필수 관심사",
+        filter_languages: "사용 언어",
+        filter_country: "출신 국가",
+        filter_country_hint: "예: 한국",
+        filter_apply: "적용",
+        filter_reset: "초기화",
+        safety_options: "안전 옵션",
+        safety_block: "차단",
+        safety_report: "신고",
+        safety_block_title: "이 사용자를 차단할까요?",
+        safety_block_desc: "탐색, 검색, 요청, 채팅에서 서로 보이지 않게 됩니다. 설정에서 차단을 해제할 수 있습니다.",
+        safety_cancel: "취소",
+        conn_remove: "연결 삭제",
+        conn_remove_title: "이 연결을 삭제할까요?",
+        conn_remove_desc: "서로의 연결 목록에서 사라집니다. 상대방에게 알림이 가지 않습니다.",
+        conn_remove_hide_history: "채팅 기록도 숨기기",
+        conn_remove_confirm: "삭제",
+        report_title: "사용자 신고",
+        report_reason: "어떤 문제가 있나요?",
+        report_reason_spam: "스팸 또는 사기",
+        report_reason_harassment: "괴롭힘 또는 따돌림",
+        report_reason_inappropriate: "부적절한 콘텐츠",
+        report_reason_fake_profile: "가짜 프로필",
+        report_reason_underage: "미성년 사용자",
+        report_reason_other: "기타",
+        report_details: "세부 정보 (선택)",
+        report_also_block: "이 사용자도 차단",
+        report_submit: "신고 제출",
 
         conn_title: "연결",
         conn_loading: "로딩 중...",
         conn_empty: "아직 연결이 없습니다",
         conn_empty_sub: "스와이프하여 친구를 찾아보세요!",
+        conn_you_prefix: "나: ",
+        conn_photo: "사진",
+        conn_no_messages: "아직 메시지가 없습니다",
+        conn_yesterday: "어제",
 
         chat_invalid: "유효하지 않은 채팅 ID",
         chat_placeholder: "메시지...",
         chat_empty: "메시지가 없습니다. 인사해 보세요!",
         chat_sending: "전송 중",
         chat_failed: "실패",
+        chat_queued: "연결 대기 중",
+        chat_not_delivered: "전송되지 않음",
+        chat_retry: "다시 시도",
+        chat_delete: "삭제",
+        chat_sent: "전송됨",
+        chat_delivered: "전달됨",
+        chat_seen: "읽음",
+        chat_typing: "입력 중…",
+        chat_online: "온라인",
+        chat_last_seen: "마지막 접속",
         chat_photo: "사진 보내기",
+        chat_load_older: "이전 메시지 불러오기",
+        chat_message_options: "메시지 옵션",
+        chat_edit: "수정",
+        chat_edited: "수정됨",
+        chat_editing: "메시지 수정 중",
+        chat_reply: "답장",
+        chat_replying_to: "답장 대상",
+        chat_you: "나",
+        chat_original_unavailable: "원본 메시지를 볼 수 없습니다",
+        group_new: "새 그룹",
+        group_create: "그룹 만들기",
+        group_name: "그룹 이름",
+        group_name_placeholder: "예: CPSC 110 스터디",
+        group_topic: "주제",
+        group_members: "멤버",
+        group_add_members: "멤버 추가",
+        group_no_connections: "그룹에 추가하려면 먼저 친구를 맺으세요.",
+        group_info: "그룹 정보",
+        group_leave: "그룹 나가기",
+        group_leave_desc: "이 그룹의 메시지를 더 이상 받지 않습니다. 다른 멤버의 대화는 유지됩니다.",
+        chat_search: "채팅에서 검색",
+        chat_search_placeholder: "이 채팅 검색",
+        conn_search_placeholder: "메시지 검색",
+        chat_search_none: "메시지를 찾을 수 없습니다",
+        chat_voice_message: "음성 메시지",
+        chat_hold_to_record: "길게 눌러 음성 메시지 녹음",
+        chat_slide_to_cancel: "밀어서 취소",
+        chat_mic_denied: "음성 메시지를 녹음하려면 마이크 접근을 허용하세요",
+        chat_mic_unsupported: "이 브라우저에서는 음성 메시지를 녹음할 수 없습니다",
+        conn_chat_options: "채팅 옵션",
+        conn_pin: "맨 위에 고정",
+        conn_unpin: "고정 해제",
+        conn_mute: "알림 끄기",
+        conn_unmute: "알림 켜기",
+        conn_mute_hour: "1시간 동안",
+        conn_mute_eightHours: "8시간 동안",
+        conn_mute_week: "1주일 동안",
+        conn_mute_forever: "다시 켤 때까지",
+        conn_archive: "보관",
+        conn_unarchive: "보관 해제",
+        conn_archived: "보관됨",
+        conn_archived_hint: "새 메시지가 오면 보관된 채팅이 다시 나타납니다",
+        conn_back_to_chats: "채팅으로 돌아가기",
+        conn_pinned: "고정됨",
+        conn_muted: "알림 꺼짐",
+        chat_delete_for_me: "나에게서 삭제",
+        chat_unsend: "전송 취소",
+        chat_unsend_desc: "채팅의 모든 사람에게서 이 메시지를 삭제할까요?",
+        chat_react: "반응",
     },
     [Language.FRENCH]: {
         welcome: "Bon retour",
@@ -615,6 +1269,9 @@ export const TRANSLATIONS = {
         settings_privacy: "Confidentialité",
         privacy_searchable: "Autoriser la recherche",
         privacy_searchable_desc: "Autoriser les autres étudiants à vous trouver.",
+        settings_blocked: "Utilisateurs bloqués",
+        settings_blocked_none: "Vous n'avez bloqué personne.",
+        settings_unblock: "Débloquer",
         notif_general: "Autoriser les notifications",
         notif_general_desc: "Activer ou désactiver toutes les notifications push",
         notif_daily: "Matchs intelligents quotidiens",
@@ -660,21 +1317,127 @@ export const TRANSLATIONS = {
         disc_common: "Intérêts communs",
         disc_common_none: "Aucun intérêt commun trouvé.",
         disc_langs: "Langues",
-        disc_search_placeholder: "Rechercher nom, majeure ou e-mail...",
+        disc_search_placeholder: "Rechercher nom, filière, intérêt, langue ou région...",
         disc_search_results: "Résultats de la recherche",
         disc_search_none: "Aucun étudiant trouvé.",
+        disc_search_tips: "Affinez avec major:, lang:, interest: ou region: (ex. major:Forestry lang:Korean)",
+        disc_search_more: "Afficher plus",
+        disc_why_title: "Pourquoi vous correspondez",
+        disc_why_region: "Même région d'origine",
+        disc_why_languages: "Langues en commun",
+        disc_why_interests: "Centres d'intérêt communs",
+        disc_why_major: "Filière différente",
+        disc_why_bio: "Bios similaires",
+        disc_undo: "Annuler",
+        disc_shortcuts: "← passer · → se connecter · Entrée : voir le profil",
+        disc_filters: "Filtres",
+        filter_title: "Filtres de découverte",
+        filter_majors: "Filières",
+        filter_majors_hint: "Touchez une fois pour inclure uniquement, deux fois pour exclure.",
+        filter_own_major: "Afficher les étudiants de ma filière",
+        filter_interests: "Centres d'intérêt requis",
+        filter_languages: "Doit parler",
+        filter_country: "Pays d'origine",
+        filter_country_hint: "ex. Corée",
+        filter_apply: "Appliquer",
+        filter_reset: "Réinitialiser",
+        safety_options: "Options de sécurité",
+        safety_block: "Bloquer",
+        safety_report: "Signaler",
+        safety_block_title: "Bloquer cet utilisateur ?",
+        safety_block_desc: "Vous ne vous verrez plus dans la découverte, la recherche, les demandes ni le chat. Vous pouvez le débloquer dans les Paramètres.",
+        safety_cancel: "Annuler",
+        conn_remove: "Retirer la connexion",
+        conn_remove_title: "Retirer cette connexion ?",
+        conn_remove_desc: "Vous disparaîtrez des connexions l'un de l'autre. La personne ne sera pas prévenue.",
+        conn_remove_hide_history: "Masquer aussi notre historique de discussion",
+        conn_remove_confirm: "Retirer",
+        report_title: "Signaler l'utilisateur",
+        report_reason: "Quel est le problème ?",
+        report_reason_spam: "Spam ou arnaque",
+        report_reason_harassment: "Harcèlement ou intimidation",
+        report_reason_inappropriate: "Contenu inapproprié",
+        report_reason_fake_profile: "Faux profil",
+        report_reason_underage: "Utilisateur mineur",
+        report_reason_other: "Autre chose",
+        report_details: "Détails (facultatif)",
+        report_also_block: "Bloquer aussi cet utilisateur",
+        report_submit: "Envoyer le signalement",
 
         conn_title: "Connexions",
         conn_loading: "Chargement...",
         conn_empty: "Pas encore de connexions",
         conn_empty_sub: "Commencez à swiper pour trouver des amis !",
+        conn_you_prefix: "Vous : ",
+        conn_photo: "Photo",
+        conn_no_messages: "Pas encore de messages",
+        conn_yesterday: "Hier",
 
         chat_invalid: "ID de chat invalide",
         chat_placeholder: "Message...",
         chat_empty: "Pas de messages. Dites bonjour !",
         chat_sending: "envoi",
         chat_failed: "échec",
+        chat_queued: "En attente de connexion",
+        chat_not_delivered: "Non distribué",
+        chat_retry: "Réessayer",
+        chat_delete: "Supprimer",
+        chat_sent: "Envoyé",
+        chat_delivered: "Distribué",
+        chat_seen: "Vu",
+        chat_typing: "écrit…",
+        chat_online: "En ligne",
+        chat_last_seen: "Vu à",
         chat_photo: "Envoyer photo",
+        chat_load_older: "Charger les messages précédents",
+        chat_message_options: "Options du message",
+        chat_edit: "Modifier",
+        chat_edited: "modifié",
+        chat_editing: "Modification du message",
+        chat_reply: "Répondre",
+        chat_replying_to: "Réponse à",
+        chat_you: "Vous",
+        chat_original_unavailable: "Message d'origine indisponible",
+        group_new: "Nouveau groupe",
+        group_create: "Créer le groupe",
+        group_name: "Nom du groupe",
+        group_name_placeholder: "ex. Groupe d'étude CPSC 110",
+        group_topic: "Thème",
+        group_members: "Membres",
+        group_add_members: "Ajouter des membres",
+        group_no_connections: "Connectez-vous d'abord avec des personnes pour les ajouter à un groupe.",
+        group_info: "Infos du groupe",
+        group_leave: "Quitter le groupe",
+        group_leave_desc: "Vous ne recevrez plus les messages de ce groupe. Les autres gardent la discussion.",
+        chat_search: "Rechercher dans la discussion",
+        chat_search_placeholder: "Rechercher dans cette discussion",
+        conn_search_placeholder: "Rechercher des messages",
+        chat_search_none: "Aucun message trouvé",
+        chat_voice_message: "Message vocal",
+        chat_hold_to_record: "Maintenez pour enregistrer un message vocal",
+        chat_slide_to_cancel: "Glissez pour annuler",
+        chat_mic_denied: "Autorisez l'accès au micro pour enregistrer des messages vocaux",
+        chat_mic_unsupported: "Ce navigateur ne peut pas enregistrer de messages vocaux",
+        conn_chat_options: "Options de la discussion",
+        conn_pin: "Épingler en haut",
+        conn_unpin: "Désépingler",
+        conn_mute: "Mettre en sourdine",
+        conn_unmute: "Réactiver le son",
+        conn_mute_hour: "Pendant 1 heure",
+        conn_mute_eightHours: "Pendant 8 heures",
+        conn_mute_week: "Pendant 1 semaine",
+        conn_mute_forever: "Jusqu'à ce que je le réactive",
+        conn_archive: "Archiver",
+        conn_unarchive: "Désarchiver",
+        conn_archived: "Archivées",
+        conn_archived_hint: "Les discussions archivées reviennent à l'arrivée d'un nouveau message",
+        conn_back_to_chats: "Retour aux discussions",
+        conn_pinned: "Épinglée",
+        conn_muted: "En sourdine",
+        chat_delete_for_me: "Supprimer pour moi",
+        chat_unsend: "Annuler l'envoi",
+        chat_unsend_desc: "Supprimer ce message pour tout le monde dans la discussion ?",
+        chat_react: "Réagir",
     },
     [Language.ITALIAN]: {
         welcome: "Bentornato",
@@ -710,6 +1473,9 @@ export const TRANSLATIONS = {
         settings_privacy: "Privacy",
         privacy_searchable: "Consenti ricerca",
         privacy_searchable_desc: "Consenti agli altri di trovarti.",
+        settings_blocked: "Utenti bloccati",
+        settings_blocked_none: "Non hai bloccato nessuno.",
+        settings_unblock: "Sblocca",
         notif_general: "Consenti notifiche",
         notif_general_desc: "Abilita o disabilita tutte le notifiche push",
         notif_daily: "Match intelligenti giornalieri",
@@ -755,21 +1521,127 @@ export const TRANSLATIONS = {
         disc_common: "Interessi comuni",
         disc_common_none: "Nessun interesse comune trovato.",
         disc_langs: "Lingue",
-        disc_search_placeholder: "Cerca nome, corso o email...",
+        disc_search_placeholder: "Cerca nome, corso, interesse, lingua o regione...",
         disc_search_results: "Risultati ricerca",
         disc_search_none: "Nessuno studente trovato.",
+        disc_search_tips: "Restringi con major:, lang:, interest: o region: (es. major:Forestry lang:Korean)",
+        disc_search_more: "Mostra altri",
+        disc_why_title: "Perché siete compatibili",
+        disc_why_region: "Stessa regione di origine",
+        disc_why_languages: "Lingue in comune",
+        disc_why_interests: "Interessi in comune",
+        disc_why_major: "Corso di laurea diverso",
+        disc_why_bio: "Bio simili",
+        disc_undo: "Annulla",
+        disc_shortcuts: "← passa · → connetti · Invio: vedi profilo",
+        disc_filters: "Filtri",
+        filter_title: "Filtri di scoperta",
+        filter_majors: "Corsi di laurea",
+        filter_majors_hint: "Tocca una volta per includere solo, due volte per escludere.",
+        filter_own_major: "Mostra studenti del mio corso",
+        filter_interests: "Interessi richiesti",
+        filter_languages: "Deve parlare",
+        filter_country: "Paese d'origine",
+        filter_country_hint: "es. Corea",
+        filter_apply: "Applica",
+        filter_reset: "Reimposta",
+        safety_options: "Opzioni di sicurezza",
+        safety_block: "Blocca",
+        safety_report: "Segnala",
+        safety_block_title: "Bloccare questo utente?",
+        safety_block_desc: "Non vi vedrete più in scoperta, ricerca, richieste o chat. Puoi sbloccarlo nelle Impostazioni.",
+        safety_cancel: "Annulla",
+        conn_remove: "Rimuovi connessione",
+        conn_remove_title: "Rimuovere questa connessione?",
+        conn_remove_desc: "Sparirete dalle connessioni l'uno dell'altro. Non riceverà notifiche.",
+        conn_remove_hide_history: "Nascondi anche la cronologia della chat",
+        conn_remove_confirm: "Rimuovi",
+        report_title: "Segnala utente",
+        report_reason: "Qual è il problema?",
+        report_reason_spam: "Spam o truffa",
+        report_reason_harassment: "Molestie o bullismo",
+        report_reason_inappropriate: "Contenuti inappropriati",
+        report_reason_fake_profile: "Profilo falso",
+        report_reason_underage: "Utente minorenne",
+        report_reason_other: "Altro",
+        report_details: "Dettagli (facoltativo)",
+        report_also_block: "Blocca anche questo utente",
+        report_submit: "Invia segnalazione",
 
         conn_title: "Connessioni",
         conn_loading: "Caricamento...",
         conn_empty: "Nessuna connessione ancora",
         conn_empty_sub: "Inizia a scorrere per trovare amici!",
+        conn_you_prefix: "Tu: ",
+        conn_photo: "Foto",
+        conn_no_messages: "Ancora nessun messaggio",
+        conn_yesterday: "Ieri",
 
         chat_invalid: "ID chat non valido",
         chat_placeholder: "Messaggio...",
         chat_empty: "Nessun messaggio. Di' ciao!",
         chat_sending: "invio",
         chat_failed: "fallito",
+        chat_queued: "In attesa di connessione",
+        chat_not_delivered: "Non consegnato",
+        chat_retry: "Riprova",
+        chat_delete: "Elimina",
+        chat_sent: "Inviato",
+        chat_delivered: "Consegnato",
+        chat_seen: "Visualizzato",
+        chat_typing: "sta scrivendo…",
+        chat_online: "Online",
+        chat_last_seen: "Ultimo accesso",
         chat_photo: "Invia foto",
+        chat_load_older: "Carica messaggi precedenti",
+        chat_message_options: "Opzioni messaggio",
+        chat_edit: "Modifica",
+        chat_edited: "modificato",
+        chat_editing: "Modifica del messaggio",
+        chat_reply: "Rispondi",
+        chat_replying_to: "Rispondi a",
+        chat_you: "Tu",
+        chat_original_unavailable: "Messaggio originale non disponibile",
+        group_new: "Nuovo gruppo",
+        group_create: "Crea gruppo",
+        group_name: "Nome del gruppo",
+        group_name_placeholder: "es. Gruppo di studio CPSC 110",
+        group_topic: "Tema",
+        group_members: "Membri",
+        group_add_members: "Aggiungi membri",
+        group_no_connections: "Collegati prima con qualcuno per aggiungerlo a un gruppo.",
+        group_info: "Info gruppo",
+        group_leave: "Abbandona il gruppo",
+        group_leave_desc: "Non riceverai più i messaggi di questo gruppo. Gli altri mantengono la chat.",
+        chat_search: "Cerca nella chat",
+        chat_search_placeholder: "Cerca in questa chat",
+        conn_search_placeholder: "Cerca messaggi",
+        chat_search_none: "Nessun messaggio trovato",
+        chat_voice_message: "Messaggio vocale",
+        chat_hold_to_record: "Tieni premuto per registrare un messaggio vocale",
+        chat_slide_to_cancel: "Scorri per annullare",
+        chat_mic_denied: "Consenti l'accesso al microfono per registrare messaggi vocali",
+        chat_mic_unsupported: "Questo browser non può registrare messaggi vocali",
+        conn_chat_options: "Opzioni chat",
+        conn_pin: "Fissa in alto",
+        conn_unpin: "Sblocca",
+        conn_mute: "Silenzia",
+        conn_unmute: "Riattiva",
+        conn_mute_hour: "Per 1 ora",
+        conn_mute_eightHours: "Per 8 ore",
+        conn_mute_week: "Per 1 settimana",
+        conn_mute_forever: "Finché non la riattivo",
+        conn_archive: "Archivia",
+        conn_unarchive: "Ripristina",
+        conn_archived: "Archiviate",
+        conn_archived_hint: "Le chat archiviate tornano quando arriva un nuovo messaggio",
+        conn_back_to_chats: "Torna alle chat",
+        conn_pinned: "Fissata",
+        conn_muted: "Silenziata",
+        chat_delete_for_me: "Elimina per me",
+        chat_unsend: "Annulla invio",
+        chat_unsend_desc: "Rimuovere questo messaggio per tutti nella chat?",
+        chat_react: "Reagisci",
     },
     [Language.PORTUGUESE]: {
         welcome: "Bem-vindo de volta",
@@ -805,6 +1677,9 @@ export const TRANSLATIONS = {
         settings_privacy: "Privacidade",
         privacy_searchable: "Permitir busca",
         privacy_searchable_desc: "Permitir que outros encontrem você.",
+        settings_blocked: "Usuários bloqueados",
+        settings_blocked_none: "Você não bloqueou ninguém.",
+        settings_unblock: "Desbloquear",
         notif_general: "Permitir notificações",
         notif_general_desc: "Habilitar ou desabilitar todas as notificações push",
         notif_daily: "Combinações inteligentes diárias",
@@ -850,20 +1725,126 @@ export const TRANSLATIONS = {
         disc_common: "Interessi comuns",
         disc_common_none: "Nenhum interesse comum encontrado.",
         disc_langs: "Idiomas",
-        disc_search_placeholder: "Pesquisar nome, curso ou e-mail...",
+        disc_search_placeholder: "Pesquisar nome, curso, interesse, idioma ou região...",
         disc_search_results: "Resultados da pesquisa",
         disc_search_none: "Nenhum aluno encontrado.",
+        disc_search_tips: "Refine com major:, lang:, interest: ou region: (ex.: major:Forestry lang:Korean)",
+        disc_search_more: "Mostrar mais",
+        disc_why_title: "Por que vocês combinam",
+        disc_why_region: "Mesma região de origem",
+        disc_why_languages: "Idiomas em comum",
+        disc_why_interests: "Interesses em comum",
+        disc_why_major: "Curso diferente",
+        disc_why_bio: "Bios parecidas",
+        disc_undo: "Desfazer",
+        disc_shortcuts: "← passar · → conectar · Enter: ver perfil",
+        disc_filters: "Filtros",
+        filter_title: "Filtros de descoberta",
+        filter_majors: "Cursos",
+        filter_majors_hint: "Toque uma vez para incluir apenas, duas vezes para excluir.",
+        filter_own_major: "Mostrar estudantes do meu curso",
+        filter_interests: "Interesses obrigatórios",
+        filter_languages: "Deve falar",
+        filter_country: "País de origem",
+        filter_country_hint: "ex.: Coreia",
+        filter_apply: "Aplicar",
+        filter_reset: "Redefinir",
+        safety_options: "Opções de segurança",
+        safety_block: "Bloquear",
+        safety_report: "Denunciar",
+        safety_block_title: "Bloquear este usuário?",
+        safety_block_desc: "Vocês não se verão na descoberta, pesquisa, pedidos ou chat. Você pode desbloquear nas Configurações.",
+        safety_cancel: "Cancelar",
+        conn_remove: "Remover conexão",
+        conn_remove_title: "Remover esta conexão?",
+        conn_remove_desc: "Vocês sairão das conexões um do outro. A pessoa não será notificada.",
+        conn_remove_hide_history: "Ocultar também nosso histórico de conversa",
+        conn_remove_confirm: "Remover",
+        report_title: "Denunciar usuário",
+        report_reason: "Qual é o problema?",
+        report_reason_spam: "Spam ou golpe",
+        report_reason_harassment: "Assédio ou bullying",
+        report_reason_inappropriate: "Conteúdo impróprio",
+        report_reason_fake_profile: "Perfil falso",
+        report_reason_underage: "Usuário menor de idade",
+        report_reason_other: "Outro motivo",
+        report_details: "Detalhes (opcional)",
+        report_also_block: "Também bloquear este usuário",
+        report_submit: "Enviar denúncia",
 
         conn_title: "Conexões",
         conn_loading: "Carregando...",
         conn_empty: "Ainda sem conexões",
         conn_empty_sub: "Comece a deslizar para encontrar amigos!",
+        conn_you_prefix: "Você: ",
+        conn_photo: "Foto",
+        conn_no_messages: "Nenhuma mensagem ainda",
+        conn_yesterday: "Ontem",
 
         chat_invalid: "ID de chat inválido",
         chat_placeholder: "Mensagem...",
         chat_empty: "Sem mensagens. Diga olá!",
         chat_sending: "enviando",
         chat_failed: "falhou",
+        chat_queued: "Aguardando conexão",
+        chat_not_delivered: "Não entregue",
+        chat_retry: "Tentar novamente",
+        chat_delete: "Excluir",
+        chat_sent: "Enviado",
+        chat_delivered: "Entregue",
+        chat_seen: "Visto",
+        chat_typing: "digitando…",
+        chat_online: "Online",
+        chat_last_seen: "Visto por último",
         chat_photo: "Enviar foto",
+        chat_load_older: "Carregar mensagens anteriores",
+        chat_message_options: "Opções da mensagem",
+        chat_edit: "Editar",
+        chat_edited: "editada",
+        chat_editing: "Editando mensagem",
+        chat_reply: "Responder",
+        chat_replying_to: "Respondendo a",
+        chat_you: "Você",
+        chat_original_unavailable: "Mensagem original indisponível",
+        group_new: "Novo grupo",
+        group_create: "Criar grupo",
+        group_name: "Nome do grupo",
+        group_name_placeholder: "ex.: Grupo de estudos CPSC 110",
+        group_topic: "Tema",
+        group_members: "Membros",
+        group_add_members: "Adicionar membros",
+        group_no_connections: "Conecte-se primeiro com pessoas para adicioná-las a um grupo.",
+        group_info: "Informações do grupo",
+        group_leave: "Sair do grupo",
+        group_leave_desc: "Você deixará de receber as mensagens deste grupo. Os outros mantêm a conversa.",
+        chat_search: "Pesquisar na conversa",
+        chat_search_placeholder: "Pesquisar nesta conversa",
+        conn_search_placeholder: "Pesquisar mensagens",
+        chat_search_none: "Nenhuma mensagem encontrada",
+        chat_voice_message: "Mensagem de voz",
+        chat_hold_to_record: "Segure para gravar uma mensagem de voz",
+        chat_slide_to_cancel: "Deslize para cancelar",
+        chat_mic_denied: "Permita o acesso ao microfone para gravar mensagens de voz",
+        chat_mic_unsupported: "Este navegador não pode gravar mensagens de voz",
+        conn_chat_options: "Opções da conversa",
+        conn_pin: "Fixar no topo",
+        conn_unpin: "Desafixar",
+        conn_mute: "Silenciar",
+        conn_unmute: "Reativar som",
+        conn_mute_hour: "Por 1 hora",
+        conn_mute_eightHours: "Por 8 horas",
+        conn_mute_week: "Por 1 semana",
+        conn_mute_forever: "Até eu reativar",
+        conn_archive: "Arquivar",
+        conn_unarchive: "Desarquivar",
+        conn_archived: "Arquivadas",
+        conn_archived_hint: "Conversas arquivadas voltam quando chega uma nova mensagem",
+        conn_back_to_chats: "Voltar às conversas",
+        conn_pinned: "Fixada",
+        conn_muted: "Silenciada",
+        chat_delete_for_me: "Excluir para mim",
+        chat_unsend: "Cancelar envio",
+        chat_unsend_desc: "Remover esta mensagem para todos na conversa?",
+        chat_react: "Reagir",
     }
 };
\ No newline at end of file
@@ -0,0 +1,203 @@
+/**
+ * User Search Utility
+ *
+ * Parses search box queries and ranks the profiles that match them.
+ * Free text terms are matched against name, major, interests, languages and home region;
+ * tokens such as `major:Forestry lang:Korean` restrict a single field.
+ * Token values containing spaces can be quoted: `major:"Computer Science"`.
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+import { Major, Interest, Language, MatchProfileModel, SearchField, UserSearchResult } from '../types';
+
+export interface SearchToken {
+    field: SearchField;
+    value: string;
+}
+
+export interface ParsedSearchQuery {
+    terms: string[];       // Free text; each term must match at least one field
+    tokens: SearchToken[]; // field:value; each token must match its field
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+// Token prefixes the search box understands
+const TOKEN_FIELDS: Record<string, SearchField> = {
+    name: 'displayName',
+    major: 'major',
+    interest: 'interests',
+    lang: 'languages',
+    language: 'languages',
+    region: 'homeRegion',
+    from: 'homeRegion'
+};
+
+// Fields with a fixed set of values; text resolves to the values containing it
+const FIELD_VALUES: Partial<Record<SearchField, string[]>> = {
+    major: Object.values(Major),
+    interests: Object.values(Interest),
+    languages: Object.values(Language)
+};
+
+/*
+ * Points per field a term or token matched.
+ * Names rank highest since that is what people usually type.
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+    displayName: 5,
+    major: 3,
+    interests: 2,
+    languages: 2,
+    homeRegion: 2
+};
+
+// Extra points when a name starts with the term (e.g. "mar" -> "Maria")
+const NAME_PREFIX_BONUS = 2;
+
+// key:"quoted value" | key:value | "quoted term" | term
+const QUERY_PART = /(\w+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g;
+
+/**
+ * Splits a search box query into free text terms and field tokens
+ * @param query - Raw input, e.g. `maria lang:Spanish`
+ * @returns ParsedSearchQuery - Unknown prefixes are kept as free text
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+    const terms: string[] = [];
+    const tokens: SearchToken[] = [];
+
+    for (const [, key, quotedValue, value, quotedTerm, term] of query.matchAll(QUERY_PART)) {
+        if (key !== undefined) {
+            const text = (quotedValue ?? value).trim();
+            const field = TOKEN_FIELDS[key.toLowerCase()];
+            if (!text) continue;
+            if (field) {
+                tokens.push({ field, value: text });
+            } else {
+                terms.push(`${key}:${text}`);
+            }
+        } else {
+            const text = (quotedTerm ?? term).trim();
+            if (text) terms.push(text);
+        }
+    }
+
+    return { terms, tokens };
+}
+
+/**
+ * Resolves text to the known values of a fixed-value field
+ * @param field - 'major', 'interests' or 'languages'
+ * @param text - Case-insensitive substring, e.g. "mandarin"
+ * @returns string[] - Matching values (empty for free-text fields)
+ */
+export function resolveSearchValues(field: SearchField, text: string): string[] {
+    const needle = text.toLowerCase();
+    return (FIELD_VALUES[field] || []).filter(v => v.toLowerCase().includes(needle));
+}
+
+const includesText = (value: string | undefined, text: string): boolean =>
+    !!value && value.toLowerCase().includes(text.toLowerCase());
+
+// What the text matched in one field of the profile (empty if nothing)
+const matchField = (profile: MatchProfileModel, field: SearchField, text: string): string[] => {
+    switch (field) {
+        case 'displayName':
+            return includesText(profile.displayName, text) ? [text] : [];
+        case 'homeRegion':
+            return includesText(profile.homeRegion, text) ? [text] : [];
+        case 'major':
+            return includesText(profile.major, text) ? [profile.major] : [];
+        case 'interests':
+            return profile.commonInterests.filter(i => includesText(i, text));
+        case 'languages':
+            return profile.languages.filter(l => includesText(l, text));
+    }
+};
+
+const startsWord = (value: string, text: string): boolean =>
+    value.toLowerCase().split(/\s+/).some(word => word.startsWith(text.toLowerCase()));
+
+/**
+ * Scores a profile against a parsed query
+ * @param profile - Candidate profile
+ * @param query - Parsed query
+ * @returns UserSearchResult | null - null if a term or token does not match
+ */
+export function scoreSearchResult(profile: MatchProfileModel, query: ParsedSearchQuery): UserSearchResult | null {
+    const matches: Partial<Record<SearchField, string[]>> = {};
+    let score = 0;
+
+    const record = (field: SearchField, values: string[]) => {
+        score += SEARCH_FIELD_WEIGHTS[field];
+        matches[field] = Array.from(new Set([...(matches[field] || []), ...values]));
+    };
+
+    for (const term of query.terms) {
+        let matched = false;
+        (Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+            const values = matchField(profile, field, term);
+            if (values.length > 0) {
+                record(field, values);
+                matched = true;
+            }
+        });
+        if (!matched) return null;
+        if (startsWord(profile.displayName, term)) score += NAME_PREFIX_BONUS;
+    }
+
+    for (const token of query.tokens) {
+        const values = matchField(profile, token.field, token.value);
+        if (values.length === 0) return null;
+        record(token.field, values);
+    }
+
+    return { profile, score, matches };
+}
+
+/**
+ * Orders results best first; ties are broken by name so pages are stable
+ * @param results - Scored results
+ * @returns UserSearchResult[] - A new, sorted array
+ */
+export function rankSearchResults(results: UserSearchResult[]): UserSearchResult[] {
+    return [...results].sort((a, b) =>
+        b.score - a.score ||
+        a.profile.displayName.localeCompare(b.profile.displayName) ||
+        a.profile.uid.localeCompare(b.profile.uid)
+    );
+}
+
+/**
+ * Splits text into matching and non-matching segments for highlighting
+ * @param text - Text to display
+ * @param needles - Case-insensitive substrings to highlight
+ * @returns HighlightSegment[] - Concatenating the segments gives back text
+ */
+export function highlightText(text: string, needles: string[] = []): HighlightSegment[] {
+    const lower = text.toLowerCase();
+    const marked = new Array<boolean>(text.length).fill(false);
+
+    needles.filter(Boolean).forEach(needle => {
+        const n = needle.toLowerCase();
+        for (let i = lower.indexOf(n); i !== -1; i = lower.indexOf(n, i + 1)) {
+            marked.fill(true, i, i + n.length);
+        }
+    });
+
+    const segments: HighlightSegment[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const last = segments[segments.length - 1];
+        if (last && last.match === marked[i]) {
+            last.text += text[i];
+        } else {
+            segments.push({ text: text[i], match: marked[i] });
+        }
+    }
+    return segments;
+}
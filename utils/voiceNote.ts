@@ -0,0 +1,62 @@
+/**
+ * Voice Note Utility
+ *
+ * Limits for recording voice notes, the waveform stored with each one and
+ * how their length is shown.
+ *
+ * Pure functions only - no network or store access, so it can be unit tested directly.
+ */
+
+// Recording stops by itself after this long
+export const MAX_VOICE_NOTE_MS = 2 * 60 * 1000;
+
+// Shorter recordings are taken as an accidental tap and discarded
+export const MIN_VOICE_NOTE_MS = 600;
+
+// Bars in a voice note's waveform, whatever its length
+export const VOICE_NOTE_BARS = 40;
+
+// Quieter than this counts as silence, so a silent recording does not draw as full bars
+const SILENCE_LEVEL = 0.02;
+
+/**
+ * Reduces the input levels sampled while recording to a fixed number of bars
+ * @param levels - Levels from 0 to 1, oldest first
+ * @param bars - Bars to produce
+ * @returns number[] - The loudest level per bar, scaled so the loudest bar is 1 (two decimals)
+ */
+export function summarizeLevels(levels: number[], bars = VOICE_NOTE_BARS): number[] {
+    if (levels.length === 0) return new Array(bars).fill(0);
+
+    const peaks = Array.from({ length: bars }, (_, i) => {
+        const start = Math.floor(i * levels.length / bars);
+        const end = Math.max(start + 1, Math.floor((i + 1) * levels.length / bars));
+        return Math.max(...levels.slice(start, end));
+    });
+    const loudest = Math.max(...peaks);
+    if (loudest < SILENCE_LEVEL) return peaks.map(() => 0);
+    return peaks.map(peak => Math.round(Math.min(1, peak / loudest) * 100) / 100);
+}
+
+/**
+ * Formats a voice note's length (or playback position) for display
+ * @param ms - Duration in milliseconds
+ * @returns string - e.g. "0:07" or "1:42"
+ */
+export function formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * The file extension to store a recording under
+ * @param mimeType - As reported by MediaRecorder, e.g. "audio/webm;codecs=opus"
+ * @returns string - "webm", "ogg" or "m4a" (Safari records MP4)
+ */
+export function audioExtension(mimeType: string): string {
+    if (mimeType.startsWith('audio/ogg')) return 'ogg';
+    if (mimeType.startsWith('audio/mp4') || mimeType.startsWith('audio/aac')) return 'm4a';
+    return 'webm';
+}
@@ -1,79 +1,329 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { useChat } from '../hooks/useChat';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { DataRepository } from '../services/dataRepository';
-import { UserModel, Message } from '../types';
+import { UserModel, Message, MessageSearchResult } from '../types';
 import { useAppStore } from '../store/useAppStore';
 import { TRANSLATIONS } from '../utils/translations';
+import { UserSafetyMenu } from '../components/UserSafetyMenu';
+import { ChatImage } from '../components/ChatImage';
+import { ImageLightbox } from '../components/ImageLightbox';
+import { MessageActionsMenu } from '../components/MessageActionsMenu';
+import { ReactionPicker } from '../components/ReactionPicker';
+import { ReactionChips } from '../components/ReactionChips';
+import { GroupAvatar } from '../components/GroupAvatar';
+import { GroupInfoPanel } from '../components/GroupInfoPanel';
+import { MessageSearchResultList } from '../components/MessageSearchResultList';
+import { MessageText } from '../components/MessageText';
+import { LinkPreviewCard } from '../components/LinkPreviewCard';
+import { VoiceNotePlayer } from '../components/VoiceNotePlayer';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { formatDuration } from '../utils/voiceNote';
+import { formatRecentTime } from '../utils/timeFormat';
+import { findLinks } from '../utils/messageFormat';
 
 /*
  * ChatView
  * 
  * Abstraction Function:
- * Renders the conversation interface between the current user and a connection.
+ * Renders the conversation interface between the current user and a connection,
+ * or a group chat (/group/:groupId), where bubbles also show who sent them.
  * Handles auto-scrolling, message grouping, and input capture.
+ * The chat can be searched; picking a result (here, or from the chats list via
+ * ?message=) loads history back to that message and highlights it.
  */
 export const ChatView: React.FC = () => {
-    const { uid } = useParams<{ uid: string }>();
+    const { uid: routeUid, groupId } = useParams<{ uid?: string; groupId?: string }>();
+    // In a group chat uid is the group's id, which keys its messages in the store like a user id does
+    const uid = groupId || routeUid;
     const navigate = useNavigate();
+    const [searchParams, setSearchParams] = useSearchParams();
     const [recipient, setRecipient] = useState<Partial<UserModel> | null>(null);
     const [inputText, setInputText] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [lightboxSrc, setLightboxSrc] = useState<string | null>(null);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+    const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+    const [isGroupInfoOpen, setIsGroupInfoOpen] = useState(false);
+    const [reactingMessageId, setReactingMessageId] = useState<string | null>(null);
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [searchQuery, setSearchQuery] = useState('');
+    const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     
-    // Core Logic Hook
-    const { messages, isLoading, sendMessage, currentUserId } = useChat(uid || '');
-    const { uiLanguage } = useAppStore();
+    const {
+        uiLanguage, connections, groups, currentUser, messagesById, messageIdsByConversation, loadingConversations,
+        olderMessagesCursor, isFetchingOlderMessages, onlineUserIds, typingUserIds,
+        loadConversation, fetchOlderMessages, setActiveConversation, sendMessage, sendImage, sendVoiceNote, editMessage, toggleReaction, retryMessage, discardMessage,
+        markAsRead, notifyTyping, stopTyping, fetchGroups, addNotification,
+        searchMessages, messageSearchResults, messageSearchQuery, messageSearchScope, isSearchingMessages
+    } = useAppStore();
     const t = TRANSLATIONS[uiLanguage];
+    const currentUserId = currentUser?.uid;
+
+    // Messages live in the store, keyed by the other user's id
+    const messages: Message[] = useMemo(
+        () => (messageIdsByConversation[uid || ''] || []).map(id => messagesById[id]),
+        [uid, messageIdsByConversation, messagesById]
+    );
+    const isLoading = !!loadingConversations[uid || ''] && messages.length === 0;
+    const hasOlderMessages = !!olderMessagesCursor[uid || ''];
+    const isRecipientOnline = onlineUserIds.includes(uid || '');
+    const isRecipientTyping = typingUserIds.includes(uid || '');
+    const group = groupId ? groups.find(g => g.id === groupId) : undefined;
+    // Group history is only requested once the store knows the id is a group
+    const isReady = !!uid && (!groupId || !!group);
+
+    // Receipts only show under my most recent message
+    const lastOwnMessageId = useMemo(
+        () => [...messages].reverse().find(m => m.senderId === currentUserId)?.id,
+        [messages, currentUserId]
+    );
+    const receiptLabel = (msg: Message) =>
+        msg.status === 'read' ? t.chat_seen :
+        msg.status === 'delivered' ? t.chat_delivered :
+        msg.status === 'sent' ? t.chat_sent : null;
     
     // Auto-scroll ref
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const scrollContainerRef = useRef<HTMLDivElement>(null);
+    // Distance from the bottom to restore once older messages are prepended
+    const scrollAnchorRef = useRef<number | null>(null);
+    const lastMessageIdRef = useRef<string | undefined>(undefined);
 
     // Fetch Recipient Details for Header
     useEffect(() => {
         const fetchUser = async () => {
-            if (uid) {
-                const user = await DataRepository.getInstance().getUser(uid);
+            if (routeUid) {
+                const user = await DataRepository.getInstance().getUser(routeUid);
                 setRecipient(user);
             }
         };
         fetchUser();
-    }, [uid]);
+    }, [routeUid]);
+
+    // Opened directly (e.g. right after being added): load the groups, leave if it is not one of mine
+    useEffect(() => {
+        if (!groupId || group) return;
+        fetchGroups().then(() => {
+            if (!useAppStore.getState().groups.some(g => g.id === groupId)) navigate('/connections');
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [groupId]);
 
-    // Scroll to bottom on new message
+    // Load history; new messages arrive through the app-wide inbox
     useEffect(() => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+        if (!uid || !isReady) return;
+        setActiveConversation(uid);
+        loadConversation(uid);
+        return () => {
+            setActiveConversation(null);
+            stopTyping(uid);
+        };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [uid, isReady]);
+
+    // Mark the conversation read while it is on screen: when opened, as new messages
+    // arrive and when the tab becomes visible again
+    useEffect(() => {
+        if (!uid || !isReady) return;
+        const markIfVisible = () => {
+            if (document.visibilityState === 'visible') markAsRead(uid);
+        };
+        markIfVisible();
+        document.addEventListener('visibilitychange', markIfVisible);
+        return () => document.removeEventListener('visibilitychange', markIfVisible);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [uid, isReady, messages.length]);
+
+    // Keep the viewport still when older messages load; scroll to bottom on new ones
+    useLayoutEffect(() => {
+        const container = scrollContainerRef.current;
+        if (container && scrollAnchorRef.current !== null) {
+            container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+            scrollAnchorRef.current = null;
+        }
+
+        const lastMessageId = messages[messages.length - 1]?.id;
+        if (lastMessageId !== lastMessageIdRef.current) {
+            lastMessageIdRef.current = lastMessageId;
+            messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+        }
     }, [messages]);
 
-    const handleSend = () => {
-        if (inputText.trim()) {
-            sendMessage(inputText);
+    const loadOlderMessages = () => {
+        const container = scrollContainerRef.current;
+        if (!uid || !container || !hasOlderMessages || isFetchingOlderMessages) return;
+        scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+        fetchOlderMessages(uid);
+    };
+
+    const handleScroll = () => {
+        if ((scrollContainerRef.current?.scrollTop ?? Infinity) < 80) loadOlderMessages();
+    };
+
+    // Stop editing or replying if the message disappears (e.g. unsent from another device)
+    useEffect(() => {
+        if (editingMessageId && !messagesById[editingMessageId]) {
+            setEditingMessageId(null);
             setInputText('');
         }
+        if (replyingTo && !messagesById[replyingTo.id]) {
+            setReplyingTo(null);
+        }
+    }, [editingMessageId, replyingTo, messagesById]);
+
+    const startEditing = (msg: Message) => {
+        setReplyingTo(null);
+        setEditingMessageId(msg.id);
+        setInputText(msg.text);
+    };
+
+    const startReplying = (msg: Message) => {
+        if (editingMessageId) cancelEditing();
+        setReplyingTo(msg);
+    };
+
+    // Bring a quoted message into view, loading older pages until it is there
+    const jumpToMessage = async (messageId: string) => {
+        if (!uid || useAppStore.getState().isFetchingOlderMessages) return;
+        while (!useAppStore.getState().messagesById[messageId]) {
+            const cursor = useAppStore.getState().olderMessagesCursor[uid];
+            if (!cursor) return;
+            await fetchOlderMessages(uid);
+            if (useAppStore.getState().olderMessagesCursor[uid] === cursor) return;
+        }
+        setHighlightedMessageId(messageId);
+    };
+
+    // Opened from a search result: jump once the newest page is in
+    const targetMessageId = searchParams.get('message');
+    const isConversationLoaded = !!uid && uid in olderMessagesCursor && !loadingConversations[uid];
+    useEffect(() => {
+        if (!targetMessageId || !isReady || !isConversationLoaded) return;
+        setSearchParams({}, { replace: true });
+        jumpToMessage(targetMessageId);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [targetMessageId, isReady, isConversationLoaded]);
+
+    // Debounce search within this chat
+    useEffect(() => {
+        if (!uid || !isSearchOpen) return;
+        const timer = setTimeout(() => searchMessages(searchQuery, uid), 300);
+        return () => clearTimeout(timer);
+    }, [uid, isSearchOpen, searchQuery, searchMessages]);
+
+    // Another chat was opened: its search starts closed
+    useEffect(() => {
+        setIsSearchOpen(false);
+        setSearchQuery('');
+    }, [uid]);
+
+    // Results for what is typed right now, in this chat
+    const isSearchCurrent = messageSearchScope === uid && messageSearchQuery === searchQuery;
+
+    const closeSearch = () => {
+        setIsSearchOpen(false);
+        setSearchQuery('');
+    };
+
+    const openSearchResult = (result: MessageSearchResult) => {
+        closeSearch();
+        jumpToMessage(result.message.id);
+    };
+
+    useEffect(() => {
+        if (!highlightedMessageId) return;
+        document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const timer = setTimeout(() => setHighlightedMessageId(null), 1500);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId]);
+
+    const cancelEditing = () => {
+        setEditingMessageId(null);
+        setInputText('');
+    };
+
+    const handleSend = () => {
+        if (!uid || !inputText.trim()) return;
+        if (editingMessageId) {
+            editMessage(editingMessageId, inputText);
+            cancelEditing();
+            return;
+        }
+        stopTyping(uid);
+        sendMessage(uid, inputText, replyingTo?.id);
+        setInputText('');
+        setReplyingTo(null);
+    };
+
+    const handleInputChange = (value: string) => {
+        setInputText(value);
+        // Typing signals are one-to-one only
+        if (!uid || editingMessageId || groupId) return;
+        if (value.trim()) notifyTyping(uid);
+        else stopTyping(uid);
     };
 
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             handleSend();
+        } else if (e.key === 'Escape' && editingMessageId) {
+            cancelEditing();
+        } else if (e.key === 'Escape' && replyingTo) {
+            setReplyingTo(null);
         }
     };
 
+    // Touch devices have no hover: holding a bubble opens the reaction picker
+    const startLongPress = (msg: Message) => {
+        if (!canManage(msg)) return;
+        longPressTimerRef.current = setTimeout(() => setReactingMessageId(msg.id), 450);
+    };
+
+    const cancelLongPress = () => {
+        if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+        longPressTimerRef.current = null;
+    };
+
+    const closeReactionPicker = useCallback(() => setReactingMessageId(null), []);
+
+    // Who wrote a message, as bubbles and quotes name them
+    const senderName = (senderId: string) =>
+        senderId === currentUserId ? t.chat_you :
+        group ? group.members.find(m => m.uid === senderId)?.displayName :
+        recipient?.displayName;
+
+    // The welcome chats are local: nothing in them is stored or searchable
+    const isSystemChat = uid === 'cypress_bot' || uid === 'cypress_team';
+
+    // Only stored messages can be edited, deleted or reacted to
+    const canManage = (msg: Message) =>
+        (msg.status === 'sent' || msg.status === 'delivered' || msg.status === 'read') && !isSystemChat;
+
     // Handle Image Upload
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onloadend = () => {
-                // Resize/Process image logic could go here
-                const imageUrl = reader.result as string;
-                sendMessage('', imageUrl); // Send as image message
-            };
-            reader.readAsDataURL(file);
+        // Resized, uploaded to storage and then sent by path
+        if (file && uid) {
+            sendImage(uid, file, replyingTo?.id);
+            setReplyingTo(null);
         }
         // Reset input
         if (fileInputRef.current) fileInputRef.current.value = '';
     };
 
+    // Hold the mic to record; releasing sends, sliding left throws it away
+    const voiceRecorder = useVoiceRecorder({
+        onRecorded: ({ audio, voiceNote }) => {
+            if (!uid) return;
+            sendVoiceNote(uid, audio, voiceNote, replyingTo?.id);
+            setReplyingTo(null);
+        },
+        onError: (reason) => addNotification(reason === 'denied' ? t.chat_mic_denied : t.chat_mic_unsupported, 'error'),
+        onTooShort: () => addNotification(t.chat_hold_to_record, 'info')
+    });
+
     // Helper to format time
     const formatTime = (timestamp: number) => {
         return new Intl.DateTimeFormat('en-US', {
@@ -96,16 +346,45 @@ export const ChatView: React.FC = () => {
                     >
                         <i className="fas fa-arrow-left text-lg"></i>
                     </button>
-                    {recipient ? (
+                    {groupId ? (
+                        group ? (
+                            <button onClick={() => setIsGroupInfoOpen(true)} title={t.group_info} className="flex items-center gap-3 min-w-0 text-left">
+                                <GroupAvatar group={group} className="w-10 h-10 border border-gray-200 flex-shrink-0" />
+                                <div className="min-w-0">
+                                    <h2 className="font-bold text-gray-800 leading-tight truncate">{group.name}</h2>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {group.members.map(m => m.uid === currentUserId ? t.chat_you : m.displayName.split(' ')[0]).join(', ')}
+                                    </p>
+                                </div>
+                            </button>
+                        ) : (
+                            <div className="animate-pulse flex items-center gap-3">
+                                <div className="w-10 h-10 bg-gray-200 rounded-full"></div>
+                                <div className="h-4 w-32 bg-gray-200 rounded"></div>
+                            </div>
+                        )
+                    ) : recipient ? (
                         <div className="flex items-center gap-3">
-                            <img 
-                                src={recipient.photoUrl || `https://ui-avatars.com/api/?name=${recipient.displayName}`} 
-                                alt="avatar" 
-                                className="w-10 h-10 rounded-full object-cover border border-gray-200"
-                            />
+                            <div className="relative">
+                                <img 
+                                    src={recipient.photoUrl || `https://ui-avatars.com/api/?name=${recipient.displayName}`} 
+                                    alt="avatar" 
+                                    className="w-10 h-10 rounded-full object-cover border border-gray-200"
+                                />
+                                {isRecipientOnline && <span className="absolute bottom-0 right-0 w-3 h-3 bg-green-500 rounded-full border-2 border-white"></span>}
+                            </div>
                             <div>
                                 <h2 className="font-bold text-gray-800 leading-tight">{recipient.displayName}</h2>
-                                <p className="text-xs text-gray-500">{recipient.major || 'Student'}</p>
+                                {isRecipientTyping ? (
+                                    <p className="text-xs text-ubc-blue italic">{t.chat_typing}</p>
+                                ) : isRecipientOnline ? (
+                                    <p className="text-xs text-green-600 font-medium">{t.chat_online}</p>
+                                ) : (
+                                    <p className="text-xs text-gray-500">
+                                        {recipient.major || 'Student'}
+                                        {recipient.lastSeenAt && ` · ${t.chat_last_seen} ${formatRecentTime(recipient.lastSeenAt, t.conn_yesterday)}`}
+                                    </p>
+                                )}
                             </div>
                         </div>
                     ) : (
@@ -114,10 +393,90 @@ export const ChatView: React.FC = () => {
                             <div className="h-4 w-32 bg-gray-200 rounded"></div>
                         </div>
                     )}
+                    <div className="ml-auto flex items-center gap-1">
+                        {!isSystemChat && (
+                            <button
+                                onClick={() => isSearchOpen ? closeSearch() : setIsSearchOpen(true)}
+                                title={t.chat_search}
+                                className={`w-9 h-9 rounded-full flex items-center justify-center transition
+                                    ${isSearchOpen ? 'text-ubc-blue bg-ubc-blue/10' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'}
+                                `}
+                            >
+                                <i className="fas fa-search"></i>
+                            </button>
+                        )}
+                        {groupId ? (
+                            <button
+                                onClick={() => setIsGroupInfoOpen(true)}
+                                title={t.group_info}
+                                className="w-9 h-9 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center transition"
+                            >
+                                <i className="fas fa-info-circle text-lg"></i>
+                            </button>
+                        ) : (
+                            <UserSafetyMenu
+                                targetUid={uid}
+                                displayName={recipient?.displayName}
+                                onBlocked={() => navigate('/connections')}
+                                canRemoveConnection={connections.some(c => c.uid === uid)}
+                                onRemoved={() => navigate('/connections')}
+                            />
+                        )}
+                    </div>
                 </div>
 
+                {isSearchOpen && (
+                    <div className="relative bg-white border-b border-gray-200 px-4 py-2 z-10">
+                        <div className="relative">
+                            <i className="fas fa-search absolute left-3 top-2.5 text-gray-400 text-sm"></i>
+                            <input
+                                autoFocus
+                                type="text"
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Escape') closeSearch(); }}
+                                placeholder={t.chat_search_placeholder}
+                                className="w-full bg-gray-100 rounded-full pl-9 pr-9 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ubc-blue/50"
+                            />
+                            <button
+                                onClick={closeSearch}
+                                title={t.safety_cancel}
+                                className="absolute right-2 top-1.5 w-6 h-6 rounded-full text-gray-400 hover:text-gray-600 flex items-center justify-center"
+                            >
+                                <i className="fas fa-times text-xs"></i>
+                            </button>
+                        </div>
+                        {searchQuery.trim() && (
+                            <div className="absolute left-0 right-0 top-full bg-white border-b border-gray-200 shadow-lg max-h-80 overflow-y-auto">
+                                {isSearchCurrent && messageSearchResults.length > 0 ? (
+                                    <MessageSearchResultList results={messageSearchResults} showConversation={false} onSelect={openSearchResult} />
+                                ) : (
+                                    <p className="text-sm text-gray-400 text-center py-4">
+                                        {isSearchingMessages || !isSearchCurrent ? <i className="fas fa-circle-notch fa-spin"></i> : t.chat_search_none}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                )}
+
                 {/* Messages Area */}
-                <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-gray-50">
+                <div ref={scrollContainerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-2 bg-gray-50">
+                    {hasOlderMessages && (
+                        <div className="flex justify-center">
+                            {isFetchingOlderMessages ? (
+                                <i className="fas fa-circle-notch fa-spin text-gray-400 py-1"></i>
+                            ) : (
+                                <button
+                                    onClick={loadOlderMessages}
+                                    className="text-xs font-bold text-ubc-blue bg-white border border-gray-200 rounded-full px-3 py-1 hover:bg-gray-100 transition"
+                                >
+                                    {t.chat_load_older}
+                                </button>
+                            )}
+                        </div>
+                    )}
+
                     {isLoading && (
                         <div className="flex justify-center pt-10 text-gray-400">
                             <i className="fas fa-circle-notch fa-spin text-2xl"></i>
@@ -139,49 +498,159 @@ export const ChatView: React.FC = () => {
                         const isSequence = prevMsg && 
                                            prevMsg.senderId === msg.senderId && 
                                            (msg.timestamp - prevMsg.timestamp < 5 * 60 * 1000);
+                        // Only the first link is unfurled
+                        const previewUrl = msg.type === 'text' ? findLinks(msg.text)[0] : undefined;
 
                         return (
                             <div 
                                 key={msg.id} 
+                                id={`message-${msg.id}`}
                                 className={`flex flex-col ${isMe ? 'items-end' : 'items-start'} ${isSequence ? 'mt-1' : 'mt-4'}`}
                             >
-                                <div 
-                                    className={`max-w-[80%] rounded-2xl relative group overflow-hidden
-                                        ${msg.type === 'text' 
-                                            ? (isMe 
-                                                ? 'bg-ubc-blue text-white rounded-br-none px-4 py-2' 
-                                                : 'bg-white border border-gray-200 text-gray-800 rounded-bl-none shadow-sm px-4 py-2')
-                                            : 'bg-transparent'
-                                        }
-                                    `}
-                                >
-                                    {msg.type === 'image' ? (
-                                        <img 
-                                            src={msg.imageUrl} 
-                                            alt="Shared" 
-                                            className="rounded-2xl max-w-full max-h-60 border border-gray-200 shadow-sm"
+                                {group && !isMe && !isSequence && (
+                                    <span className="text-[11px] font-bold text-gray-500 ml-2 mb-0.5">{senderName(msg.senderId)}</span>
+                                )}
+                                <div className={`max-w-[80%] flex items-center gap-1 relative group/row ${isMe ? 'flex-row-reverse' : ''}`}>
+                                    {reactingMessageId === msg.id && (
+                                        <ReactionPicker
+                                            selected={(msg.reactions || []).filter(r => r.userIds.includes(currentUserId || '')).map(r => r.emoji)}
+                                            onSelect={(emoji) => toggleReaction(msg.id, emoji)}
+                                            onClose={closeReactionPicker}
+                                            align={isMe ? 'right' : 'left'}
                                         />
-                                    ) : (
-                                        msg.text
                                     )}
-                                    
-                                    {/* Status Indicator for 'Me' */}
-                                    {isMe && (
-                                        <div className="absolute -bottom-4 right-0 text-[10px] text-gray-400 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                                            {msg.status === 'sending' ? (
-                                                <>
-                                                    <span>{t.chat_sending}</span>
-                                                    <i className="fas fa-spinner fa-spin"></i>
-                                                </>
-                                            ) : msg.status === 'error' ? (
-                                                <span className="text-red-500">{t.chat_failed}</span>
-                                            ) : (
-                                                <span>{formatTime(msg.timestamp)}</span>
-                                            )}
-                                        </div>
+                                    <div 
+                                        onTouchStart={() => startLongPress(msg)}
+                                        onTouchEnd={cancelLongPress}
+                                        onTouchMove={cancelLongPress}
+                                        className={`min-w-0 rounded-2xl relative group overflow-hidden transition-shadow
+                                            ${highlightedMessageId === msg.id ? 'ring-4 ring-ubc-blue/30' : ''}
+                                            ${msg.type !== 'image' 
+                                                ? (isMe 
+                                                    ? 'bg-ubc-blue text-white rounded-br-none px-4 py-2' 
+                                                    : 'bg-white border border-gray-200 text-gray-800 rounded-bl-none shadow-sm px-4 py-2')
+                                                : 'bg-transparent'
+                                            }
+                                        `}
+                                    >
+                                        {msg.replyToId && (
+                                            <button
+                                                onClick={() => msg.replyTo && jumpToMessage(msg.replyTo.id)}
+                                                disabled={!msg.replyTo}
+                                                className={`block w-full text-left text-xs rounded-lg border-l-4 px-2 py-1 mb-1 truncate
+                                                    ${isMe && msg.type !== 'image' ? 'bg-white/15 border-white/60 text-white/90' : 'bg-gray-100 border-gray-300 text-gray-600'}
+                                                `}
+                                            >
+                                                {msg.replyTo ? (
+                                                    <>
+                                                        <span className="font-bold block">
+                                                            {senderName(msg.replyTo.senderId)}
+                                                        </span>
+                                                        {msg.replyTo.isImage ? (
+                                                            <span><i className="fas fa-image mr-1"></i>{t.conn_photo}</span>
+                                                        ) : msg.replyTo.isAudio ? (
+                                                            <span><i className="fas fa-microphone mr-1"></i>{t.chat_voice_message}</span>
+                                                        ) : msg.replyTo.text}
+                                                    </>
+                                                ) : (
+                                                    <span className="italic">{t.chat_original_unavailable}</span>
+                                                )}
+                                            </button>
+                                        )}
+                                        {msg.type === 'image' ? (
+                                            <ChatImage message={msg} onOpen={setLightboxSrc} />
+                                        ) : msg.type === 'audio' ? (
+                                            <VoiceNotePlayer message={msg} isMine={isMe} />
+                                        ) : (
+                                            <>
+                                                <MessageText text={msg.text} isMine={isMe} />
+                                                {msg.editedAt && (
+                                                    <span className={`text-[10px] ml-1.5 ${isMe ? 'text-white/70' : 'text-gray-400'}`}>{t.chat_edited}</span>
+                                                )}
+                                                {previewUrl && <LinkPreviewCard url={previewUrl} isMine={isMe} />}
+                                            </>
+                                        )}
+                                        
+                                        {/* Status Indicator for 'Me' */}
+                                        {isMe && (
+                                            <div className="absolute -bottom-4 right-0 text-[10px] text-gray-400 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                                {msg.status === 'sending' ? (
+                                                    <>
+                                                        <span>{t.chat_sending}</span>
+                                                        <i className="fas fa-spinner fa-spin"></i>
+                                                    </>
+                                                ) : msg.status === 'queued' ? (
+                                                    <>
+                                                        <span>{t.chat_queued}</span>
+                                                        <i className="far fa-clock"></i>
+                                                    </>
+                                                ) : msg.status === 'error' ? (
+                                                    <span className="text-red-500">{t.chat_failed}</span>
+                                                ) : (
+                                                    <span>{formatTime(msg.timestamp)}</span>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {canManage(msg) && (
+                                        <>
+                                            <button
+                                                onClick={() => setReactingMessageId(msg.id)}
+                                                title={t.chat_react}
+                                                className="w-7 h-7 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center transition opacity-0 group-hover/row:opacity-100 focus:opacity-100 self-center"
+                                            >
+                                                <i className="far fa-smile text-sm"></i>
+                                            </button>
+                                            <MessageActionsMenu
+                                                message={msg}
+                                                isMine={isMe}
+                                                onEdit={() => startEditing(msg)}
+                                                onReply={() => startReplying(msg)}
+                                                align={isMe ? 'right' : 'left'}
+                                            />
+                                        </>
                                     )}
                                 </div>
+
+                                <ReactionChips
+                                    reactions={msg.reactions || []}
+                                    currentUserId={currentUserId}
+                                    onToggle={(emoji) => toggleReaction(msg.id, emoji)}
+                                />
                                 
+                                {/* Queued: waiting in the outbox for a connection or the next retry */}
+                                {isMe && msg.status === 'queued' && (
+                                    <span className="text-[10px] text-gray-400 mr-1 mt-1 flex items-center gap-1">
+                                        <i className="far fa-clock"></i>
+                                        {t.chat_queued}
+                                    </span>
+                                )}
+
+                                {/* Failed: sending gave up, the user decides */}
+                                {isMe && msg.status === 'error' && msg.clientId && (
+                                    <div className="text-[11px] mr-1 mt-1 flex items-center gap-2">
+                                        <span className="text-red-500 flex items-center gap-1">
+                                            <i className="fas fa-exclamation-circle"></i>
+                                            {t.chat_not_delivered}
+                                        </span>
+                                        <button onClick={() => retryMessage(msg.clientId!)} className="font-bold text-ubc-blue hover:underline">
+                                            {t.chat_retry}
+                                        </button>
+                                        <button onClick={() => discardMessage(msg.clientId!)} className="font-bold text-gray-500 hover:underline">
+                                            {t.chat_delete}
+                                        </button>
+                                    </div>
+                                )}
+
+                                {/* Read receipt under my latest message */}
+                                {isMe && !groupId && msg.id === lastOwnMessageId && receiptLabel(msg) && (
+                                    <span className={`text-[10px] mr-1 mt-1 flex items-center gap-1 ${msg.status === 'read' ? 'text-ubc-blue font-medium' : 'text-gray-400'}`}>
+                                        <i className={`fas ${msg.status === 'sent' ? 'fa-check' : 'fa-check-double'}`}></i>
+                                        {receiptLabel(msg)}
+                                    </span>
+                                )}
+
                                 {/* Timestamp for Other (only show if not sequence) */}
                                 {!isMe && !isSequence && (
                                     <span className="text-[10px] text-gray-400 ml-2 mt-1">
@@ -191,28 +660,124 @@ export const ChatView: React.FC = () => {
                             </div>
                         );
                     })}
+
+                    {/* Typing bubble */}
+                    {isRecipientTyping && (
+                        <div className="flex items-start mt-4">
+                            <div className="bg-white border border-gray-200 rounded-2xl rounded-bl-none shadow-sm px-4 py-3 flex gap-1">
+                                <span className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"></span>
+                                <span className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:150ms]"></span>
+                                <span className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:300ms]"></span>
+                            </div>
+                        </div>
+                    )}
                     <div ref={messagesEndRef} />
                 </div>
 
+                {/* Editing banner */}
+                {editingMessageId && (
+                    <div className="bg-white px-4 pt-2 border-t border-gray-200 flex items-center justify-between text-xs">
+                        <span className="text-ubc-blue font-bold flex items-center gap-2">
+                            <i className="fas fa-pen"></i>
+                            {t.chat_editing}
+                        </span>
+                        <button
+                            onClick={cancelEditing}
+                            title={t.safety_cancel}
+                            className="w-6 h-6 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center"
+                        >
+                            <i className="fas fa-times"></i>
+                        </button>
+                    </div>
+                )}
+
+                {/* Reply banner */}
+                {replyingTo && (
+                    <div className="bg-white px-4 pt-2 border-t border-gray-200 flex items-center justify-between gap-3 text-xs">
+                        <div className="min-w-0 border-l-4 border-ubc-blue pl-2">
+                            <span className="text-ubc-blue font-bold flex items-center gap-2">
+                                <i className="fas fa-reply"></i>
+                                {t.chat_replying_to} {senderName(replyingTo.senderId)}
+                            </span>
+                            <p className="text-gray-500 truncate">
+                                {replyingTo.type === 'image' ? t.conn_photo : replyingTo.type === 'audio' ? t.chat_voice_message : replyingTo.text}
+                            </p>
+                        </div>
+                        <button
+                            onClick={() => setReplyingTo(null)}
+                            title={t.safety_cancel}
+                            className="w-6 h-6 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 flex items-center justify-center shrink-0"
+                        >
+                            <i className="fas fa-times"></i>
+                        </button>
+                    </div>
+                )}
+
                 {/* Input Area */}
-                <div className="bg-white p-3 border-t border-gray-200 flex items-end gap-2">
-                    <textarea
-                        className="flex-1 bg-gray-100 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-ubc-blue/50 resize-none max-h-32"
-                        rows={1}
-                        placeholder={t.chat_placeholder}
-                        value={inputText}
-                        onChange={(e) => setInputText(e.target.value)}
-                        onKeyDown={handleKeyDown}
+                <div className={`bg-white p-3 flex items-end gap-2 ${editingMessageId || replyingTo ? '' : 'border-t border-gray-200'}`}>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="image/*"
+                        onChange={handleFileChange}
+                        className="hidden"
                     />
-                    <button 
-                        onClick={handleSend}
-                        disabled={!inputText.trim()}
-                        className="w-10 h-10 rounded-full bg-ubc-blue text-white flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed hover:bg-ubc-blue/90 transition shrink-0"
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        title={t.chat_photo}
+                        className="w-10 h-10 rounded-full text-gray-400 hover:text-ubc-blue hover:bg-gray-100 flex items-center justify-center transition shrink-0"
                     >
-                        <i className="fas fa-paper-plane text-sm pl-0.5 pt-0.5"></i>
+                        <i className="fas fa-image"></i>
                     </button>
+                    {voiceRecorder.isRecording ? (
+                        <div className="flex-1 h-11 bg-gray-100 rounded-2xl px-4 flex items-center gap-3 text-sm overflow-hidden select-none">
+                            <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse shrink-0"></span>
+                            <span className="tabular-nums text-gray-700">{formatDuration(voiceRecorder.elapsedMs)}</span>
+                            <span
+                                className="ml-auto text-gray-400 whitespace-nowrap"
+                                style={{ transform: `translateX(${voiceRecorder.slideX}px)`, opacity: 1 - voiceRecorder.cancelProgress * 0.7 }}
+                            >
+                                <i className="fas fa-chevron-left mr-1"></i>
+                                {t.chat_slide_to_cancel}
+                            </span>
+                        </div>
+                    ) : (
+                        <textarea
+                            className="flex-1 bg-gray-100 rounded-2xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-ubc-blue/50 resize-none max-h-32"
+                            rows={1}
+                            placeholder={t.chat_placeholder}
+                            value={inputText}
+                            onChange={(e) => handleInputChange(e.target.value)}
+                            onKeyDown={handleKeyDown}
+                        />
+                    )}
+                    {inputText.trim() || editingMessageId ? (
+                        <button 
+                            onClick={handleSend}
+                            disabled={!inputText.trim()}
+                            className="w-10 h-10 rounded-full bg-ubc-blue text-white flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed hover:bg-ubc-blue/90 transition shrink-0"
+                        >
+                            <i className="fas fa-paper-plane text-sm pl-0.5 pt-0.5"></i>
+                        </button>
+                    ) : (
+                        <button
+                            {...voiceRecorder.bind}
+                            onContextMenu={(e) => e.preventDefault()}
+                            title={t.chat_hold_to_record}
+                            className={`w-10 h-10 rounded-full text-white flex items-center justify-center transition shrink-0 touch-none select-none
+                                ${voiceRecorder.isRecording ? 'bg-red-500 scale-125' : 'bg-ubc-blue hover:bg-ubc-blue/90'}
+                            `}
+                        >
+                            <i className="fas fa-microphone text-sm"></i>
+                        </button>
+                    )}
                 </div>
             </div>
+
+            {lightboxSrc && <ImageLightbox src={lightboxSrc} onClose={() => setLightboxSrc(null)} />}
+            {isGroupInfoOpen && group && (
+                <GroupInfoPanel group={group} onClose={() => setIsGroupInfoOpen(false)} onLeft={() => navigate('/connections')} />
+            )}
         </div>
     );
 };
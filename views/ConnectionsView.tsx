@@ -1,27 +1,91 @@
 
 
 /* This is the 'chats' view */
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useAppStore } from '../store/useAppStore';
 import { useNavigate } from 'react-router-dom';
 import { TRANSLATIONS } from '../utils/translations';
 import { Link } from 'react-router-dom';
+import { UserSafetyMenu } from '../components/UserSafetyMenu';
+import { GroupAvatar } from '../components/GroupAvatar';
+import { CreateGroupDialog } from '../components/CreateGroupDialog';
+import { MessageSearchResultList } from '../components/MessageSearchResultList';
+import { ConversationSettingsMenu } from '../components/ConversationSettingsMenu';
+import { ConversationSettings, ConversationSummary, GroupConversation, MessagePreview, MessageSearchResult } from '../types';
+import { formatRecentTime } from '../utils/timeFormat';
+import { isArchived, isMuted, orderPinnedFirst } from '../utils/conversationSettings';
+
+// Chats and groups share one list: pinned first, then most recent activity first
+type ChatListItem = { activityAt: number; settings: ConversationSettings } & (
+    | { kind: 'chat'; convo: ConversationSummary }
+    | { kind: 'group'; group: GroupConversation }
+);
 
 export const ConnectionsView: React.FC = () => {
-    const { connections, fetchConnections, incomingRequests, fetchIncomingRequests, respondToRequest, isLoading, uiLanguage } = useAppStore();
+    const { conversations, groups, fetchConversations, fetchGroups, onlineUserIds, typingUserIds, incomingRequests, fetchIncomingRequests, respondToRequest, isLoading, uiLanguage, searchMessages, messageSearchResults, messageSearchQuery, messageSearchScope, isSearchingMessages } = useAppStore();
     const navigate = useNavigate();
     const t = TRANSLATIONS[uiLanguage];
+    const [isCreatingGroup, setIsCreatingGroup] = useState(false);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [isShowingArchive, setIsShowingArchive] = useState(false);
 
     useEffect(() => {
-        fetchConnections();
+        fetchConversations();
+        fetchGroups();
         fetchIncomingRequests();
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
 
+    // Debounce search across every chat
+    useEffect(() => {
+        const timer = setTimeout(() => searchMessages(searchQuery), 300);
+        return () => clearTimeout(timer);
+    }, [searchQuery, searchMessages]);
+
+    const isShowingSearch = !!searchQuery.trim();
+    // Results of an earlier in-chat search, or of what was typed before the debounce, are not shown
+    const isSearchCurrent = messageSearchScope === null && messageSearchQuery === searchQuery;
+    const searchResults = isSearchCurrent ? messageSearchResults : [];
+
+    // Open the chat at the message (ChatView jumps to ?message=)
+    const openSearchResult = (result: MessageSearchResult) => {
+        navigate(`/${result.isGroup ? 'group' : 'chat'}/${result.conversationId}?message=${encodeURIComponent(result.message.id)}`);
+    };
+
+    const allChats: ChatListItem[] = useMemo(() => [
+        ...conversations.map(convo => ({ kind: 'chat' as const, convo, settings: convo.settings, activityAt: convo.lastMessage?.timestamp ?? convo.connection.timestamp })),
+        ...groups.map(group => ({ kind: 'group' as const, group, settings: group.settings, activityAt: group.lastMessage?.timestamp ?? group.createdAt }))
+    ].sort((a, b) => b.activityAt - a.activityAt), [conversations, groups]);
+
+    // Archived chats leave the main list until a newer message arrives
+    const lastMessageOf = (item: ChatListItem) => item.kind === 'chat' ? item.convo.lastMessage : item.group.lastMessage;
+    const archivedChats = allChats.filter(item => isArchived(item.settings, lastMessageOf(item)));
+    const mainChats = orderPinnedFirst(allChats.filter(item => !isArchived(item.settings, lastMessageOf(item))));
+    // Unarchiving the last archived chat returns to the main list
+    const isArchiveOpen = isShowingArchive && archivedChats.length > 0;
+    const chatList = isArchiveOpen ? archivedChats : mainChats;
+
     const handleChatClick = (uid: string) => {
         navigate(`/chat/${uid}`);
     };
 
+    const previewBody = (lastMessage: MessagePreview) =>
+        lastMessage.isAudio ? t.chat_voice_message :
+        lastMessage.isImage && !lastMessage.text ? t.conn_photo : lastMessage.text;
+
+    const previewText = ({ lastMessage }: ConversationSummary) => {
+        if (!lastMessage) return t.conn_no_messages;
+        return lastMessage.isMine ? `${t.conn_you_prefix}${previewBody(lastMessage)}` : previewBody(lastMessage);
+    };
+
+    // Group previews say who wrote the message
+    const groupPreviewText = ({ lastMessage, members }: GroupConversation) => {
+        if (!lastMessage) return t.conn_no_messages;
+        if (lastMessage.isMine) return `${t.conn_you_prefix}${previewBody(lastMessage)}`;
+        const sender = members.find(m => m.uid === lastMessage.senderId);
+        return sender ? `${sender.displayName.split(' ')[0]}: ${previewBody(lastMessage)}` : previewBody(lastMessage);
+    };
+
     return (
         <div className="h-full overflow-y-auto w-full p-4 md:p-8">
             <div className="max-w-4xl mx-auto">
@@ -71,11 +135,49 @@ export const ConnectionsView: React.FC = () => {
                     </div>
                 )}
 
-                <h2 className="text-2xl font-bold text-gray-800 mb-6 px-2">{t.conn_title}</h2>
-                
-                {isLoading && connections.length === 0 ? (
+                <div className="flex items-center justify-between mb-6 px-2">
+                    <h2 className="text-2xl font-bold text-gray-800">{t.conn_title}</h2>
+                    <button
+                        onClick={() => setIsCreatingGroup(true)}
+                        className="py-2 px-4 rounded-lg text-sm font-bold text-ubc-blue bg-white border border-gray-200 hover:bg-gray-50 transition flex items-center gap-2"
+                    >
+                        <i className="fas fa-users"></i>
+                        {t.group_new}
+                    </button>
+                </div>
+
+                <div className="relative group mb-4">
+                    <i className="fas fa-search absolute left-4 top-3.5 text-gray-400 group-focus-within:text-ubc-blue transition-colors"></i>
+                    <input
+                        type="text"
+                        placeholder={t.conn_search_placeholder}
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="w-full pl-11 pr-10 py-3 bg-white border border-gray-200 rounded-xl focus:ring-2 focus:ring-ubc-blue focus:border-transparent outline-none transition-all shadow-sm"
+                    />
+                    {searchQuery && (
+                        <button
+                            onClick={() => setSearchQuery('')}
+                            className="absolute right-3 top-3 w-6 h-6 rounded-full bg-gray-200 text-gray-500 flex items-center justify-center hover:bg-gray-300"
+                        >
+                            <i className="fas fa-times text-xs"></i>
+                        </button>
+                    )}
+                </div>
+
+                {isShowingSearch ? (
+                    searchResults.length === 0 ? (
+                        <div className="text-center py-10 text-gray-400">
+                            {isSearchingMessages || !isSearchCurrent ? t.conn_loading : t.chat_search_none}
+                        </div>
+                    ) : (
+                        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                            <MessageSearchResultList results={searchResults} showConversation onSelect={openSearchResult} />
+                        </div>
+                    )
+                ) : isLoading && allChats.length === 0 ? (
                     <div className="text-center py-10 text-gray-400">{t.conn_loading}</div>
-                ) : connections.length === 0 ? (
+                ) : allChats.length === 0 ? (
                     <div className="text-center py-20 bg-white rounded-xl border border-gray-100">
                         <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
                             <i className="fas fa-user-friends text-2xl text-gray-400"></i>
@@ -84,30 +186,144 @@ export const ConnectionsView: React.FC = () => {
                         <p className="text-sm text-gray-500 mt-1">{t.conn_empty_sub}</p>
                     </div>
                 ) : (
-                    <div className="grid gap-3 md:grid-cols-2">
-                        {connections.map(conn => (
-                            <div 
-                                key={conn.uid} 
-                                onClick={() => handleChatClick(conn.uid)}
-                                className="bg-white p-4 rounded-xl shadow-sm border border-gray-200 flex items-center gap-4 hover:shadow-md hover:border-ubc-blue/30 transition cursor-pointer active:scale-[0.99] group"
-                            >
-                                <img 
-                                    src={conn.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(conn.displayName)}&background=0032A0&color=fff&size=128`} 
-                                    alt={conn.displayName} 
-                                    className="w-14 h-14 rounded-full object-cover bg-gray-200 border border-gray-100"
-                                />
-                                <div className="flex-1 min-w-0">
-                                    <h3 className="font-bold text-gray-900 truncate">{conn.displayName}</h3>
-                                    <p className="text-sm text-gray-500 truncate">{conn.major}</p>
-                                </div>
-                                <button className="w-10 h-10 rounded-full bg-blue-50 text-ubc-blue flex items-center justify-center group-hover:bg-ubc-blue group-hover:text-white transition-colors">
-                                    <i className="fas fa-comment"></i>
+                    <>
+                        {isArchiveOpen ? (
+                            <div className="flex items-center gap-3 mb-3 px-2">
+                                <button
+                                    onClick={() => setIsShowingArchive(false)}
+                                    title={t.conn_back_to_chats}
+                                    className="w-8 h-8 rounded-full text-gray-500 hover:bg-gray-100 flex items-center justify-center"
+                                >
+                                    <i className="fas fa-arrow-left"></i>
                                 </button>
+                                <div>
+                                    <h3 className="font-bold text-gray-800">{t.conn_archived}</h3>
+                                    <p className="text-xs text-gray-400">{t.conn_archived_hint}</p>
+                                </div>
                             </div>
-                        ))}
-                    </div>
+                        ) : archivedChats.length > 0 && (
+                            <button
+                                onClick={() => setIsShowingArchive(true)}
+                                className="w-full mb-3 px-4 py-3 bg-white rounded-xl border border-gray-200 shadow-sm flex items-center gap-3 text-sm text-gray-600 hover:bg-gray-50 transition"
+                            >
+                                <i className="fas fa-archive text-gray-400"></i>
+                                <span className="font-bold flex-1 text-left">{t.conn_archived}</span>
+                                <span className="text-gray-400">{archivedChats.length}</span>
+                            </button>
+                        )}
+                        <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-100">
+                            {chatList.map(item => {
+                                const isMutedChat = isMuted(item.settings);
+                                // Pin and mute marks beside the name
+                                const settingIcons = (
+                                    <>
+                                        {item.settings.pinnedAt !== null && (
+                                            <i title={t.conn_pinned} className="fas fa-thumbtack text-xs text-gray-400 ml-1.5"></i>
+                                        )}
+                                        {isMutedChat && <i title={t.conn_muted} className="fas fa-bell-slash text-xs text-gray-400 ml-1.5"></i>}
+                                    </>
+                                );
+                                const unreadBadge = (count: number) => (
+                                    <span className={`${isMutedChat ? 'bg-gray-300' : 'bg-ubc-blue'} text-white text-xs font-bold min-w-[1.25rem] h-5 px-1.5 rounded-full flex items-center justify-center flex-shrink-0`}>
+                                        {count > 99 ? '99+' : count}
+                                    </span>
+                                );
+                                const settingsMenu = (id: string) => (
+                                    <ConversationSettingsMenu conversationId={id} settings={item.settings} isArchived={isArchiveOpen} />
+                                );
+
+                                if (item.kind === 'group') {
+                                    const group = item.group;
+                                    const isUnread = group.unreadCount > 0;
+                                    return (
+                                        <div
+                                            key={group.id}
+                                            onClick={() => navigate(`/group/${group.id}`)}
+                                            className="p-4 flex items-center gap-4 hover:bg-gray-50 transition cursor-pointer first:rounded-t-xl last:rounded-b-xl"
+                                        >
+                                            <GroupAvatar group={group} className="w-14 h-14 text-xl flex-shrink-0 border border-gray-100" />
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-baseline justify-between gap-2">
+                                                    <h3 className={`truncate ${isUnread ? 'font-extrabold text-gray-900' : 'font-bold text-gray-800'}`}>{group.name}{settingIcons}</h3>
+                                                    <span className={`text-xs flex-shrink-0 ${isUnread && !isMutedChat ? 'text-ubc-blue font-bold' : 'text-gray-400'}`}>
+                                                        {formatRecentTime(item.activityAt, t.conn_yesterday)}
+                                                    </span>
+                                                </div>
+                                                <div className="flex items-center justify-between gap-2 mt-0.5">
+                                                    <p className={`text-sm truncate ${isUnread ? 'text-gray-900 font-semibold' : group.lastMessage ? 'text-gray-500' : 'text-gray-400 italic'}`}>
+                                                        {group.lastMessage?.isImage && <i className="fas fa-image mr-1"></i>}
+                                                        {group.lastMessage?.isAudio && <i className="fas fa-microphone mr-1"></i>}
+                                                        {groupPreviewText(group)}
+                                                    </p>
+                                                    {isUnread && unreadBadge(group.unreadCount)}
+                                                </div>
+                                            </div>
+                                            {/* Keep menu clicks from opening the chat */}
+                                            <div onClick={(e) => e.stopPropagation()}>
+                                                {settingsMenu(group.id)}
+                                            </div>
+                                        </div>
+                                    );
+                                }
+
+                                const convo = item.convo;
+                                const conn = convo.connection;
+                                const isUnread = convo.unreadCount > 0;
+                                return (
+                                    <div 
+                                        key={conn.uid} 
+                                        onClick={() => handleChatClick(conn.uid)}
+                                        className="p-4 flex items-center gap-4 hover:bg-gray-50 transition cursor-pointer first:rounded-t-xl last:rounded-b-xl"
+                                    >
+                                        <div className="relative flex-shrink-0">
+                                            <img 
+                                                src={conn.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(conn.displayName)}&background=0032A0&color=fff&size=128`} 
+                                                alt={conn.displayName} 
+                                                className="w-14 h-14 rounded-full object-cover bg-gray-200 border border-gray-100"
+                                            />
+                                            {onlineUserIds.includes(conn.uid) && (
+                                                <span title={t.chat_online} className="absolute bottom-0.5 right-0.5 w-3.5 h-3.5 bg-green-500 rounded-full border-2 border-white"></span>
+                                            )}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex items-baseline justify-between gap-2">
+                                                <h3 className={`truncate ${isUnread ? 'font-extrabold text-gray-900' : 'font-bold text-gray-800'}`}>{conn.displayName}{settingIcons}</h3>
+                                                <span className={`text-xs flex-shrink-0 ${isUnread && !isMutedChat ? 'text-ubc-blue font-bold' : 'text-gray-400'}`}>
+                                                    {formatRecentTime(convo.lastMessage?.timestamp ?? conn.timestamp, t.conn_yesterday)}
+                                                </span>
+                                            </div>
+                                            <div className="flex items-center justify-between gap-2 mt-0.5">
+                                                {typingUserIds.includes(conn.uid) ? (
+                                                    <p className="text-sm truncate text-ubc-blue italic">{t.chat_typing}</p>
+                                                ) : (
+                                                    <p className={`text-sm truncate ${isUnread ? 'text-gray-900 font-semibold' : convo.lastMessage ? 'text-gray-500' : 'text-gray-400 italic'}`}>
+                                                        {convo.lastMessage?.isImage && <i className="fas fa-image mr-1"></i>}
+                                                        {convo.lastMessage?.isAudio && <i className="fas fa-microphone mr-1"></i>}
+                                                        {previewText(convo)}
+                                                    </p>
+                                                )}
+                                                {isUnread && unreadBadge(convo.unreadCount)}
+                                            </div>
+                                        </div>
+                                        {/* Keep menu and dialog clicks from opening the chat */}
+                                        <div onClick={(e) => e.stopPropagation()} className="flex items-center">
+                                            {settingsMenu(conn.uid)}
+                                            <UserSafetyMenu targetUid={conn.uid} displayName={conn.displayName} canRemoveConnection />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
                 )}
             </div>
+
+            {isCreatingGroup && (
+                <CreateGroupDialog
+                    onClose={() => setIsCreatingGroup(false)}
+                    onCreated={(groupId) => navigate(`/group/${groupId}`)}
+                />
+            )}
         </div>
     );
 };
\ No newline at end of file
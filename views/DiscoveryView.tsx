@@ -3,22 +3,48 @@
 import React, { useEffect, useState } from 'react';
 import { useAppStore } from '../store/useAppStore';
 import { TRANSLATIONS } from '../utils/translations';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import { Language, MatchFactor } from '../types';
+import { useSwipeGesture } from '../hooks/useSwipeGesture';
+import { DiscoveryFilterPanel } from '../components/DiscoveryFilterPanel';
+import { countActiveFilters } from '../utils/discoveryFilters';
+import { HighlightedText } from '../components/HighlightedText';
+import { UserSafetyMenu } from '../components/UserSafetyMenu';
+
+const FACTOR_LABELS: Record<MatchFactor, keyof typeof TRANSLATIONS[Language.ENGLISH]> = {
+    region: 'disc_why_region',
+    languages: 'disc_why_languages',
+    interests: 'disc_why_interests',
+    majorDiversity: 'disc_why_major',
+    bioKeywords: 'disc_why_bio'
+};
+
+const FACTOR_ICONS: Record<MatchFactor, string> = {
+    region: 'fa-map-marker-alt',
+    languages: 'fa-language',
+    interests: 'fa-star',
+    majorDiversity: 'fa-graduation-cap',
+    bioKeywords: 'fa-quote-left'
+};
 
 /*
  * DiscoveryView
  * 
  * Abstraction Function:
- * Renders the top card from the match queue.
- * Provides controls for Dismiss/Connect.
+ * Renders the top card from the match queue, with the next card previewed underneath.
+ * Provides controls for Dismiss/Connect: buttons, drag/swipe gestures and arrow keys
+ * (Enter opens the active card's profile).
  * Responsive: Cards expand or center based on viewport.
  */
 export const DiscoveryView: React.FC = () => {
-    const { matchQueue, fetchMatches, handleSwipe, isLoading, uiLanguage, searchUsers, searchResults } = useAppStore();
+    const { matchQueue, fetchMatches, fetchMoreMatches, hasMoreMatches, isFetchingMoreMatches, handleSwipe, swipeHistory, undoSwipe, discoveryFilters, isLoading, uiLanguage, searchUsers, searchResults, searchTotal, searchNextOffset, isFetchingMoreSearchResults, fetchMoreSearchResults } = useAppStore();
     const t = TRANSLATIONS[uiLanguage];
+    const navigate = useNavigate();
     
     const [searchQuery, setSearchQuery] = useState('');
     const [isSearching, setIsSearching] = useState(false);
+    const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(false);
+    const activeFilterCount = countActiveFilters(discoveryFilters);
 
     useEffect(() => {
         if (matchQueue.length === 0) {
@@ -38,11 +64,56 @@ export const DiscoveryView: React.FC = () => {
     }, [searchQuery, searchUsers]);
 
     const activeCard = matchQueue[0];
+    const nextCard = matchQueue[1];
+
+    // Factors that actually contributed to the active card's score, strongest first
+    const whyMatched = (activeCard?.compatibility?.factors || [])
+        .filter(f => f.contribution > 0)
+        .sort((a, b) => b.contribution - a.contribution);
 
     // Toggle view mode based on search input
     const showSearchResults = searchQuery.length > 0;
 
-    if (isLoading && matchQueue.length === 0 && !showSearchResults) {
+    // Drag gestures; buttons and keys reuse the same fly-out animation
+    const swipe = useSwipeGesture({
+        onSwipe: (direction) => {
+            if (activeCard) {
+                handleSwipe(activeCard.uid, direction === 'right' ? 'CONNECT' : 'DISMISS');
+            }
+        }
+    });
+    const { flyOut } = swipe;
+
+    // Keyboard shortcuts
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (showSearchResults || isFilterPanelOpen || !activeCard || e.altKey || e.ctrlKey || e.metaKey) return;
+
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            // A dialog (e.g. reporting this card's user) is open on top
+            if (document.querySelector('[aria-modal="true"]')) return;
+
+            if (e.key === 'ArrowLeft') {
+                e.preventDefault();
+                flyOut('left');
+            } else if (e.key === 'ArrowRight') {
+                e.preventDefault();
+                flyOut('right');
+            } else if (e.key === 'Enter' && !target.closest('a, button')) {
+                e.preventDefault();
+                navigate(`/user/${activeCard.uid}`);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [activeCard, showSearchResults, isFilterPanelOpen, flyOut, navigate]);
+
+    // Swiping through the last card while the next page is still loading
+    const isWaitingForNextPage = matchQueue.length === 0 && hasMoreMatches && isFetchingMoreMatches;
+
+    if ((isLoading || isWaitingForNextPage) && matchQueue.length === 0 && !showSearchResults) {
         return (
             <div className="flex flex-col items-center justify-center h-full text-gray-400">
                 <div className="relative w-16 h-16">
@@ -59,8 +130,8 @@ export const DiscoveryView: React.FC = () => {
             
             {/* Search Bar - Floating or Fixed */}
             <div className="absolute top-0 left-0 right-0 z-20 p-4 flex justify-center pointer-events-none">
-                <div className="w-full max-w-md pointer-events-auto shadow-lg rounded-2xl">
-                    <div className="relative group">
+                <div className="w-full max-w-md pointer-events-auto flex gap-2">
+                    <div className="relative group flex-1 shadow-lg rounded-2xl">
                         <i className="fas fa-search absolute left-4 top-3.5 text-gray-400 group-focus-within:text-ubc-blue transition-colors"></i>
                         <input
                             type="text"
@@ -78,9 +149,25 @@ export const DiscoveryView: React.FC = () => {
                             </button>
                         )}
                     </div>
+                    <button
+                        onClick={() => setIsFilterPanelOpen(true)}
+                        title={t.disc_filters}
+                        className={`relative w-12 shrink-0 rounded-2xl border shadow-lg backdrop-blur-md flex items-center justify-center transition
+                            ${activeFilterCount > 0 ? 'bg-ubc-blue border-ubc-blue text-white' : 'bg-white/90 border-gray-200 text-gray-500 hover:text-ubc-blue'}
+                        `}
+                    >
+                        <i className="fas fa-sliders-h"></i>
+                        {activeFilterCount > 0 && (
+                            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-ubc-gold text-white text-xs font-bold flex items-center justify-center">
+                                {activeFilterCount}
+                            </span>
+                        )}
+                    </button>
                 </div>
             </div>
 
+            {isFilterPanelOpen && <DiscoveryFilterPanel onClose={() => setIsFilterPanelOpen(false)} />}
+
             {/* Main Content Area */}
             <div className="flex-1 pt-20 p-4 overflow-y-auto">
                 
@@ -88,8 +175,9 @@ export const DiscoveryView: React.FC = () => {
                 {showSearchResults ? (
                     <div className="max-w-2xl mx-auto pb-20">
                          <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4 px-2">
-                            {t.disc_search_results} ({searchResults.length})
+                            {t.disc_search_results} ({searchTotal})
                         </h3>
+                        <p className="text-xs text-gray-400 mb-4 px-2 -mt-2">{t.disc_search_tips}</p>
                         
                         {searchResults.length === 0 && !isLoading ? (
                             <div className="text-center py-10 text-gray-500 bg-white/50 rounded-xl">
@@ -98,7 +186,7 @@ export const DiscoveryView: React.FC = () => {
                             </div>
                         ) : (
                             <div className="space-y-4">
-                                {searchResults.map(profile => (
+                                {searchResults.map(({ profile, matches }) => (
                                     <div key={profile.uid} className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 flex items-center gap-4 transition-transform hover:scale-[1.01]">
                                         <img 
                                             src={profile.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(profile.displayName)}&background=0032A0&color=fff&size=128`} 
@@ -107,10 +195,20 @@ export const DiscoveryView: React.FC = () => {
                                         />
                                         <div className="flex-1 min-w-0">
                                             <Link to={`/user/${profile.uid}`} className="font-bold text-gray-800 text-lg hover:text-ubc-blue hover:underline decoration-2 underline-offset-2">
-                                                {profile.displayName}
+                                                <HighlightedText text={profile.displayName} needles={matches.displayName} />
                                             </Link>
-                                            <p className="text-ubc-blue text-sm font-medium">{profile.major}</p>
-                                            {profile.homeRegion && <p className="text-gray-400 text-xs mt-0.5"><i className="fas fa-map-marker-alt mr-1"></i>{profile.homeRegion}</p>}
+                                            <p className="text-ubc-blue text-sm font-medium"><HighlightedText text={profile.major} needles={matches.major} /></p>
+                                            {profile.homeRegion && <p className="text-gray-400 text-xs mt-0.5"><i className="fas fa-map-marker-alt mr-1"></i><HighlightedText text={profile.homeRegion} needles={matches.homeRegion} /></p>}
+                                            {/* Interests and languages only show when they matched */}
+                                            {(matches.interests || matches.languages) && (
+                                                <div className="flex flex-wrap gap-1 mt-1.5">
+                                                    {[...(matches.interests || []), ...(matches.languages || [])].map(value => (
+                                                        <span key={value} className="px-2 py-0.5 rounded-full text-xs font-medium bg-ubc-gold/20 text-gray-700">
+                                                            {value}
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            )}
                                         </div>
                                         <button 
                                             onClick={() => {
@@ -123,6 +221,18 @@ export const DiscoveryView: React.FC = () => {
                                         </button>
                                     </div>
                                 ))}
+
+                                {searchNextOffset !== null && (
+                                    <button
+                                        onClick={() => fetchMoreSearchResults()}
+                                        disabled={isFetchingMoreSearchResults}
+                                        className="w-full py-3 text-ubc-blue rounded-xl font-bold hover:bg-blue-50 transition disabled:opacity-50"
+                                    >
+                                        {isFetchingMoreSearchResults
+                                            ? <i className="fas fa-spinner fa-spin"></i>
+                                            : t.disc_search_more}
+                                    </button>
+                                )}
                             </div>
                         )}
                     </div>
@@ -137,95 +247,179 @@ export const DiscoveryView: React.FC = () => {
                                     </div>
                                     <h3 className="text-xl font-bold text-gray-700">{t.disc_no_new}</h3>
                                     <p className="text-gray-500 mt-2">{t.disc_check_later}</p>
-                                    <button onClick={() => fetchMatches()} className="mt-6 w-full py-3 bg-ubc-blue text-white rounded-xl font-bold shadow hover:bg-ubc-blue/90 transition">
+                                    <button onClick={() => hasMoreMatches ? fetchMoreMatches() : fetchMatches()} className="mt-6 w-full py-3 bg-ubc-blue text-white rounded-xl font-bold shadow hover:bg-ubc-blue/90 transition">
                                         {t.disc_refresh}
                                     </button>
+                                    {swipeHistory.length > 0 && (
+                                        <button onClick={() => undoSwipe()} className="mt-3 w-full py-3 text-ubc-blue rounded-xl font-bold hover:bg-blue-50 transition flex items-center justify-center gap-2">
+                                            <i className="fas fa-undo"></i>
+                                            {t.disc_undo}
+                                        </button>
+                                    )}
                                 </div>
                             </div>
                         ) : (
-                            <div className="w-full max-w-md md:max-w-4xl bg-white rounded-3xl shadow-2xl overflow-hidden border border-gray-100 flex flex-col md:flex-row h-[80vh] md:h-[600px] relative transition-all duration-300">
-                                {/* Photo Section */}
-                                <div className="h-3/5 md:h-full md:w-1/2 bg-gray-200 relative">
-                                    <img 
-                                        src={activeCard.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(activeCard.displayName)}&background=0032A0&color=fff&size=512`} 
-                                        alt={activeCard.displayName}
-                                        className="w-full h-full object-cover"
-                                    />
-                                    <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent md:bg-gradient-to-r md:from-transparent md:to-black/10"></div>
-                                    
-                                    <div className="absolute bottom-0 left-0 w-full p-6 text-white md:hidden">
-                                        <Link to={`/user/${activeCard.uid}`} className="text-3xl font-bold shadow-black drop-shadow-md hover:underline decoration-2 underline-offset-4 decoration-ubc-gold">
-                                            {activeCard.displayName}
-                                        </Link>
-                                        <p className="text-lg opacity-90 drop-shadow-md">{activeCard.major}</p>
+                            <div className="w-full max-w-md md:max-w-4xl h-[80vh] md:h-[600px] relative">
+                                {/* Next Card Preview */}
+                                {nextCard && (
+                                    <div 
+                                        aria-hidden="true"
+                                        className="absolute inset-0 bg-white rounded-3xl shadow-lg overflow-hidden border border-gray-100 flex flex-col md:flex-row"
+                                        style={{
+                                            transform: `scale(${0.94 + 0.06 * Math.abs(swipe.progress)}) translateY(${12 * (1 - Math.abs(swipe.progress))}px)`,
+                                            transition: swipe.isDragging ? 'none' : 'transform 250ms ease-out'
+                                        }}
+                                    >
+                                        <div className="h-3/5 md:h-full md:w-1/2 bg-gray-200">
+                                            <img 
+                                                src={nextCard.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(nextCard.displayName)}&background=0032A0&color=fff&size=512`} 
+                                                alt=""
+                                                draggable={false}
+                                                className="w-full h-full object-cover"
+                                            />
+                                        </div>
+                                        <div className="flex-1 p-6 md:p-8">
+                                            <p className="text-3xl font-bold text-gray-900">{nextCard.displayName}</p>
+                                            <p className="text-xl text-ubc-blue font-medium">{nextCard.major}</p>
+                                        </div>
                                     </div>
-                                </div>
+                                )}
 
-                                {/* Details Section */}
-                                <div className="flex-1 flex flex-col p-6 md:p-8 bg-white relative">
-                                    <div className="hidden md:block mb-6 border-b border-gray-100 pb-4">
-                                        <Link to={`/user/${activeCard.uid}`} className="text-3xl font-bold text-gray-900 hover:text-ubc-blue hover:underline decoration-4 underline-offset-4 decoration-ubc-gold transition-all">
-                                            {activeCard.displayName}
-                                        </Link>
-                                        <p className="text-xl text-ubc-blue font-medium">{activeCard.major}</p>
-                                    </div>
+                                <div 
+                                    key={activeCard.uid}
+                                    {...swipe.bind}
+                                    style={swipe.style}
+                                    className="absolute inset-0 bg-white rounded-3xl shadow-2xl overflow-hidden border border-gray-100 flex flex-col md:flex-row select-none"
+                                >
+                                    {/* Photo Section */}
+                                    <div className="h-3/5 md:h-full md:w-1/2 bg-gray-200 relative">
+                                        <img 
+                                            src={activeCard.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(activeCard.displayName)}&background=0032A0&color=fff&size=512`} 
+                                            alt={activeCard.displayName}
+                                            draggable={false}
+                                            className="w-full h-full object-cover"
+                                        />
+                                        <div className="absolute inset-0 bg-gradient-to-t from-black/70 via-transparent to-transparent md:bg-gradient-to-r md:from-transparent md:to-black/10"></div>
 
-                                    <div className="flex-1 overflow-y-auto space-y-6">
-                                        {activeCard.bio && (
-                                             <div className="text-gray-600 italic">
-                                                "{activeCard.bio}"
-                                            </div>
-                                        )}
+                                        {/* Swipe Direction Badges */}
+                                        <div 
+                                            className="absolute top-6 left-6 w-16 h-16 rounded-full border-4 border-green-400 text-green-400 bg-white/80 flex items-center justify-center text-3xl -rotate-12 pointer-events-none"
+                                            style={{ opacity: Math.max(0, swipe.progress) }}
+                                        >
+                                            <i className="fas fa-heart"></i>
+                                        </div>
+                                        <div 
+                                            className="absolute top-6 right-6 w-16 h-16 rounded-full border-4 border-red-400 text-red-400 bg-white/80 flex items-center justify-center text-3xl rotate-12 pointer-events-none"
+                                            style={{ opacity: Math.max(0, -swipe.progress) }}
+                                        >
+                                            <i className="fas fa-times"></i>
+                                        </div>
+                                    
+                                        <div className="absolute bottom-0 left-0 w-full p-6 text-white md:hidden">
+                                            <Link to={`/user/${activeCard.uid}`} className="text-3xl font-bold shadow-black drop-shadow-md hover:underline decoration-2 underline-offset-4 decoration-ubc-gold">
+                                                {activeCard.displayName}
+                                            </Link>
+                                            <p className="text-lg opacity-90 drop-shadow-md">{activeCard.major}</p>
+                                        </div>
+                                    </div>
 
-                                        {activeCard.homeRegion && (
-                                            <div className="flex items-center text-gray-600 bg-gray-50 p-3 rounded-lg">
-                                                <i className="fas fa-map-marker-alt w-8 text-center text-ubc-gold text-lg"></i>
-                                                <span className="font-medium">{activeCard.homeRegion}</span>
-                                            </div>
-                                        )}
-                                        
-                                        <div>
-                                            <h4 className="text-xs font-bold text-gray-400 uppercase mb-3 tracking-wider">{t.disc_common}</h4>
-                                            <div className="flex flex-wrap gap-2">
-                                                {activeCard.commonInterests.map(interest => (
-                                                    <span key={interest} className="bg-blue-50 text-ubc-blue px-4 py-2 rounded-full text-sm font-bold border border-blue-100">
-                                                        {interest}
-                                                    </span>
-                                                ))}
-                                                {activeCard.commonInterests.length === 0 && <p className="text-sm text-gray-400 italic">{t.disc_common_none}</p>}
-                                            </div>
+                                    {/* Details Section */}
+                                    <div className="flex-1 flex flex-col p-6 md:p-8 bg-white relative">
+                                        <div className="absolute top-4 right-4 z-10">
+                                            <UserSafetyMenu targetUid={activeCard.uid} displayName={activeCard.displayName} />
+                                        </div>
+                                        <div className="hidden md:block mb-6 border-b border-gray-100 pb-4">
+                                            <Link to={`/user/${activeCard.uid}`} className="text-3xl font-bold text-gray-900 hover:text-ubc-blue hover:underline decoration-4 underline-offset-4 decoration-ubc-gold transition-all">
+                                                {activeCard.displayName}
+                                            </Link>
+                                            <p className="text-xl text-ubc-blue font-medium">{activeCard.major}</p>
                                         </div>
 
-                                        {activeCard.languages && activeCard.languages.length > 0 && (
+                                        <div className="flex-1 overflow-y-auto space-y-6">
+                                            {activeCard.bio && (
+                                                 <div className="text-gray-600 italic">
+                                                    "{activeCard.bio}"
+                                                </div>
+                                            )}
+
+                                            {activeCard.homeRegion && (
+                                                <div className="flex items-center text-gray-600 bg-gray-50 p-3 rounded-lg">
+                                                    <i className="fas fa-map-marker-alt w-8 text-center text-ubc-gold text-lg"></i>
+                                                    <span className="font-medium">{activeCard.homeRegion}</span>
+                                                </div>
+                                            )}
+                                        
                                             <div>
-                                                <h4 className="text-xs font-bold text-gray-400 uppercase mb-3 tracking-wider">{t.disc_langs}</h4>
+                                                <h4 className="text-xs font-bold text-gray-400 uppercase mb-3 tracking-wider">{t.disc_common}</h4>
                                                 <div className="flex flex-wrap gap-2">
-                                                    {activeCard.languages.map(lang => (
-                                                        <span key={lang} className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm font-medium">
-                                                            {lang}
+                                                    {activeCard.commonInterests.map(interest => (
+                                                        <span key={interest} className="bg-blue-50 text-ubc-blue px-4 py-2 rounded-full text-sm font-bold border border-blue-100">
+                                                            {interest}
                                                         </span>
                                                     ))}
+                                                    {activeCard.commonInterests.length === 0 && <p className="text-sm text-gray-400 italic">{t.disc_common_none}</p>}
                                                 </div>
                                             </div>
-                                        )}
-                                    </div>
 
-                                    <div className="mt-6 pt-4 border-t border-gray-100 flex items-center justify-center gap-8 md:justify-around">
-                                        <button 
-                                            onClick={() => handleSwipe(activeCard.uid, 'DISMISS')}
-                                            className="w-16 h-16 rounded-full bg-white shadow-lg text-gray-400 text-3xl hover:bg-red-50 hover:text-red-500 hover:scale-110 transition-all border border-gray-200 flex items-center justify-center group"
-                                            aria-label="Dismiss"
-                                        >
-                                            <i className="fas fa-times group-hover:rotate-90 transition-transform duration-300"></i>
-                                        </button>
+                                            {activeCard.languages && activeCard.languages.length > 0 && (
+                                                <div>
+                                                    <h4 className="text-xs font-bold text-gray-400 uppercase mb-3 tracking-wider">{t.disc_langs}</h4>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {activeCard.languages.map(lang => (
+                                                            <span key={lang} className="bg-gray-100 text-gray-700 px-3 py-1 rounded-full text-sm font-medium">
+                                                                {lang}
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
 
-                                        <button 
-                                            onClick={() => handleSwipe(activeCard.uid, 'CONNECT')}
-                                            className="w-20 h-20 rounded-full bg-ubc-blue shadow-xl shadow-ubc-blue/30 text-white text-4xl hover:bg-ubc-blue/90 hover:scale-110 transition-all flex items-center justify-center"
-                                            aria-label="Connect"
-                                        >
-                                            <i className="fas fa-heart animate-pulse"></i>
-                                        </button>
+                                            {whyMatched.length > 0 && (
+                                                <div>
+                                                    <h4 className="text-xs font-bold text-gray-400 uppercase mb-3 tracking-wider">{t.disc_why_title}</h4>
+                                                    <ul className="space-y-2">
+                                                        {whyMatched.map(f => (
+                                                            <li key={f.factor} className="flex items-start gap-3 text-sm text-gray-600">
+                                                                <i className={`fas ${FACTOR_ICONS[f.factor]} w-5 text-center text-ubc-gold mt-0.5`}></i>
+                                                                <span>
+                                                                    <span className="font-bold text-gray-700">{t[FACTOR_LABELS[f.factor]]}</span>
+                                                                    {f.matches.length > 0 && <span className="text-gray-500">: {f.matches.join(', ')}</span>}
+                                                                </span>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            )}
+                                        </div>
+
+                                        <div className="mt-6 pt-4 border-t border-gray-100 flex items-center justify-center gap-8 md:justify-around">
+                                            <button 
+                                                onClick={() => undoSwipe()}
+                                                disabled={swipeHistory.length === 0}
+                                                className="w-12 h-12 rounded-full bg-white shadow text-ubc-gold text-xl hover:bg-yellow-50 hover:scale-110 transition-all border border-gray-200 flex items-center justify-center disabled:opacity-40 disabled:hover:scale-100 disabled:cursor-not-allowed"
+                                                aria-label={t.disc_undo}
+                                                title={t.disc_undo}
+                                            >
+                                                <i className="fas fa-undo"></i>
+                                            </button>
+
+                                            <button 
+                                                onClick={() => flyOut('left')}
+                                                className="w-16 h-16 rounded-full bg-white shadow-lg text-gray-400 text-3xl hover:bg-red-50 hover:text-red-500 hover:scale-110 transition-all border border-gray-200 flex items-center justify-center group"
+                                                aria-label="Dismiss"
+                                            >
+                                                <i className="fas fa-times group-hover:rotate-90 transition-transform duration-300"></i>
+                                            </button>
+
+                                            <button 
+                                                onClick={() => flyOut('right')}
+                                                className="w-20 h-20 rounded-full bg-ubc-blue shadow-xl shadow-ubc-blue/30 text-white text-4xl hover:bg-ubc-blue/90 hover:scale-110 transition-all flex items-center justify-center"
+                                                aria-label="Connect"
+                                            >
+                                                <i className="fas fa-heart animate-pulse"></i>
+                                            </button>
+                                        </div>
+                                        <p className="hidden md:block mt-3 text-center text-xs text-gray-400">{t.disc_shortcuts}</p>
                                     </div>
                                 </div>
                             </div>
@@ -6,13 +6,14 @@ import { DataRepository } from '../services/dataRepository';
 import { UserModel, MatchProfileModel } from '../types';
 import { useAppStore } from '../store/useAppStore';
 import { TRANSLATIONS } from '../utils/translations';
+import { UserSafetyMenu } from '../components/UserSafetyMenu';
 
 /*
  * PublicProfileView
  * 
  * Abstraction Function:
  * Renders a read-only profile view of another user.
- * Allows 'Add Friend' (Connect) or 'Pass'.
+ * Allows 'Add Friend' (Connect) or 'Pass', plus Report/Block.
  */
 export const PublicProfileView: React.FC = () => {
     const { uid } = useParams<{ uid: string }>();
@@ -91,13 +92,23 @@ export const PublicProfileView: React.FC = () => {
                             </div>
                             
                             {/* Action Buttons */}
-                            <button 
-                                onClick={handleConnect}
-                                className="mb-2 px-6 py-2.5 bg-ubc-blue text-white font-bold rounded-xl hover:bg-ubc-blue/90 shadow-lg shadow-ubc-blue/20 transition-transform active:scale-95 flex items-center gap-2"
-                            >
-                                <i className="fas fa-user-plus"></i>
-                                {t.public_connect}
-                            </button>
+                            <div className="mb-2 flex items-center gap-2">
+                                <button 
+                                    onClick={handleConnect}
+                                    className="px-6 py-2.5 bg-ubc-blue text-white font-bold rounded-xl hover:bg-ubc-blue/90 shadow-lg shadow-ubc-blue/20 transition-transform active:scale-95 flex items-center gap-2"
+                                >
+                                    <i className="fas fa-user-plus"></i>
+                                    {t.public_connect}
+                                </button>
+                                {uid && (
+                                    <UserSafetyMenu
+                                        targetUid={uid}
+                                        displayName={profile.displayName}
+                                        onBlocked={() => navigate('/')}
+                                        buttonClassName="w-11 h-11 rounded-xl border border-gray-200 text-gray-500 hover:text-gray-700 hover:bg-gray-50 flex items-center justify-center transition"
+                                    />
+                                )}
+                            </div>
                         </div>
 
                         <div>
@@ -6,7 +6,7 @@ import { Language, NotificationSettings } from '../types';
 import { TRANSLATIONS } from '../utils/translations';
 
 export const SettingsView: React.FC = () => {
-    const { currentUser, updateUserProfile, uiLanguage, setUiLanguage } = useAppStore();
+    const { currentUser, updateUserProfile, uiLanguage, setUiLanguage, blockedUsers, fetchBlockedUsers, unblockUser } = useAppStore();
     const t = TRANSLATIONS[uiLanguage];
     
     // UI for Language Dropdown
@@ -61,6 +61,10 @@ export const SettingsView: React.FC = () => {
         updateUserProfile({ isSearchable: !isSearchable });
     };
 
+    useEffect(() => {
+        fetchBlockedUsers();
+    }, [fetchBlockedUsers]);
+
     // Close dropdown when clicking outside
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -140,6 +144,37 @@ export const SettingsView: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Blocked Users Section */}
+                <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6 mb-6">
+                    <h3 className="text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+                        <i className="fas fa-ban text-ubc-blue"></i>
+                        {t.settings_blocked}
+                    </h3>
+
+                    {blockedUsers.length === 0 ? (
+                        <p className="text-sm text-gray-400">{t.settings_blocked_none}</p>
+                    ) : (
+                        <div className="divide-y divide-gray-100">
+                            {blockedUsers.map(blocked => (
+                                <div key={blocked.uid} className="flex items-center gap-3 py-3">
+                                    <img
+                                        src={blocked.photoUrl || `https://ui-avatars.com/api/?name=${encodeURIComponent(blocked.displayName)}`}
+                                        alt={blocked.displayName}
+                                        className="w-10 h-10 rounded-full object-cover bg-gray-100"
+                                    />
+                                    <span className="flex-1 font-medium text-gray-700 truncate">{blocked.displayName}</span>
+                                    <button
+                                        onClick={() => unblockUser(blocked.uid)}
+                                        className="px-4 py-1.5 text-sm font-bold text-ubc-blue rounded-lg border border-ubc-blue/30 hover:bg-blue-50 transition"
+                                    >
+                                        {t.settings_unblock}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
                 {/* Notifications Section */}
                 <div className="bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
                     <h3 className="text-lg font-bold text-gray-800 mb-6 flex items-center gap-2">